@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactStrictMode: false,
+  // Local mode's embedded Postgres loads its WebAssembly and data files from node_modules
+  serverExternalPackages: ["@electric-sql/pglite", "@electric-sql/pglite-pgvector"],
   // Note: Header size limits are typically controlled by the deployment platform
   // (Vercel, Node.js server, etc.). We use cookie-based auth to avoid 431 errors
   // by reducing Authorization header size. The verifyUser function checks cookies first.
@@ -0,0 +1,95 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { isLocalMode } from "@/lib/local-mode";
+import {
+  getLocalSession,
+  LOCAL_SESSION_COOKIE,
+  LOCAL_SESSION_TTL_SECONDS,
+  LocalAuthError,
+  revokeLocalSession,
+  signInLocalUser,
+} from "@/lib/supabase/local/auth";
+
+function notFound() {
+  return NextResponse.json({ error: "Not found" }, { status: 404 });
+}
+
+// GET /api/auth/local - Get the current local-mode session
+export async function GET(request: NextRequest) {
+  if (!isLocalMode()) {
+    return notFound();
+  }
+
+  try {
+    const token = request.cookies.get(LOCAL_SESSION_COOKIE)?.value;
+    const session = token ? await getLocalSession(token) : null;
+    return NextResponse.json({ session });
+  } catch (error: any) {
+    console.error(`[API] Server error fetching local session: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while fetching session" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/local - Sign in with email and password (local mode)
+export async function POST(request: NextRequest) {
+  if (!isLocalMode()) {
+    return notFound();
+  }
+
+  try {
+    const { email, password } = await request.json();
+
+    if (typeof email !== "string" || typeof password !== "string") {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const session = await signInLocalUser(email, password);
+    const response = NextResponse.json({ session });
+    response.cookies.set(LOCAL_SESSION_COOKIE, session.access_token, {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+      maxAge: LOCAL_SESSION_TTL_SECONDS,
+    });
+    return response;
+  } catch (error: any) {
+    if (error instanceof LocalAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[API] Server error during local sign in: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error during sign in" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/auth/local - Sign out (local mode)
+export async function DELETE(request: NextRequest) {
+  if (!isLocalMode()) {
+    return notFound();
+  }
+
+  try {
+    const token = request.cookies.get(LOCAL_SESSION_COOKIE)?.value;
+    if (token) {
+      await revokeLocalSession(token);
+    }
+
+    const response = NextResponse.json({ message: "Signed out" });
+    response.cookies.delete(LOCAL_SESSION_COOKIE);
+    return response;
+  } catch (error: any) {
+    console.error(`[API] Server error during local sign out: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error during sign out" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { processIndexJobs } from "@/lib/jobs/index-worker";
+
+// Indexing a large repository takes minutes; stop claiming jobs well before the limit
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+// POST /api/cron/index-jobs - Run queued repository indexing jobs (called by a scheduler)
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error("[API] CRON_SECRET is not configured");
+      return NextResponse.json(
+        { error: "Index worker is not configured" },
+        { status: 500 }
+      );
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await processIndexJobs({
+      timeBudgetMs: (maxDuration - 60) * 1000,
+    });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error(`[API] Server error running index jobs: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while running index jobs" },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/cron/index-jobs - Same as POST, for schedulers that only send GET (e.g. Vercel Cron)
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
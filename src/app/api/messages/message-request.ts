@@ -0,0 +1,207 @@
+/**
+ * Shared steps of the message routes (/api/messages and /api/messages/stream)
+ * Both validate the request, store the user's message and build the same
+ * repository query; they only differ in how the answer is delivered.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUser } from "@/lib/auth/verify";
+import * as dbChats from "@/lib/db/chats";
+import * as dbMessages from "@/lib/db/messages";
+import * as dbRepos from "@/lib/db/repositories";
+import { getGitHubToken } from "@/lib/db/github-credentials";
+import { getRepositoryArchive } from "@/lib/db/repository-archives";
+import type { Message, Repository } from "@/lib/db/models";
+import {
+  AnswerMode,
+  createRAGClient,
+  isAnswerMode,
+  QueryRepositoryOptions,
+} from "@/lib/rag/query";
+import { createRepositorySource } from "@/lib/rag/repository-source";
+import { getChatModelConfigFromEnv } from "@/lib/ai/chat-model-provider";
+import { getEmbeddingConfigFromEnv } from "@/lib/rag/embeddings";
+import { getRerankConfigFromEnv } from "@/lib/rag/reranker";
+import { generateChatTitle } from "@/lib/utils/chat-title";
+import { isLocalMode } from "@/lib/local-mode";
+
+export interface MessageRequest {
+  userId: string;
+  chat: dbChats.Chat;
+  repository: Repository;
+  content: string;
+  mode?: AnswerMode;
+  userMessage: Message;
+  /** The chat with its new title, when this was its first message */
+  updatedChat: dbChats.Chat | null;
+  /** Earlier messages, including the new one */
+  chatHistory: Array<{ role: "user" | "assistant"; content: string }>;
+}
+
+export type AssistantAnswer = Pick<
+  Message,
+  "content" | "citations" | "rewrittenQuery" | "toolCalls"
+>;
+
+/**
+ * Validate a message request and store the user's message
+ * @returns The request's chat, repository and history, or the error response to send
+ */
+export async function prepareMessageRequest(
+  request: NextRequest
+): Promise<MessageRequest | NextResponse> {
+  const user = await verifyUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { chatId, content, mode } = await request.json();
+
+  if (!content) {
+    return NextResponse.json(
+      { error: "Message content is required" },
+      { status: 400 }
+    );
+  }
+
+  if (mode !== undefined && !isAnswerMode(mode)) {
+    return NextResponse.json(
+      { error: 'mode must be "retrieval" or "agent"' },
+      { status: 400 }
+    );
+  }
+
+  const chat = await dbChats.getChat(chatId);
+  if (!chat || chat.userId !== user.id) {
+    return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+  }
+
+  const repository = await dbRepos.getRepository(chat.repoId);
+  if (!repository) {
+    return NextResponse.json(
+      { error: "Repository not found" },
+      { status: 404 }
+    );
+  }
+
+  if (repository.status !== "ready") {
+    return NextResponse.json(
+      { error: "Repository is still being analyzed" },
+      { status: 400 }
+    );
+  }
+
+  // Check if this is the first message (chat has zero messages)
+  const messageCount = await dbMessages.getMessageCount(chatId);
+  const isFirstMessage = messageCount === 0;
+
+  // Create user message
+  const userMessageId = `${chatId}:msg:${Date.now()}`;
+  const userMessage = await dbMessages.createMessage({
+    id: userMessageId,
+    chatId,
+    role: "user",
+    content,
+  });
+
+  // Generate and update chat title if this is the first message
+  let updatedChat: dbChats.Chat | null = null;
+  if (isFirstMessage) {
+    const newTitle = generateChatTitle(content);
+    updatedChat = await dbChats.updateChatTitle(chatId, newTitle);
+  }
+
+  // Get chat history for RAG context
+  const chatHistory = await dbMessages.getChatHistory(chatId, 10);
+
+  return {
+    userId: user.id,
+    chat,
+    repository,
+    content,
+    mode,
+    userMessage,
+    updatedChat,
+    chatHistory,
+  };
+}
+
+/**
+ * Create the RAG client and the query for a message, using the server's (or
+ * repository's) chat model
+ * Throws when the server is not configured; callers turn that into an answer
+ */
+export async function createMessageQuery(message: MessageRequest): Promise<{
+  ragClient: ReturnType<typeof createRAGClient>;
+  query: QueryRepositoryOptions;
+}> {
+  // Local mode uses the embedded database and needs neither
+  const supabaseUrl = process.env.SUPABASE_URL || "";
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+  const hfToken = process.env.HF_TOKEN;
+
+  if (!isLocalMode() && (!supabaseUrl || !supabaseKey)) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  const ragClient = createRAGClient({
+    supabaseUrl,
+    supabaseKey,
+    hfToken,
+    chatModel: getChatModelConfigFromEnv(),
+    embedding: getEmbeddingConfigFromEnv(),
+    rerank: getRerankConfigFromEnv(),
+  });
+
+  const { repository } = message;
+  // Agent mode reads files on demand from wherever the repository came from
+  const source =
+    message.mode === "agent"
+      ? createRepositorySource(repository, {
+          githubToken:
+            (await getGitHubToken(message.userId)) || process.env.GITHUB_TOKEN,
+          loadArchive: () => getRepositoryArchive(repository.id),
+        })
+      : undefined;
+
+  return {
+    ragClient,
+    query: {
+      repoId: message.chat.repoId,
+      question: message.content,
+      chatHistory: message.chatHistory,
+      chatModel: {
+        provider: repository.llmProvider,
+        model: repository.llmModel,
+      },
+      mode: message.mode,
+      source,
+    },
+  };
+}
+
+/**
+ * Store the assistant's answer and touch the chat
+ */
+export async function saveAssistantMessage(
+  message: MessageRequest,
+  answer: AssistantAnswer
+): Promise<Message> {
+  const chatId = message.chat.id;
+
+  // Create assistant message
+  const assistantMessageId = `${chatId}:msg:${Date.now() + 1}`;
+  const assistantMessage = await dbMessages.createMessage({
+    id: assistantMessageId,
+    chatId,
+    role: "assistant",
+    ...answer,
+  });
+
+  // Update chat's updatedAt timestamp (if title wasn't already updated)
+  if (!message.updatedChat) {
+    await dbChats.updateChatTimestamp(chatId);
+  }
+
+  return assistantMessage;
+}
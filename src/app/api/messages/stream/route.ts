@@ -0,0 +1,115 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { formatRagErrorResponse } from "@/lib/utils/rag-error";
+import {
+  AssistantAnswer,
+  createMessageQuery,
+  prepareMessageRequest,
+  saveAssistantMessage,
+} from "../message-request";
+
+// POST /api/messages/stream - Send a message and stream the AI response as Server-Sent Events
+export async function POST(request: NextRequest) {
+  try {
+    const message = await prepareMessageRequest(request);
+    if (message instanceof NextResponse) {
+      return message;
+    }
+    const chatId = message.chat.id;
+
+    const encoder = new TextEncoder();
+    // Set once the client disconnects (or the stream is closed); nothing is sent after that
+    let closed = false;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (closed) return;
+          try {
+            controller.enqueue(
+              encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+            );
+          } catch {
+            // enqueue throws once the client has gone away
+            closed = true;
+          }
+        };
+        const isDisconnected = () => closed || request.signal.aborted;
+
+        send("user", { userMessage: message.userMessage });
+
+        // Stream AI response using RAG with the server's (or repository's) chat model
+        let answer: AssistantAnswer = { content: "" };
+        try {
+          const { ragClient, query } = await createMessageQuery(message);
+          for await (const event of ragClient.streamRepositoryAnswer(query)) {
+            // Leaving the loop ends the generator, which stops the model call
+            if (isDisconnected()) break;
+            if (event.type === "status") {
+              send("status", { message: event.message });
+            } else if (event.type === "token") {
+              send("token", { delta: event.delta });
+            } else {
+              answer = {
+                content: event.content,
+                citations: event.citations,
+                rewrittenQuery: event.rewrittenQuery,
+                toolCalls: event.toolCalls,
+              };
+            }
+          }
+        } catch (error: any) {
+          console.error(`[RAG] Error streaming RAG response: ${error}`);
+          answer = {
+            content: formatRagErrorResponse(error, message.repository.llmProvider),
+          };
+        }
+
+        if (isDisconnected()) {
+          console.log(`[API] Client disconnected from ${chatId}; answer discarded`);
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the runtime
+          }
+          return;
+        }
+
+        try {
+          const assistantMessage = await saveAssistantMessage(message, answer);
+          send("done", {
+            userMessage: message.userMessage,
+            assistantMessage,
+            ...(message.updatedChat && { updatedChat: message.updatedChat }),
+          });
+        } catch (error: any) {
+          console.error(`[API] Server error saving streamed message: ${error}`);
+          send("error", { error: "Internal server error while saving message" });
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error: any) {
+    console.error(`[API] Server error streaming message: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while sending message" },
+      { status: 500 }
+    );
+  }
+}
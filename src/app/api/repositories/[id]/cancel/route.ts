@@ -0,0 +1,62 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUser } from "@/lib/auth/verify";
+import * as dbRepos from "@/lib/db/repositories";
+import * as dbJobs from "@/lib/db/index-jobs";
+import { finishCancelledIndexing } from "@/lib/jobs/index-worker";
+
+// POST /api/repositories/[id]/cancel - Stop the repository's queued or running analysis or sync
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: repoId } = await params;
+    const decodedRepoId = decodeURIComponent(repoId);
+    const repository = await dbRepos.getRepository(decodedRepoId);
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Repository not found" },
+        { status: 404 }
+      );
+    }
+
+    if (repository.status !== "processing") {
+      return NextResponse.json(
+        { error: "Repository is not being analyzed" },
+        { status: 400 }
+      );
+    }
+
+    const cancellation = await dbJobs.cancelIndexJob(decodedRepoId);
+
+    // A queued job (or a processing repository without a job) can be settled
+    // now; a running job stops at the worker's next cancellation check
+    if (!cancellation || cancellation.immediate) {
+      console.log(`[API] Cancelled indexing of ${decodedRepoId}`);
+      await finishCancelledIndexing(decodedRepoId);
+      const updated = await dbRepos.getRepository(decodedRepoId);
+      return NextResponse.json({
+        repository: { ...updated, indexJob: cancellation?.job },
+      });
+    }
+
+    console.log(`[API] Requested cancellation of indexing for ${decodedRepoId}`);
+    return NextResponse.json(
+      { repository: { ...repository, indexJob: cancellation.job } },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error(`[API] Server error cancelling repository analysis: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while cancelling analysis" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUser } from "@/lib/auth/verify";
+import * as dbRepos from "@/lib/db/repositories";
+import * as dbJobs from "@/lib/db/index-jobs";
+
+// The stream closes itself before the limit; EventSource reconnects automatically
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 1000;
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+// GET /api/repositories/[id]/progress - Stream indexing progress as Server-Sent Events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: repoId } = await params;
+    const decodedRepoId = decodeURIComponent(repoId);
+    const repository = await dbRepos.getRepository(decodedRepoId);
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Repository not found" },
+        { status: 404 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+        };
+
+        const startedAt = Date.now();
+        let lastSentAt = 0;
+        let lastSnapshot = "";
+
+        try {
+          while (
+            !request.signal.aborted &&
+            Date.now() - startedAt < (maxDuration - 10) * 1000
+          ) {
+            const current = await dbRepos.getRepository(decodedRepoId);
+            if (!current) {
+              send("error", { error: "Repository not found" });
+              break;
+            }
+
+            const indexJob = await dbJobs.getActiveIndexJob(current.id);
+
+            if (current.status !== "processing") {
+              const indexJobs = await dbJobs.getLatestIndexJobs([current.id]);
+              send("done", {
+                repository: { ...current, indexJob: indexJobs.get(current.id) },
+              });
+              break;
+            }
+
+            // Only send when something the client shows has changed
+            const snapshot = JSON.stringify([
+              current.progress?.updatedAt,
+              indexJob?.status,
+              indexJob?.attempts,
+              indexJob?.cancelRequestedAt,
+            ]);
+            if (snapshot !== lastSnapshot) {
+              send("progress", {
+                status: current.status,
+                progress: current.progress,
+                indexJob: indexJob || undefined,
+              });
+              lastSnapshot = snapshot;
+              lastSentAt = Date.now();
+            } else if (Date.now() - lastSentAt >= KEEP_ALIVE_INTERVAL_MS) {
+              controller.enqueue(encoder.encode(`: keep-alive\n\n`));
+              lastSentAt = Date.now();
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+          }
+        } catch (error: any) {
+          console.error(`[API] Error streaming progress for ${decodedRepoId}: ${error}`);
+          if (!request.signal.aborted) {
+            send("error", { error: "Internal server error while streaming progress" });
+          }
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a client disconnect
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error: any) {
+    console.error(`[API] Server error streaming progress: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while streaming progress" },
+      { status: 500 }
+    );
+  }
+}
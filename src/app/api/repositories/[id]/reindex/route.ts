@@ -0,0 +1,60 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUser } from "@/lib/auth/verify";
+import * as dbRepos from "@/lib/db/repositories";
+import * as dbJobs from "@/lib/db/index-jobs";
+
+// POST /api/repositories/[id]/reindex - Queue a full re-analysis, keeping the repository's chats
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: repoId } = await params;
+    const decodedRepoId = decodeURIComponent(repoId);
+    const repository = await dbRepos.getRepository(decodedRepoId);
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Repository not found" },
+        { status: 404 }
+      );
+    }
+
+    if (repository.status === "processing") {
+      return NextResponse.json(
+        { error: "Repository is still being analyzed" },
+        { status: 400 }
+      );
+    }
+
+    // Clear any previous error while the analysis runs
+    await dbRepos.updateRepositoryStatus(decodedRepoId, "processing", "");
+
+    // A full embed replaces the index in place; chats and messages are untouched
+    const indexJob = await dbJobs.enqueueIndexJob(decodedRepoId, user.id, "embed");
+
+    return NextResponse.json(
+      {
+        repository: {
+          ...repository,
+          status: "processing",
+          error: undefined,
+          indexJob,
+        },
+      },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error(`[API] Server error re-indexing repository: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while re-indexing repository" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyUser } from "@/lib/auth/verify";
 import * as dbRepos from "@/lib/db/repositories";
+import * as dbJobs from "@/lib/db/index-jobs";
+import { deleteRepositoryArchive } from "@/lib/db/repository-archives";
 import { createRAGClient } from "@/lib/rag/query";
+import { validatePatternList } from "@/lib/rag/ignore-rules";
+import {
+  CHAT_MODEL_PROVIDERS,
+  isChatModelProvider,
+} from "@/lib/ai/chat-model-provider";
 
 // GET /api/repositories/[id] - Get a specific repository
 export async function GET(
@@ -31,7 +38,11 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ repository });
+    const indexJobs = await dbJobs.getLatestIndexJobs([repository.id]);
+
+    return NextResponse.json({
+      repository: { ...repository, indexJob: indexJobs.get(repository.id) },
+    });
   } catch (error: any) {
     console.error(`[API] Server error fetching repository: ${error}`);
     return NextResponse.json(
@@ -41,6 +52,111 @@ export async function GET(
   }
 }
 
+// PATCH /api/repositories/[id] - Update the include/exclude globs used for indexing
+// and the chat model used for answers
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: repoId } = await params;
+    const decodedRepoId = decodeURIComponent(repoId);
+    const repository = await dbRepos.getRepository(decodedRepoId);
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Repository not found" },
+        { status: 404 }
+      );
+    }
+
+    const { includePatterns, excludePatterns, llmProvider, llmModel } =
+      await request.json();
+
+    const updatesPathRules =
+      includePatterns !== undefined || excludePatterns !== undefined;
+    const updatesChatModel = llmProvider !== undefined || llmModel !== undefined;
+
+    if (!updatesPathRules && !updatesChatModel) {
+      return NextResponse.json(
+        {
+          error:
+            "includePatterns, excludePatterns, llmProvider or llmModel is required",
+        },
+        { status: 400 }
+      );
+    }
+
+    // null resets the provider or model to the server default
+    if (
+      llmProvider !== undefined &&
+      llmProvider !== null &&
+      !isChatModelProvider(llmProvider)
+    ) {
+      return NextResponse.json(
+        {
+          error: `llmProvider must be one of: ${CHAT_MODEL_PROVIDERS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      llmModel !== undefined &&
+      llmModel !== null &&
+      (typeof llmModel !== "string" || !/^[\w.:/-]{1,200}$/.test(llmModel.trim()))
+    ) {
+      return NextResponse.json(
+        { error: "llmModel must be a model name such as gemini-2.5-flash" },
+        { status: 400 }
+      );
+    }
+
+    for (const [field, value] of [
+      ["includePatterns", includePatterns],
+      ["excludePatterns", excludePatterns],
+    ]) {
+      if (value === undefined) continue;
+      const validationError = validatePatternList(value);
+      if (validationError) {
+        return NextResponse.json(
+          { error: `${field} ${validationError}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    let updated = repository;
+
+    if (updatesPathRules) {
+      updated = await dbRepos.updateRepositoryPathRules(decodedRepoId, {
+        includePatterns: includePatterns?.map((p: string) => p.trim()),
+        excludePatterns: excludePatterns?.map((p: string) => p.trim()),
+      });
+    }
+
+    if (updatesChatModel) {
+      updated = await dbRepos.updateRepositoryChatModel(decodedRepoId, {
+        llmProvider,
+        llmModel: typeof llmModel === "string" ? llmModel.trim() : llmModel,
+      });
+    }
+
+    return NextResponse.json({ repository: updated });
+  } catch (error: any) {
+    console.error(`[API] Server error updating repository: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while updating repository" },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/repositories/[id] - Delete a repository
 export async function DELETE(
   request: NextRequest,
@@ -62,6 +178,11 @@ export async function DELETE(
       );
     }
 
+    // The uploaded archive's file is not covered by the cascade below
+    if (repository.sourceType === "archive") {
+      await deleteRepositoryArchive(repoId);
+    }
+
     // Delete repository (cascades to chats, messages, and embeddings via foreign keys)
     await dbRepos.deleteRepository(repoId);
 
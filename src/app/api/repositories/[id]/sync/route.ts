@@ -0,0 +1,88 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUser } from "@/lib/auth/verify";
+import * as dbRepos from "@/lib/db/repositories";
+import * as dbJobs from "@/lib/db/index-jobs";
+import { getGitHubToken } from "@/lib/db/github-credentials";
+import { getRepositoryArchive } from "@/lib/db/repository-archives";
+import {
+  createRepositorySource,
+  getAccessErrorStatus,
+} from "@/lib/rag/repository-source";
+
+// POST /api/repositories/[id]/sync - Queue a re-index of files changed upstream since the last analysis
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: repoId } = await params;
+    const decodedRepoId = decodeURIComponent(repoId);
+    const repository = await dbRepos.getRepository(decodedRepoId);
+
+    if (!repository || repository.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Repository not found" },
+        { status: 404 }
+      );
+    }
+
+    if (repository.status === "processing") {
+      return NextResponse.json(
+        { error: "Repository is still being analyzed" },
+        { status: 400 }
+      );
+    }
+
+    const githubToken =
+      (await getGitHubToken(user.id)) || process.env.GITHUB_TOKEN;
+
+    // Fail fast on a rejected token or a repository that can no longer be read
+    try {
+      await createRepositorySource(repository, {
+        githubToken,
+        loadArchive: () => getRepositoryArchive(repository.id),
+      }).checkAccess();
+    } catch (error) {
+      const status = getAccessErrorStatus(error);
+      if (status) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status }
+        );
+      }
+      console.warn(
+        `[API] Could not check access to ${repository.owner}/${repository.name}: ${error}`
+      );
+    }
+
+    // Clear any previous error while the sync runs
+    await dbRepos.updateRepositoryStatus(decodedRepoId, "processing", "");
+
+    // Queue the sync; the index worker picks it up
+    const indexJob = await dbJobs.enqueueIndexJob(decodedRepoId, user.id, "sync");
+
+    return NextResponse.json(
+      {
+        repository: {
+          ...repository,
+          status: "processing",
+          error: undefined,
+          indexJob,
+        },
+      },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error(`[API] Server error syncing repository: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while syncing repository" },
+      { status: 500 }
+    );
+  }
+}
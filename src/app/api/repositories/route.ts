@@ -1,8 +1,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import path from "path";
 import { NextRequest, NextResponse } from "next/server";
 import { verifyUser } from "@/lib/auth/verify";
 import * as dbRepos from "@/lib/db/repositories";
-import { createRAGClient } from "@/lib/rag/query";
+import * as dbJobs from "@/lib/db/index-jobs";
+import { getGitHubToken } from "@/lib/db/github-credentials";
+import {
+  createRepositorySource,
+  getAccessErrorStatus,
+  isValidRef,
+  parseGitUrl,
+  RepositorySourceType,
+  resolveLocalSourcePath,
+} from "@/lib/rag/repository-source";
 
 // POST /api/repositories - Create a new repository
 export async function POST(request: NextRequest) {
@@ -12,32 +22,103 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { url } = await request.json();
+    const {
+      url,
+      path: localPath,
+      ref: requestedRef,
+    } = await request.json();
 
-    if (!url) {
+    if (!url && !localPath) {
       return NextResponse.json(
-        { error: "Repository URL is required" },
+        { error: "Repository URL or path is required" },
         { status: 400 }
       );
     }
 
-    // Validate GitHub URL
-    const githubUrlPattern =
-      /^https?:\/\/(www\.)?github\.com\/[\w-]+\/[\w.-]+\/?$/;
-    if (!githubUrlPattern.test(url)) {
+    if (
+      (url !== undefined && typeof url !== "string") ||
+      (localPath !== undefined && typeof localPath !== "string")
+    ) {
+      return NextResponse.json(
+        { error: "Repository URL and path must be strings" },
+        { status: 400 }
+      );
+    }
+
+    if (requestedRef !== undefined && typeof requestedRef !== "string") {
       return NextResponse.json(
-        { error: "Invalid GitHub repository URL" },
+        { error: "Ref must be a branch, tag or commit SHA" },
         { status: 400 }
       );
     }
 
-    // Extract owner and repo name
-    const urlParts = url.replace(/\/$/, "").split("/");
-    const owner = urlParts[urlParts.length - 2];
-    const repo = urlParts[urlParts.length - 1];
+    // GitHub URLs (optionally pointing at /tree/<ref>) use the GitHub API;
+    // other http(s) URLs are cloned and absolute paths are read on the server
+    const githubUrlPattern =
+      /^https?:\/\/(www\.)?github\.com\/([\w-]+)\/([\w.-]+?)(\.git)?(\/tree\/(.+?))?\/?$/;
+    let sourceType: RepositorySourceType;
+    let location: string;
+    let owner: string;
+    let repo: string;
+    let urlRef: string | undefined;
+
+    if (localPath) {
+      try {
+        location = await resolveLocalSourcePath(localPath.trim());
+      } catch (error) {
+        const status = getAccessErrorStatus(error);
+        if (status) {
+          return NextResponse.json(
+            { error: (error as Error).message },
+            { status }
+          );
+        }
+        throw error;
+      }
+      sourceType = "local";
+      owner = "local";
+      repo = path.basename(location);
+    } else {
+      location = url.trim();
+      const match = location.match(githubUrlPattern);
+      const gitUrl = match ? null : parseGitUrl(location);
+      if (match) {
+        sourceType = "github";
+        owner = match[2];
+        repo = match[3];
+        urlRef = match[6];
+      } else if (gitUrl) {
+        sourceType = "git";
+        owner = gitUrl.owner;
+        repo = gitUrl.name;
+      } else {
+        return NextResponse.json(
+          { error: "Invalid repository URL; use a GitHub or http(s) git URL" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // An explicit ref overrides the URL's
+    const ref = requestedRef?.trim() || urlRef || undefined;
+
+    if (ref && !isValidRef(ref)) {
+      return NextResponse.json(
+        { error: "Ref must be a branch, tag or commit SHA" },
+        { status: 400 }
+      );
+    }
 
     // Check if repository already exists for this user
-    const exists = await dbRepos.repositoryExistsForUser(user.id, owner, repo);
+    const exists =
+      sourceType === "github"
+        ? await dbRepos.repositoryExistsForUser(user.id, owner, repo, ref)
+        : await dbRepos.repositoryLocationExistsForUser(
+            user.id,
+            sourceType,
+            location,
+            ref
+          );
     if (exists) {
       return NextResponse.json(
         { error: "Repository already added" },
@@ -45,6 +126,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Prefer the user's own token so private repositories can be read
+    const githubToken =
+      (await getGitHubToken(user.id)) || process.env.GITHUB_TOKEN;
+
+    // Fail fast on a rejected token or a repository that cannot be read
+    try {
+      await createRepositorySource(
+        { sourceType, owner, name: repo, url: location },
+        { githubToken }
+      ).checkAccess();
+    } catch (error) {
+      const status = getAccessErrorStatus(error);
+      if (status) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status }
+        );
+      }
+      // Rate limits and network errors are reported by the background job
+      console.warn(`[API] Could not check access to ${owner}/${repo}: ${error}`);
+    }
+
     // Generate a clean repository ID using timestamp and random string
     const repoId = `repo_${Date.now()}_${Math.random()
       .toString(36)
@@ -54,69 +157,21 @@ export async function POST(request: NextRequest) {
     const repository = await dbRepos.createRepository({
       id: repoId,
       userId: user.id,
-      url,
+      sourceType,
+      url: location,
       owner,
       name: repo,
+      ref,
       status: "processing",
     });
 
-    // Start embedding process in background (non-blocking)
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-    const hfToken = process.env.HF_TOKEN;
-    const geminiApiKey = process.env.GOOGLE_AI_API_KEY;
-    const githubToken = process.env.GITHUB_TOKEN;
-
-    if (!supabaseUrl || !supabaseKey) {
-      console.error("[API] Missing Supabase environment variables");
-      await dbRepos.updateRepositoryStatus(
-        repoId,
-        "error",
-        "Missing Supabase configuration"
-      );
-    } else {
-      const ragClient = createRAGClient({
-        supabaseUrl,
-        supabaseKey,
-        hfToken,
-        geminiApiKey,
-        githubToken,
-      });
-
-      ragClient
-        .embedRepository({
-          repoId,
-          owner,
-          repo,
-          onProgress: (message) => {
-            console.log(`[RAG] ${repoId}: ${message}`);
-          },
-        })
-        .then(async () => {
-          // Get embedding count
-          const count = await ragClient.getEmbeddingCount(repoId);
-          
-          // Update repository status to ready
-          await dbRepos.updateRepositoryStatus(repoId, "ready", undefined, count);
-        })
-        .catch(async (error) => {
-          console.error(`[RAG] Error embedding repository ${repoId}:`, error);
-          // Sanitize error message for user display
-          let errorMessage = error instanceof Error ? error.message : "Unknown error";
-          // Replace technical terms with user-friendly messages
-          if (errorMessage.includes("embedding") || errorMessage.includes("Failed to generate")) {
-            errorMessage = "An error occurred while analyzing the repository.";
-          }
-          // Update repository status to error
-          await dbRepos.updateRepositoryStatus(
-            repoId,
-            "error",
-            errorMessage
-          );
-        });
-    }
+    // Queue the analysis; the index worker picks it up
+    const indexJob = await dbJobs.enqueueIndexJob(repoId, user.id, "embed");
 
-    return NextResponse.json({ repository }, { status: 201 });
+    return NextResponse.json(
+      { repository: { ...repository, indexJob } },
+      { status: 201 }
+    );
   } catch (error: any) {
     console.error(`[API] Server error creating repository: ${error}`);
     return NextResponse.json(
@@ -135,9 +190,15 @@ export async function GET(request: NextRequest) {
     }
 
     const repositories = await dbRepos.getUserRepositories(user.id);
+    const indexJobs = await dbJobs.getLatestIndexJobs(
+      repositories.map((repository) => repository.id)
+    );
 
     return NextResponse.json({
-      repositories,
+      repositories: repositories.map((repository) => ({
+        ...repository,
+        indexJob: indexJobs.get(repository.id),
+      })),
     });
   } catch (error: any) {
     console.error(`[API] Server error fetching repositories: ${error}`);
@@ -0,0 +1,107 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUser } from "@/lib/auth/verify";
+import * as dbRepos from "@/lib/db/repositories";
+import * as dbJobs from "@/lib/db/index-jobs";
+import { saveRepositoryArchive } from "@/lib/db/repository-archives";
+import {
+  getArchiveBaseName,
+  getArchiveFormat,
+  getMaxArchiveBytes,
+} from "@/lib/rag/archive";
+
+// POST /api/repositories/upload - Create a repository from an uploaded .zip or .tar.gz (multipart field "file")
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Reject oversized uploads before reading the body when the size is known
+    const maxBytes = getMaxArchiveBytes();
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > maxBytes + 64 * 1024) {
+      return NextResponse.json(
+        { error: `Archive is larger than ${Math.floor(maxBytes / 1024 / 1024)} MB` },
+        { status: 413 }
+      );
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        { error: "Expected a multipart form with a file field" },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Archive file is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!getArchiveFormat(file.name)) {
+      return NextResponse.json(
+        { error: "Archive must be a .zip, .tar.gz or .tgz file" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > maxBytes) {
+      return NextResponse.json(
+        { error: `Archive is larger than ${Math.floor(maxBytes / 1024 / 1024)} MB` },
+        { status: 413 }
+      );
+    }
+
+    const requestedName = formData.get("name");
+    const name =
+      (typeof requestedName === "string" && requestedName.trim()) ||
+      getArchiveBaseName(file.name);
+
+    // Generate a clean repository ID using timestamp and random string
+    const repoId = `repo_${Date.now()}_${Math.random()
+      .toString(36)
+      .substr(2, 9)}`;
+
+    const repository = await dbRepos.createRepository({
+      id: repoId,
+      userId: user.id,
+      sourceType: "archive",
+      url: file.name,
+      owner: "upload",
+      name,
+      status: "processing",
+    });
+
+    try {
+      await saveRepositoryArchive(repoId, {
+        fileName: file.name,
+        content: Buffer.from(await file.arrayBuffer()),
+      });
+    } catch (error) {
+      await dbRepos.deleteRepository(repoId).catch(() => {});
+      throw error;
+    }
+
+    // Queue the analysis; the index worker picks it up
+    const indexJob = await dbJobs.enqueueIndexJob(repoId, user.id, "embed");
+
+    return NextResponse.json(
+      { repository: { ...repository, indexJob } },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error(`[API] Server error uploading repository: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while uploading repository" },
+      { status: 500 }
+    );
+  }
+}
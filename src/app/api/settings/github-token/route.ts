@@ -0,0 +1,110 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { verifyUser } from "@/lib/auth/verify";
+import * as dbCredentials from "@/lib/db/github-credentials";
+import { GitHubApiError, verifyGitHubToken } from "@/lib/rag/github";
+
+// GET /api/settings/github-token - Get the stored GitHub token status (never the token)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const credential = await dbCredentials.getGitHubCredential(user.id);
+
+    return NextResponse.json({
+      githubToken: credential
+        ? {
+            tokenLast4: credential.tokenLast4,
+            githubLogin: credential.githubLogin,
+            updatedAt: credential.updatedAt,
+          }
+        : null,
+    });
+  } catch (error: any) {
+    console.error(`[API] Server error fetching GitHub token status: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while fetching GitHub token" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings/github-token - Verify and store a GitHub personal access token
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { token } = await request.json();
+
+    if (typeof token !== "string" || !token.trim()) {
+      return NextResponse.json(
+        { error: "GitHub token is required" },
+        { status: 400 }
+      );
+    }
+
+    const trimmedToken = token.trim();
+    if (trimmedToken.length > 255 || /\s/.test(trimmedToken)) {
+      return NextResponse.json(
+        { error: "GitHub token format is invalid" },
+        { status: 400 }
+      );
+    }
+
+    let githubLogin: string;
+    try {
+      githubLogin = await verifyGitHubToken(trimmedToken);
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 401) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const credential = await dbCredentials.saveGitHubToken(
+      user.id,
+      trimmedToken,
+      githubLogin
+    );
+
+    return NextResponse.json({
+      githubToken: {
+        tokenLast4: credential.tokenLast4,
+        githubLogin: credential.githubLogin,
+        updatedAt: credential.updatedAt,
+      },
+    });
+  } catch (error: any) {
+    console.error(`[API] Server error saving GitHub token: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while saving GitHub token" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/settings/github-token - Remove the stored GitHub token
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await verifyUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbCredentials.deleteGitHubToken(user.id);
+
+    return NextResponse.json({ message: "GitHub token removed" });
+  } catch (error: any) {
+    console.error(`[API] Server error deleting GitHub token: ${error}`);
+    return NextResponse.json(
+      { error: "Internal server error while deleting GitHub token" },
+      { status: 500 }
+    );
+  }
+}
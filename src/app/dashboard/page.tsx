@@ -3,14 +3,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { Plus, Loader2 } from 'lucide-react';
+import { Plus, Loader2, Upload } from 'lucide-react';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Card, CardContent } from '../../components/ui/card';
 import { Sidebar } from '../../components/sidebar';
 import { RepositoryCard } from '../../components/repository-card';
 import { createClient } from '../../lib/supabase/client';
-import { getRepositories, createRepository, deleteRepository } from '../../utils/api';
+import { getRepositories, createRepository, createRepositoryFromPath, uploadRepository, deleteRepository, syncRepository, cancelRepositoryIndexing, reindexRepository } from '../../utils/api';
 import type { Repository, Chat } from '../../utils/api';
 import { toast } from 'sonner';
 import { getChats } from '../../utils/api';
@@ -27,6 +27,8 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
   const [adding, setAdding] = useState(false);
   const [repoUrl, setRepoUrl] = useState('');
+  const [repoRef, setRepoRef] = useState('');
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   
   // Refs for managing state and polling
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -77,6 +79,7 @@ export default function DashboardPage() {
   }, [user]);
 
   // Smart polling: Only when there are processing repositories
+  // (cards stream live progress and report completion; this is a fallback)
   useEffect(() => {
     // Clear any existing interval
     if (intervalRef.current) {
@@ -91,7 +94,7 @@ export default function DashboardPage() {
       // Poll for status updates only when needed
       intervalRef.current = setInterval(() => {
         checkRepositoryUpdates();
-      }, 5000);
+      }, 30000);
     }
     
     return () => {
@@ -116,7 +119,7 @@ export default function DashboardPage() {
       const data = await getChats(repo.id);
       const chatsWithRepo = (data.chats || []).map((chat: Chat) => ({
         ...chat,
-        repositoryName: `${repo.owner}/${repo.name}`,
+        repositoryName: `${repo.owner}/${repo.name}${repo.ref ? `@${repo.ref}` : ''}`,
       }));
       
       // Add to existing chats and sort
@@ -188,11 +191,43 @@ export default function DashboardPage() {
 
   
   
+  const addRepository = async (newRepo: Repository) => {
+    // ✅ Client-side update: Add to local state immediately
+    setRepositories(prev => [...prev, newRepo]);
+    
+    // ✅ Granular fetch: Load chats only for this new repo (if ready)
+    if (newRepo.status === 'ready') {
+      await loadChatsForRepo(newRepo);
+    }
+    // If processing, polling will handle it when it becomes ready
+  };
+  
+  const handleUploadArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    
+    setAdding(true);
+    
+    try {
+      const data = await uploadRepository(file);
+      await addRepository(data.repository);
+      toast.success('Archive uploaded, analysis started');
+    } catch (error: any) {
+      console.error('Error uploading archive:', error);
+      toast.error(error.message || 'Failed to upload archive');
+    } finally {
+      setAdding(false);
+    }
+  };
+  
   const handleAddRepository = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!repoUrl.trim()) {
-      toast.error('Please enter a repository URL');
+      toast.error('Please enter a repository URL or path');
       return;
     }
     
@@ -208,20 +243,16 @@ export default function DashboardPage() {
         return;
       }
       
-      // Call API to create repository
-      const data = await createRepository(repoUrl);
-      const newRepo = data.repository;
-      
-      // ✅ Client-side update: Add to local state immediately
-      setRepositories(prev => [...prev, newRepo]);
-      
-      // ✅ Granular fetch: Load chats only for this new repo (if ready)
-      if (newRepo.status === 'ready') {
-        await loadChatsForRepo(newRepo);
-      }
-      // If processing, polling will handle it when it becomes ready
+      // Call API to create repository; absolute paths are read on the server
+      const location = repoUrl.trim();
+      const ref = repoRef.trim() || undefined;
+      const data = /^(\/|[a-zA-Z]:[\\/])/.test(location)
+        ? await createRepositoryFromPath(location, undefined, ref)
+        : await createRepository(location, undefined, ref);
+      await addRepository(data.repository);
       
       setRepoUrl('');
+      setRepoRef('');
       toast.success('Repository added successfully!');
     } catch (error: any) {
       console.error('Error adding repository:', error);
@@ -261,6 +292,52 @@ export default function DashboardPage() {
     }
   };
   
+  const handleSyncRepository = async (repoId: string) => {
+    try {
+      const data = await syncRepository(repoId);
+      
+      // ✅ Client-side update: Mark as processing so polling picks up the result
+      setRepositories(prev => prev.map(r => (r.id === repoId ? data.repository : r)));
+      
+      toast.success('Syncing repository with GitHub...');
+    } catch (error: any) {
+      console.error('Error syncing repository:', error);
+      toast.error(error.message || 'Failed to sync repository');
+    }
+  };
+  
+  const handleCancelRepository = async (repoId: string) => {
+    try {
+      const data = await cancelRepositoryIndexing(repoId);
+      
+      // ✅ Client-side update: Show "Cancelling…" or the settled status
+      setRepositories(prev => prev.map(r => (r.id === repoId ? data.repository : r)));
+      
+      toast.success(
+        data.repository.status === 'processing'
+          ? 'Cancelling analysis...'
+          : 'Analysis cancelled'
+      );
+    } catch (error: any) {
+      console.error('Error cancelling analysis:', error);
+      toast.error(error.message || 'Failed to cancel analysis');
+    }
+  };
+  
+  const handleRetryRepository = async (repoId: string) => {
+    try {
+      const data = await reindexRepository(repoId);
+      
+      // ✅ Client-side update: Mark as processing; chats are kept
+      setRepositories(prev => prev.map(r => (r.id === repoId ? data.repository : r)));
+      
+      toast.success('Re-analyzing repository...');
+    } catch (error: any) {
+      console.error('Error re-analyzing repository:', error);
+      toast.error(error.message || 'Failed to re-analyze repository');
+    }
+  };
+  
   const handleLogout = async () => {
     const supabase = createClient();
     await supabase.auth.signOut();
@@ -298,7 +375,7 @@ export default function DashboardPage() {
             <div className="text-center lg:text-left">
               <h1 className="text-2xl md:text-3xl lg:text-4xl mb-2">Your Repositories</h1>
               <p className="text-muted-foreground">
-                Add GitHub repositories to chat with them using AI
+                Add GitHub or git repositories, archives or local folders to chat with them using AI
               </p>
             </div>
           </div>
@@ -314,13 +391,21 @@ export default function DashboardPage() {
               <CardContent className="p-6">
                 <form onSubmit={handleAddRepository} className="flex flex-col sm:flex-row gap-3">
                   <Input
-                    placeholder="https://github.com/owner/repository"
+                    placeholder="https://github.com/owner/repository, a git URL or a server path"
                     value={repoUrl}
                     onChange={(e) => setRepoUrl(e.target.value)}
                     disabled={adding}
                     className="flex-1"
                   />
                   
+                  <Input
+                    placeholder="Branch, tag or commit (optional)"
+                    value={repoRef}
+                    onChange={(e) => setRepoRef(e.target.value)}
+                    disabled={adding}
+                    className="sm:w-56"
+                  />
+                  
                   <Button type="submit" disabled={adding}>
                     {adding ? (
                       <>
@@ -334,6 +419,23 @@ export default function DashboardPage() {
                       </>
                     )}
                   </Button>
+                  
+                  <input
+                    ref={archiveInputRef}
+                    type="file"
+                    accept=".zip,.tar.gz,.tgz"
+                    onChange={handleUploadArchive}
+                    className="hidden"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={adding}
+                    onClick={() => archiveInputRef.current?.click()}
+                  >
+                    <Upload className="mr-2 size-4" />
+                    Upload Archive
+                  </Button>
                 </form>
               </CardContent>
             </Card>
@@ -356,6 +458,10 @@ export default function DashboardPage() {
                     repository={repo}
                     onClick={() => router.push(`/repository/${encodeURIComponent(repo.id)}`)}
                     onDelete={() => handleDeleteRepository(repo.id)}
+                    onSync={() => handleSyncRepository(repo.id)}
+                    onCancel={() => handleCancelRepository(repo.id)}
+                    onRetry={() => handleRetryRepository(repo.id)}
+                    onIndexed={() => checkRepositoryUpdates()}
                   />
                 ))}
               </div>
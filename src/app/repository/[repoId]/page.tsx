@@ -15,13 +15,14 @@ import {
   getChats,
   createChat,
   getMessages,
-  sendMessage,
+  streamMessage,
 } from '../../../utils/api';
 import type { Repository, Chat, Message } from '../../../utils/api';
 
 // Extended message type for optimistic UI
 type ExtendedMessage = Message & {
   isStreaming?: boolean;
+  statusText?: string;
 };
 import { toast } from 'sonner';
 
@@ -44,6 +45,7 @@ export default function RepositoryPage() {
   const [messages, setMessages] = useState<ExtendedMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
+  const [agentMode, setAgentMode] = useState(false);
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -268,8 +270,18 @@ export default function RepositoryPage() {
           return;
         }
 
+        // Update the streaming placeholder in place as events arrive
+        const updatePlaceholder = (update: (msg: ExtendedMessage) => ExtendedMessage) => {
+          setMessages((prevMessages) =>
+            prevMessages.map((msg) => (msg.id === tempAssistantId ? update(msg) : msg))
+          );
+        };
+
         // Authentication is handled via cookies to avoid 431 errors
-        const data = await sendMessage(selectedChat.id, content);
+        const data = await streamMessage(selectedChat.id, content, {
+          onStatus: (status) => updatePlaceholder((msg) => ({ ...msg, statusText: status })),
+          onToken: (delta) => updatePlaceholder((msg) => ({ ...msg, content: msg.content + delta })),
+        }, agentMode ? 'agent' : 'retrieval');
 
         // Replace temp messages with real messages using functional update
         setMessages((prevMessages) => {
@@ -282,8 +294,8 @@ export default function RepositoryPage() {
           const newMessages = [...withoutTemp, data.userMessage, data.assistantMessage];
 
           // If previous was empty and API returned updated chat, sync title optimistically
-          if (prevMessages.filter((m) => !m.id.startsWith('temp_')).length === 0 && (data as any).updatedChat) {
-            const updatedChat = (data as any).updatedChat as Chat;
+          if (prevMessages.filter((m) => !m.id.startsWith('temp_')).length === 0 && data.updatedChat) {
+            const updatedChat = data.updatedChat;
 
             // update selectedChat & chats safely
             setSelectedChat(updatedChat);
@@ -303,7 +315,7 @@ export default function RepositoryPage() {
         if (isMountedRef.current) setSending(false);
       }
     },
-    [selectedChat, repository?.status]
+    [selectedChat, repository?.status, agentMode]
   );
 
   const handleLogout = useCallback(async () => {
@@ -352,6 +364,7 @@ export default function RepositoryPage() {
             <div className="flex-1 min-w-0">
               <h2 className="truncate text-sm md:text-base">
                 {repository.owner}/{repository.name}
+                {repository.ref && <span className="text-muted-foreground">@{repository.ref}</span>}
               </h2>
               <p className="text-xs text-muted-foreground truncate">
                 Status: {repository.status === 'ready' ? 'Available' : repository.status === 'processing' ? 'Analyzing…' : repository.status}
@@ -407,6 +420,8 @@ export default function RepositoryPage() {
                 <ChatInput
                   onSend={handleSendMessage}
                   disabled={sending || repository?.status !== 'ready'}
+                  agentMode={agentMode}
+                  onAgentModeChange={setAgentMode}
                   placeholder={
                     repository?.status === 'processing'
                       ? 'Repository is being analyzed...'
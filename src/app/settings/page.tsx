@@ -0,0 +1,223 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+'use client'
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ArrowLeft, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Sidebar } from '../../components/sidebar';
+import { createClient } from '../../lib/supabase/client';
+import { getGitHubTokenStatus, saveGitHubToken, deleteGitHubToken } from '../../utils/api';
+import type { GitHubTokenStatus } from '../../utils/api';
+import { toast } from 'sonner';
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const [user, setUser] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [tokenStatus, setTokenStatus] = useState<GitHubTokenStatus | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [removing, setRemoving] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const supabase = createClient();
+        const { data: { session } } = await supabase.auth.getSession();
+
+        if (!session) {
+          router.push('/auth');
+          return;
+        }
+
+        setUser({
+          name: session.user.user_metadata?.name || 'User',
+          email: session.user.email,
+        });
+
+        const data = await getGitHubTokenStatus();
+        setTokenStatus(data.githubToken);
+      } catch (error: any) {
+        console.error('Error loading settings:', error);
+        toast.error(error.message || 'Failed to load settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSaveToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!tokenInput.trim()) {
+      toast.error('Please enter a GitHub token');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const data = await saveGitHubToken(tokenInput.trim());
+      setTokenStatus(data.githubToken);
+      setTokenInput('');
+      toast.success(
+        data.githubToken.githubLogin
+          ? `GitHub token saved for ${data.githubToken.githubLogin}`
+          : 'GitHub token saved'
+      );
+    } catch (error: any) {
+      console.error('Error saving GitHub token:', error);
+      toast.error(error.message || 'Failed to save GitHub token');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveToken = async () => {
+    setRemoving(true);
+
+    try {
+      await deleteGitHubToken();
+      setTokenStatus(null);
+      toast.success('GitHub token removed');
+    } catch (error: any) {
+      console.error('Error removing GitHub token:', error);
+      toast.error(error.message || 'Failed to remove GitHub token');
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    const supabase = createClient();
+    await supabase.auth.signOut();
+    router.push('/');
+  };
+
+  if (loading) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <Loader2 className="size-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar
+        user={user}
+        onLogout={handleLogout}
+      />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Fixed header with glass effect */}
+        <div className="sticky top-0 z-30 backdrop-blur-md bg-background/80 border-b border-border/50 p-4 md:p-6 lg:px-8 lg:py-4">
+          <div className="max-w-3xl mx-auto flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => router.push('/dashboard')}
+              aria-label="Back to dashboard"
+            >
+              <ArrowLeft className="size-5" />
+            </Button>
+            <h1 className="text-2xl md:text-3xl">Settings</h1>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 md:p-6 lg:p-8">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-3xl mx-auto space-y-8"
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="size-5" />
+                  GitHub Access Token
+                </CardTitle>
+                <CardDescription>
+                  Add a personal access token with read access to your repositories to analyze
+                  private repositories. The token is encrypted before it is stored and is never
+                  shown again.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {tokenStatus ? (
+                  <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                    <div className="text-sm">
+                      <p>
+                        Token ending in <span className="font-mono">{tokenStatus.tokenLast4}</span>
+                        {tokenStatus.githubLogin && (
+                          <> for <span className="font-medium">{tokenStatus.githubLogin}</span></>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Updated {new Date(tokenStatus.updatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRemoveToken}
+                      disabled={removing}
+                    >
+                      {removing ? (
+                        <Loader2 className="size-4 animate-spin" />
+                      ) : (
+                        <>
+                          <Trash2 className="mr-2 size-4" />
+                          Remove
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    No token saved. Only public repositories can be analyzed.
+                  </p>
+                )}
+
+                <form onSubmit={handleSaveToken} className="space-y-2">
+                  <Label htmlFor="github-token">
+                    {tokenStatus ? 'Replace token' : 'Personal access token'}
+                  </Label>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <Input
+                      id="github-token"
+                      type="password"
+                      autoComplete="off"
+                      placeholder="ghp_... or github_pat_..."
+                      value={tokenInput}
+                      onChange={(e) => setTokenInput(e.target.value)}
+                      disabled={saving}
+                      className="flex-1"
+                    />
+                    <Button type="submit" disabled={saving}>
+                      {saving ? (
+                        <>
+                          <Loader2 className="mr-2 size-4 animate-spin" />
+                          Verifying...
+                        </>
+                      ) : (
+                        'Save Token'
+                      )}
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client'
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Send } from 'lucide-react';
+import { Send, Telescope } from 'lucide-react';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 
@@ -9,12 +9,18 @@ interface ChatInputProps {
   onSend: (message: string) => void;
   disabled?: boolean;
   placeholder?: string;
+  /** Let the model explore the repository with tools before answering */
+  agentMode?: boolean;
+  /** Shows the agent mode toggle when set */
+  onAgentModeChange?: (enabled: boolean) => void;
 }
 
 export function ChatInput({ 
   onSend, 
   disabled = false,
-  placeholder = "Send a message..." 
+  placeholder = "Send a message...",
+  agentMode = false,
+  onAgentModeChange,
 }: ChatInputProps) {
   const [message, setMessage] = useState('');
   
@@ -46,9 +52,27 @@ export function ChatInput({
         onKeyDown={handleKeyDown}
         placeholder={placeholder}
         disabled={disabled}
-        className="pr-12 min-h-[60px] max-h-[200px] resize-none"
+        className={`${onAgentModeChange ? 'pr-24' : 'pr-12'} min-h-[60px] max-h-[200px] resize-none`}
       />
       
+      {onAgentModeChange && (
+        <Button
+          type="button"
+          size="sm"
+          variant={agentMode ? 'secondary' : 'ghost'}
+          onClick={() => onAgentModeChange(!agentMode)}
+          aria-pressed={agentMode}
+          title={
+            agentMode
+              ? 'Agent mode on: answers explore the repository with tools first'
+              : 'Agent mode off: answers use a single search'
+          }
+          className="absolute right-12 bottom-2"
+        >
+          <Telescope className="size-4" />
+        </Button>
+      )}
+
       <Button
         type="submit"
         size="sm"
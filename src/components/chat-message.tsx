@@ -1,14 +1,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 'use client'
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { User, Bot } from 'lucide-react';
+import { User, Bot, ChevronRight, FileCode, FileText, FolderTree, Search, AtSign, AlertCircle } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import type { Message } from '../utils/api';
+import type { AgentToolCall, Message, MessageCitation, RewrittenQuery } from '../utils/api';
 
 interface ChatMessageProps {
-  message: Message & { isStreaming?: boolean };
+  message: Message & { isStreaming?: boolean; statusText?: string };
 }
 
 // Animated loading dots component
@@ -55,9 +55,128 @@ function LoadingDots() {
   );
 }
 
+// Format a citation label like "src/app.ts:L10-L42"
+function formatCitationLabel(citation: MessageCitation): string {
+  if (!citation.startLine) return citation.filePath;
+  if (!citation.endLine || citation.endLine === citation.startLine) {
+    return `${citation.filePath}:L${citation.startLine}`;
+  }
+  return `${citation.filePath}:L${citation.startLine}-L${citation.endLine}`;
+}
+
+// Collapsible list of the files an answer was based on and what was searched for
+function MessageSources({
+  citations,
+  rewrittenQuery,
+}: {
+  citations: MessageCitation[];
+  rewrittenQuery?: RewrittenQuery;
+}) {
+  const searchQueries = rewrittenQuery
+    ? [rewrittenQuery.query, ...rewrittenQuery.subQueries]
+    : [];
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-2 border-t border-border/60 pt-1.5">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors touch-manipulation"
+        aria-expanded={isOpen}
+      >
+        <ChevronRight className={`size-3.5 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        Sources ({citations.length})
+      </button>
+      {isOpen && searchQueries.length > 0 && (
+        <div className="mt-1.5 flex items-start gap-1.5 text-xs text-muted-foreground min-w-0">
+          <Search className="size-3.5 shrink-0 mt-px" />
+          <span className="break-words">Searched for: {searchQueries.map((query) => `"${query}"`).join(', ')}</span>
+        </div>
+      )}
+      {isOpen && (
+        <ul className="mt-1.5 space-y-1">
+          {citations.map((citation) => (
+            <li key={`${citation.index}-${citation.chunkIndex}`} className="flex items-start gap-1.5 text-xs min-w-0">
+              <span className="shrink-0 text-muted-foreground">[{citation.index}]</span>
+              <FileCode className="size-3.5 shrink-0 mt-px text-muted-foreground" />
+              {citation.url ? (
+                <a
+                  href={citation.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary underline hover:text-primary/80 break-all"
+                >
+                  {formatCitationLabel(citation)}
+                </a>
+              ) : (
+                <span className="break-all">{formatCitationLabel(citation)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const TOOL_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+  search_code: Search,
+  read_file: FileText,
+  list_directory: FolderTree,
+  find_symbol: AtSign,
+};
+
+// Format a tool call like `read_file(path: "src/app.ts", startLine: 10)`
+function formatToolCall(call: AgentToolCall): string {
+  const args = Object.entries(call.arguments)
+    .map(([name, value]) => `${name}: ${JSON.stringify(value)}`)
+    .join(', ');
+  return `${call.name}(${args})`;
+}
+
+// Collapsible list of the repository tools an agent-mode answer called
+function MessageToolCalls({ toolCalls }: { toolCalls: AgentToolCall[] }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-2 border-t border-border/60 pt-1.5">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors touch-manipulation"
+        aria-expanded={isOpen}
+      >
+        <ChevronRight className={`size-3.5 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+        Tool calls ({toolCalls.length})
+      </button>
+      {isOpen && (
+        <ol className="mt-1.5 space-y-1">
+          {toolCalls.map((call, i) => {
+            const Icon = call.error ? AlertCircle : TOOL_ICONS[call.name] || Search;
+            return (
+              <li key={i} className="flex items-start gap-1.5 text-xs min-w-0">
+                <Icon className={`size-3.5 shrink-0 mt-px ${call.error ? 'text-destructive' : 'text-muted-foreground'}`} />
+                <span className="min-w-0">
+                  <code className="break-all">{formatToolCall(call)}</code>
+                  <span className="text-muted-foreground">
+                    {' '}&ndash; {call.summary}
+                    {call.sources && call.sources.length > 0 && ` ${call.sources.map((n) => `[${n}]`).join('')}`}
+                  </span>
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
+
 export function ChatMessage({ message }: ChatMessageProps) {
   const isUser = message.role === 'user';
   const isStreaming = message.isStreaming && !isUser;
+  const isWaiting = isStreaming && !message.content;
   
   return (
     <motion.div
@@ -82,8 +201,13 @@ export function ChatMessage({ message }: ChatMessageProps) {
               : 'bg-muted text-foreground'
           }`}
         >
-          {isStreaming ? (
-            <LoadingDots />
+          {isWaiting ? (
+            <div className="flex items-center gap-2">
+              <LoadingDots />
+              {message.statusText && (
+                <span className="text-xs text-muted-foreground">{message.statusText}</span>
+              )}
+            </div>
           ) : isUser ? (
             <p className="whitespace-pre-wrap break-words text-xs sm:text-sm leading-relaxed">
               {message.content}
@@ -138,6 +262,12 @@ export function ChatMessage({ message }: ChatMessageProps) {
               >
                 {message.content}
               </ReactMarkdown>
+              {!isStreaming && message.citations && message.citations.length > 0 && (
+                <MessageSources citations={message.citations} rewrittenQuery={message.rewrittenQuery} />
+              )}
+              {!isStreaming && message.toolCalls && message.toolCalls.length > 0 && (
+                <MessageToolCalls toolCalls={message.toolCalls} />
+              )}
             </div>
           )}
         </div>
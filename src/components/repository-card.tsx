@@ -1,25 +1,74 @@
 'use client'
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Github, Loader2, AlertCircle, CheckCircle, Trash2 } from 'lucide-react';
+import { Github, Activity, AlertCircle, CheckCircle, Trash2, RefreshCw, RotateCcw, Square } from 'lucide-react';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import type { Repository } from '../utils/api';
+import { Progress } from './ui/progress';
+import { subscribeToRepositoryProgress } from '../utils/api';
+import type { IndexJob, IndexProgress, Repository } from '../utils/api';
 
 interface RepositoryCardProps {
   repository: Repository;
   onClick?: () => void;
   onDelete?: () => void;
+  onSync?: () => void;
+  onCancel?: () => void;
+  /** Re-analyze after an error, keeping chats */
+  onRetry?: () => void;
+  /** Called when live progress reports that indexing has finished */
+  onIndexed?: (repository: Repository) => void;
 }
 
-export function RepositoryCard({ repository, onClick, onDelete }: RepositoryCardProps) {
+const phaseLabels: Record<IndexProgress['phase'], string> = {
+  fetching: 'Fetching files',
+  chunking: 'Splitting into sections',
+  embedding: 'Embedding',
+  storing: 'Saving index',
+  finalizing: 'Finishing up',
+};
+
+// e.g. "120/480 files" or "1,024/2,048 sections"
+function formatProgressCounts(progress: IndexProgress): string {
+  if (progress.phase === 'fetching' && progress.filesTotal) {
+    return `${(progress.filesFetched ?? 0).toLocaleString()}/${progress.filesTotal.toLocaleString()} files`;
+  }
+  if (progress.phase === 'embedding' && progress.chunksTotal) {
+    return `${(progress.chunksEmbedded ?? 0).toLocaleString()}/${progress.chunksTotal.toLocaleString()} sections`;
+  }
+  return '';
+}
+
+function formatEta(seconds?: number): string {
+  if (seconds === undefined) return '';
+  if (seconds < 60) return `~${seconds}s left`;
+  return `~${Math.round(seconds / 60)} min left`;
+}
+
+export function RepositoryCard({ repository, onClick, onDelete, onSync, onCancel, onRetry, onIndexed }: RepositoryCardProps) {
+  // Live progress streamed while the repository is being indexed
+  const [live, setLive] = useState<{ progress?: IndexProgress; indexJob?: IndexJob } | null>(null);
+  const isProcessing = repository.status === 'processing';
+  
+  useEffect(() => {
+    if (!isProcessing) {
+      setLive(null);
+      return;
+    }
+    return subscribeToRepositoryProgress(repository.id, {
+      onProgress: ({ progress, indexJob }) => setLive({ progress, indexJob }),
+      onDone: (updated) => onIndexed?.(updated),
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [repository.id, isProcessing]);
+  
   const statusConfig = {
     processing: {
-      icon: Loader2,
+      icon: Activity,
       label: 'Analyzing…',
       color: 'bg-blue-500',
-      className: 'animate-spin',
+      className: '',
     },
     ready: {
       icon: CheckCircle,
@@ -38,9 +87,40 @@ export function RepositoryCard({ repository, onClick, onDelete }: RepositoryCard
   const status = statusConfig[repository.status];
   const StatusIcon = status.icon;
   
+  // While processing, describe where the indexing job is in the queue
+  const job = live?.indexJob ?? repository.indexJob;
+  const progress = isProcessing ? live?.progress ?? repository.progress : undefined;
+  const isActiveJob = repository.status === 'processing' && job && (job.status === 'queued' || job.status === 'running');
+  const isRetrying = isActiveJob && job.status === 'queued' && job.attempts > 0;
+  const isCancelling = isActiveJob && Boolean(job.cancelRequestedAt);
+  const statusLabel = !isActiveJob
+    ? status.label
+    : isCancelling
+      ? 'Cancelling…'
+      : isRetrying
+      ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})…`
+      : job.status === 'queued'
+        ? 'Queued…'
+        : progress
+          ? `${phaseLabels[progress.phase]}…`
+          : job.kind === 'sync'
+            ? 'Syncing…'
+            : status.label;
+  const progressDetail = progress
+    ? [formatProgressCounts(progress), formatEta(progress.etaSeconds)].filter(Boolean).join(' · ')
+    : '';
+  
   // Check if this is an old format repository
   const isOldFormat = repository.id.includes(':');
   
+  // Summarize why files were left out, e.g. "vendored: 120, byte_budget: 8"
+  const coverage = repository.coverage;
+  const skippedSummary = coverage
+    ? Object.entries(coverage.skippedByReason)
+        .map(([reason, count]) => `${reason.replace('_', ' ')}: ${count}`)
+        .join(', ')
+    : '';
+  
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -62,12 +142,15 @@ export function RepositoryCard({ repository, onClick, onDelete }: RepositoryCard
             <div className="flex-1 min-w-0">
               <h3 className="truncate mb-1">
                 {repository.owner}/{repository.name}
+                {repository.ref && (
+                  <span className="text-muted-foreground">@{repository.ref}</span>
+                )}
               </h3>
               
               <div className="flex items-center gap-2">
                 <Badge variant="secondary" className="gap-1">
                   <StatusIcon className={`size-3 ${status.className}`} />
-                  {status.label}
+                  {statusLabel}
                 </Badge>
                 
                 {repository.chunkCount && (
@@ -77,12 +160,42 @@ export function RepositoryCard({ repository, onClick, onDelete }: RepositoryCard
                 )}
               </div>
               
+              {isProcessing && !isRetrying && job?.status !== 'queued' && (
+                <div className="mt-2 space-y-1">
+                  <Progress
+                    value={progress ? progress.fraction * 100 : 0}
+                    aria-label={statusLabel}
+                  />
+                  {progressDetail && (
+                    <p className="text-xs text-muted-foreground">
+                      {progressDetail}
+                    </p>
+                  )}
+                </div>
+              )}
+              
+              {coverage && repository.status === 'ready' && (
+                <p
+                  className="text-xs text-muted-foreground mt-2"
+                  title={skippedSummary ? `Skipped: ${skippedSummary}` : undefined}
+                >
+                  Indexed {coverage.indexedFiles} of {coverage.totalFiles} files
+                  {coverage.treeTruncated && ' (listing truncated by GitHub)'}
+                </p>
+              )}
+              
               {isOldFormat && (
                 <p className="text-xs text-amber-600 dark:text-amber-400 mt-2">
                   Old format - please remove and re-add this repository
                 </p>
               )}
               
+              {isRetrying && job.lastError && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Last attempt failed: {job.lastError}
+                </p>
+              )}
+              
               {repository.error && (
                 <p className="text-xs text-destructive mt-2">
                   {repository.error}
@@ -90,6 +203,54 @@ export function RepositoryCard({ repository, onClick, onDelete }: RepositoryCard
               )}
             </div>
             
+            {onCancel && isProcessing && !isCancelling && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Cancel analysis"
+                aria-label="Cancel analysis"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCancel();
+                }}
+              >
+                <Square className="size-4" />
+              </Button>
+            )}
+            
+            {onRetry && repository.status === 'error' && !isOldFormat && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Retry analysis"
+                aria-label="Retry analysis"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRetry();
+                }}
+              >
+                <RotateCcw className="size-4" />
+              </Button>
+            )}
+            
+            {onSync && repository.status !== 'processing' && !isOldFormat && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Sync with GitHub"
+                aria-label="Sync with GitHub"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSync();
+                }}
+              >
+                <RefreshCw className="size-4" />
+              </Button>
+            )}
+            
             {onDelete && (
               <Button
                 variant="ghost"
@@ -1,7 +1,8 @@
 'use client'
 import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, MessageSquare, User, Moon, Sun, LogOut, Menu, X } from 'lucide-react';
+import { Plus, MessageSquare, User, Moon, Sun, LogOut, Menu, X, Settings } from 'lucide-react';
 import { Button } from './ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
 import { Separator } from './ui/separator';
@@ -57,6 +58,7 @@ function SidebarContent({
   onClose,
 }: SidebarProps & { showCloseButton?: boolean; onClose?: () => void }) {
   const { theme, toggleTheme } = useTheme();
+  const router = useRouter();
 
   return (
     <>
@@ -199,6 +201,15 @@ function SidebarContent({
                       </>
                     )}
                   </Button>
+
+                  <Button
+                    variant="ghost"
+                    className="w-full justify-start gap-2"
+                    onClick={() => router.push('/settings')}
+                  >
+                    <Settings className="size-4" />
+                    Settings
+                  </Button>
                   
                   <Button
                     variant="ghost"
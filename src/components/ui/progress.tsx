@@ -0,0 +1,34 @@
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+function Progress({
+  className,
+  value,
+  ...props
+}: React.ComponentProps<"div"> & { value?: number | null }) {
+  const percent = Math.min(Math.max(value ?? 0, 0), 100)
+
+  return (
+    <div
+      data-slot="progress"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={value == null ? undefined : Math.round(percent)}
+      className={cn(
+        "bg-primary/20 relative h-2 w-full overflow-hidden rounded-full",
+        className
+      )}
+      {...props}
+    >
+      <div
+        data-slot="progress-indicator"
+        className="bg-primary h-full w-full flex-1 transition-all"
+        style={{ transform: `translateX(-${100 - percent}%)` }}
+      />
+    </div>
+  )
+}
+
+export { Progress }
@@ -0,0 +1,15 @@
+import { isLocalMode } from "@/lib/local-mode";
+
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Fail at startup on a re-ranking setup that cannot run
+    const { getRerankConfigFromEnv } = await import("@/lib/rag/reranker");
+    getRerankConfigFromEnv();
+  }
+
+  if (process.env.NEXT_RUNTIME === "nodejs" && isLocalMode()) {
+    const { startLocalIndexScheduler } = await import("@/lib/jobs/local-scheduler");
+    startLocalIndexScheduler();
+  }
+}
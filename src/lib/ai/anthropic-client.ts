@@ -0,0 +1,128 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import Anthropic from "@anthropic-ai/sdk";
+
+export interface AnthropicConfig {
+  apiKey: string;
+  model?: string;
+}
+
+export interface AnthropicMessageParams {
+  system?: string;
+  messages: Array<{ role: "user" | "assistant"; content: string }>;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export class AnthropicClient {
+  private client: Anthropic;
+  private modelName: string;
+
+  constructor(config: AnthropicConfig) {
+    if (!config.apiKey) {
+      throw new Error("Anthropic API key is required");
+    }
+
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+    });
+    this.modelName = config.model || "claude-sonnet-4-5";
+  }
+
+  async generateContent(params: AnthropicMessageParams): Promise<string> {
+    try {
+      const response = await this.client.messages.create(
+        this.buildRequest(params)
+      );
+
+      const text = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+
+      if (!text) {
+        throw new Error("Empty response from Anthropic API");
+      }
+
+      return text;
+    } catch (error: any) {
+      console.error("[Anthropic] Error generating content:", error);
+      throw this.toClientError(error);
+    }
+  }
+
+  /**
+   * Stream generated content as text deltas
+   */
+  async *generateContentStream(
+    params: AnthropicMessageParams
+  ): AsyncGenerator<string> {
+    let receivedText = false;
+
+    try {
+      const stream = this.client.messages.stream(this.buildRequest(params));
+
+      for await (const event of stream) {
+        if (
+          event.type === "content_block_delta" &&
+          event.delta.type === "text_delta" &&
+          event.delta.text
+        ) {
+          receivedText = true;
+          yield event.delta.text;
+        }
+      }
+    } catch (error: any) {
+      console.error("[Anthropic] Error streaming content:", error);
+      throw this.toClientError(error);
+    }
+
+    if (!receivedText) {
+      throw new Error("Anthropic API error: Empty response from Anthropic API");
+    }
+  }
+
+  /**
+   * Count the input tokens of a prompt with the model's own tokenizer
+   */
+  async countTokens(
+    params: Pick<AnthropicMessageParams, "system" | "messages">
+  ): Promise<number> {
+    const result = await this.client.messages.countTokens({
+      model: this.modelName,
+      system: params.system || undefined,
+      messages: params.messages,
+    });
+    return result.input_tokens;
+  }
+
+  getModel(): string {
+    return this.modelName;
+  }
+
+  private buildRequest(params: AnthropicMessageParams) {
+    return {
+      model: this.modelName,
+      system: params.system || undefined,
+      messages: params.messages,
+      max_tokens: params.maxTokens || 2048,
+      temperature: params.temperature ?? 0.7,
+    };
+  }
+
+  private toClientError(error: any): Error {
+    if (error instanceof Anthropic.AuthenticationError) {
+      return new Error(
+        "Invalid Anthropic API key. Please verify your ANTHROPIC_API_KEY environment variable."
+      );
+    }
+
+    if (error instanceof Anthropic.RateLimitError) {
+      return new Error(
+        "Anthropic API rate limit exceeded. Please try again in a few minutes."
+      );
+    }
+
+    return new Error(
+      `Anthropic API error: ${error.message || "Unknown error occurred"}`
+    );
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Chat model providers
+ * One interface over Gemini, Anthropic, Hugging Face and OpenAI-compatible
+ * servers (llama.cpp, Ollama, vLLM), plus an offline stub, chosen by server
+ * config and per repository
+ */
+
+import { AnthropicClient } from "./anthropic-client";
+import { GeminiClient } from "./gemini-client";
+import { OpenAICompatibleClient } from "./openai-compatible-client";
+import { createTextGenerator } from "../rag/text-generation";
+import { isLocalMode } from "../local-mode";
+import { getTokenizerForModel, Tokenizer } from "./tokenizer";
+
+export const CHAT_MODEL_PROVIDERS = [
+  "gemini",
+  "anthropic",
+  "huggingface",
+  "openai-compatible",
+  "stub",
+] as const;
+
+export type ChatModelProviderName = (typeof CHAT_MODEL_PROVIDERS)[number];
+
+export interface ChatModelMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatModelParams {
+  system?: string;
+  messages: ChatModelMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ChatModelInfo {
+  provider: ChatModelProviderName;
+  model: string;
+  /** Prompt plus response tokens the model accepts */
+  contextWindow: number;
+}
+
+export interface ChatModelProvider {
+  generate(params: ChatModelParams): Promise<string>;
+  /** Yields text deltas as the model produces them */
+  stream(params: ChatModelParams): AsyncGenerator<string>;
+  /** Input tokens for a prompt; providers without a tokenizer API estimate */
+  countTokens(params: Pick<ChatModelParams, "system" | "messages">): Promise<number>;
+  /** Local tokenizer matching (or closest to) the model's, for budgeting prompts */
+  getTokenizer(): Tokenizer;
+  getModelInfo(): ChatModelInfo;
+}
+
+/**
+ * Server-wide model configuration and the credentials every provider may need
+ */
+export interface ChatModelConfig {
+  provider: ChatModelProviderName;
+  /** Model name; each provider has a default except openai-compatible */
+  model?: string;
+  geminiApiKey?: string;
+  anthropicApiKey?: string;
+  hfToken?: string;
+  /** Hugging Face inference provider, e.g. "together" */
+  hfProvider?: string;
+  /** e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp */
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  /** Context window of the openai-compatible model */
+  contextWindow?: number;
+}
+
+/**
+ * Per-repository override of the server's provider and model
+ */
+export interface ChatModelSelection {
+  provider?: ChatModelProviderName;
+  model?: string;
+}
+
+const CONTEXT_WINDOWS: Record<ChatModelProviderName, number> = {
+  gemini: 1_048_576,
+  anthropic: 200_000,
+  huggingface: 8_192,
+  "openai-compatible": 8_192,
+  stub: 32_768,
+};
+
+// Role and separator tokens each chat message adds to a prompt
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function isChatModelProvider(value: unknown): value is ChatModelProviderName {
+  return CHAT_MODEL_PROVIDERS.includes(value as ChatModelProviderName);
+}
+
+/**
+ * Read the server's model configuration from environment variables
+ * LLM_PROVIDER selects the provider (default: gemini, or stub in local mode)
+ * and LLM_MODEL its model
+ */
+export function getChatModelConfigFromEnv(): ChatModelConfig {
+  const provider =
+    process.env.LLM_PROVIDER?.trim() || (isLocalMode() ? "stub" : "gemini");
+  if (!isChatModelProvider(provider)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${provider}". Expected one of: ${CHAT_MODEL_PROVIDERS.join(", ")}`
+    );
+  }
+
+  const contextWindow = Number(process.env.LLM_CONTEXT_WINDOW);
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL?.trim() || undefined,
+    geminiApiKey: process.env.GOOGLE_AI_API_KEY?.trim(),
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY?.trim(),
+    hfToken: process.env.HF_TOKEN,
+    hfProvider: process.env.HF_PROVIDER,
+    openaiBaseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL?.trim(),
+    openaiApiKey: process.env.OPENAI_COMPATIBLE_API_KEY?.trim(),
+    contextWindow: contextWindow > 0 ? contextWindow : undefined,
+  };
+}
+
+/**
+ * Apply a repository's selection to the server config
+ * The server's model only carries over when the provider is unchanged
+ */
+export function resolveChatModelConfig(
+  config: ChatModelConfig,
+  selection: ChatModelSelection = {}
+): ChatModelConfig {
+  const provider = selection.provider || config.provider;
+  const model =
+    selection.model || (provider === config.provider ? config.model : undefined);
+  return { ...config, provider, model };
+}
+
+/**
+ * Create the provider for a configuration
+ * Throws a "not configured" error when the provider's credentials are missing
+ */
+export function createChatModelProvider(config: ChatModelConfig): ChatModelProvider {
+  switch (config.provider) {
+    case "gemini":
+      return createGeminiProvider(config);
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "huggingface":
+      return createHuggingFaceProvider(config);
+    case "openai-compatible":
+      return createOpenAICompatibleProvider(config);
+    case "stub":
+      return createStubProvider(config);
+  }
+}
+
+/**
+ * Token estimate with a local tokenizer for providers without a tokenizer API
+ * Each message adds a few tokens of role and separator overhead
+ */
+export function estimatePromptTokens(
+  params: Pick<ChatModelParams, "system" | "messages">,
+  tokenizer: Tokenizer
+): number {
+  return (
+    tokenizer.count(params.system || "") +
+    params.messages.reduce(
+      (sum, message) => sum + tokenizer.count(message.content) + MESSAGE_OVERHEAD_TOKENS,
+      0
+    )
+  );
+}
+
+function createGeminiProvider(config: ChatModelConfig): ChatModelProvider {
+  if (!config.geminiApiKey) {
+    throw new Error(
+      "Gemini API key not configured. Please set GOOGLE_AI_API_KEY environment variable."
+    );
+  }
+
+  const client = new GeminiClient({
+    apiKey: config.geminiApiKey,
+    model: config.model || "gemini-2.5-flash",
+  });
+
+  const toGeminiParams = (params: ChatModelParams) => ({
+    ...params,
+    messages: params.messages.map((message) => ({
+      role: message.role === "assistant" ? ("model" as const) : ("user" as const),
+      content: message.content,
+    })),
+  });
+
+  const tokenizer = getTokenizerForModel(client.getModel());
+
+  return {
+    generate: (params) => client.generateContent(toGeminiParams(params)),
+    stream: (params) => client.generateContentStream(toGeminiParams(params)),
+    async countTokens(params) {
+      try {
+        return await client.countTokens(toGeminiParams(params));
+      } catch (error) {
+        console.warn("[Gemini] Token count failed, estimating:", error);
+        return estimatePromptTokens(params, tokenizer);
+      }
+    },
+    getTokenizer: () => tokenizer,
+    getModelInfo: () => ({
+      provider: "gemini",
+      model: client.getModel(),
+      contextWindow: CONTEXT_WINDOWS.gemini,
+    }),
+  };
+}
+
+function createAnthropicProvider(config: ChatModelConfig): ChatModelProvider {
+  if (!config.anthropicApiKey) {
+    throw new Error(
+      "Anthropic API key not configured. Please set ANTHROPIC_API_KEY environment variable."
+    );
+  }
+
+  const client = new AnthropicClient({
+    apiKey: config.anthropicApiKey,
+    model: config.model,
+  });
+
+  const tokenizer = getTokenizerForModel(client.getModel());
+
+  return {
+    generate: (params) => client.generateContent(params),
+    stream: (params) => client.generateContentStream(params),
+    async countTokens(params) {
+      try {
+        return await client.countTokens(params);
+      } catch (error) {
+        console.warn("[Anthropic] Token count failed, estimating:", error);
+        return estimatePromptTokens(params, tokenizer);
+      }
+    },
+    getTokenizer: () => tokenizer,
+    getModelInfo: () => ({
+      provider: "anthropic",
+      model: client.getModel(),
+      contextWindow: CONTEXT_WINDOWS.anthropic,
+    }),
+  };
+}
+
+function createHuggingFaceProvider(config: ChatModelConfig): ChatModelProvider {
+  const hfToken = config.hfToken;
+  if (!hfToken) {
+    throw new Error(
+      "Hugging Face token not configured. Please set HF_TOKEN environment variable."
+    );
+  }
+
+  // The generator takes limits at construction, so build one per request
+  const generatorFor = (params: Partial<ChatModelParams> = {}) =>
+    createTextGenerator({
+      hfToken,
+      model: config.model,
+      provider: config.hfProvider,
+      ...(params.maxTokens && { maxTokens: params.maxTokens }),
+      ...(params.temperature !== undefined && { temperature: params.temperature }),
+    });
+
+  // The generator expects the latest user turn separately from the history
+  const toGenerateOptions = (params: ChatModelParams) => {
+    const history = params.messages.slice(0, -1);
+    const last = params.messages[params.messages.length - 1];
+    return {
+      systemPrompt: params.system || "",
+      userPrompt: last?.content || "",
+      chatHistory: history,
+    };
+  };
+
+  const model = generatorFor().getModelInfo().model;
+
+  const tokenizer = getTokenizerForModel(model);
+
+  return {
+    generate: (params) => generatorFor(params).generateText(toGenerateOptions(params)),
+    stream: (params) => generatorFor(params).streamText(toGenerateOptions(params)),
+    countTokens: async (params) => estimatePromptTokens(params, tokenizer),
+    getTokenizer: () => tokenizer,
+    getModelInfo: () => ({
+      provider: "huggingface",
+      model,
+      contextWindow: CONTEXT_WINDOWS.huggingface,
+    }),
+  };
+}
+
+function createOpenAICompatibleProvider(config: ChatModelConfig): ChatModelProvider {
+  if (!config.openaiBaseUrl || !config.model) {
+    throw new Error(
+      "OpenAI-compatible server not configured. Please set OPENAI_COMPATIBLE_BASE_URL and LLM_MODEL environment variables."
+    );
+  }
+
+  const client = new OpenAICompatibleClient({
+    baseUrl: config.openaiBaseUrl,
+    model: config.model,
+    apiKey: config.openaiApiKey,
+  });
+
+  const tokenizer = getTokenizerForModel(client.getModel());
+
+  return {
+    generate: (params) => client.generateContent(params),
+    stream: (params) => client.generateContentStream(params),
+    countTokens: async (params) => estimatePromptTokens(params, tokenizer),
+    getTokenizer: () => tokenizer,
+    getModelInfo: () => ({
+      provider: "openai-compatible",
+      model: client.getModel(),
+      contextWindow: config.contextWindow || CONTEXT_WINDOWS["openai-compatible"],
+    }),
+  };
+}
+
+/**
+ * Deterministic offline "model" for development and tests
+ * Answers by listing the context sections it was given, citing them as [n],
+ * so retrieval, streaming and citations can be exercised without a real model
+ */
+function createStubProvider(config: ChatModelConfig): ChatModelProvider {
+  const model = config.model || "stub-echo";
+
+  const answer = (params: ChatModelParams): string => {
+    // Tool results (agent mode) come back as user messages; the question is the last other one
+    const question =
+      [...params.messages]
+        .reverse()
+        .find((message) => message.role === "user" && !message.content.includes("<tool_result"))
+        ?.content || "";
+    const hasToolResults = params.messages.some((message) =>
+      message.content.includes("<tool_result")
+    );
+
+    // Offered tools: search once with the question, then answer from the results
+    if (params.system?.includes("<tool_call>") && !hasToolResults) {
+      return `<tool_call>${JSON.stringify({
+        name: "search_code",
+        arguments: { query: question.trim() },
+      })}</tool_call>`;
+    }
+
+    const prompt = [params.system || "", ...params.messages.map((message) => message.content)];
+    const sections = prompt
+      .flatMap((text) => [...text.matchAll(/^### \[(\d+)\] (.+)$/gm)])
+      .slice(0, 5)
+      .map(([, index, header]) => `- ${header.trim()} [${index}]`);
+
+    return [
+      "This answer comes from the stub model (LLM_PROVIDER=stub); configure a real provider for generated answers.",
+      "",
+      `**Question:** ${question.trim()}`,
+      "",
+      sections.length > 0
+        ? `The most relevant parts of the repository are:\n${sections.join("\n")}`
+        : "No relevant parts of the repository were found.",
+    ].join("\n");
+  };
+
+  const tokenizer = getTokenizerForModel(model);
+
+  return {
+    generate: async (params) => answer(params),
+    async *stream(params) {
+      for (const piece of answer(params).match(/\S+\s*/g) || []) {
+        yield piece;
+      }
+    },
+    countTokens: async (params) => estimatePromptTokens(params, tokenizer),
+    getTokenizer: () => tokenizer,
+    getModelInfo: () => ({
+      provider: "stub",
+      model,
+      contextWindow: CONTEXT_WINDOWS.stub,
+    }),
+  };
+}
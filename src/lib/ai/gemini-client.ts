@@ -30,32 +30,9 @@ export class GeminiClient {
 
   async generateContent(params: GeminiMessageParams): Promise<string> {
     try {
-      const contents: Array<{
-        role: "user" | "model";
-        parts: Array<{ text: string }>;
-      }> = [];
-
-      for (const msg of params.messages) {
-        contents.push({
-          role: msg.role === "user" ? "user" : "model",
-          parts: [{ text: msg.content }],
-        });
-      }
-
-      const config: any = {
-        systemInstruction: params.system || undefined,
-        temperature: params.temperature || 0.7,
-        maxOutputTokens: params.maxTokens || 2048,
-      };
-
-      const response = await this.client.models.generateContent({
-        model: this.modelName,
-        contents: contents.map((c) => ({
-          role: c.role,
-          parts: c.parts,
-        })),
-        config,
-      });
+      const response = await this.client.models.generateContent(
+        this.buildRequest(params)
+      );
 
       if (!response || !response.text) {
         throw new Error("Empty response from Gemini API");
@@ -64,26 +41,102 @@ export class GeminiClient {
       return response.text;
     } catch (error: any) {
       console.error("[Gemini] Error generating content:", error);
+      throw this.toClientError(error);
+    }
+  }
 
-      if (error.message?.includes("API key")) {
-        throw new Error(
-          "Invalid Gemini API key. Please verify your GOOGLE_AI_API_KEY environment variable."
-        );
-      }
+  /**
+   * Stream generated content as text deltas
+   * Yields each non-empty text fragment as soon as Gemini returns it
+   */
+  async *generateContentStream(
+    params: GeminiMessageParams
+  ): AsyncGenerator<string> {
+    let receivedText = false;
+
+    try {
+      const stream = await this.client.models.generateContentStream(
+        this.buildRequest(params)
+      );
 
-      if (error.message?.includes("quota")) {
-        throw new Error(
-          "Gemini API quota exceeded. Please check your usage limits."
-        );
+      for await (const chunk of stream) {
+        const text = chunk.text;
+        if (text) {
+          receivedText = true;
+          yield text;
+        }
       }
+    } catch (error: any) {
+      console.error("[Gemini] Error streaming content:", error);
+      throw this.toClientError(error);
+    }
 
-      throw new Error(
-        `Gemini API error: ${error.message || "Unknown error occurred"}`
-      );
+    if (!receivedText) {
+      throw new Error("Gemini API error: Empty response from Gemini API");
     }
   }
 
+  /**
+   * Count the input tokens of a prompt with the model's own tokenizer
+   */
+  async countTokens(
+    params: Pick<GeminiMessageParams, "system" | "messages">
+  ): Promise<number> {
+    const { model, contents } = this.buildRequest({ ...params });
+    const response = await this.client.models.countTokens({
+      model,
+      contents: params.system
+        ? [{ role: "user", parts: [{ text: params.system }] }, ...contents]
+        : contents,
+    });
+    return response.totalTokens || 0;
+  }
+
   getModel(): string {
     return this.modelName;
   }
+
+  private buildRequest(params: GeminiMessageParams) {
+    const contents: Array<{
+      role: "user" | "model";
+      parts: Array<{ text: string }>;
+    }> = [];
+
+    for (const msg of params.messages) {
+      contents.push({
+        role: msg.role === "user" ? "user" : "model",
+        parts: [{ text: msg.content }],
+      });
+    }
+
+    const config: any = {
+      systemInstruction: params.system || undefined,
+      temperature: params.temperature || 0.7,
+      maxOutputTokens: params.maxTokens || 2048,
+    };
+
+    return {
+      model: this.modelName,
+      contents,
+      config,
+    };
+  }
+
+  private toClientError(error: any): Error {
+    if (error.message?.includes("API key")) {
+      return new Error(
+        "Invalid Gemini API key. Please verify your GOOGLE_AI_API_KEY environment variable."
+      );
+    }
+
+    if (error.message?.includes("quota")) {
+      return new Error(
+        "Gemini API quota exceeded. Please check your usage limits."
+      );
+    }
+
+    return new Error(
+      `Gemini API error: ${error.message || "Unknown error occurred"}`
+    );
+  }
 }
@@ -0,0 +1,163 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Client for servers that implement the OpenAI chat completions API
+ * (llama.cpp server, Ollama, vLLM, LM Studio, OpenAI itself)
+ */
+
+export interface OpenAICompatibleConfig {
+  /** API root including the version, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Optional; local servers usually accept any value or none */
+  apiKey?: string;
+}
+
+export interface OpenAICompatibleMessageParams {
+  system?: string;
+  messages: Array<{ role: "user" | "assistant"; content: string }>;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export class OpenAICompatibleClient {
+  private baseUrl: string;
+  private modelName: string;
+  private apiKey?: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    if (!config.baseUrl) {
+      throw new Error("OpenAI-compatible base URL is required");
+    }
+    if (!config.model) {
+      throw new Error("OpenAI-compatible model name is required");
+    }
+
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.modelName = config.model;
+    this.apiKey = config.apiKey;
+  }
+
+  async generateContent(params: OpenAICompatibleMessageParams): Promise<string> {
+    try {
+      const response = await this.request(params, false);
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content;
+
+      if (!text) {
+        throw new Error("Empty response from model server");
+      }
+
+      return text;
+    } catch (error: any) {
+      console.error("[OpenAI-compatible] Error generating content:", error);
+      throw this.toClientError(error);
+    }
+  }
+
+  /**
+   * Stream generated content as text deltas parsed from server-sent events
+   */
+  async *generateContentStream(
+    params: OpenAICompatibleMessageParams
+  ): AsyncGenerator<string> {
+    let receivedText = false;
+
+    try {
+      const response = await this.request(params, true);
+      if (!response.body) {
+        throw new Error("Model server returned no stream");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === "[DONE]") continue;
+
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) {
+            receivedText = true;
+            yield delta;
+          }
+        }
+      }
+    } catch (error: any) {
+      console.error("[OpenAI-compatible] Error streaming content:", error);
+      throw this.toClientError(error);
+    }
+
+    if (!receivedText) {
+      throw new Error(
+        "OpenAI-compatible API error: Empty response from model server"
+      );
+    }
+  }
+
+  getModel(): string {
+    return this.modelName;
+  }
+
+  private async request(
+    params: OpenAICompatibleMessageParams,
+    stream: boolean
+  ): Promise<Response> {
+    const messages: Array<{ role: string; content: string }> = [];
+    if (params.system) {
+      messages.push({ role: "system", content: params.system });
+    }
+    messages.push(...params.messages);
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.modelName,
+        messages,
+        max_tokens: params.maxTokens || 2048,
+        temperature: params.temperature ?? 0.7,
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`HTTP ${response.status}: ${body || response.statusText}`);
+    }
+
+    return response;
+  }
+
+  private toClientError(error: any): Error {
+    if (error.message?.startsWith("HTTP 401") || error.message?.startsWith("HTTP 403")) {
+      return new Error(
+        "OpenAI-compatible server rejected the API key. Please verify your OPENAI_COMPATIBLE_API_KEY environment variable."
+      );
+    }
+
+    if (error.cause?.code === "ECONNREFUSED") {
+      return new Error(
+        `OpenAI-compatible server is not reachable at ${this.baseUrl}. Please check that it is running.`
+      );
+    }
+
+    return new Error(
+      `OpenAI-compatible API error: ${error.message || "Unknown error occurred"}`
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Local tokenizers for prompt budgeting
+ * Counts tokens with tiktoken's BPE encodings: o200k_base for OpenAI's current
+ * models, cl100k_base otherwise. Anthropic, Gemini and most open models do not
+ * publish a JavaScript tokenizer, so for them cl100k_base is a close estimate;
+ * budgets leave headroom for the difference (see context-builder.ts).
+ */
+
+import { Tiktoken, TiktokenBPE } from "js-tiktoken/lite";
+import cl100kBase from "js-tiktoken/ranks/cl100k_base";
+import o200kBase from "js-tiktoken/ranks/o200k_base";
+
+export type TokenizerEncoding = "cl100k_base" | "o200k_base";
+
+export interface Tokenizer {
+  encoding: TokenizerEncoding;
+  count(text: string): number;
+  /** The longest prefix of text that fits in maxTokens */
+  truncate(text: string, maxTokens: number): string;
+}
+
+const RANKS: Record<TokenizerEncoding, TiktokenBPE> = {
+  cl100k_base: cl100kBase,
+  o200k_base: o200kBase,
+};
+
+// OpenAI model families that use o200k_base
+const O200K_MODEL_PATTERN = /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/i;
+
+const tokenizers = new Map<TokenizerEncoding, Tokenizer>();
+
+/**
+ * Get a tokenizer for an encoding; the rank tables are loaded once
+ */
+export function getTokenizer(encoding: TokenizerEncoding): Tokenizer {
+  let tokenizer = tokenizers.get(encoding);
+  if (!tokenizer) {
+    const tiktoken = new Tiktoken(RANKS[encoding]);
+    // Special-token text in repository files is counted as ordinary text
+    const encode = (text: string) => tiktoken.encode(text, [], []);
+
+    tokenizer = {
+      encoding,
+      count: (text) => (text ? encode(text).length : 0),
+      truncate(text, maxTokens) {
+        if (maxTokens <= 0) {
+          return "";
+        }
+        const tokens = encode(text);
+        return tokens.length <= maxTokens
+          ? text
+          : tiktoken.decode(tokens.slice(0, maxTokens));
+      },
+    };
+    tokenizers.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Pick the encoding closest to a model's own tokenizer
+ * @param model - Model name, e.g. "gpt-4o-mini" or "claude-sonnet-4-5"
+ */
+export function getTokenizerForModel(model: string): Tokenizer {
+  const name = model.split("/").pop() || model;
+  return getTokenizer(O200K_MODEL_PATTERN.test(name) ? "o200k_base" : "cl100k_base");
+}
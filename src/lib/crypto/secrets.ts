@@ -0,0 +1,71 @@
+/**
+ * Symmetric encryption for secrets stored at rest (e.g. user GitHub tokens)
+ * AES-256-GCM with a key derived from TOKEN_ENCRYPTION_KEY
+ *
+ * NEVER import this from client-side code
+ */
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const FORMAT_VERSION = "v1";
+
+function getKey(): Buffer {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY;
+
+  if (!secret) {
+    throw new Error(
+      "Missing TOKEN_ENCRYPTION_KEY environment variable: required to store GitHub tokens"
+    );
+  }
+
+  // Derive a fixed-length key so any sufficiently random string can be used
+  return createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Encrypt a secret for storage
+ * @param plaintext - Secret to encrypt
+ * @returns Payload in the form "v1:<iv>:<auth tag>:<ciphertext>" (base64 parts)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    FORMAT_VERSION,
+    iv.toString("base64"),
+    authTag.toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypt a payload produced by encryptSecret
+ * @param payload - Stored payload
+ * @returns Decrypted secret
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(":");
+
+  if (version !== FORMAT_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error("Unsupported encrypted secret format");
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    getKey(),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -1,19 +1,12 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /**
  * Database operations for chats
  * Replaces KV store operations with Supabase table operations
  */
 
 import { createClient } from "@/lib/supabase/admin";
+import { Chat, toChat, toChatInsert } from "./models";
 
-export interface Chat {
-  id: string;
-  repoId: string;
-  userId: string;
-  title: string;
-  createdAt: string;
-  updatedAt: string;
-}
+export type { Chat } from "./models";
 
 /**
  * Get a chat by ID
@@ -31,19 +24,7 @@ export async function getChat(chatId: string): Promise<Chat | null> {
     return null;
   }
 
-  if (!data) {
-    return null;
-  }
-
-  const chat = data as any;
-  return {
-    id: chat.id,
-    repoId: chat.repository_id,
-    userId: chat.user_id,
-    title: chat.title,
-    createdAt: chat.created_at,
-    updatedAt: chat.updated_at,
-  };
+  return data ? toChat(data) : null;
 }
 
 /**
@@ -62,14 +43,7 @@ export async function getRepositoryChats(repoId: string): Promise<Chat[]> {
     return [];
   }
 
-  return (data || []).map((chat: any) => ({
-    id: chat.id,
-    repoId: chat.repository_id,
-    userId: chat.user_id,
-    title: chat.title,
-    createdAt: chat.created_at,
-    updatedAt: chat.updated_at,
-  }));
+  return (data || []).map(toChat);
 }
 
 /**
@@ -81,12 +55,7 @@ export async function createChat(
   const supabase = createClient();
   const { data, error } = await supabase
     .from("chats")
-    .insert({
-      id: chat.id,
-      repository_id: chat.repoId,
-      user_id: chat.userId,
-      title: chat.title,
-    } as any)
+    .insert(toChatInsert(chat))
     .select()
     .single();
 
@@ -95,15 +64,7 @@ export async function createChat(
     throw new Error(`Failed to create chat: ${error.message}`);
   }
 
-  const result = data as any;
-  return {
-    id: result.id,
-    repoId: result.repository_id,
-    userId: result.user_id,
-    title: result.title,
-    createdAt: result.created_at,
-    updatedAt: result.updated_at,
-  };
+  return toChat(data);
 }
 
 /**
@@ -111,11 +72,10 @@ export async function createChat(
  */
 export async function updateChatTimestamp(chatId: string): Promise<void> {
   const supabase = createClient();
-  const { error } = await (
-    supabase
-      .from("chats")
-      .update({ updated_at: new Date().toISOString() } as never) as any
-  ).eq("id", chatId);
+  const { error } = await supabase
+    .from("chats")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", chatId);
 
   if (error) {
     console.error(`[DB] Error updating chat timestamp ${chatId}:`, error);
@@ -130,10 +90,10 @@ export async function updateChatTitle(chatId: string, title: string): Promise<Ch
   const supabase = createClient();
   const { data, error } = await supabase
     .from("chats")
-    .update({ 
+    .update({
       title,
-      updated_at: new Date().toISOString() 
-    } as never)
+      updated_at: new Date().toISOString(),
+    })
     .eq("id", chatId)
     .select()
     .single();
@@ -143,13 +103,5 @@ export async function updateChatTitle(chatId: string, title: string): Promise<Ch
     throw new Error(`Failed to update chat title: ${error.message}`);
   }
 
-  const result = data as any;
-  return {
-    id: result.id,
-    repoId: result.repository_id,
-    userId: result.user_id,
-    title: result.title,
-    createdAt: result.created_at,
-    updatedAt: result.updated_at,
-  };
-}
\ No newline at end of file
+  return toChat(data);
+}
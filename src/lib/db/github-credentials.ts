@@ -0,0 +1,107 @@
+/**
+ * Database operations for per-user GitHub credentials
+ * Tokens are encrypted before they are written and never returned to clients
+ */
+
+import { createClient } from "@/lib/supabase/admin";
+import { decryptSecret, encryptSecret } from "@/lib/crypto/secrets";
+import {
+  GitHubCredential,
+  GITHUB_CREDENTIAL_COLUMNS,
+  toGitHubCredential,
+} from "./models";
+
+export type { GitHubCredential } from "./models";
+
+/**
+ * Get the stored credential summary for a user (without the token)
+ */
+export async function getGitHubCredential(
+  userId: string
+): Promise<GitHubCredential | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("github_credentials")
+    .select(GITHUB_CREDENTIAL_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[DB] Error fetching GitHub credential for ${userId}:`, error);
+    return null;
+  }
+
+  return data ? toGitHubCredential(data) : null;
+}
+
+/**
+ * Get the decrypted GitHub token for a user, or null if none is stored
+ */
+export async function getGitHubToken(userId: string): Promise<string | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("github_credentials")
+    .select("encrypted_token")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[DB] Error fetching GitHub token for ${userId}:`, error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  try {
+    return decryptSecret(data.encrypted_token);
+  } catch (decryptError) {
+    console.error(`[DB] Could not decrypt GitHub token for ${userId}:`, decryptError);
+    return null;
+  }
+}
+
+/**
+ * Store (or replace) a user's GitHub token
+ */
+export async function saveGitHubToken(
+  userId: string,
+  token: string,
+  githubLogin?: string
+): Promise<GitHubCredential> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("github_credentials")
+    .upsert({
+      user_id: userId,
+      encrypted_token: encryptSecret(token),
+      token_last4: token.slice(-4),
+      github_login: githubLogin || null,
+    })
+    .select(GITHUB_CREDENTIAL_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error(`[DB] Error saving GitHub token:`, error);
+    throw new Error(`Failed to save GitHub token: ${error.message}`);
+  }
+
+  return toGitHubCredential(data);
+}
+
+/**
+ * Remove a user's GitHub token
+ */
+export async function deleteGitHubToken(userId: string): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from("github_credentials")
+    .delete()
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error(`[DB] Error deleting GitHub token for ${userId}:`, error);
+    throw new Error(`Failed to delete GitHub token: ${error.message}`);
+  }
+}
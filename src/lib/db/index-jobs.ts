@@ -0,0 +1,328 @@
+/**
+ * Database operations for the repository indexing queue
+ * Routes enqueue jobs; the index worker claims, heartbeats and finishes them
+ */
+
+import { createClient } from "@/lib/supabase/admin";
+import { IndexJob, IndexJobKind, toIndexJob } from "./models";
+
+export type { IndexJob, IndexJobKind, IndexJobStatus } from "./models";
+
+/** First retry waits this long; each further retry doubles it */
+const RETRY_BASE_DELAY_MS = 30_000;
+
+/**
+ * Queue an indexing job for a repository
+ * Returns the existing job if one is already queued or running
+ */
+export async function enqueueIndexJob(
+  repoId: string,
+  userId: string,
+  kind: IndexJobKind
+): Promise<IndexJob> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("index_jobs")
+    .insert({ repository_id: repoId, user_id: userId, kind })
+    .select()
+    .single();
+
+  if (error) {
+    // unique_active_index_job: the repository already has a pending job
+    if (error.code === "23505") {
+      const active = await getActiveIndexJob(repoId);
+      if (active) {
+        return active;
+      }
+    }
+    console.error(`[DB] Error enqueuing ${kind} job for ${repoId}:`, error);
+    throw new Error(`Failed to queue repository analysis: ${error.message}`);
+  }
+
+  return toIndexJob(data);
+}
+
+/**
+ * Claim the oldest runnable job for a worker, or null if the queue is empty
+ */
+export async function claimIndexJob(workerId: string): Promise<IndexJob | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc("claim_index_job", {
+    worker_id: workerId,
+  });
+
+  if (error) {
+    console.error(`[DB] Error claiming index job:`, error);
+    throw new Error(`Failed to claim index job: ${error.message}`);
+  }
+
+  const rows = data || [];
+  return rows.length > 0 ? toIndexJob(rows[0]) : null;
+}
+
+/**
+ * Record that a worker is still running a job
+ */
+export async function heartbeatIndexJob(
+  jobId: string,
+  workerId: string
+): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from("index_jobs")
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("locked_by", workerId);
+
+  if (error) {
+    console.error(`[DB] Error updating heartbeat for job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Mark a job as finished successfully
+ * Only the worker still holding the job can finish it: a job re-queued as
+ * stale may have been claimed by another worker since
+ * @returns false if the worker no longer holds the job (the run is lost)
+ */
+export async function completeIndexJob(
+  jobId: string,
+  workerId: string
+): Promise<boolean> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("index_jobs")
+    .update({
+      status: "succeeded",
+      locked_by: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("locked_by", workerId)
+    .eq("status", "running")
+    .select("id");
+
+  if (error) {
+    console.error(`[DB] Error completing job ${jobId}:`, error);
+    throw new Error(`Failed to complete index job: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Record a failed attempt
+ * The job is re-queued with exponential backoff while it has attempts left
+ * @returns The job's new status, or null if the worker no longer holds the
+ *   job (the run is lost)
+ */
+export async function failIndexJob(
+  job: IndexJob,
+  workerId: string,
+  errorMessage: string
+): Promise<"queued" | "failed" | null> {
+  const supabase = createClient();
+  const willRetry = job.attempts < job.maxAttempts;
+  const delay = RETRY_BASE_DELAY_MS * 2 ** Math.max(job.attempts - 1, 0);
+
+  const { data, error } = await supabase
+    .from("index_jobs")
+    .update({
+      status: willRetry ? "queued" : "failed",
+      locked_by: null,
+      last_error: errorMessage,
+      run_after: new Date(Date.now() + (willRetry ? delay : 0)).toISOString(),
+      finished_at: willRetry ? null : new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("locked_by", workerId)
+    .eq("status", "running")
+    .select("id");
+
+  if (error) {
+    console.error(`[DB] Error failing job ${job.id}:`, error);
+    throw new Error(`Failed to update index job: ${error.message}`);
+  }
+
+  if ((data || []).length === 0) {
+    return null;
+  }
+  return willRetry ? "queued" : "failed";
+}
+
+/**
+ * Cancel the active job of a repository
+ * A queued job is cancelled immediately; a running job is flagged and stops at
+ * the worker's next cancellation check
+ * @returns The cancelled or flagged job, or null if there was no active job
+ */
+export async function cancelIndexJob(
+  repoId: string
+): Promise<{ job: IndexJob; immediate: boolean } | null> {
+  const supabase = createClient();
+  const now = new Date().toISOString();
+
+  // Conditional updates so a job claimed in the meantime is flagged instead
+  const { data: cancelled, error: cancelError } = await supabase
+    .from("index_jobs")
+    .update({
+      status: "cancelled",
+      cancel_requested_at: now,
+      finished_at: now,
+    })
+    .eq("repository_id", repoId)
+    .eq("status", "queued")
+    .select()
+    .maybeSingle();
+
+  if (cancelError) {
+    console.error(`[DB] Error cancelling job for ${repoId}:`, cancelError);
+    throw new Error(`Failed to cancel index job: ${cancelError.message}`);
+  }
+
+  if (cancelled) {
+    return { job: toIndexJob(cancelled), immediate: true };
+  }
+
+  const { data: flagged, error: flagError } = await supabase
+    .from("index_jobs")
+    .update({ cancel_requested_at: now })
+    .eq("repository_id", repoId)
+    .eq("status", "running")
+    .select()
+    .maybeSingle();
+
+  if (flagError) {
+    console.error(`[DB] Error requesting cancellation for ${repoId}:`, flagError);
+    throw new Error(`Failed to cancel index job: ${flagError.message}`);
+  }
+
+  return flagged ? { job: toIndexJob(flagged), immediate: false } : null;
+}
+
+/**
+ * Check whether a worker should stop running a job
+ * @returns cancelRequested if the user asked to cancel the job; lost if the
+ *   worker no longer holds it (it was re-queued as stale and perhaps claimed
+ *   by another worker)
+ */
+export async function getIndexJobRunState(
+  jobId: string,
+  workerId: string
+): Promise<{ cancelRequested: boolean; lost: boolean }> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("index_jobs")
+    .select("status, locked_by, cancel_requested_at")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[DB] Error checking state of job ${jobId}:`, error);
+    return { cancelRequested: false, lost: false };
+  }
+
+  return {
+    cancelRequested: Boolean(data?.cancel_requested_at),
+    lost: !data || data.status !== "running" || data.locked_by !== workerId,
+  };
+}
+
+/**
+ * Mark a running job as cancelled once the worker has stopped it
+ * @returns false if the worker no longer holds the job (the run is lost)
+ */
+export async function markIndexJobCancelled(
+  jobId: string,
+  workerId: string
+): Promise<boolean> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("index_jobs")
+    .update({
+      status: "cancelled",
+      locked_by: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("locked_by", workerId)
+    .eq("status", "running")
+    .select("id");
+
+  if (error) {
+    console.error(`[DB] Error marking job ${jobId} as cancelled:`, error);
+    throw new Error(`Failed to update index job: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Re-queue (or fail) running jobs whose worker stopped sending heartbeats
+ * @returns Number of jobs recovered
+ */
+export async function recoverStaleIndexJobs(
+  timeoutSeconds: number
+): Promise<number> {
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc("recover_stale_index_jobs", {
+    timeout_seconds: timeoutSeconds,
+  });
+
+  if (error) {
+    console.error(`[DB] Error recovering stale index jobs:`, error);
+    return 0;
+  }
+
+  return data || 0;
+}
+
+/**
+ * Get the queued or running job for a repository, if any
+ */
+export async function getActiveIndexJob(repoId: string): Promise<IndexJob | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("index_jobs")
+    .select("*")
+    .eq("repository_id", repoId)
+    .in("status", ["queued", "running"])
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[DB] Error fetching active job for ${repoId}:`, error);
+    return null;
+  }
+
+  return data ? toIndexJob(data) : null;
+}
+
+/**
+ * Get the most recent job of each repository
+ * @returns Map from repository ID to its latest job
+ */
+export async function getLatestIndexJobs(
+  repoIds: string[]
+): Promise<Map<string, IndexJob>> {
+  const latest = new Map<string, IndexJob>();
+  if (repoIds.length === 0) {
+    return latest;
+  }
+
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc("get_latest_index_jobs", {
+    repository_ids: repoIds,
+  });
+
+  if (error) {
+    console.error(`[DB] Error fetching index jobs:`, error);
+    return latest;
+  }
+
+  for (const row of data || []) {
+    const job = toIndexJob(row);
+    latest.set(job.repoId, job);
+  }
+
+  return latest;
+}
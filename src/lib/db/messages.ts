@@ -1,18 +1,12 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /**
  * Database operations for messages
  * Replaces KV store operations with Supabase table operations
  */
 
 import { createClient } from "@/lib/supabase/admin";
+import { Message, toMessage, toMessageInsert } from "./models";
 
-export interface Message {
-  id: string;
-  chatId: string;
-  role: "user" | "assistant";
-  content: string;
-  createdAt: string;
-}
+export type { Message } from "./models";
 
 /**
  * Get all messages for a chat
@@ -30,13 +24,7 @@ export async function getChatMessages(chatId: string): Promise<Message[]> {
     return [];
   }
 
-  return (data || []).map((msg: any) => ({
-    id: msg.id,
-    chatId: msg.chat_id,
-    role: msg.role as "user" | "assistant",
-    content: msg.content,
-    createdAt: msg.created_at,
-  }));
+  return (data || []).map(toMessage);
 }
 
 /**
@@ -48,12 +36,7 @@ export async function createMessage(
   const supabase = createClient();
   const { data, error } = await supabase
     .from("messages")
-    .insert({
-      id: message.id,
-      chat_id: message.chatId,
-      role: message.role,
-      content: message.content,
-    } as any)
+    .insert(toMessageInsert(message))
     .select()
     .single();
 
@@ -62,14 +45,7 @@ export async function createMessage(
     throw new Error(`Failed to create message: ${error.message}`);
   }
 
-  const result = data as any;
-  return {
-    id: result.id,
-    chatId: result.chat_id,
-    role: result.role as "user" | "assistant",
-    content: result.content,
-    createdAt: result.created_at,
-  };
+  return toMessage(data);
 }
 
 /**
@@ -102,4 +78,4 @@ export async function getMessageCount(chatId: string): Promise<number> {
   }
 
   return count || 0;
-}
\ No newline at end of file
+}
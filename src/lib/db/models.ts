@@ -0,0 +1,308 @@
+/**
+ * Domain models and row mappers for the database tables
+ * Row shapes come from the generated schema (src/lib/supabase/database.types.ts);
+ * the mappers here are the only place snake_case columns are translated.
+ * Only types are imported so the models can be shared with client code.
+ */
+
+import type { Json, Tables, TablesInsert } from "@/lib/supabase/database.types";
+import type { AgentToolCall } from "@/lib/rag/agent-tools";
+import type { CrawlCoverage } from "@/lib/rag/crawler";
+import type { Citation } from "@/lib/rag/citations";
+import type { ChatModelProviderName } from "@/lib/ai/chat-model-provider";
+import type { EmbeddingProviderName } from "@/lib/rag/embeddings";
+import type { IndexProgress } from "@/lib/rag/progress";
+import type { RewrittenQuery } from "@/lib/rag/query-rewriter";
+import type {
+  RepositoryArchive,
+  RepositorySourceType,
+} from "@/lib/rag/repository-source";
+
+export type RepositoryRow = Tables<"repositories">;
+export type ChatRow = Tables<"chats">;
+export type MessageRow = Tables<"messages">;
+export type IndexJobRow = Tables<"index_jobs">;
+export type GitHubCredentialRow = Tables<"github_credentials">;
+export type RepositoryArchiveRow = Tables<"repository_archives">;
+
+export type RepositoryStatus = "processing" | "ready" | "error";
+
+export interface Repository {
+  id: string;
+  userId: string;
+  /** Where the contents are read from; url is interpreted accordingly */
+  sourceType: RepositorySourceType;
+  /** GitHub URL, clone URL, uploaded file name or server path */
+  url: string;
+  owner: string;
+  name: string;
+  /** Branch, tag or commit SHA; undefined tracks the default branch */
+  ref?: string;
+  status: RepositoryStatus;
+  error?: string;
+  chunkCount?: number;
+  readme?: string;
+  fileTree?: string;
+  languages?: string[];
+  framework?: string;
+  indexedCommitSha?: string;
+  coverage?: CrawlCoverage;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  /** Chat model provider; undefined uses the server's LLM_PROVIDER */
+  llmProvider?: ChatModelProviderName;
+  llmModel?: string;
+  /** Embedding model the index was built with; set by indexing */
+  embeddingProvider?: EmbeddingProviderName;
+  embeddingModel?: string;
+  embeddingDimension?: number;
+  /** Latest indexing progress while processing */
+  progress?: IndexProgress;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Chat {
+  id: string;
+  repoId: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MessageRole = "user" | "assistant";
+
+export interface Message {
+  id: string;
+  chatId: string;
+  role: MessageRole;
+  content: string;
+  citations?: Citation[];
+  /** Search queries the answer was retrieved with */
+  rewrittenQuery?: RewrittenQuery;
+  /** Repository tools called before answering (agent mode) */
+  toolCalls?: AgentToolCall[];
+  createdAt: string;
+}
+
+export type IndexJobKind = "embed" | "sync";
+export type IndexJobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export interface IndexJob {
+  id: string;
+  repoId: string;
+  userId: string;
+  kind: IndexJobKind;
+  status: IndexJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  lockedBy?: string;
+  heartbeatAt?: string;
+  lastError?: string;
+  /** Set when cancellation of a running job has been requested */
+  cancelRequestedAt?: string;
+  finishedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GitHubCredential {
+  userId: string;
+  tokenLast4: string;
+  githubLogin?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Columns of github_credentials that are safe to read back (no token) */
+export const GITHUB_CREDENTIAL_COLUMNS =
+  "user_id, token_last4, github_login, created_at, updated_at" as const;
+
+/**
+ * Store a typed value in a JSONB column
+ */
+export function toJson<T>(value: T): Json {
+  return value as unknown as Json;
+}
+
+export function toRepository(row: RepositoryRow): Repository {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    sourceType: row.source_type as RepositorySourceType,
+    url: row.url,
+    owner: row.owner,
+    name: row.name,
+    ref: row.ref || undefined,
+    status: row.status as RepositoryStatus,
+    error: row.error || undefined,
+    chunkCount: row.chunk_count || undefined,
+    readme: row.readme || undefined,
+    fileTree: row.file_tree || undefined,
+    languages: row.languages || undefined,
+    framework: row.framework || undefined,
+    indexedCommitSha: row.indexed_commit_sha || undefined,
+    coverage: (row.coverage as unknown as CrawlCoverage | null) || undefined,
+    includePatterns: row.include_patterns || [],
+    excludePatterns: row.exclude_patterns || [],
+    llmProvider: (row.llm_provider as ChatModelProviderName | null) || undefined,
+    llmModel: row.llm_model || undefined,
+    embeddingProvider:
+      (row.embedding_provider as EmbeddingProviderName | null) || undefined,
+    embeddingModel: row.embedding_model || undefined,
+    embeddingDimension: row.embedding_dimension || undefined,
+    progress: (row.progress as unknown as IndexProgress | null) || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toRepositoryInsert(
+  repo: Omit<Repository, "createdAt" | "updatedAt">
+): TablesInsert<"repositories"> {
+  return {
+    id: repo.id,
+    user_id: repo.userId,
+    source_type: repo.sourceType,
+    url: repo.url,
+    owner: repo.owner,
+    name: repo.name,
+    ref: repo.ref || null,
+    status: repo.status,
+    error: repo.error || null,
+    chunk_count: repo.chunkCount || 0,
+    readme: repo.readme || null,
+    file_tree: repo.fileTree || null,
+    languages: repo.languages || [],
+    framework: repo.framework || null,
+    include_patterns: repo.includePatterns || [],
+    exclude_patterns: repo.excludePatterns || [],
+    llm_provider: repo.llmProvider || null,
+    llm_model: repo.llmModel || null,
+  };
+}
+
+export function toRepositoryArchive(
+  row: RepositoryArchiveRow,
+  content: Buffer
+): RepositoryArchive {
+  return {
+    fileName: row.file_name,
+    sha256: row.sha256,
+    content,
+  };
+}
+
+export function toRepositoryArchiveInsert(
+  repoId: string,
+  archive: RepositoryArchive,
+  storagePath: string
+): TablesInsert<"repository_archives"> {
+  return {
+    repository_id: repoId,
+    file_name: archive.fileName,
+    size_bytes: archive.content.length,
+    sha256: archive.sha256,
+    storage_path: storagePath,
+    content_base64: null,
+  };
+}
+
+export function toChat(row: ChatRow): Chat {
+  return {
+    id: row.id,
+    repoId: row.repository_id,
+    userId: row.user_id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toChatInsert(
+  chat: Omit<Chat, "createdAt" | "updatedAt">
+): TablesInsert<"chats"> {
+  return {
+    id: chat.id,
+    repository_id: chat.repoId,
+    user_id: chat.userId,
+    title: chat.title,
+  };
+}
+
+export function toMessage(row: MessageRow): Message {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    role: row.role as MessageRole,
+    content: row.content,
+    ...(row.citations && {
+      citations: row.citations as unknown as Citation[],
+    }),
+    ...(row.rewritten_query && {
+      rewrittenQuery: row.rewritten_query as unknown as RewrittenQuery,
+    }),
+    ...(row.tool_calls && {
+      toolCalls: row.tool_calls as unknown as AgentToolCall[],
+    }),
+    createdAt: row.created_at,
+  };
+}
+
+export function toMessageInsert(
+  message: Omit<Message, "createdAt">
+): TablesInsert<"messages"> {
+  return {
+    id: message.id,
+    chat_id: message.chatId,
+    role: message.role,
+    content: message.content,
+    ...(message.citations && { citations: toJson(message.citations) }),
+    ...(message.rewrittenQuery && {
+      rewritten_query: toJson(message.rewrittenQuery),
+    }),
+    ...(message.toolCalls && { tool_calls: toJson(message.toolCalls) }),
+  };
+}
+
+export function toIndexJob(row: IndexJobRow): IndexJob {
+  return {
+    id: row.id,
+    repoId: row.repository_id,
+    userId: row.user_id,
+    kind: row.kind as IndexJobKind,
+    status: row.status as IndexJobStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAfter: row.run_after,
+    lockedBy: row.locked_by || undefined,
+    heartbeatAt: row.heartbeat_at || undefined,
+    lastError: row.last_error || undefined,
+    cancelRequestedAt: row.cancel_requested_at || undefined,
+    finishedAt: row.finished_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toGitHubCredential(
+  row: Pick<
+    GitHubCredentialRow,
+    "user_id" | "token_last4" | "github_login" | "created_at" | "updated_at"
+  >
+): GitHubCredential {
+  return {
+    userId: row.user_id,
+    tokenLast4: row.token_last4,
+    githubLogin: row.github_login || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -1,27 +1,21 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /**
  * ENHANCED: Database operations for repositories with metadata support
  */
 
 import { createClient } from "@/lib/supabase/admin";
-
-export interface Repository {
-  id: string;
-  userId: string;
-  url: string;
-  owner: string;
-  name: string;
-  status: "processing" | "ready" | "error";
-  error?: string;
-  chunkCount?: number;
-  // ENHANCED: New metadata fields
-  readme?: string;
-  fileTree?: string;
-  languages?: string[];
-  framework?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import type { TablesUpdate } from "@/lib/supabase/database.types";
+import type { ChatModelProviderName } from "@/lib/ai/chat-model-provider";
+import type { IndexProgress } from "@/lib/rag/progress";
+import type { RepositorySourceType } from "@/lib/rag/repository-source";
+import {
+  Repository,
+  RepositoryStatus,
+  toJson,
+  toRepository,
+  toRepositoryInsert,
+} from "./models";
+
+export type { Repository, RepositoryStatus } from "./models";
 
 export async function getRepository(
   repoId: string
@@ -42,7 +36,7 @@ export async function getRepository(
     return null;
   }
 
-  return transformRepository(data);
+  return toRepository(data);
 }
 
 export async function getUserRepositories(
@@ -63,7 +57,7 @@ export async function getUserRepositories(
     return [];
   }
 
-  return (data || []).map(transformRepository);
+  return (data || []).map(toRepository);
 }
 
 export async function createRepository(
@@ -72,20 +66,7 @@ export async function createRepository(
   const supabase = createClient();
   const { data, error } = await supabase
     .from("repositories")
-    .insert({
-      id: repo.id,
-      user_id: repo.userId,
-      url: repo.url,
-      owner: repo.owner,
-      name: repo.name,
-      status: repo.status,
-      error: repo.error || null,
-      chunk_count: repo.chunkCount || 0,
-      readme: repo.readme || null,
-      file_tree: repo.fileTree || null,
-      languages: repo.languages || [],
-      framework: repo.framework || null,
-    } as any)
+    .insert(toRepositoryInsert(repo))
     .select()
     .single();
 
@@ -94,17 +75,17 @@ export async function createRepository(
     throw new Error(`Failed to create repository: ${error.message}`);
   }
 
-  return transformRepository(data);
+  return toRepository(data);
 }
 
 export async function updateRepositoryStatus(
   repoId: string,
-  status: "processing" | "ready" | "error",
+  status: RepositoryStatus,
   error?: string,
   chunkCount?: number
 ): Promise<void> {
   const supabase = createClient();
-  const updateData: Record<string, any> = {
+  const updateData: TablesUpdate<"repositories"> = {
     status,
     updated_at: new Date().toISOString(),
   };
@@ -117,9 +98,15 @@ export async function updateRepositoryStatus(
     updateData.chunk_count = chunkCount;
   }
 
-  const { error: updateError } = await (
-    supabase.from("repositories").update(updateData as never) as any
-  ).eq("id", repoId);
+  // Progress only describes a run in flight
+  if (status !== "processing") {
+    updateData.progress = null;
+  }
+
+  const { error: updateError } = await supabase
+    .from("repositories")
+    .update(updateData)
+    .eq("id", repoId);
 
   if (updateError) {
     console.error(`[DB] Error updating repository ${repoId}:`, updateError);
@@ -127,6 +114,25 @@ export async function updateRepositoryStatus(
   }
 }
 
+/**
+ * Record the latest indexing progress of a repository
+ * Failures are logged rather than thrown so they never interrupt indexing
+ */
+export async function updateRepositoryProgress(
+  repoId: string,
+  progress: IndexProgress | null
+): Promise<void> {
+  const supabase = createClient();
+  const { error } = await supabase
+    .from("repositories")
+    .update({ progress: toJson(progress) })
+    .eq("id", repoId);
+
+  if (error) {
+    console.error(`[DB] Error updating progress for repository ${repoId}:`, error);
+  }
+}
+
 /**
  * ENHANCED: Update repository metadata after embedding
  */
@@ -142,7 +148,7 @@ export async function updateRepositoryMetadata(
 ): Promise<void> {
   const supabase = createClient();
   
-  const updateData: Record<string, any> = {
+  const updateData: TablesUpdate<"repositories"> = {
     updated_at: new Date().toISOString(),
   };
 
@@ -166,9 +172,10 @@ export async function updateRepositoryMetadata(
     updateData.chunk_count = metadata.chunkCount;
   }
 
-  const { error } = await (
-    supabase.from("repositories").update(updateData as never) as any
-  ).eq("id", repoId);
+  const { error } = await supabase
+    .from("repositories")
+    .update(updateData)
+    .eq("id", repoId);
 
   if (error) {
     console.error(`[DB] Error updating repository metadata ${repoId}:`, error);
@@ -178,6 +185,87 @@ export async function updateRepositoryMetadata(
   console.log(`[DB] Updated metadata for repository ${repoId}`);
 }
 
+/**
+ * Update the include/exclude globs used when indexing a repository
+ * Clears the indexed commit so the next sync re-crawls with the new rules
+ */
+export async function updateRepositoryPathRules(
+  repoId: string,
+  rules: {
+    includePatterns?: string[];
+    excludePatterns?: string[];
+  }
+): Promise<Repository> {
+  const supabase = createClient();
+
+  const updateData: TablesUpdate<"repositories"> = {
+    indexed_commit_sha: null,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (rules.includePatterns !== undefined) {
+    updateData.include_patterns = rules.includePatterns;
+  }
+
+  if (rules.excludePatterns !== undefined) {
+    updateData.exclude_patterns = rules.excludePatterns;
+  }
+
+  const { data, error } = await supabase
+    .from("repositories")
+    .update(updateData)
+    .eq("id", repoId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`[DB] Error updating path rules for repository ${repoId}:`, error);
+    throw new Error(`Failed to update repository: ${error.message}`);
+  }
+
+  return toRepository(data);
+}
+
+/**
+ * Update the chat model provider/model used to answer questions about a repository
+ * null resets a field to the server default
+ */
+export async function updateRepositoryChatModel(
+  repoId: string,
+  selection: {
+    llmProvider?: ChatModelProviderName | null;
+    llmModel?: string | null;
+  }
+): Promise<Repository> {
+  const supabase = createClient();
+
+  const updateData: TablesUpdate<"repositories"> = {
+    updated_at: new Date().toISOString(),
+  };
+
+  if (selection.llmProvider !== undefined) {
+    updateData.llm_provider = selection.llmProvider;
+  }
+
+  if (selection.llmModel !== undefined) {
+    updateData.llm_model = selection.llmModel;
+  }
+
+  const { data, error } = await supabase
+    .from("repositories")
+    .update(updateData)
+    .eq("id", repoId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`[DB] Error updating chat model for repository ${repoId}:`, error);
+    throw new Error(`Failed to update repository: ${error.message}`);
+  }
+
+  return toRepository(data);
+}
+
 /**
  * ENHANCED: Get repository with full metadata
  */
@@ -200,7 +288,7 @@ export async function getRepositoryWithMetadata(
     return null;
   }
 
-  return transformRepository(data);
+  return toRepository(data);
 }
 
 export async function deleteRepository(repoId: string): Promise<void> {
@@ -219,16 +307,21 @@ export async function deleteRepository(repoId: string): Promise<void> {
 export async function repositoryExistsForUser(
   userId: string,
   owner: string,
-  name: string
+  name: string,
+  ref?: string
 ): Promise<boolean> {
   const supabase = createClient();
-  const { data, error } = await supabase
+  const query = supabase
     .from("repositories")
     .select("id")
     .eq("user_id", userId)
+    .eq("source_type", "github")
     .eq("owner", owner)
-    .eq("name", name)
-    .maybeSingle();
+    .eq("name", name);
+
+  const { data, error } = await (
+    ref ? query.eq("ref", ref) : query.is("ref", null)
+  ).maybeSingle();
 
   if (error) {
     console.error(`[DB] Error checking repository existence:`, error);
@@ -239,23 +332,30 @@ export async function repositoryExistsForUser(
 }
 
 /**
- * Helper function to transform database record to Repository interface
+ * Whether the user already added a git URL or server path (at this ref)
  */
-function transformRepository(data: any): Repository {
-  return {
-    id: data.id,
-    userId: data.user_id,
-    url: data.url,
-    owner: data.owner,
-    name: data.name,
-    status: data.status,
-    error: data.error || undefined,
-    chunkCount: data.chunk_count || undefined,
-    readme: data.readme || undefined,
-    fileTree: data.file_tree || undefined,
-    languages: data.languages || undefined,
-    framework: data.framework || undefined,
-    createdAt: data.created_at,
-    updatedAt: data.updated_at,
-  };
-}
\ No newline at end of file
+export async function repositoryLocationExistsForUser(
+  userId: string,
+  sourceType: RepositorySourceType,
+  url: string,
+  ref?: string
+): Promise<boolean> {
+  const supabase = createClient();
+  const query = supabase
+    .from("repositories")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("source_type", sourceType)
+    .eq("url", url);
+
+  const { data, error } = await (
+    ref ? query.eq("ref", ref) : query.is("ref", null)
+  ).maybeSingle();
+
+  if (error) {
+    console.error(`[DB] Error checking repository existence:`, error);
+    return false;
+  }
+
+  return data !== null;
+}
@@ -0,0 +1,168 @@
+/**
+ * Database operations for uploaded repository archives
+ * Archives are only read by the index worker, never returned to clients.
+ * The file itself lives in the repository-archives Storage bucket (in local
+ * mode, under LOCAL_ARCHIVES_DIR); its row only points at it.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { createClient } from "@/lib/supabase/admin";
+import { isLocalMode } from "@/lib/local-mode";
+import type { RepositoryArchive } from "@/lib/rag/repository-source";
+import { toRepositoryArchive, toRepositoryArchiveInsert } from "./models";
+
+const ARCHIVE_BUCKET = "repository-archives";
+const DEFAULT_LOCAL_ARCHIVES_DIR = ".local/archives";
+
+/**
+ * File of a stored archive in local mode (LOCAL_ARCHIVES_DIR, default .local/archives)
+ */
+function getLocalArchivePath(storagePath: string): string {
+  const root = path.resolve(
+    process.env.LOCAL_ARCHIVES_DIR?.trim() || DEFAULT_LOCAL_ARCHIVES_DIR
+  );
+  return path.join(root, ...storagePath.split("/"));
+}
+
+async function writeArchiveFile(storagePath: string, content: Buffer): Promise<void> {
+  if (isLocalMode()) {
+    const file = getLocalArchivePath(storagePath);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, content);
+    return;
+  }
+
+  const { error } = await createClient()
+    .storage.from(ARCHIVE_BUCKET)
+    .upload(storagePath, content, {
+      contentType: "application/octet-stream",
+      upsert: true,
+    });
+  if (error) {
+    throw new Error(`Failed to store archive: ${error.message}`);
+  }
+}
+
+async function readArchiveFile(storagePath: string): Promise<Buffer> {
+  if (isLocalMode()) {
+    return readFile(getLocalArchivePath(storagePath));
+  }
+
+  const { data, error } = await createClient()
+    .storage.from(ARCHIVE_BUCKET)
+    .download(storagePath);
+  if (error || !data) {
+    throw new Error(`Failed to read archive: ${error?.message || "not found"}`);
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+async function removeArchiveFile(storagePath: string): Promise<void> {
+  if (isLocalMode()) {
+    await rm(getLocalArchivePath(storagePath), { force: true });
+    return;
+  }
+
+  const { error } = await createClient()
+    .storage.from(ARCHIVE_BUCKET)
+    .remove([storagePath]);
+  if (error) {
+    throw new Error(`Failed to remove archive: ${error.message}`);
+  }
+}
+
+/**
+ * Store the uploaded archive of a repository
+ * @returns The stored archive with its checksum
+ */
+export async function saveRepositoryArchive(
+  repoId: string,
+  upload: { fileName: string; content: Buffer }
+): Promise<RepositoryArchive> {
+  const archive: RepositoryArchive = {
+    ...upload,
+    sha256: createHash("sha256").update(upload.content).digest("hex"),
+  };
+  const storagePath = `${repoId}/${archive.sha256}`;
+
+  try {
+    await writeArchiveFile(storagePath, archive.content);
+  } catch (error) {
+    console.error(`[DB] Error storing archive for repository ${repoId}:`, error);
+    throw error;
+  }
+
+  const supabase = createClient();
+  const { error } = await supabase
+    .from("repository_archives")
+    .upsert(toRepositoryArchiveInsert(repoId, archive, storagePath), {
+      onConflict: "repository_id",
+    });
+
+  if (error) {
+    console.error(`[DB] Error saving archive for repository ${repoId}:`, error);
+    await removeArchiveFile(storagePath).catch(() => {});
+    throw new Error(`Failed to save archive: ${error.message}`);
+  }
+
+  return archive;
+}
+
+/**
+ * Get the uploaded archive of a repository, or null if there is none
+ */
+export async function getRepositoryArchive(
+  repoId: string
+): Promise<RepositoryArchive | null> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("repository_archives")
+    .select("*")
+    .eq("repository_id", repoId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[DB] Error fetching archive for repository ${repoId}:`, error);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+
+  try {
+    // Archives uploaded before they moved to Storage are still in the row
+    const content = data.storage_path
+      ? await readArchiveFile(data.storage_path)
+      : Buffer.from(data.content_base64 || "", "base64");
+    return toRepositoryArchive(data, content);
+  } catch (error) {
+    console.error(`[DB] Error reading archive for repository ${repoId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Remove the stored file of a repository's archive
+ * The row itself goes with the repository (ON DELETE CASCADE)
+ */
+export async function deleteRepositoryArchive(repoId: string): Promise<void> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("repository_archives")
+    .select("storage_path")
+    .eq("repository_id", repoId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[DB] Error fetching archive for repository ${repoId}:`, error);
+    return;
+  }
+
+  if (data?.storage_path) {
+    await removeArchiveFile(data.storage_path).catch((removeError) => {
+      console.error(`[DB] Error removing archive for repository ${repoId}:`, removeError);
+    });
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Repository indexing worker
+ * Claims jobs from the index_jobs queue and runs the RAG pipeline for them.
+ * Invoked by the cron route (POST /api/cron/index-jobs); any number of
+ * invocations may run at once since claims use row locking.
+ */
+
+import { randomUUID } from "crypto";
+import * as dbJobs from "@/lib/db/index-jobs";
+import * as dbRepos from "@/lib/db/repositories";
+import { getGitHubToken } from "@/lib/db/github-credentials";
+import { getRepositoryArchive } from "@/lib/db/repository-archives";
+import { getEmbeddingConfigFromEnv } from "@/lib/rag/embeddings";
+import { createProgressTracker, IndexProgressUpdate } from "@/lib/rag/progress";
+import { createRAGClient, IndexingCancelledError } from "@/lib/rag/query";
+import { createRepositorySource, RepositorySource } from "@/lib/rag/repository-source";
+import { isLocalMode } from "@/lib/local-mode";
+
+/** A running job without a heartbeat for this long is considered lost */
+const DEFAULT_JOB_TIMEOUT_SECONDS = 300;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+export interface IndexWorkerOptions {
+  workerId?: string;
+  /** Stop after this many jobs (default: 5) */
+  maxJobs?: number;
+  /** Stop claiming new jobs after this long (default: 4 minutes) */
+  timeBudgetMs?: number;
+}
+
+export interface IndexJobOutcome {
+  jobId: string;
+  repoId: string;
+  kind: dbJobs.IndexJobKind;
+  /** lost: another worker took the job over, so this run's outcome was dropped */
+  result: "succeeded" | "retrying" | "failed" | "cancelled" | "lost";
+  error?: string;
+}
+
+export interface IndexWorkerResult {
+  workerId: string;
+  recovered: number;
+  jobs: IndexJobOutcome[];
+}
+
+/**
+ * Recover stale jobs, then claim and run queued jobs until the queue is
+ * empty, maxJobs is reached or the time budget is spent
+ */
+export async function processIndexJobs(
+  options: IndexWorkerOptions = {}
+): Promise<IndexWorkerResult> {
+  const {
+    workerId = `worker-${randomUUID()}`,
+    maxJobs = 5,
+    timeBudgetMs = 4 * 60 * 1000,
+  } = options;
+  const startedAt = Date.now();
+  const timeoutSeconds =
+    Number(process.env.INDEX_JOB_TIMEOUT_SECONDS) || DEFAULT_JOB_TIMEOUT_SECONDS;
+
+  const recovered = await dbJobs.recoverStaleIndexJobs(timeoutSeconds);
+  if (recovered > 0) {
+    console.warn(`[Worker] Recovered ${recovered} stale index job(s)`);
+  }
+
+  const jobs: IndexJobOutcome[] = [];
+  while (jobs.length < maxJobs && Date.now() - startedAt < timeBudgetMs) {
+    const job = await dbJobs.claimIndexJob(workerId);
+    if (!job) {
+      break;
+    }
+
+    console.log(
+      `[Worker] ${workerId} running ${job.kind} job ${job.id} for ${job.repoId} (attempt ${job.attempts}/${job.maxAttempts})`
+    );
+    jobs.push(await runClaimedJob(job, workerId));
+  }
+
+  return { workerId, recovered, jobs };
+}
+
+/**
+ * Run one claimed job with a heartbeat, then record its outcome
+ */
+async function runClaimedJob(
+  job: dbJobs.IndexJob,
+  workerId: string
+): Promise<IndexJobOutcome> {
+  const heartbeat = setInterval(() => {
+    void dbJobs.heartbeatIndexJob(job.id, workerId);
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const lost = (): IndexJobOutcome => {
+    console.warn(
+      `[Worker] ${workerId} no longer holds job ${job.id} for ${job.repoId}; dropping this run`
+    );
+    return { jobId: job.id, repoId: job.repoId, kind: job.kind, result: "lost" };
+  };
+
+  try {
+    await runIndexJob(job, workerId);
+    if (!(await dbJobs.completeIndexJob(job.id, workerId))) {
+      return lost();
+    }
+    return { jobId: job.id, repoId: job.repoId, kind: job.kind, result: "succeeded" };
+  } catch (error) {
+    if (error instanceof IndexJobLostError) {
+      return lost();
+    }
+
+    if (error instanceof IndexingCancelledError) {
+      console.log(`[Worker] Job ${job.id} for ${job.repoId} was cancelled`);
+      if (!(await dbJobs.markIndexJobCancelled(job.id, workerId))) {
+        return lost();
+      }
+      await finishCancelledIndexing(job.repoId);
+      return { jobId: job.id, repoId: job.repoId, kind: job.kind, result: "cancelled" };
+    }
+
+    console.error(`[Worker] Job ${job.id} for ${job.repoId} failed:`, error);
+    const errorMessage = toUserMessage(error, job.kind);
+
+    const status = await dbJobs.failIndexJob(job, workerId, errorMessage);
+    if (!status) {
+      return lost();
+    }
+    if (status === "failed") {
+      await dbRepos.updateRepositoryStatus(job.repoId, "error", errorMessage);
+    }
+
+    return {
+      jobId: job.id,
+      repoId: job.repoId,
+      kind: job.kind,
+      result: status === "queued" ? "retrying" : "failed",
+      error: errorMessage,
+    };
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Settle a repository whose indexing was cancelled
+ * Cancellation stops before the new index generation goes live, so a
+ * previously indexed repository is still usable; one that was never indexed
+ * needs a retry
+ */
+export async function finishCancelledIndexing(repoId: string): Promise<void> {
+  const repository = await dbRepos.getRepository(repoId);
+  if (!repository) {
+    return;
+  }
+
+  if (repository.indexedCommitSha) {
+    await dbRepos.updateRepositoryStatus(repoId, "ready", "");
+  } else {
+    await dbRepos.updateRepositoryStatus(repoId, "error", "Analysis was cancelled");
+  }
+}
+
+/**
+ * Thrown when the worker finds it no longer holds its job
+ * The pipeline stops like a cancellation, before the new index generation
+ * goes live, and the job is left to the worker that holds it now
+ */
+class IndexJobLostError extends Error {
+  constructor(jobId: string) {
+    super(`Index job ${jobId} was taken over by another worker`);
+    this.name = "IndexJobLostError";
+  }
+}
+
+/**
+ * Index (embed) or sync the job's repository and mark it ready
+ */
+async function runIndexJob(job: dbJobs.IndexJob, workerId: string): Promise<void> {
+  const repository = await dbRepos.getRepository(job.repoId);
+  if (!repository) {
+    // Deleted while queued; nothing left to do
+    return;
+  }
+
+  // Local mode uses the embedded database and needs neither
+  const supabaseUrl = process.env.SUPABASE_URL || "";
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+  if (!isLocalMode() && (!supabaseUrl || !supabaseKey)) {
+    throw new Error("Missing Supabase configuration");
+  }
+
+  // Prefer the user's own token so private repositories can be read
+  const githubToken =
+    (await getGitHubToken(job.userId)) || process.env.GITHUB_TOKEN;
+
+  const ragClient = createRAGClient({
+    supabaseUrl,
+    supabaseKey,
+    hfToken: process.env.HF_TOKEN,
+    geminiApiKey: process.env.GOOGLE_AI_API_KEY,
+    githubToken,
+    embedding: getEmbeddingConfigFromEnv(),
+  });
+  const source = createRepositorySource(repository, {
+    githubToken,
+    loadArchive: () => getRepositoryArchive(repository.id),
+  });
+
+  // Persist structured progress for the dashboard (throttled by the tracker).
+  // Writes are chained so none can land after the final status update
+  let persisting = dbRepos.updateRepositoryProgress(repository.id, null);
+  const tracker = createProgressTracker((progress) => {
+    persisting = persisting.then(() =>
+      dbRepos.updateRepositoryProgress(repository.id, progress)
+    );
+  });
+
+  const shouldCancel = async () => {
+    const state = await dbJobs.getIndexJobRunState(job.id, workerId);
+    if (state.lost) {
+      throw new IndexJobLostError(job.id);
+    }
+    return state.cancelRequested;
+  };
+
+  const onProgress = (message: string, progress?: IndexProgressUpdate) => {
+    if (!progress || tracker.current()?.phase !== progress.phase) {
+      console.log(`[RAG] ${job.repoId}: ${message}`);
+    }
+    if (progress) {
+      tracker.update(progress);
+    }
+  };
+
+  try {
+    await runPipeline(job, repository, source, ragClient, onProgress, shouldCancel);
+  } finally {
+    await persisting;
+  }
+
+  const count = await ragClient.getEmbeddingCount(repository.id);
+  await dbRepos.updateRepositoryStatus(repository.id, "ready", "", count);
+}
+
+/**
+ * Run the embed or sync pipeline for a job
+ */
+async function runPipeline(
+  job: dbJobs.IndexJob,
+  repository: dbRepos.Repository,
+  source: RepositorySource,
+  ragClient: ReturnType<typeof createRAGClient>,
+  onProgress: (message: string, progress?: IndexProgressUpdate) => void,
+  shouldCancel: () => Promise<boolean>
+): Promise<void> {
+  if (job.kind === "sync") {
+    const result = await ragClient.syncRepository({
+      repoId: repository.id,
+      owner: repository.owner,
+      repo: repository.name,
+      ref: repository.ref,
+      source,
+      indexedCommitSha: repository.indexedCommitSha,
+      includePatterns: repository.includePatterns,
+      excludePatterns: repository.excludePatterns,
+      // Keep embedding with the model the existing index was built with
+      embeddingModel: {
+        provider: repository.embeddingProvider,
+        model: repository.embeddingModel,
+        dimension: repository.embeddingDimension,
+      },
+      onProgress,
+      shouldCancel,
+    });
+    console.log(`[RAG] Synced ${repository.id} (${result.mode}) to ${result.commitSha}`);
+  } else {
+    await ragClient.embedRepository({
+      repoId: repository.id,
+      owner: repository.owner,
+      repo: repository.name,
+      ref: repository.ref,
+      source,
+      includePatterns: repository.includePatterns,
+      excludePatterns: repository.excludePatterns,
+      onProgress,
+      shouldCancel,
+    });
+  }
+}
+
+/**
+ * Sanitize an error message for user display
+ */
+function toUserMessage(error: unknown, kind: dbJobs.IndexJobKind): string {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  if (
+    errorMessage.includes("embedding") ||
+    errorMessage.includes("Failed to generate")
+  ) {
+    return kind === "sync"
+      ? "An error occurred while syncing the repository."
+      : "An error occurred while analyzing the repository.";
+  }
+  return errorMessage;
+}
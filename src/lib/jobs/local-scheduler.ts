@@ -0,0 +1,41 @@
+/**
+ * In-process index job scheduler for local mode
+ * Nothing calls the cron route when running locally, so the server polls the
+ * index_jobs queue itself. Started from src/instrumentation.ts.
+ */
+
+import { processIndexJobs } from "./index-worker";
+
+const POLL_INTERVAL_MS = 3000;
+
+// Kept on globalThis so dev-server module reloads do not start a second poller
+const globalForScheduler = globalThis as typeof globalThis & {
+  localIndexScheduler?: ReturnType<typeof setInterval>;
+};
+
+export function startLocalIndexScheduler(): void {
+  if (globalForScheduler.localIndexScheduler) {
+    return;
+  }
+
+  let running = false;
+  const poll = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await processIndexJobs();
+      for (const job of result.jobs) {
+        console.log(`[Worker] ${job.kind} job ${job.jobId} for ${job.repoId}: ${job.result}`);
+      }
+    } catch (error) {
+      console.error("[Worker] Local index job run failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  globalForScheduler.localIndexScheduler = setInterval(() => void poll(), POLL_INTERVAL_MS);
+  console.log(`[Worker] Local mode: polling index jobs every ${POLL_INTERVAL_MS / 1000}s`);
+}
@@ -0,0 +1,9 @@
+/**
+ * Local mode (NEXT_PUBLIC_APP_MODE=local)
+ * Runs the app offline: an embedded Postgres instead of Supabase, local
+ * accounts, repositories read from disk or git, and stub models unless other
+ * providers are configured. Readable from both server and browser code.
+ */
+export function isLocalMode(): boolean {
+  return process.env.NEXT_PUBLIC_APP_MODE === "local";
+}
@@ -0,0 +1,402 @@
+/**
+ * Repository tools for multi-step answers
+ * The tools the model can call while working out an answer (see agent.ts):
+ * searching the index, reading files, listing directories from the stored file
+ * tree and looking up declarations. Code shown to the model is numbered [n]
+ * like the sections of a single-pass answer, so the answer can cite it.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/database.types";
+import type { Tokenizer } from "../ai/tokenizer";
+import { joinFileChunks } from "./chunk-expansion";
+import { formatChunkHeader, parseFileTree } from "./context-builder";
+import type { EmbeddingProvider } from "./embeddings";
+import type { RepositorySource } from "./repository-source";
+import * as vectorSearchModule from "./vector-search";
+import type { HybridSearchOptions, StoredChunk } from "./vector-search";
+
+export const AGENT_TOOL_NAMES = [
+  "search_code",
+  "read_file",
+  "list_directory",
+  "find_symbol",
+] as const;
+
+export type AgentToolName = (typeof AGENT_TOOL_NAMES)[number];
+
+/**
+ * A tool call made while answering, stored with the answer (messages.tool_calls)
+ */
+export interface AgentToolCall {
+  /** Tool name as requested by the model */
+  name: string;
+  arguments: Record<string, unknown>;
+  /** One-line outcome, e.g. "Read src/app.ts:L1-L120" */
+  summary: string;
+  error?: boolean;
+  /** Numbers of the sources the call showed, as cited in the answer */
+  sources?: number[];
+}
+
+export interface AgentToolContext {
+  client: SupabaseClient<Database>;
+  repoId: string;
+  /** Model the repository was indexed with */
+  embedder: EmbeddingProvider;
+  tokenizer: Tokenizer;
+  /** Stored file tree of the indexed files */
+  fileTree: string;
+  /** Commit (or ref) files are read at */
+  ref: string;
+  /** Reads files on demand; without it files are rebuilt from the index */
+  source?: RepositorySource;
+  hybridSearch?: Partial<HybridSearchOptions>;
+}
+
+export interface AgentToolResult {
+  /** Text returned to the model */
+  output: string;
+  call: AgentToolCall;
+}
+
+type ToolOutput = Pick<AgentToolResult, "output"> & Pick<AgentToolCall, "summary" | "sources">;
+
+export interface AgentToolbox {
+  execute(name: string, args: Record<string, unknown>): Promise<AgentToolResult>;
+  /** Every source shown so far; source n is sources[n - 1] */
+  sources: StoredChunk[];
+}
+
+const SEARCH_RESULTS = 6;
+const SYMBOL_RESULTS = 5;
+const MAX_READ_LINES = 200;
+const MAX_LIST_ENTRIES = 200;
+// Each section shown by search_code or find_symbol
+const MAX_SECTION_TOKENS = 600;
+
+/** Tool signatures and descriptions for the model's instructions */
+export const AGENT_TOOL_DESCRIPTIONS: Record<AgentToolName, { arguments: string; description: string }> = {
+  search_code: {
+    arguments: `{"query": string}`,
+    description:
+      "Search the repository by meaning and exact terms. Returns the best matching sections.",
+  },
+  read_file: {
+    arguments: `{"path": string, "startLine"?: number, "endLine"?: number}`,
+    description: `Read a file, or a line range of it (at most ${MAX_READ_LINES} lines per call).`,
+  },
+  list_directory: {
+    arguments: `{"path": string}`,
+    description: `List the files and subdirectories of a directory ("" for the repository root).`,
+  },
+  find_symbol: {
+    arguments: `{"name": string}`,
+    description:
+      "Find where a function, class, type, variable or Markdown heading is declared.",
+  },
+};
+
+export function isAgentToolName(value: unknown): value is AgentToolName {
+  return AGENT_TOOL_NAMES.includes(value as AgentToolName);
+}
+
+/**
+ * Status line shown while a tool runs
+ */
+export function describeToolCall(name: string, args: Record<string, unknown>): string {
+  switch (name) {
+    case "search_code":
+      return `Searching the code for "${String(args.query ?? "")}"...`;
+    case "read_file":
+      return `Reading ${String(args.path ?? "")}...`;
+    case "list_directory":
+      return `Listing ${String(args.path || "the repository root")}...`;
+    case "find_symbol":
+      return `Looking up ${String(args.name ?? "")}...`;
+    default:
+      return `Running ${name}...`;
+  }
+}
+
+/**
+ * Normalize a path argument to the form used in the file tree
+ * @returns The path ("" for the root), or null if it leaves the repository
+ */
+function normalizePath(value: unknown): string | null {
+  const path = String(value ?? "")
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/|\/)+/, "")
+    .replace(/\/+$/, "");
+  if (path === ".") {
+    return "";
+  }
+  return path.split("/").some((part) => part === "..") ? null : path;
+}
+
+function toPositiveInteger(value: unknown): number | undefined {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Create the tools for one answer
+ * Sources are numbered across all calls, so a section shown twice keeps its number
+ */
+export function createAgentToolbox(context: AgentToolContext): AgentToolbox {
+  const { client, repoId, tokenizer } = context;
+  const sources: StoredChunk[] = [];
+  const sourceNumbers = new Map<string, number>();
+  let files: Set<string> | null = null;
+
+  const getFiles = () => (files ??= new Set(parseFileTree(context.fileTree)));
+
+  /**
+   * Number a source, reusing the number of one already shown
+   */
+  const addSource = (chunk: StoredChunk): { number: number; isNew: boolean } => {
+    const key = `${chunk.file_path}:${chunk.chunk_index}:${chunk.metadata?.startLine}-${chunk.metadata?.endLine}`;
+    const existing = sourceNumbers.get(key);
+    if (existing) {
+      return { number: existing, isNew: false };
+    }
+    sources.push(chunk);
+    sourceNumbers.set(key, sources.length);
+    return { number: sources.length, isNew: true };
+  };
+
+  const formatSections = (chunks: StoredChunk[]): { text: string; numbers: number[] } => {
+    const numbers: number[] = [];
+    const sections = chunks.map((chunk) => {
+      const { number, isNew } = addSource(chunk);
+      numbers.push(number);
+      const header = `### [${number}] ${formatChunkHeader(chunk)}`;
+      return isNew
+        ? `${header}\n\`\`\`\n${tokenizer.truncate(chunk.chunk_text, MAX_SECTION_TOKENS)}\n\`\`\``
+        : `${header} (shown above)`;
+    });
+    return { text: sections.join("\n\n"), numbers };
+  };
+
+  const describeFiles = (chunks: StoredChunk[]) => {
+    const count = new Set(chunks.map((chunk) => chunk.file_path)).size;
+    return `${count} file${count === 1 ? "" : "s"}`;
+  };
+
+  /**
+   * Numbered lines of a file, read through the source or rebuilt from the index
+   */
+  const readLines = async (path: string): Promise<Map<number, string> | null> => {
+    if (context.source) {
+      try {
+        const {
+          files: [file],
+        } = await context.source.fetchFiles([path], context.ref);
+        if (file) {
+          // A final newline ends the last line rather than starting another
+          const lines = file.content.replace(/\n$/, "").split("\n");
+          return new Map(lines.map((line, i) => [i + 1, line]));
+        }
+      } catch (error) {
+        console.warn(`[RAG] Could not fetch ${path}; reading it from the index:`, error);
+      }
+    }
+
+    const runs = joinFileChunks(path, await vectorSearchModule.getFileChunks(client, repoId, path));
+    if (runs.length === 0) {
+      return null;
+    }
+    const lines = new Map<number, string>();
+    for (const run of runs) {
+      run.text.split("\n").forEach((line, i) => lines.set(run.startLine + i, line));
+    }
+    return lines;
+  };
+
+  const tools: Record<AgentToolName, (args: Record<string, unknown>) => Promise<ToolOutput>> = {
+    async search_code(args) {
+      const query = String(args.query ?? "").trim();
+      if (!query) {
+        throw new Error("search_code needs a query");
+      }
+
+      const queryVector = await context.embedder.embedQuery(query);
+      const results = await vectorSearchModule.hybridSearchChunks(
+        client,
+        repoId,
+        queryVector,
+        query,
+        SEARCH_RESULTS,
+        context.hybridSearch
+      );
+      const hits = vectorSearchModule.removeDuplicateChunks(results);
+      if (hits.length === 0) {
+        return { output: "No matching code found.", summary: "No results" };
+      }
+
+      const { text, numbers } = formatSections(hits);
+      return {
+        output: text,
+        summary: `Found ${hits.length} sections in ${describeFiles(hits)}`,
+        sources: numbers,
+      };
+    },
+
+    async read_file(args) {
+      const path = normalizePath(args.path);
+      if (!path || !getFiles().has(path)) {
+        throw new Error(
+          `${String(args.path ?? "")} is not an indexed file; use list_directory to find files`
+        );
+      }
+
+      const lines = await readLines(path);
+      if (!lines || lines.size === 0) {
+        throw new Error(`${path} could not be read`);
+      }
+
+      const requestedStart = toPositiveInteger(args.startLine);
+      const requestedEnd = toPositiveInteger(args.endLine);
+      if (requestedStart && requestedEnd && requestedEnd < requestedStart) {
+        throw new Error(
+          `endLine ${requestedEnd} is before startLine ${requestedStart}; give the first line, then the last`
+        );
+      }
+
+      // A loop rather than Math.max(...): long files exceed the argument limit
+      let totalLines = 0;
+      for (const line of lines.keys()) {
+        totalLines = Math.max(totalLines, line);
+      }
+      const startLine = Math.min(requestedStart ?? 1, totalLines);
+      const endLine = Math.min(
+        requestedEnd ?? totalLines,
+        startLine + MAX_READ_LINES - 1,
+        totalLines
+      );
+
+      const width = String(endLine).length;
+      const body: string[] = [];
+      for (let line = startLine; line <= endLine; line++) {
+        const text = lines.get(line);
+        body.push(`${String(line).padStart(width)}| ${text ?? ""}`);
+      }
+
+      const { number } = addSource({
+        chunk_text: "",
+        file_path: path,
+        chunk_index: -1,
+        metadata: { startLine, endLine },
+      });
+      const more =
+        endLine < totalLines
+          ? `\n(Lines ${startLine}-${endLine} of ${totalLines}; read from startLine ${endLine + 1} for more.)`
+          : "";
+
+      return {
+        output: `### [${number}] ${path}:L${startLine}-L${endLine}\n\`\`\`\n${body.join("\n")}\n\`\`\`${more}`,
+        summary: `Read ${path}:L${startLine}-L${endLine}`,
+        sources: [number],
+      };
+    },
+
+    async list_directory(args) {
+      const dir = normalizePath(args.path);
+      if (dir === null) {
+        throw new Error("Paths must stay inside the repository");
+      }
+
+      const entries = new Map<string, number>();
+      for (const file of getFiles()) {
+        if (dir && !file.startsWith(`${dir}/`)) {
+          continue;
+        }
+        const rest = dir ? file.slice(dir.length + 1) : file;
+        const [name, ...below] = rest.split("/");
+        const entry = below.length > 0 ? `${name}/` : name;
+        entries.set(entry, (entries.get(entry) || 0) + 1);
+      }
+
+      if (entries.size === 0) {
+        throw new Error(
+          getFiles().has(dir)
+            ? `${dir} is a file; use read_file to read it`
+            : `${dir} is not an indexed directory`
+        );
+      }
+
+      const sorted = Array.from(entries.entries()).sort(
+        ([a], [b]) => Number(!a.endsWith("/")) - Number(!b.endsWith("/")) || a.localeCompare(b)
+      );
+      const lines = sorted
+        .slice(0, MAX_LIST_ENTRIES)
+        .map(([entry, count]) =>
+          entry.endsWith("/") ? `${entry} (${count} file${count === 1 ? "" : "s"})` : entry
+        );
+      if (sorted.length > MAX_LIST_ENTRIES) {
+        lines.push(`... ${sorted.length - MAX_LIST_ENTRIES} more entries`);
+      }
+
+      return {
+        output: `${dir || "/"}:\n${lines.join("\n")}`,
+        summary: `Listed ${sorted.length} entries in ${dir || "/"}`,
+      };
+    },
+
+    async find_symbol(args) {
+      const name = String(args.name ?? "").trim();
+      if (!name) {
+        throw new Error("find_symbol needs a name");
+      }
+
+      const chunks = vectorSearchModule.removeDuplicateChunks(
+        await vectorSearchModule.findSymbolChunks(client, repoId, name, SYMBOL_RESULTS)
+      );
+      if (chunks.length === 0) {
+        return {
+          output: `No declaration of ${name} was found. Try search_code instead.`,
+          summary: "Not found",
+        };
+      }
+
+      const { text, numbers } = formatSections(chunks);
+      return {
+        output: text,
+        summary: `Found ${chunks.length} declaration${chunks.length === 1 ? "" : "s"} in ${describeFiles(chunks)}`,
+        sources: numbers,
+      };
+    },
+  };
+
+  return {
+    sources,
+    async execute(name, args) {
+      if (!isAgentToolName(name)) {
+        return {
+          output: `Unknown tool ${name}. Available tools: ${AGENT_TOOL_NAMES.join(", ")}`,
+          call: { name, arguments: args, summary: "Unknown tool", error: true },
+        };
+      }
+
+      try {
+        const { output, summary, sources: numbers } = await tools[name](args);
+        return {
+          output,
+          call: {
+            name,
+            arguments: args,
+            summary,
+            ...(numbers && numbers.length > 0 && { sources: numbers }),
+          },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return {
+          output: `Error: ${message}`,
+          call: { name, arguments: args, summary: message, error: true },
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChatModelParams, ChatModelProvider } from "../ai/chat-model-provider";
+import type { Tokenizer } from "../ai/tokenizer";
+import { AgentEvent, AgentRunInput, parseToolCalls, runAgent } from "./agent";
+import type { AgentToolbox } from "./agent-tools";
+
+// One token per whitespace-separated word keeps the arithmetic readable
+const wordTokenizer: Tokenizer = {
+  encoding: "cl100k_base",
+  count: (text) => text.split(/\s+/).filter(Boolean).length,
+  truncate: (text, maxTokens) =>
+    maxTokens <= 0 ? "" : text.split(/\s+/).filter(Boolean).slice(0, maxTokens).join(" "),
+};
+
+function toolCall(name: string, args: Record<string, unknown>): string {
+  return `<tool_call>${JSON.stringify({ name, arguments: args })}</tool_call>`;
+}
+
+/**
+ * A chat model that replies with the given turns in order, then streams the
+ * final answer; records the messages of every request
+ */
+function createScriptedModel(replies: string[], finalAnswer: string[]) {
+  const requests: ChatModelParams[] = [];
+  const snapshot = (params: ChatModelParams) =>
+    requests.push({ ...params, messages: params.messages.map((message) => ({ ...message })) });
+
+  const chatModel: ChatModelProvider = {
+    async generate(params) {
+      snapshot(params);
+      return replies.shift() ?? "Out of replies";
+    },
+    async *stream(params) {
+      snapshot(params);
+      yield* finalAnswer;
+    },
+    async countTokens() {
+      return 0;
+    },
+    getTokenizer: () => wordTokenizer,
+    getModelInfo: () => ({ provider: "stub", model: "scripted", contextWindow: 8192 }),
+  };
+
+  return { chatModel, requests };
+}
+
+function createToolbox(output: (name: string) => string = () => "result") {
+  const executed: string[] = [];
+  const toolbox: AgentToolbox = {
+    sources: [],
+    async execute(name, args) {
+      executed.push(name);
+      return { output: output(name), call: { name, arguments: args, summary: `Ran ${name}` } };
+    },
+  };
+  return { toolbox, executed };
+}
+
+async function run(input: Partial<AgentRunInput> & Pick<AgentRunInput, "chatModel" | "toolbox">) {
+  const events: AgentEvent[] = [];
+  for await (const event of runAgent({
+    system: "Answer questions about the repository.",
+    question: "Where are sessions validated?",
+    history: [],
+    options: { maxSteps: 6, maxCallsPerStep: 4 },
+    maxPromptTokens: 10_000,
+    maxResponseTokens: 500,
+    ...input,
+  })) {
+    events.push(event);
+  }
+  return events;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parseToolCalls", () => {
+  it("reads every tool call block in a reply", () => {
+    const reply = [
+      "Let me look around first.",
+      '<tool_call>{"name": "search_code", "arguments": {"query": "session"}}</tool_call>',
+      '<tool_call>\n{"name": " read_file ", "arguments": {"path": "src/a.ts", "startLine": 3}}\n</tool_call>',
+    ].join("\n");
+
+    expect(parseToolCalls(reply)).toEqual({
+      calls: [
+        { name: "search_code", arguments: { query: "session" } },
+        { name: "read_file", arguments: { path: "src/a.ts", startLine: 3 } },
+      ],
+      errors: [],
+    });
+  });
+
+  it("accepts JSON wrapped in a code fence", () => {
+    const reply =
+      '<tool_call>\n```json\n{"name": "list_directory", "arguments": {"path": "src"}}\n```\n</tool_call>';
+
+    expect(parseToolCalls(reply).calls).toEqual([
+      { name: "list_directory", arguments: { path: "src" } },
+    ]);
+  });
+
+  it("returns no calls for a final answer", () => {
+    expect(parseToolCalls("Sessions are validated in middleware.ts [1].")).toEqual({
+      calls: [],
+      errors: [],
+    });
+  });
+
+  it("reports blocks that are not valid JSON or have no name", () => {
+    const reply = [
+      "<tool_call>{name: search_code}</tool_call>",
+      '<tool_call>{"arguments": {"query": "x"}}</tool_call>',
+      '<tool_call>{"name": "search_code", "arguments": {"query": "ok"}}</tool_call>',
+    ].join("\n");
+    const { calls, errors } = parseToolCalls(reply);
+
+    expect(calls).toEqual([{ name: "search_code", arguments: { query: "ok" } }]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain("{name: search_code}");
+    expect(errors[0]).toContain('use {"name": ..., "arguments": {...}} JSON');
+  });
+
+  it("replaces arguments that are not an object with an empty object", () => {
+    const reply = [
+      '<tool_call>{"name": "list_directory"}</tool_call>',
+      '<tool_call>{"name": "list_directory", "arguments": ["src"]}</tool_call>',
+      '<tool_call>{"name": "list_directory", "arguments": "src"}</tool_call>',
+    ].join("\n");
+
+    expect(parseToolCalls(reply).calls).toEqual([
+      { name: "list_directory", arguments: {} },
+      { name: "list_directory", arguments: {} },
+      { name: "list_directory", arguments: {} },
+    ]);
+  });
+
+  it("cuts long invalid blocks in the error message", () => {
+    const { errors } = parseToolCalls(`<tool_call>${"x".repeat(500)}</tool_call>`);
+
+    expect(errors[0]).toContain("x".repeat(200));
+    expect(errors[0]).not.toContain("x".repeat(201));
+  });
+});
+
+describe("runAgent", () => {
+  it("answers directly when the model calls no tools", async () => {
+    const { chatModel, requests } = createScriptedModel(["Sessions are checked in auth.ts."], []);
+    const { toolbox, executed } = createToolbox();
+
+    const events = await run({ chatModel, toolbox });
+
+    expect(events).toEqual([
+      { type: "token", delta: "Sessions are checked in auth.ts." },
+      { type: "done", content: "Sessions are checked in auth.ts.", toolCalls: [] },
+    ]);
+    expect(requests).toHaveLength(1);
+    expect(executed).toEqual([]);
+  });
+
+  it("runs the requested tools and feeds their results back", async () => {
+    const { chatModel, requests } = createScriptedModel(
+      [toolCall("search_code", { query: "session" }), "Validated in middleware.ts [1]."],
+      []
+    );
+    const { toolbox, executed } = createToolbox(() => "[1] src/middleware.ts");
+
+    const events = await run({ chatModel, toolbox });
+
+    expect(executed).toEqual(["search_code"]);
+    expect(events[0]).toEqual({ type: "status", message: 'Searching the code for "session"...' });
+    expect(events.at(-1)).toEqual({
+      type: "done",
+      content: "Validated in middleware.ts [1].",
+      toolCalls: [{ name: "search_code", arguments: { query: "session" }, summary: "Ran search_code" }],
+    });
+    expect(requests[1].messages.at(-1)).toEqual({
+      role: "user",
+      content: '<tool_result name="search_code">\n[1] src/middleware.ts\n</tool_result>',
+    });
+  });
+
+  it("forces a final answer once the step limit is reached", async () => {
+    const { chatModel, requests } = createScriptedModel(
+      [toolCall("list_directory", { path: "src" }), toolCall("read_file", { path: "src/a.ts" })],
+      ["Answer ", "[1]", toolCall("search_code", { query: "more" })]
+    );
+    const { toolbox, executed } = createToolbox();
+
+    const events = await run({ chatModel, toolbox, options: { maxSteps: 2, maxCallsPerStep: 4 } });
+
+    expect(executed).toEqual(["list_directory", "read_file"]);
+    // Two tool turns, then the streamed answer
+    expect(requests).toHaveLength(3);
+    expect(requests[2].messages.at(-1)?.content).toContain(
+      "You cannot call any more tools. Answer the question now"
+    );
+    expect(events.filter((event) => event.type === "status").at(-1)).toEqual({
+      type: "status",
+      message: "Writing answer...",
+    });
+    // Tool calls the model still makes in its answer are dropped
+    expect(events.at(-1)).toMatchObject({ type: "done", content: "Answer [1]" });
+  });
+
+  it("stops running tools once their results fill the prompt budget", async () => {
+    const { chatModel, requests } = createScriptedModel(
+      [
+        [
+          toolCall("read_file", { path: "src/big.ts" }),
+          toolCall("read_file", { path: "src/a.ts" }),
+          toolCall("read_file", { path: "src/b.ts" }),
+        ].join("\n"),
+      ],
+      ["Partial answer."]
+    );
+    const { toolbox, executed } = createToolbox(() => "line ".repeat(1000));
+
+    const events = await run({ chatModel, toolbox, maxPromptTokens: 200 });
+
+    expect(executed).toEqual(["read_file"]);
+    expect(requests).toHaveLength(2);
+    const results = requests[1].messages.at(-1)?.content;
+    expect(results).toContain("(Result left out: there is no room for more results.)");
+    expect(results).not.toContain("line line");
+    expect(events.at(-1)).toMatchObject({ type: "done", content: "Partial answer." });
+  });
+
+  it("runs at most maxCallsPerStep calls in a turn", async () => {
+    const { chatModel, requests } = createScriptedModel(
+      [
+        [1, 2, 3].map((n) => toolCall("read_file", { path: `src/${n}.ts` })).join("\n"),
+        "Done.",
+      ],
+      []
+    );
+    const { toolbox, executed } = createToolbox();
+
+    await run({ chatModel, toolbox, options: { maxSteps: 6, maxCallsPerStep: 2 } });
+
+    expect(executed).toHaveLength(2);
+    expect(requests[1].messages.at(-1)?.content).toContain(
+      "Only 2 tool calls run per turn; the rest were skipped."
+    );
+  });
+
+  it("reports tool call blocks it cannot read back to the model", async () => {
+    const { chatModel, requests } = createScriptedModel(
+      ["<tool_call>{oops}</tool_call>", "Done."],
+      []
+    );
+    const { toolbox, executed } = createToolbox();
+
+    await run({ chatModel, toolbox });
+
+    expect(executed).toEqual([]);
+    expect(requests[1].messages.at(-1)?.content).toContain('<tool_result name="error">');
+  });
+});
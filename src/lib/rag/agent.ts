@@ -0,0 +1,240 @@
+/**
+ * Multi-step answers with repository tools
+ * Instead of answering from one round of retrieval, the model looks around the
+ * repository first: it asks for tools (agent-tools.ts) with
+ * <tool_call>{"name": ..., "arguments": {...}}</tool_call> blocks, reads their
+ * results and answers once it has what it needs. The text protocol works with
+ * every chat model provider, none of which needs native function calling.
+ */
+
+import {
+  ChatModelMessage,
+  ChatModelProvider,
+  MESSAGE_OVERHEAD_TOKENS,
+} from "../ai/chat-model-provider";
+import {
+  AGENT_TOOL_DESCRIPTIONS,
+  AGENT_TOOL_NAMES,
+  AgentToolbox,
+  AgentToolCall,
+  describeToolCall,
+} from "./agent-tools";
+
+export interface AgentOptions {
+  /** Model turns that may call tools before the answer is forced (AGENT_MAX_STEPS) */
+  maxSteps: number;
+  /** Tool calls run per turn; further calls in the same turn are ignored */
+  maxCallsPerStep: number;
+}
+
+export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
+  maxSteps: 6,
+  maxCallsPerStep: 4,
+};
+
+export interface AgentRunInput {
+  chatModel: ChatModelProvider;
+  /** Answer instructions, repository overview and the tool instructions */
+  system: string;
+  question: string;
+  /** Earlier messages that fit the budget, oldest first */
+  history: ChatModelMessage[];
+  toolbox: AgentToolbox;
+  options: AgentOptions;
+  /** Tokens the prompt may grow to, tool results included */
+  maxPromptTokens: number;
+  maxResponseTokens: number;
+}
+
+/**
+ * Events emitted by runAgent
+ */
+export type AgentEvent =
+  | { type: "status"; message: string }
+  | { type: "token"; delta: string }
+  | { type: "done"; content: string; toolCalls: AgentToolCall[] };
+
+const TOOL_CALL_PATTERN = /<tool_call>([\s\S]*?)<\/tool_call>/g;
+
+const FINAL_ANSWER_PROMPT =
+  "You cannot call any more tools. Answer the question now from the results above, citing the sections you used as [n].";
+
+/**
+ * Resolve agent options from defaults, AGENT_MAX_STEPS and overrides
+ * @param overrides - Explicit options (take precedence)
+ * @returns Complete agent options
+ */
+export function resolveAgentOptions(overrides: Partial<AgentOptions> = {}): AgentOptions {
+  const env = typeof process !== "undefined" ? process.env : undefined;
+  const maxStepsFromEnv = Number(env?.AGENT_MAX_STEPS);
+
+  return {
+    maxSteps:
+      overrides.maxSteps ??
+      (Number.isInteger(maxStepsFromEnv) && maxStepsFromEnv > 0
+        ? maxStepsFromEnv
+        : DEFAULT_AGENT_OPTIONS.maxSteps),
+    maxCallsPerStep: overrides.maxCallsPerStep ?? DEFAULT_AGENT_OPTIONS.maxCallsPerStep,
+  };
+}
+
+/**
+ * Tool instructions appended to the answer system prompt
+ */
+export function buildAgentInstructions(options: AgentOptions): string {
+  const tools = AGENT_TOOL_NAMES.map((name) => {
+    const { arguments: args, description } = AGENT_TOOL_DESCRIPTIONS[name];
+    return `- ${name} ${args}: ${description}`;
+  }).join("\n");
+
+  return `**Repository Tools:**
+The context above only gives an overview of the repository; it has no code sections yet. Before answering, use these tools to find and read the code the question is about:
+${tools}
+
+To call tools, reply with one or more blocks like this and nothing else:
+<tool_call>{"name": "search_code", "arguments": {"query": "where sessions are validated"}}</tool_call>
+
+The results come back in <tool_result> blocks. Code sections are numbered [n]; cite them as [n] in the answer like the numbered sections described above. You have at most ${options.maxSteps} turns of tool calls, with up to ${options.maxCallsPerStep} calls per turn, so prefer a few targeted calls: search or look up symbols first, then read the files that matter. When you know enough, write the final answer without any <tool_call> blocks.`;
+}
+
+/**
+ * Read the tool calls in a model reply
+ * @returns Parsed calls, and an error message for each block that is not valid JSON
+ */
+export function parseToolCalls(reply: string): {
+  calls: Array<{ name: string; arguments: Record<string, unknown> }>;
+  errors: string[];
+} {
+  const calls: Array<{ name: string; arguments: Record<string, unknown> }> = [];
+  const errors: string[] = [];
+
+  for (const match of reply.matchAll(TOOL_CALL_PATTERN)) {
+    const body = match[1].trim().replace(/^```(?:json)?\s*|\s*```$/g, "");
+    try {
+      const parsed = JSON.parse(body);
+      if (typeof parsed?.name !== "string") {
+        throw new Error("missing name");
+      }
+      const args = parsed.arguments;
+      calls.push({
+        name: parsed.name.trim(),
+        arguments: args && typeof args === "object" && !Array.isArray(args) ? args : {},
+      });
+    } catch {
+      errors.push(
+        `Could not read the tool call ${body.slice(0, 200)}; use {"name": ..., "arguments": {...}} JSON.`
+      );
+    }
+  }
+
+  return { calls, errors };
+}
+
+function formatToolResult(name: string, output: string): string {
+  return `<tool_result name="${name}">\n${output}\n</tool_result>`;
+}
+
+/**
+ * Answer a question, letting the model call repository tools first
+ * Each step the model either calls tools or answers. Once the step limit is
+ * reached or the tool results fill the prompt budget, the model is asked to
+ * answer with what it has; that answer is streamed.
+ * @returns Status events for each tool call, the answer's tokens and a final
+ *   "done" event with the answer and the calls made
+ */
+export async function* runAgent(input: AgentRunInput): AsyncGenerator<AgentEvent> {
+  const { chatModel, system, toolbox, options } = input;
+  const tokenizer = chatModel.getTokenizer();
+  const messages: ChatModelMessage[] = [
+    ...input.history,
+    { role: "user", content: input.question },
+  ];
+  const toolCalls: AgentToolCall[] = [];
+
+  let promptTokens =
+    tokenizer.count(system) +
+    messages.reduce(
+      (sum, message) => sum + tokenizer.count(message.content) + MESSAGE_OVERHEAD_TOKENS,
+      0
+    );
+  let budgetExhausted = false;
+
+  for (let step = 0; step < options.maxSteps && !budgetExhausted; step++) {
+    const reply = await chatModel.generate({
+      system,
+      messages,
+      maxTokens: input.maxResponseTokens,
+      temperature: 0.2,
+    });
+
+    const { calls, errors } = parseToolCalls(reply);
+    if (calls.length === 0 && errors.length === 0) {
+      // No tools requested: this is the answer
+      yield { type: "token", delta: reply };
+      yield { type: "done", content: reply, toolCalls };
+      return;
+    }
+
+    messages.push({ role: "assistant", content: reply });
+    promptTokens += tokenizer.count(reply) + MESSAGE_OVERHEAD_TOKENS;
+
+    const results = errors.map((error) => formatToolResult("error", error));
+    for (const call of calls.slice(0, options.maxCallsPerStep)) {
+      yield { type: "status", message: describeToolCall(call.name, call.arguments) };
+      const result = await toolbox.execute(call.name, call.arguments);
+      toolCalls.push(result.call);
+
+      let formatted = formatToolResult(call.name, result.output);
+      const tokens = tokenizer.count(formatted);
+      if (promptTokens + tokens + MESSAGE_OVERHEAD_TOKENS > input.maxPromptTokens) {
+        formatted = formatToolResult(call.name, "(Result left out: there is no room for more results.)");
+        budgetExhausted = true;
+      }
+      promptTokens += tokenizer.count(formatted);
+      results.push(formatted);
+      if (budgetExhausted) {
+        // Nothing further fits; the model answers with what it has
+        break;
+      }
+    }
+    if (!budgetExhausted && calls.length > options.maxCallsPerStep) {
+      results.push(
+        formatToolResult(
+          "error",
+          `Only ${options.maxCallsPerStep} tool calls run per turn; the rest were skipped.`
+        )
+      );
+    }
+
+    messages.push({ role: "user", content: results.join("\n\n") });
+    promptTokens += MESSAGE_OVERHEAD_TOKENS;
+  }
+
+  console.log(
+    `[RAG] Agent stopped after ${toolCalls.length} tool calls (${
+      budgetExhausted ? "prompt budget used up" : "step limit reached"
+    }); answering with the results so far`
+  );
+  yield { type: "status", message: "Writing answer..." };
+
+  // The last message holds tool results; ask for the answer alongside them
+  const last = messages[messages.length - 1];
+  last.content = `${last.content}\n\n${FINAL_ANSWER_PROMPT}`;
+
+  let response = "";
+  for await (const delta of chatModel.stream({
+    system,
+    messages,
+    maxTokens: input.maxResponseTokens,
+    temperature: 0.7,
+  })) {
+    response += delta;
+    yield { type: "token", delta };
+  }
+
+  yield {
+    type: "done",
+    content: response.replace(TOOL_CALL_PATTERN, "").trim(),
+    toolCalls,
+  };
+}
@@ -0,0 +1,95 @@
+import { existsSync } from "fs";
+import { mkdtemp, readFile, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { strToU8, zipSync } from "fflate";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  extractArchive,
+  getArchiveBaseName,
+  getArchiveFormat,
+  getArchiveRoot,
+} from "./archive";
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await mkdtemp(path.join(os.tmpdir(), "archive-test-"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await rm(workDir, { recursive: true, force: true });
+});
+
+describe("getArchiveFormat", () => {
+  it("reads the format from the extension", () => {
+    expect(getArchiveFormat("project.zip")).toBe("zip");
+    expect(getArchiveFormat("Project.TAR.GZ")).toBe("tar.gz");
+    expect(getArchiveFormat("project.tgz")).toBe("tar.gz");
+    expect(getArchiveFormat("project.rar")).toBeNull();
+  });
+
+  it("strips the extension for the base name", () => {
+    expect(getArchiveBaseName("uploads/project-main.tar.gz")).toBe("project-main");
+    expect(getArchiveBaseName("project.txt")).toBe("project.txt");
+  });
+});
+
+describe("extractArchive (zip)", () => {
+  it("extracts nested files under a single top-level directory", async () => {
+    const content = Buffer.from(
+      zipSync({
+        "project-main/README.md": strToU8("# Project\n"),
+        "project-main/src/index.ts": strToU8("export {};\n"),
+      })
+    );
+    const dir = path.join(workDir, "out");
+
+    await extractArchive(content, "zip", dir);
+
+    const root = await getArchiveRoot(dir);
+    expect(root).toBe(path.join(dir, "project-main"));
+    expect(await readFile(path.join(root, "src", "index.ts"), "utf8")).toBe("export {};\n");
+  });
+
+  it("skips entries that would leave the target directory", async () => {
+    const content = Buffer.from(
+      zipSync({
+        "../evil.txt": strToU8("escaped"),
+        "nested/../../evil-nested.txt": strToU8("escaped"),
+        "/absolute.txt": strToU8("absolute"),
+        "C:/drive.txt": strToU8("drive"),
+        "safe/file.txt": strToU8("kept"),
+      })
+    );
+    const dir = path.join(workDir, "out");
+
+    await extractArchive(content, "zip", dir);
+
+    expect(existsSync(path.join(workDir, "evil.txt"))).toBe(false);
+    expect(existsSync(path.join(workDir, "evil-nested.txt"))).toBe(false);
+    expect(await readdir(dir)).toEqual(["safe"]);
+    expect(await readFile(path.join(dir, "safe", "file.txt"), "utf8")).toBe("kept");
+  });
+
+  it("rejects an archive that expands past the size limit and leaves nothing behind", async () => {
+    // Limit is 10x the upload limit: 100 bytes of output here
+    vi.stubEnv("ARCHIVE_MAX_BYTES", "10");
+    const content = Buffer.from(zipSync({ "bomb.txt": new Uint8Array(64 * 1024) }));
+    const dir = path.join(workDir, "out");
+
+    await expect(extractArchive(content, "zip", dir)).rejects.toThrow(
+      "Archive expands to more than the allowed size"
+    );
+    expect(await readdir(workDir)).toEqual([]);
+  });
+
+  it("leaves an existing directory as it is", async () => {
+    const dir = path.join(workDir, "out");
+    await extractArchive(Buffer.from(zipSync({ "a.txt": strToU8("first") })), "zip", dir);
+    await extractArchive(Buffer.from(zipSync({ "a.txt": strToU8("second") })), "zip", dir);
+
+    expect(await readFile(path.join(dir, "a.txt"), "utf8")).toBe("first");
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Uploaded repository archives
+ * Extracts .zip and .tar.gz uploads into a directory the archive repository
+ * source reads like a local checkout. Only regular files and directories are
+ * extracted; links, absolute paths and paths leaving the directory are skipped.
+ */
+
+import { randomUUID } from "crypto";
+import { FileHandle, mkdir, open, readdir, rename, rm } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { Unzip, UnzipInflate } from "fflate";
+import * as tar from "tar";
+
+export type ArchiveFormat = "zip" | "tar.gz";
+
+const ARCHIVE_EXTENSIONS: Array<[string, ArchiveFormat]> = [
+  [".zip", "zip"],
+  [".tar.gz", "tar.gz"],
+  [".tgz", "tar.gz"],
+];
+
+const DEFAULT_MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+// Extracted contents may be this many times larger than the upload
+const MAX_EXPANSION_RATIO = 10;
+// Zip archives are fed to the decompressor in pieces this large
+const ZIP_INPUT_CHUNK_BYTES = 64 * 1024;
+const TAR_FILE_TYPES = new Set(["File", "OldFile", "ContiguousFile", "Directory"]);
+
+/**
+ * Format of an archive, from its file name
+ * @returns The format, or null if the extension is not supported
+ */
+export function getArchiveFormat(fileName: string): ArchiveFormat | null {
+  const lowerName = fileName.toLowerCase();
+  const match = ARCHIVE_EXTENSIONS.find(([extension]) => lowerName.endsWith(extension));
+  return match ? match[1] : null;
+}
+
+/**
+ * File name without its archive extension (e.g. "project-main.tar.gz" -> "project-main")
+ */
+export function getArchiveBaseName(fileName: string): string {
+  const baseName = path.basename(fileName);
+  const match = ARCHIVE_EXTENSIONS.find(([extension]) =>
+    baseName.toLowerCase().endsWith(extension)
+  );
+  return match ? baseName.slice(0, -match[0].length) : baseName;
+}
+
+/**
+ * Largest accepted upload in bytes (ARCHIVE_MAX_BYTES, default 50 MB)
+ */
+export function getMaxArchiveBytes(): number {
+  const value = Number(process.env.ARCHIVE_MAX_BYTES);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_ARCHIVE_BYTES;
+}
+
+/**
+ * Normalize an entry path, rejecting ones that would leave the target directory
+ * @returns Relative path with forward slashes, or null to skip the entry
+ */
+function toSafeEntryPath(entryPath: string): string | null {
+  const normalized = path.posix.normalize(entryPath.replace(/\\/g, "/"));
+  if (
+    normalized.startsWith("/") ||
+    normalized === ".." ||
+    normalized.startsWith("../") ||
+    /^[a-zA-Z]:/.test(normalized)
+  ) {
+    return null;
+  }
+  return normalized.replace(/\/+$/, "");
+}
+
+/**
+ * Extract a zip archive, writing files as they are decompressed
+ * Only the output of one input piece is held in memory at a time, and the
+ * size limit is checked against the bytes actually produced.
+ */
+async function extractZip(content: Buffer, dir: string, maxBytes: number): Promise<void> {
+  let extractedBytes = 0;
+  let failure: Error | null = null;
+  let writes = Promise.resolve();
+  const openFiles = new Set<FileHandle>();
+
+  const unzip = new Unzip((file) => {
+    const entryPath = file.name.endsWith("/") ? null : toSafeEntryPath(file.name);
+    if (!entryPath || entryPath === ".") {
+      file.ondata = () => {};
+      return;
+    }
+
+    const target = path.join(dir, ...entryPath.split("/"));
+    let handle: FileHandle | null = null;
+    file.ondata = (error, data, final) => {
+      if (failure) {
+        return;
+      }
+      if (error) {
+        failure = error;
+        return;
+      }
+      extractedBytes += data.length;
+      if (extractedBytes > maxBytes) {
+        failure = new Error("Archive expands to more than the allowed size");
+        file.terminate();
+        return;
+      }
+      writes = writes.then(async () => {
+        if (!handle) {
+          await mkdir(path.dirname(target), { recursive: true });
+          handle = await open(target, "w");
+          openFiles.add(handle);
+        }
+        await handle.write(data);
+        if (final) {
+          openFiles.delete(handle);
+          await handle.close();
+        }
+      });
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  try {
+    for (
+      let offset = 0;
+      offset < content.length && !failure;
+      offset += ZIP_INPUT_CHUNK_BYTES
+    ) {
+      const end = Math.min(offset + ZIP_INPUT_CHUNK_BYTES, content.length);
+      unzip.push(content.subarray(offset, end), end === content.length);
+      await writes;
+    }
+    if (failure) {
+      throw failure;
+    }
+  } finally {
+    await Promise.all([...openFiles].map((handle) => handle.close().catch(() => {})));
+  }
+}
+
+async function extractTarGz(content: Buffer, dir: string, maxBytes: number): Promise<void> {
+  let extractedBytes = 0;
+  await pipeline(
+    Readable.from(content),
+    tar.x({
+      cwd: dir,
+      gzip: true,
+      strict: true,
+      filter: (entryPath, entry) => {
+        const type = "type" in entry ? entry.type : "File";
+        if (!TAR_FILE_TYPES.has(type) || toSafeEntryPath(entryPath) === null) {
+          return false;
+        }
+        extractedBytes += entry.size || 0;
+        return extractedBytes <= maxBytes;
+      },
+    })
+  );
+  if (extractedBytes > maxBytes) {
+    throw new Error("Archive expands to more than the allowed size");
+  }
+}
+
+/**
+ * Extract an archive into dir (created if missing)
+ * Extraction happens in a temporary sibling directory that is renamed into
+ * place, so a half-extracted archive is never read.
+ * @param content - Archive bytes
+ * @param format - Archive format
+ * @param dir - Directory to extract into; left as is if it already exists
+ */
+export async function extractArchive(
+  content: Buffer,
+  format: ArchiveFormat,
+  dir: string
+): Promise<void> {
+  const exists = await readdir(dir).then(() => true, () => false);
+  if (exists) {
+    return;
+  }
+
+  const tempDir = `${dir}.tmp-${randomUUID()}`;
+  await mkdir(tempDir, { recursive: true });
+  try {
+    const maxBytes = getMaxArchiveBytes() * MAX_EXPANSION_RATIO;
+    if (format === "zip") {
+      await extractZip(content, tempDir, maxBytes);
+    } else {
+      await extractTarGz(content, tempDir, maxBytes);
+    }
+    await rename(tempDir, dir).catch(async (error) => {
+      // Another worker extracted the same archive first
+      if (!(await readdir(dir).then(() => true, () => false))) {
+        throw error;
+      }
+    });
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Directory holding an extracted archive's files
+ * Archives such as GitHub's downloads wrap everything in a single top-level
+ * directory, which is skipped so paths match the repository's own.
+ */
+export async function getArchiveRoot(dir: string): Promise<string> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    return path.join(dir, entries[0].name);
+  }
+  return dir;
+}
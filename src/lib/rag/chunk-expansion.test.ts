@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { joinFileChunks, mergeIntoSpans } from "./chunk-expansion";
+import type { SimilarChunk, StoredChunk } from "./vector-search";
+
+// alpha\nbeta\ngamma\ndelta\nepsilon, split into chunks by character offset
+function chunk(
+  index: number,
+  text: string,
+  lines: [number, number],
+  offsets: [number, number]
+): StoredChunk {
+  return {
+    chunk_text: `File: src/a.ts:L${lines[0]}-L${lines[1]}\n\n${text}`,
+    file_path: "src/a.ts",
+    chunk_index: index,
+    metadata: {
+      startLine: lines[0],
+      endLine: lines[1],
+      startOffset: offsets[0],
+      endOffset: offsets[1],
+    },
+  };
+}
+
+const FIRST = chunk(0, "alpha\nbeta", [1, 2], [0, 10]);
+const OVERLAPPING = chunk(1, "beta\ngamma", [2, 3], [6, 16]);
+const ADJACENT = chunk(2, "delta", [4, 4], [17, 22]);
+const DETACHED = chunk(4, "epsilon", [5, 5], [23, 30]);
+
+function hit(stored: StoredChunk, similarity: number): SimilarChunk {
+  return { ...stored, similarity };
+}
+
+describe("mergeIntoSpans", () => {
+  it("joins overlapping chunks without repeating the overlap", () => {
+    const [span] = mergeIntoSpans("src/a.ts", [], [OVERLAPPING, FIRST]);
+
+    expect(span.body).toBe("alpha\nbeta\ngamma");
+    expect(span).toMatchObject({ startLine: 1, endLine: 3, startOffset: 0, endOffset: 16 });
+    expect(span.chunkIndexes).toEqual([0, 1]);
+  });
+
+  it("joins the next chunk of the file, restoring the line break between them", () => {
+    const spans = mergeIntoSpans("src/a.ts", [], [FIRST, OVERLAPPING, ADJACENT, DETACHED]);
+
+    expect(spans).toHaveLength(2);
+    expect(spans[0].body).toBe("alpha\nbeta\ngamma\ndelta");
+    expect(spans[0].chunkIndexes).toEqual([0, 1, 2]);
+    expect(spans[1]).toMatchObject({ body: "epsilon", startLine: 5, chunkIndexes: [4] });
+  });
+
+  it("keeps a chunk contained in the span from adding text", () => {
+    const contained = chunk(1, "beta", [2, 2], [6, 10]);
+    const [span] = mergeIntoSpans("src/a.ts", [], [FIRST, contained]);
+
+    expect(span.body).toBe("alpha\nbeta");
+    expect(span.chunkIndexes).toEqual([0, 1]);
+  });
+
+  it("records the hits of each span, preferring them over the stored copy", () => {
+    const overlappingHit = hit(OVERLAPPING, 0.9);
+    const detachedHit = hit(DETACHED, 0.4);
+    const spans = mergeIntoSpans(
+      "src/a.ts",
+      [overlappingHit, detachedHit],
+      [FIRST, OVERLAPPING, ADJACENT]
+    );
+
+    expect(spans[0].hits).toEqual([overlappingHit]);
+    expect(spans[1].hits).toEqual([detachedHit]);
+  });
+
+  it("leaves out chunks indexed without offsets", () => {
+    const legacy: StoredChunk = { ...ADJACENT, metadata: { startLine: 4, endLine: 4 } };
+    const spans = mergeIntoSpans("src/a.ts", [], [FIRST, legacy]);
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].chunkIndexes).toEqual([0]);
+  });
+});
+
+describe("joinFileChunks", () => {
+  it("returns the file's contiguous runs in file order", () => {
+    expect(joinFileChunks("src/a.ts", [DETACHED, ADJACENT, OVERLAPPING, FIRST])).toEqual([
+      { startLine: 1, endLine: 4, text: "alpha\nbeta\ngamma\ndelta" },
+      { startLine: 5, endLine: 5, text: "epsilon" },
+    ]);
+  });
+
+  it("separates chunks on the same line with a space", () => {
+    const left = chunk(0, "const a = 1;", [1, 1], [0, 12]);
+    const right = chunk(1, "const b = 2;", [1, 1], [13, 25]);
+
+    expect(joinFileChunks("src/a.ts", [left, right])).toEqual([
+      { startLine: 1, endLine: 1, text: "const a = 1; const b = 2;" },
+    ]);
+  });
+});
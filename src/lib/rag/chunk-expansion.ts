@@ -0,0 +1,319 @@
+/**
+ * Neighbour and whole-file expansion of retrieved chunks
+ * A search hit is often a fragment: the function signature sits in the chunk
+ * above, or the rest of the body in the chunk below. Expansion adds the
+ * adjacent chunks of the same file (or the whole file when it only has a few
+ * chunks) and merges overlapping and adjacent chunks into contiguous spans
+ * using their character offsets, so the context never repeats the overlap.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../supabase/database.types";
+import { chunkScore } from "./context-builder";
+import { getFileChunks, SimilarChunk, StoredChunk } from "./vector-search";
+
+export interface ChunkExpansionOptions {
+  /** Expand hits before building the context (CHUNK_EXPANSION=off disables it) */
+  enabled: boolean;
+  /** Chunks added on each side of a hit */
+  neighbors: number;
+  /** Files with at most this many chunks are included whole; 0 disables it */
+  fullFileChunks: number;
+}
+
+export const DEFAULT_CHUNK_EXPANSION: ChunkExpansionOptions = {
+  enabled: true,
+  neighbors: 1,
+  fullFileChunks: 3,
+};
+
+// Header chunkWithMetadata (query.ts) puts above each chunk's text
+const CHUNK_HEADER_PATTERN = /^File: [^\n]*\n\n/;
+
+interface Span {
+  filePath: string;
+  body: string;
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
+  chunkIndexes: number[];
+  hits: SimilarChunk[];
+}
+
+/**
+ * Resolve expansion options from defaults, CHUNK_EXPANSION* environment variables and overrides
+ * @param overrides - Explicit options (take precedence)
+ * @returns Complete expansion options
+ */
+export function resolveChunkExpansionOptions(
+  overrides: Partial<ChunkExpansionOptions> = {}
+): ChunkExpansionOptions {
+  const env = typeof process !== "undefined" ? process.env : undefined;
+  const fromEnv = (name: string): number | undefined => {
+    if (!env?.[name]) {
+      return undefined;
+    }
+    const value = Number(env[name]);
+    return Number.isInteger(value) && value >= 0 ? value : undefined;
+  };
+  const enabledFromEnv = env?.CHUNK_EXPANSION?.trim().toLowerCase();
+
+  return {
+    enabled:
+      overrides.enabled ??
+      (enabledFromEnv
+        ? !["off", "false", "0"].includes(enabledFromEnv)
+        : DEFAULT_CHUNK_EXPANSION.enabled),
+    neighbors:
+      overrides.neighbors ??
+      fromEnv("CHUNK_EXPANSION_NEIGHBORS") ??
+      DEFAULT_CHUNK_EXPANSION.neighbors,
+    fullFileChunks:
+      overrides.fullFileChunks ??
+      fromEnv("CHUNK_EXPANSION_FULL_FILE_CHUNKS") ??
+      DEFAULT_CHUNK_EXPANSION.fullFileChunks,
+  };
+}
+
+/**
+ * Whether a chunk records where its text sits in the file
+ * Chunks indexed before line and offset metadata existed cannot be merged
+ */
+function hasOffsets(chunk: StoredChunk): boolean {
+  return (
+    typeof chunk.metadata?.startOffset === "number" &&
+    typeof chunk.metadata?.endOffset === "number" &&
+    typeof chunk.metadata?.startLine === "number" &&
+    typeof chunk.metadata?.endLine === "number"
+  );
+}
+
+function chunkBody(chunk: StoredChunk): string {
+  return chunk.chunk_text.replace(CHUNK_HEADER_PATTERN, "");
+}
+
+/**
+ * Inclusive chunk index ranges around the hits, with overlapping ranges joined
+ */
+function neighborRanges(
+  hits: SimilarChunk[],
+  neighbors: number
+): Array<{ start: number; end: number }> {
+  const indexes = Array.from(new Set(hits.map((hit) => hit.chunk_index))).sort(
+    (a, b) => a - b
+  );
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of indexes) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - neighbors <= last.end + 1) {
+      last.end = index + neighbors;
+    } else {
+      ranges.push({ start: Math.max(0, index - neighbors), end: index + neighbors });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Fetch the chunks to show around a file's hits
+ * The whole file when it is small enough, otherwise the hits' neighbours
+ */
+async function fetchSurroundingChunks(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  filePath: string,
+  hits: SimilarChunk[],
+  options: ChunkExpansionOptions
+): Promise<StoredChunk[]> {
+  if (options.fullFileChunks > 0) {
+    // One row more than the limit tells a small file from a large one
+    const fileChunks = await getFileChunks(
+      client,
+      repoId,
+      filePath,
+      {},
+      options.fullFileChunks + 1
+    );
+    if (fileChunks.length > 0 && fileChunks.length <= options.fullFileChunks) {
+      return fileChunks;
+    }
+  }
+
+  if (options.neighbors === 0) {
+    return [];
+  }
+
+  const batches = await Promise.all(
+    neighborRanges(hits, options.neighbors).map((range) =>
+      getFileChunks(client, repoId, filePath, range)
+    )
+  );
+  return batches.flat();
+}
+
+/**
+ * Merge a file's hits and surrounding chunks into contiguous spans
+ * Chunks join a span when their text overlaps it or when they are the next
+ * chunk of the file; only the part of the text not already in the span is added.
+ */
+export function mergeIntoSpans(
+  filePath: string,
+  hits: SimilarChunk[],
+  surrounding: StoredChunk[]
+): Span[] {
+  const byIndex = new Map<number, StoredChunk>();
+  surrounding.forEach((chunk) => byIndex.set(chunk.chunk_index, chunk));
+  hits.forEach((hit) => byIndex.set(hit.chunk_index, hit));
+  const hitIndexes = new Set(hits.map((hit) => hit.chunk_index));
+
+  const chunks = Array.from(byIndex.values())
+    .filter(hasOffsets)
+    .sort((a, b) => a.metadata!.startOffset - b.metadata!.startOffset);
+
+  const spans: Span[] = [];
+  let current: Span | null = null;
+  let previousIndex = -1;
+
+  for (const chunk of chunks) {
+    const { startLine, endLine, startOffset, endOffset } = chunk.metadata!;
+    const body = chunkBody(chunk);
+
+    if (
+      current &&
+      (startOffset <= current.endOffset || chunk.chunk_index === previousIndex + 1)
+    ) {
+      if (endOffset > current.endOffset) {
+        if (startOffset < current.endOffset) {
+          current.body += body.slice(current.endOffset - startOffset);
+        } else {
+          // Chunks are trimmed, so the whitespace between them is restored by line
+          const lineGap = startLine - current.endLine;
+          current.body += (lineGap > 0 ? "\n".repeat(lineGap) : " ") + body;
+        }
+        current.endOffset = endOffset;
+        current.endLine = Math.max(current.endLine, endLine);
+      }
+    } else {
+      current = {
+        filePath,
+        body,
+        startLine,
+        endLine,
+        startOffset,
+        endOffset,
+        chunkIndexes: [],
+        hits: [],
+      };
+      spans.push(current);
+    }
+
+    current.chunkIndexes.push(chunk.chunk_index);
+    if (hitIndexes.has(chunk.chunk_index)) {
+      current.hits.push(chunk as SimilarChunk);
+    }
+    previousIndex = chunk.chunk_index;
+  }
+
+  return spans;
+}
+
+/**
+ * Reassemble a file's text from its stored chunks
+ * Whitespace between chunks is approximated, so line numbers stay accurate
+ * @param filePath - File path
+ * @param chunks - Chunks of the file
+ * @returns Contiguous runs of the file with their first line, in file order
+ */
+export function joinFileChunks(
+  filePath: string,
+  chunks: StoredChunk[]
+): Array<{ startLine: number; endLine: number; text: string }> {
+  return mergeIntoSpans(filePath, [], chunks).map((span) => ({
+    startLine: span.startLine,
+    endLine: span.endLine,
+    text: span.body,
+  }));
+}
+
+/**
+ * Describe a span as one retrieved chunk, scored like its best hit
+ */
+function toSpanChunk(span: Span): SimilarChunk {
+  const best = span.hits.reduce((a, b) => (chunkScore(b) > chunkScore(a) ? b : a));
+  if (span.chunkIndexes.length === 1) {
+    return best;
+  }
+
+  const symbolName = best.metadata?.symbolName;
+  const symbol = symbolName ? ` (${best.metadata?.symbolKind || "symbol"} ${symbolName})` : "";
+  return {
+    ...best,
+    chunk_text: `File: ${span.filePath}:L${span.startLine}-L${span.endLine}${symbol}\n\n${span.body}`,
+    metadata: {
+      ...best.metadata,
+      startLine: span.startLine,
+      endLine: span.endLine,
+      startOffset: span.startOffset,
+      endOffset: span.endOffset,
+      expandedChunks: span.chunkIndexes,
+    },
+  };
+}
+
+/**
+ * Add neighbouring chunks (or whole small files) to retrieved chunks
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param hits - Retrieved chunks in rank order
+ * @param options - Expansion options (see resolveChunkExpansionOptions)
+ * @returns One chunk per contiguous span, in the rank order of their best hit;
+ *   hits without file locations are returned unchanged
+ */
+export async function expandChunks(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  hits: SimilarChunk[],
+  options: ChunkExpansionOptions
+): Promise<SimilarChunk[]> {
+  if (!options.enabled || (options.neighbors === 0 && options.fullFileChunks === 0)) {
+    return hits;
+  }
+
+  const hitsByFile = new Map<string, SimilarChunk[]>();
+  for (const hit of hits) {
+    if (hit.file_path && hasOffsets(hit)) {
+      hitsByFile.set(hit.file_path, [...(hitsByFile.get(hit.file_path) || []), hit]);
+    }
+  }
+
+  const spanByHit = new Map<SimilarChunk, Span>();
+  await Promise.all(
+    Array.from(hitsByFile.entries()).map(async ([filePath, fileHits]) => {
+      const surrounding = await fetchSurroundingChunks(
+        client,
+        repoId,
+        filePath,
+        fileHits,
+        options
+      );
+      for (const span of mergeIntoSpans(filePath, fileHits, surrounding)) {
+        span.hits.forEach((hit) => spanByHit.set(hit, span));
+      }
+    })
+  );
+
+  const expanded: SimilarChunk[] = [];
+  const emitted = new Set<Span>();
+  for (const hit of hits) {
+    const span = spanByHit.get(hit);
+    if (!span) {
+      expanded.push(hit);
+    } else if (!emitted.has(span)) {
+      emitted.add(span);
+      expanded.push(toSpanChunk(span));
+    }
+  }
+
+  return expanded;
+}
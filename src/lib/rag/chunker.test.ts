@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest";
+import { chunkSource, ChunkSymbol, detectChunkLanguage, SourceChunk } from "./chunker";
+
+const OPTIONS = { chunkSize: 1000, chunkOverlap: 0 };
+
+// Symbols of every chunk in file order, including ones merged into a chunk
+function symbolsOf(chunks: SourceChunk[]): ChunkSymbol[] {
+  return chunks.flatMap((chunk) => chunk.symbols || (chunk.symbol ? [chunk.symbol] : []));
+}
+
+function lines(...source: string[]): string {
+  return source.join("\n") + "\n";
+}
+
+describe("detectChunkLanguage", () => {
+  it("maps extensions to languages", () => {
+    expect(detectChunkLanguage("src/App.TSX")).toBe("typescript");
+    expect(detectChunkLanguage("index.mjs")).toBe("javascript");
+    expect(detectChunkLanguage("docs/guide.mdx")).toBe("markdown");
+    expect(detectChunkLanguage("styles.css")).toBeNull();
+  });
+});
+
+describe("chunkSource", () => {
+  it("splits TypeScript along top-level declarations", async () => {
+    const source = lines(
+      'import { join } from "path";',
+      "",
+      "/** Greets */",
+      "export function greet(name: string): string {",
+      "  return `Hello ${name}`;",
+      "}",
+      "",
+      "export interface Options {",
+      "  loud: boolean;",
+      "}",
+      "",
+      "export type Mode = \"a\" | \"b\";",
+      "",
+      "export const shout = (text: string) => text.toUpperCase();",
+      "",
+      "export class Greeter {",
+      "  greet() {}",
+      "}"
+    );
+    const chunks = await chunkSource(source, "src/greet.ts", OPTIONS);
+
+    expect(symbolsOf(chunks)).toEqual([
+      { name: "greet", kind: "function" },
+      { name: "Options", kind: "interface" },
+      { name: "Mode", kind: "type" },
+      { name: "shout", kind: "function" },
+      { name: "Greeter", kind: "class" },
+    ]);
+  });
+
+  it("keeps regex literals with unbalanced brackets or quotes from hiding declarations", async () => {
+    const source = lines(
+      "const OPEN = /[(]/;",
+      "const QUOTE = /\"|'/g;",
+      "",
+      "export function first(text) {",
+      "  return /[{]/.test(text) ? text.split(/\\//) : [text];",
+      "}",
+      "",
+      "export function half(value) {",
+      "  return value / 2 / 1;",
+      "}"
+    );
+    const chunks = await chunkSource(source, "src/patterns.js", OPTIONS);
+
+    expect(symbolsOf(chunks)).toEqual([
+      { name: "OPEN", kind: "variable" },
+      { name: "QUOTE", kind: "variable" },
+      { name: "first", kind: "function" },
+      { name: "half", kind: "function" },
+    ]);
+  });
+
+  it("splits Python along definitions, keeping decorators with them", async () => {
+    const source = lines(
+      "import os",
+      "",
+      "@cache",
+      "def load(path):",
+      '    """Read a file',
+      "",
+      'def not_a_function():',
+      '    """',
+      "    return open(path).read()",
+      "",
+      "class Store:",
+      "    def get(self, key):",
+      "        return key"
+    );
+    const chunks = await chunkSource(source, "store.py", { chunkSize: 120, chunkOverlap: 0 });
+
+    expect(symbolsOf(chunks)).toEqual([
+      { name: "load", kind: "function" },
+      { name: "Store", kind: "class" },
+    ]);
+    const load = chunks.find((chunk) => chunk.symbol?.name === "load")!;
+    expect(load.text).toContain("@cache\ndef load(path):");
+    expect(load.text).toContain("return open(path).read()");
+  });
+
+  it("splits Go along functions, methods and types", async () => {
+    const source = lines(
+      "package store",
+      "",
+      "type Store struct {",
+      "\titems map[string]string",
+      "}",
+      "",
+      "func (s *Store) Get(key string) string {",
+      "\treturn s.items[key]",
+      "}",
+      "",
+      "func New() *Store {",
+      "\treturn &Store{items: map[string]string{}}",
+      "}"
+    );
+    const chunks = await chunkSource(source, "store.go", OPTIONS);
+
+    expect(symbolsOf(chunks)).toEqual([
+      { name: "Store", kind: "struct" },
+      { name: "Store.Get", kind: "method" },
+      { name: "New", kind: "function" },
+    ]);
+  });
+
+  it("splits Rust along items, reading char literals and lifetimes", async () => {
+    const source = lines(
+      "pub struct Parser<'a> {",
+      "    input: &'a str,",
+      "}",
+      "",
+      "impl<'a> Parser<'a> {",
+      "    pub fn open(&self) -> char {",
+      "        '{'",
+      "    }",
+      "}",
+      "",
+      "pub fn parse(input: &str) -> Parser<'_> {",
+      "    Parser { input }",
+      "}"
+    );
+    const chunks = await chunkSource(source, "src/parser.rs", OPTIONS);
+
+    expect(symbolsOf(chunks)).toEqual([
+      { name: "Parser", kind: "struct" },
+      { name: "Parser<'a>", kind: "impl" },
+      { name: "parse", kind: "function" },
+    ]);
+  });
+
+  it("splits an oversized Java class into its methods", async () => {
+    const body = "        return \"" + "x".repeat(60) + "\";";
+    const source = lines(
+      "package app;",
+      "",
+      "public class Service {",
+      "    public String first() {",
+      body,
+      "    }",
+      "",
+      "    // The second one",
+      "    public String second() {",
+      body,
+      "    }",
+      "}"
+    );
+    const chunks = await chunkSource(source, "Service.java", { chunkSize: 150, chunkOverlap: 0 });
+
+    expect(symbolsOf(chunks)).toEqual([
+      { name: "Service.first", kind: "method" },
+      { name: "Service.second", kind: "method" },
+    ]);
+    const second = chunks.find((chunk) => chunk.symbol?.name === "Service.second")!;
+    expect(second.text.startsWith("// The second one")).toBe(true);
+  });
+
+  it("splits Markdown at headings outside code fences, naming sections by their path", async () => {
+    const source = lines(
+      "Intro text.",
+      "",
+      "# Setup",
+      "Install it.",
+      "",
+      "## Linux",
+      "```sh",
+      "# not a heading",
+      "```",
+      "",
+      "# Usage",
+      "Run it."
+    );
+    const chunks = await chunkSource(source, "README.md", { chunkSize: 40, chunkOverlap: 0 });
+
+    expect(symbolsOf(chunks)).toEqual([
+      { name: "Setup", kind: "section" },
+      { name: "Setup > Linux", kind: "section" },
+      { name: "Usage", kind: "section" },
+    ]);
+  });
+
+  it("records line ranges and offsets that point back into the file", async () => {
+    const source = lines("export function a() {", "  return 1;", "}", "", "export function b() {}");
+    const chunks = await chunkSource(source, "a.ts", { chunkSize: 40, chunkOverlap: 0 });
+
+    for (const chunk of chunks) {
+      expect(source.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+    }
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [1, 3],
+      [5, 5],
+    ]);
+  });
+
+  it("falls back to character splitting when brackets do not balance", async () => {
+    const source = lines("export function broken() {", "  return [1, 2;", "}");
+    const chunks = await chunkSource(source, "broken.ts", OPTIONS);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].symbol).toBeUndefined();
+    expect(chunks[0].text).toBe(source.trim());
+  });
+
+  it("splits files of unknown languages by characters only", async () => {
+    const source = "a".repeat(30) + "\n\n" + "b".repeat(30);
+    const chunks = await chunkSource(source, "notes.txt", { chunkSize: 40, chunkOverlap: 0 });
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual(["a".repeat(30), "b".repeat(30)]);
+    expect(symbolsOf(chunks)).toEqual([]);
+  });
+});
@@ -0,0 +1,805 @@
+/**
+ * Language-aware chunking
+ * Splits TS/JS/Python/Go/Rust/Java files along top-level declarations (and
+ * class members when a declaration is too large) and Markdown along headings.
+ * Oversized pieces and other file types fall back to the recursive splitter
+ *
+ * Structure comes from a lexical scan (strings, comments, regex literals,
+ * bracket depth and indentation) rather than a full parser, so files the scan cannot make sense
+ * of are chunked by the recursive splitter instead of failing
+ */
+
+import {
+  RecursiveCharacterTextSplitter,
+  SupportedTextSplitterLanguage,
+} from "@langchain/textsplitters";
+
+export type ChunkLanguage =
+  | "typescript"
+  | "javascript"
+  | "python"
+  | "go"
+  | "rust"
+  | "java"
+  | "markdown";
+
+export type SymbolKind =
+  | "function"
+  | "method"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "struct"
+  | "trait"
+  | "impl"
+  | "module"
+  | "variable"
+  | "section";
+
+export interface ChunkSymbol {
+  name: string;
+  kind: SymbolKind;
+}
+
+export interface SourceChunk {
+  text: string;
+  /** 1-based line range within the file */
+  startLine: number;
+  endLine: number;
+  /** Character offsets within the file (end exclusive) */
+  startOffset: number;
+  endOffset: number;
+  /** Primary symbol the chunk belongs to, if any */
+  symbol?: ChunkSymbol;
+  /** Every symbol declared in the chunk, when small declarations were merged */
+  symbols?: ChunkSymbol[];
+}
+
+export interface ChunkOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, ChunkLanguage> = {
+  ts: "typescript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  md: "markdown",
+  mdx: "markdown",
+};
+
+// Separators the recursive fallback uses for each language
+const SPLITTER_LANGUAGE: Record<ChunkLanguage, SupportedTextSplitterLanguage> = {
+  typescript: "js",
+  javascript: "js",
+  python: "python",
+  go: "go",
+  rust: "rust",
+  java: "java",
+  markdown: "markdown",
+};
+
+// Container declarations that are split into members when oversized
+const CONTAINER_KINDS: SymbolKind[] = ["class", "interface", "trait", "impl", "module"];
+
+interface DeclarationPattern {
+  regex: RegExp;
+  kind: SymbolKind;
+}
+
+const TS_MODIFIERS = String.raw`(?:export\s+)?(?:default\s+)?(?:declare\s+)?`;
+
+const TYPESCRIPT_DECLARATIONS: DeclarationPattern[] = [
+  { regex: new RegExp(String.raw`^${TS_MODIFIERS}(?:async\s+)?function\s*\*?\s*([\w$]+)`), kind: "function" },
+  { regex: new RegExp(String.raw`^${TS_MODIFIERS}(?:abstract\s+)?class\s+([\w$]+)`), kind: "class" },
+  { regex: new RegExp(String.raw`^${TS_MODIFIERS}interface\s+([\w$]+)`), kind: "interface" },
+  { regex: new RegExp(String.raw`^${TS_MODIFIERS}type\s+([\w$]+)\s*(?:<.*>)?\s*=`), kind: "type" },
+  { regex: new RegExp(String.raw`^${TS_MODIFIERS}(?:const\s+)?enum\s+([\w$]+)`), kind: "enum" },
+  { regex: new RegExp(String.raw`^${TS_MODIFIERS}(?:namespace|module)\s+([\w$.]+)`), kind: "module" },
+  {
+    regex: /^(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)?\s*(?::[^=]+)?=>|\(\s*$|\([^)]*$|[\w$]+\s*=>|<)/,
+    kind: "function",
+  },
+  { regex: /^(?:export\s+)?(?:const|let|var)\s+([\w$]+)/, kind: "variable" },
+];
+
+const TOP_LEVEL_PATTERNS: Record<Exclude<ChunkLanguage, "markdown">, DeclarationPattern[]> = {
+  typescript: TYPESCRIPT_DECLARATIONS,
+  javascript: TYPESCRIPT_DECLARATIONS,
+  python: [
+    { regex: /^(?:async\s+)?def\s+(\w+)/, kind: "function" },
+    { regex: /^class\s+(\w+)/, kind: "class" },
+  ],
+  go: [
+    { regex: /^func\s+\(\s*\w*\s*\*?\s*(\w+)[^)]*\)\s*(\w+)/, kind: "method" },
+    { regex: /^func\s+(\w+)/, kind: "function" },
+    { regex: /^type\s+(\w+)(?:\[[^\]]*\])?\s+struct\b/, kind: "struct" },
+    { regex: /^type\s+(\w+)(?:\[[^\]]*\])?\s+interface\b/, kind: "interface" },
+    { regex: /^type\s+(\w+)/, kind: "type" },
+    { regex: /^(?:var|const)\s+(\w+)/, kind: "variable" },
+  ],
+  rust: [
+    { regex: /^(?:pub(?:\([^)]*\))?\s+)?(?:(?:const|async|unsafe|extern\s+"[^"]*")\s+)*fn\s+(\w+)/, kind: "function" },
+    { regex: /^(?:pub(?:\([^)]*\))?\s+)?struct\s+(\w+)/, kind: "struct" },
+    { regex: /^(?:pub(?:\([^)]*\))?\s+)?enum\s+(\w+)/, kind: "enum" },
+    { regex: /^(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?trait\s+(\w+)/, kind: "trait" },
+    { regex: /^(?:unsafe\s+)?impl(?:<[^>]*>)?\s+([\w:<>,' &]+?(?:\s+for\s+[\w:<>,' &]+?)?)\s*(?:where\b|\{|$)/, kind: "impl" },
+    { regex: /^(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)/, kind: "module" },
+    { regex: /^(?:pub(?:\([^)]*\))?\s+)?type\s+(\w+)/, kind: "type" },
+    { regex: /^(?:pub(?:\([^)]*\))?\s+)?(?:static|const)\s+(?:mut\s+)?(\w+)/, kind: "variable" },
+    { regex: /^macro_rules!\s*(\w+)/, kind: "function" },
+  ],
+  java: [
+    {
+      regex: /^(?:(?:public|protected|private|abstract|final|static|sealed|non-sealed|strictfp)\s+)*(?:class|record)\s+(\w+)/,
+      kind: "class",
+    },
+    {
+      regex: /^(?:(?:public|protected|private|abstract|static|sealed|non-sealed|strictfp)\s+)*@?interface\s+(\w+)/,
+      kind: "interface",
+    },
+    { regex: /^(?:(?:public|protected|private|static|strictfp)\s+)*enum\s+(\w+)/, kind: "enum" },
+  ],
+};
+
+// Keywords after which a slash starts a regex literal
+const REGEX_PREFIX_KEYWORDS = new Set([
+  "return", "typeof", "instanceof", "in", "of", "new", "delete", "void",
+  "throw", "case", "do", "else", "yield", "await",
+]);
+
+// Words that look like calls at member depth but are control flow
+const NON_MEMBER_WORDS = new Set(["if", "for", "while", "switch", "catch", "return", "new", "super", "this", "throw"]);
+
+const TYPESCRIPT_MEMBERS: RegExp[] = [
+  /^(?:(?:public|private|protected|static|readonly|abstract|override|async|declare|get|set)\s+)*\*?\s*(#?[\w$]+)\s*(?:<[^>]*>)?\s*\(/,
+  /^(?:(?:public|private|protected|static|readonly)\s+)*(#?[\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)?|[\w$]+)\s*(?::[^=]+)?=>/,
+];
+
+const MEMBER_PATTERNS: Record<Exclude<ChunkLanguage, "markdown">, RegExp[]> = {
+  typescript: TYPESCRIPT_MEMBERS,
+  javascript: TYPESCRIPT_MEMBERS,
+  python: [/^(?:async\s+)?def\s+(\w+)/],
+  go: [],
+  rust: [/^(?:pub(?:\([^)]*\))?\s+)?(?:(?:const|async|unsafe|extern\s+"[^"]*")\s+)*fn\s+(\w+)/],
+  java: [
+    /^(?:(?:public|protected|private|abstract|final|static|synchronized|native|default|strictfp)\s+)*(?:<[^>]+>\s+)?[\w$<>[\],.? ]+\s+(\w+)\s*\(/,
+    /^(?:(?:public|protected|private)\s+)?(\w+)\s*\(/,
+    /^(?:(?:public|protected|private|abstract|final|static|sealed|non-sealed)\s+)*(?:class|interface|enum|record)\s+(\w+)/,
+  ],
+};
+
+// Lines that belong to the declaration that follows them
+const LEADING_LINE_PATTERNS: Record<Exclude<ChunkLanguage, "markdown">, RegExp> = {
+  typescript: /^(?:\/\/|\/\*|\*|@)/,
+  javascript: /^(?:\/\/|\/\*|\*|@)/,
+  python: /^(?:#|@)/,
+  go: /^(?:\/\/|\/\*|\*)/,
+  rust: /^(?:\/\/|\/\*|\*|#\[|#!\[)/,
+  java: /^(?:\/\/|\/\*|\*|@)/,
+};
+
+interface LineInfo {
+  /** Bracket depth at the start of the line, counting code characters only */
+  depth: number;
+  /** True when the line starts inside a multi-line string or comment */
+  continued: boolean;
+  indent: number;
+  trimmed: string;
+}
+
+interface Segment {
+  startLine: number;
+  /** Exclusive */
+  endLine: number;
+  symbol?: ChunkSymbol;
+}
+
+/**
+ * Detect the chunking language of a file from its extension
+ * @param filePath - File path
+ * @returns Language, or null for files chunked by characters only
+ */
+export function detectChunkLanguage(filePath: string): ChunkLanguage | null {
+  const extension = filePath.split(".").pop()?.toLowerCase() || "";
+  return LANGUAGE_BY_EXTENSION[extension] || null;
+}
+
+/**
+ * Split a file into chunks along its structure
+ * @param content - File content
+ * @param filePath - File path (selects the language)
+ * @param options - Target chunk size and fallback overlap
+ * @returns Chunks in file order with locations and symbols
+ */
+export async function chunkSource(
+  content: string,
+  filePath: string,
+  options: ChunkOptions
+): Promise<SourceChunk[]> {
+  const language = detectChunkLanguage(filePath);
+  const lineStarts = computeLineStarts(content);
+  // Offset of every line start plus the end of the file, indexed by line
+  const boundaries = [...lineStarts, content.length];
+
+  if (!language || !content.trim()) {
+    return splitSpan(content, 0, content.length, lineStarts, options, null);
+  }
+
+  const lines = content.split("\n");
+  let segments: Segment[] | null;
+
+  if (language === "markdown") {
+    segments = segmentMarkdown(lines);
+  } else {
+    const info = scanLines(lines, language);
+    segments = info ? segmentCode(lines, info, language, options, boundaries) : null;
+  }
+
+  if (!segments || segments.length === 0) {
+    return splitSpan(content, 0, content.length, lineStarts, options, language);
+  }
+
+  const chunks: SourceChunk[] = [];
+  for (const segment of mergeSmallSegments(segments, boundaries, options)) {
+    const start = boundaries[segment.startLine];
+    const end = boundaries[segment.endLine];
+    const size = end - start;
+
+    if (size > options.chunkSize) {
+      const parts = await splitSpan(content, start, end, lineStarts, options, language);
+      chunks.push(...parts.map((part) => withSymbols(part, segment)));
+    } else {
+      const span = trimSpan(content, start, end, lineStarts);
+      if (span) {
+        chunks.push(withSymbols(span, segment));
+      }
+    }
+  }
+
+  return chunks;
+}
+
+function withSymbols(chunk: SourceChunk, segment: Segment & { symbols?: ChunkSymbol[] }): SourceChunk {
+  return {
+    ...chunk,
+    ...(segment.symbol && { symbol: segment.symbol }),
+    ...(segment.symbols && segment.symbols.length > 1 && { symbols: segment.symbols }),
+  };
+}
+
+/**
+ * Offsets at which each line starts
+ */
+function computeLineStarts(content: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") lineStarts.push(i + 1);
+  }
+  return lineStarts;
+}
+
+/**
+ * 1-based line containing an offset
+ */
+function lineAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+/**
+ * Trim surrounding whitespace from a span and describe it as a chunk
+ */
+function trimSpan(
+  content: string,
+  start: number,
+  end: number,
+  lineStarts: number[]
+): SourceChunk | null {
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  if (start >= end) {
+    return null;
+  }
+
+  return {
+    text: content.slice(start, end),
+    startLine: lineAt(lineStarts, start),
+    endLine: lineAt(lineStarts, end - 1),
+    startOffset: start,
+    endOffset: end,
+  };
+}
+
+/**
+ * Split a span with the recursive character splitter, keeping file locations
+ * Overlapping pieces are searched for from just after the previous piece's
+ * start so repeated text maps to the right copy
+ */
+async function splitSpan(
+  content: string,
+  start: number,
+  end: number,
+  lineStarts: number[],
+  options: ChunkOptions,
+  language: ChunkLanguage | null
+): Promise<SourceChunk[]> {
+  const splitterOptions = {
+    chunkSize: options.chunkSize,
+    chunkOverlap: options.chunkOverlap,
+  };
+  const splitter = language
+    ? RecursiveCharacterTextSplitter.fromLanguage(SPLITTER_LANGUAGE[language], splitterOptions)
+    : new RecursiveCharacterTextSplitter(splitterOptions);
+
+  const span = content.slice(start, end);
+  const texts = await splitter.splitText(span);
+
+  const chunks: SourceChunk[] = [];
+  let searchFrom = 0;
+  for (const text of texts) {
+    const index = text ? span.indexOf(text, searchFrom) : -1;
+    if (index === -1) {
+      continue;
+    }
+    searchFrom = index + 1;
+
+    const startOffset = start + index;
+    const endOffset = startOffset + text.length;
+    chunks.push({
+      text,
+      startLine: lineAt(lineStarts, startOffset),
+      endLine: lineAt(lineStarts, Math.max(startOffset, endOffset - 1)),
+      startOffset,
+      endOffset,
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Scan lines for bracket depth, multi-line strings/comments and indentation
+ * @returns Per-line info, or null when brackets do not balance
+ */
+function scanLines(
+  lines: string[],
+  language: Exclude<ChunkLanguage, "markdown">
+): LineInfo[] | null {
+  const info: LineInfo[] = [];
+  const isPython = language === "python";
+  const isScript = language === "typescript" || language === "javascript";
+
+  // Lexer state carried across lines
+  let depth = 0;
+  let mode: "code" | "block_comment" | "string" = "code";
+  let quote = "";
+  // Template literal nesting: depth at which each `${` was opened
+  const templateDepths: number[] = [];
+  // Last code token, to tell a JS/TS regex literal from a division
+  let previousChar = "";
+  let previousWord = "";
+  let wordEnded = false;
+
+  for (const line of lines) {
+    wordEnded = true;
+    info.push({
+      depth,
+      continued: mode !== "code",
+      indent: line.length - line.trimStart().length,
+      trimmed: line.trim(),
+    });
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+
+      if (mode === "block_comment") {
+        if (char === "*" && line[i + 1] === "/") {
+          mode = "code";
+          i++;
+        }
+        continue;
+      }
+
+      if (mode === "string") {
+        if (char === "\\" && quote !== "`raw") {
+          i++;
+        } else if (quote.length === 3 && line.startsWith(quote, i)) {
+          mode = "code";
+          i += 2;
+        } else if (quote === "`" && char === "$" && line[i + 1] === "{") {
+          templateDepths.push(depth);
+          depth++;
+          mode = "code";
+          i++;
+        } else if (char === quote || (quote === "`raw" && char === "`")) {
+          mode = "code";
+          previousChar = char;
+          previousWord = "";
+        }
+        continue;
+      }
+
+      if (isPython ? char === "#" : char === "/" && line[i + 1] === "/") {
+        break;
+      }
+      if (!isPython && char === "/" && line[i + 1] === "*") {
+        mode = "block_comment";
+        i++;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        wordEnded = true;
+        continue;
+      }
+
+      if (isScript && char === "/" && startsRegex(previousChar, previousWord)) {
+        const end = findRegexEnd(line, i);
+        if (end !== -1) {
+          i = end;
+          previousChar = "/";
+          previousWord = "";
+          continue;
+        }
+      }
+
+      previousWord = /[\w$]/.test(char)
+        ? (/[\w$]/.test(previousChar) && !wordEnded ? previousWord : "") + char
+        : "";
+      previousChar = char;
+      wordEnded = false;
+
+      if (char === '"' || char === "'" || char === "`") {
+        if (isPython && line.startsWith(char.repeat(3), i)) {
+          mode = "string";
+          quote = char.repeat(3);
+          i += 2;
+          continue;
+        }
+        if (language === "rust" && char === "'") {
+          // Char literal ('a', '\n') or lifetime ('a)
+          if (line[i + 1] === "\\") {
+            const close = line.indexOf("'", i + 2);
+            i = close === -1 ? line.length : close;
+          } else if (line[i + 2] === "'") {
+            i += 2;
+          }
+          continue;
+        }
+        mode = "string";
+        quote = char === "`" && language === "go" ? "`raw" : char;
+        continue;
+      }
+
+      if (char === "{" || char === "(" || char === "[") {
+        depth++;
+      } else if (char === "}" || char === ")" || char === "]") {
+        depth--;
+        if (
+          char === "}" &&
+          templateDepths.length > 0 &&
+          templateDepths[templateDepths.length - 1] === depth
+        ) {
+          templateDepths.pop();
+          mode = "string";
+          quote = "`";
+        }
+        if (depth < 0) {
+          return null;
+        }
+      }
+    }
+
+    // Only Rust lets plain quoted strings span lines (without a trailing backslash)
+    if (
+      mode === "string" &&
+      (quote === '"' || quote === "'") &&
+      language !== "rust" &&
+      !line.trimEnd().endsWith("\\")
+    ) {
+      mode = "code";
+    }
+  }
+
+  return depth === 0 && mode === "code" ? info : null;
+}
+
+/**
+ * Whether a slash after this token starts a regex literal rather than a division
+ * Operands (names, numbers, strings, closing brackets) are followed by a division
+ */
+function startsRegex(previousChar: string, previousWord: string): boolean {
+  if (previousWord) {
+    return REGEX_PREFIX_KEYWORDS.has(previousWord);
+  }
+  return !previousChar || !/[)\]}"'`/.]/.test(previousChar);
+}
+
+/**
+ * Index of the slash closing a regex literal that starts at start (flags are
+ * code-neutral and left to the caller), or -1 if the line has none
+ */
+function findRegexEnd(line: string, start: number): number {
+  let inClass = false;
+  for (let i = start + 1; i < line.length; i++) {
+    const char = line[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "]") {
+      inClass = false;
+    } else if (char === "/" && !inClass) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function matchDeclaration(
+  trimmed: string,
+  patterns: DeclarationPattern[]
+): ChunkSymbol | null {
+  for (const { regex, kind } of patterns) {
+    const match = trimmed.match(regex);
+    if (match) {
+      // Go methods capture the receiver type and the method name
+      const name = match[2] ? `${match[1]}.${match[2]}` : match[1].trim();
+      return { name, kind };
+    }
+  }
+  return null;
+}
+
+function matchMember(trimmed: string, patterns: RegExp[]): string | null {
+  for (const regex of patterns) {
+    const match = trimmed.match(regex);
+    if (match && !NON_MEMBER_WORDS.has(match[1])) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Move a declaration start up over the comments, decorators and attributes above it
+ */
+function includeLeadingLines(
+  info: LineInfo[],
+  line: number,
+  floor: number,
+  language: Exclude<ChunkLanguage, "markdown">
+): number {
+  let start = line;
+  while (start - 1 > floor) {
+    const previous = info[start - 1];
+    const isLeading =
+      previous.trimmed !== "" &&
+      previous.depth === info[line].depth &&
+      (previous.continued || LEADING_LINE_PATTERNS[language].test(previous.trimmed));
+    if (!isLeading) break;
+    start--;
+  }
+  return start;
+}
+
+/**
+ * Split code into top-level declarations; oversized containers are split
+ * into their members
+ */
+function segmentCode(
+  lines: string[],
+  info: LineInfo[],
+  language: Exclude<ChunkLanguage, "markdown">,
+  options: ChunkOptions,
+  boundaries: number[]
+): Segment[] {
+  const starts: Array<{ line: number; symbol: ChunkSymbol }> = [];
+
+  info.forEach((line, i) => {
+    if (line.depth !== 0 || line.continued || line.indent !== 0 || !line.trimmed) {
+      return;
+    }
+    const symbol = matchDeclaration(line.trimmed, TOP_LEVEL_PATTERNS[language]);
+    if (symbol) {
+      starts.push({ line: i, symbol });
+    }
+  });
+
+  if (starts.length === 0) {
+    return [];
+  }
+
+  const segments: Segment[] = [];
+  let previousEnd = 0;
+
+  starts.forEach((declaration, i) => {
+    const start = includeLeadingLines(info, declaration.line, previousEnd - 1, language);
+    if (i === 0 && start > 0) {
+      // Imports and statements before the first declaration
+      segments.push({ startLine: 0, endLine: start });
+    }
+
+    const nextDeclaration = starts[i + 1];
+    const end = nextDeclaration
+      ? includeLeadingLines(info, nextDeclaration.line, declaration.line, language)
+      : lines.length;
+
+    segments.push({
+      startLine: start,
+      endLine: end,
+      symbol: declaration.symbol,
+    });
+    previousEnd = end;
+  });
+
+  return segments.flatMap((segment) => {
+    const size = spanSize(segment, boundaries);
+    if (size <= options.chunkSize || !segment.symbol) {
+      return [segment];
+    }
+    const isContainer =
+      CONTAINER_KINDS.includes(segment.symbol.kind) ||
+      (language === "java" && segment.symbol.kind === "enum");
+    return isContainer ? splitContainer(segment, info, language) : [segment];
+  });
+}
+
+/**
+ * Split a container declaration (class, impl, trait...) into its members
+ * The declaration header stays with the first member
+ */
+function splitContainer(
+  segment: Segment,
+  info: LineInfo[],
+  language: Exclude<ChunkLanguage, "markdown">
+): Segment[] {
+  const container = segment.symbol!;
+  const memberStarts: Array<{ line: number; name: string }> = [];
+
+  // Python members sit at the body's indentation; brace languages one level deeper
+  let bodyIndent = -1;
+  for (let i = segment.startLine + 1; i < segment.endLine; i++) {
+    const line = info[i];
+    if (line.trimmed && !line.continued && line.depth === 0 && line.indent > 0) {
+      bodyIndent = line.indent;
+      break;
+    }
+  }
+
+  for (let i = segment.startLine + 1; i < segment.endLine; i++) {
+    const line = info[i];
+    if (!line.trimmed || line.continued) continue;
+
+    const atMemberLevel =
+      language === "python"
+        ? line.depth === 0 && line.indent === bodyIndent
+        : line.depth === 1;
+    if (!atMemberLevel) continue;
+
+    const name = matchMember(line.trimmed, MEMBER_PATTERNS[language]);
+    if (name) {
+      memberStarts.push({ line: i, name });
+    }
+  }
+
+  if (memberStarts.length < 2) {
+    return [segment];
+  }
+
+  const members: Segment[] = memberStarts.map((member, i) => {
+    const floor = i === 0 ? segment.startLine : memberStarts[i - 1].line;
+    const start = i === 0 ? segment.startLine : includeLeadingLines(info, member.line, floor, language);
+    return {
+      startLine: start,
+      endLine: segment.endLine,
+      symbol: { name: `${container.name}.${member.name}`, kind: "method" as SymbolKind },
+    };
+  });
+
+  // Each member ends where the next one (with its leading comments) begins
+  for (let i = 0; i < members.length - 1; i++) {
+    members[i].endLine = members[i + 1].startLine;
+  }
+
+  return members;
+}
+
+/**
+ * Split Markdown at headings outside fenced code blocks
+ * Each section is named by its heading path, e.g. "Setup > Linux"
+ */
+function segmentMarkdown(lines: string[]): Segment[] {
+  const segments: Segment[] = [];
+  const headingPath: Array<{ level: number; title: string }> = [];
+  let fence: string | null = null;
+
+  lines.forEach((line, i) => {
+    const fenceMatch = line.match(/^\s{0,3}(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      return;
+    }
+    if (fence) return;
+
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (!heading) return;
+
+    const level = heading[1].length;
+    while (headingPath.length > 0 && headingPath[headingPath.length - 1].level >= level) {
+      headingPath.pop();
+    }
+    headingPath.push({ level, title: heading[2] });
+
+    if (segments.length > 0) {
+      segments[segments.length - 1].endLine = i;
+    } else if (i > 0) {
+      segments.push({ startLine: 0, endLine: i });
+    }
+    segments.push({
+      startLine: i,
+      endLine: lines.length,
+      symbol: { name: headingPath.map((entry) => entry.title).join(" > "), kind: "section" },
+    });
+  });
+
+  return segments;
+}
+
+function spanSize(segment: Segment, boundaries: number[]): number {
+  return boundaries[segment.endLine] - boundaries[segment.startLine];
+}
+
+/**
+ * Merge runs of small segments so tiny declarations do not become tiny chunks
+ * The merged chunk keeps the first symbol as its primary symbol
+ */
+function mergeSmallSegments(
+  segments: Segment[],
+  boundaries: number[],
+  options: ChunkOptions
+): Array<Segment & { symbols?: ChunkSymbol[] }> {
+  const minSize = Math.floor(options.chunkSize / 5);
+  const merged: Array<Segment & { symbols?: ChunkSymbol[] }> = [];
+
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    const canMerge =
+      previous &&
+      (spanSize(previous, boundaries) < minSize || spanSize(segment, boundaries) < minSize) &&
+      spanSize({ ...previous, endLine: segment.endLine }, boundaries) <= options.chunkSize;
+
+    if (canMerge) {
+      previous.endLine = segment.endLine;
+      if (segment.symbol) {
+        previous.symbols = [...(previous.symbols || []), segment.symbol];
+        previous.symbol = previous.symbol || segment.symbol;
+      }
+    } else {
+      merged.push({
+        ...segment,
+        symbols: segment.symbol ? [segment.symbol] : [],
+      });
+    }
+  }
+
+  return merged;
+}
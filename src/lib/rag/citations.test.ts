@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildBlobUrl,
+  buildCitations,
+  Citation,
+  CitationSource,
+  selectCitedSources,
+} from "./citations";
+
+const GITHUB: CitationSource = {
+  sourceType: "github",
+  owner: "acme",
+  repo: "widget",
+  commitSha: "abc123",
+  ref: "main",
+};
+
+function citation(index: number): Citation {
+  return { index, filePath: `src/file-${index}.ts`, chunkIndex: index, url: null };
+}
+
+describe("buildBlobUrl", () => {
+  it("links to the file at the indexed commit", () => {
+    expect(buildBlobUrl(GITHUB, "src/index.ts")).toBe(
+      "https://github.com/acme/widget/blob/abc123/src/index.ts"
+    );
+  });
+
+  it("falls back to the ref, then HEAD, and encodes each path segment", () => {
+    expect(buildBlobUrl({ ...GITHUB, commitSha: null, ref: "release/1.0" }, "docs/a b#.md")).toBe(
+      "https://github.com/acme/widget/blob/release%2F1.0/docs/a%20b%23.md"
+    );
+    expect(buildBlobUrl({ owner: "acme", repo: "widget" }, "README.md")).toBe(
+      "https://github.com/acme/widget/blob/HEAD/README.md"
+    );
+  });
+
+  it("anchors a line or a line range", () => {
+    expect(buildBlobUrl(GITHUB, "a.ts", 12)).toMatch(/\/a\.ts#L12$/);
+    expect(buildBlobUrl(GITHUB, "a.ts", 12, 12)).toMatch(/\/a\.ts#L12$/);
+    expect(buildBlobUrl(GITHUB, "a.ts", 12, 30)).toMatch(/\/a\.ts#L12-L30$/);
+  });
+
+  it("has no URL for sources other than GitHub", () => {
+    expect(buildBlobUrl({ ...GITHUB, sourceType: "archive" }, "a.ts", 1)).toBeNull();
+    expect(buildBlobUrl({ sourceType: "github", repo: "widget" }, "a.ts")).toBeNull();
+  });
+});
+
+describe("buildCitations", () => {
+  it("numbers citations by context section and skips chunks without a file", () => {
+    const citations = buildCitations(
+      [
+        { file_path: "src/a.ts", chunk_index: 4, similarity: 0.9, metadata: { startLine: 3, endLine: 9 } },
+        { file_path: null, chunk_index: 0 },
+        { file_path: "src/b.ts", chunk_index: 7, metadata: { startLine: "3", endLine: 0 } },
+      ],
+      GITHUB
+    );
+
+    expect(citations).toEqual([
+      {
+        index: 1,
+        filePath: "src/a.ts",
+        chunkIndex: 4,
+        url: "https://github.com/acme/widget/blob/abc123/src/a.ts#L3-L9",
+        startLine: 3,
+        endLine: 9,
+        similarity: 0.9,
+      },
+      {
+        index: 3,
+        filePath: "src/b.ts",
+        chunkIndex: 7,
+        url: "https://github.com/acme/widget/blob/abc123/src/b.ts",
+      },
+    ]);
+  });
+
+  it("keeps line ranges without links for uploaded archives", () => {
+    const [first] = buildCitations(
+      [{ file_path: "a.ts", chunk_index: 0, metadata: { startLine: 1, endLine: 2 } }],
+      { sourceType: "archive" }
+    );
+
+    expect(first).toMatchObject({ url: null, startLine: 1, endLine: 2 });
+  });
+});
+
+describe("selectCitedSources", () => {
+  const citations = [1, 2, 3, 4].map(citation);
+
+  it("keeps the sections the answer cites, in section order", () => {
+    const cited = selectCitedSources("See [3] and [1].", citations);
+
+    expect(cited.map((c) => c.index)).toEqual([1, 3]);
+  });
+
+  it("reads comma-separated lists", () => {
+    const cited = selectCitedSources("Both handle it [1, 3] and [2,4].", citations);
+
+    expect(cited.map((c) => c.index)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("ignores markers that are not section numbers", () => {
+    const cited = selectCitedSources("Use arr[i] or [9], as in [2].", citations);
+
+    expect(cited.map((c) => c.index)).toEqual([2]);
+  });
+
+  it("falls back to every source when the answer cites none of them", () => {
+    expect(selectCitedSources("No markers here.", citations)).toEqual(citations);
+    expect(selectCitedSources("Only [7].", citations)).toEqual(citations);
+  });
+});
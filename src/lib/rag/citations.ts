@@ -0,0 +1,114 @@
+/**
+ * Source citations for repository answers
+ * Maps the numbered context sections [1]..[N] back to files and GitHub links
+ */
+
+export interface Citation {
+  /** Section number used in the context and in the answer, e.g. [3] */
+  index: number;
+  filePath: string;
+  chunkIndex: number;
+  /** GitHub blob URL at the indexed commit (or ref), with a line anchor when known */
+  url: string | null;
+  startLine?: number;
+  endLine?: number;
+  similarity?: number;
+}
+
+export interface CitationSource {
+  /** Only GitHub repositories get links; other sources have no browsable URL */
+  sourceType?: string;
+  owner?: string;
+  repo?: string;
+  /** Indexed commit SHA; preferred over the ref so links never drift */
+  commitSha?: string | null;
+  ref?: string | null;
+}
+
+interface CitableChunk {
+  file_path: string | null;
+  chunk_index: number;
+  similarity?: number;
+  metadata?: Record<string, unknown> | null;
+}
+
+/**
+ * Build a GitHub blob URL for a file
+ * @param source - Repository coordinates
+ * @param filePath - Path within the repository
+ * @param startLine - Optional first line (1-based)
+ * @param endLine - Optional last line (1-based)
+ * @returns URL, or null if the repository is unknown or not on GitHub
+ */
+export function buildBlobUrl(
+  source: CitationSource,
+  filePath: string,
+  startLine?: number,
+  endLine?: number
+): string | null {
+  if (!source.owner || !source.repo || (source.sourceType && source.sourceType !== "github")) {
+    return null;
+  }
+
+  const ref = source.commitSha || source.ref || "HEAD";
+  const encodedPath = filePath.split("/").map(encodeURIComponent).join("/");
+  let url = `https://github.com/${source.owner}/${source.repo}/blob/${encodeURIComponent(ref)}/${encodedPath}`;
+
+  if (startLine) {
+    url += endLine && endLine !== startLine ? `#L${startLine}-L${endLine}` : `#L${startLine}`;
+  }
+
+  return url;
+}
+
+/**
+ * Describe each retrieved chunk as a citation, numbered like the context sections
+ * @param chunks - Retrieved chunks in context order
+ * @param source - Repository coordinates for links
+ * @returns One citation per chunk that has a file path
+ */
+export function buildCitations(chunks: CitableChunk[], source: CitationSource): Citation[] {
+  const citations: Citation[] = [];
+
+  chunks.forEach((chunk, i) => {
+    if (!chunk.file_path) {
+      return;
+    }
+
+    const startLine = toLineNumber(chunk.metadata?.startLine);
+    const endLine = toLineNumber(chunk.metadata?.endLine);
+
+    citations.push({
+      index: i + 1,
+      filePath: chunk.file_path,
+      chunkIndex: chunk.chunk_index,
+      url: buildBlobUrl(source, chunk.file_path, startLine, endLine),
+      ...(startLine && { startLine }),
+      ...(endLine && { endLine }),
+      ...(chunk.similarity !== undefined && { similarity: chunk.similarity }),
+    });
+  });
+
+  return citations;
+}
+
+/**
+ * Keep the citations the answer refers to with [n] markers
+ * Falls back to every retrieved source when the answer cites none
+ * @param answer - Generated answer
+ * @param citations - Citations for all context sections
+ * @returns Cited sources in section order
+ */
+export function selectCitedSources(answer: string, citations: Citation[]): Citation[] {
+  const referenced = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    match[1].split(",").forEach((value) => referenced.add(Number(value.trim())));
+  }
+
+  const cited = citations.filter((citation) => referenced.has(citation.index));
+  return cited.length > 0 ? cited : citations;
+}
+
+function toLineNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { MESSAGE_OVERHEAD_TOKENS } from "../ai/chat-model-provider";
+import type { Tokenizer } from "../ai/tokenizer";
+import { buildAnswerContext, ContextBuildInput } from "./context-builder";
+import type { SimilarChunk } from "./vector-search";
+
+// One token per whitespace-separated word keeps the arithmetic readable
+const wordTokenizer: Tokenizer = {
+  encoding: "cl100k_base",
+  count: (text) => text.split(/\s+/).filter(Boolean).length,
+  truncate: (text, maxTokens) =>
+    maxTokens <= 0 ? "" : text.split(/\s+/).filter(Boolean).slice(0, maxTokens).join(" "),
+};
+
+function words(count: number, word = "token"): string {
+  return Array.from({ length: count }, () => word).join(" ");
+}
+
+function chunk(index: number, similarity: number, text = words(100)): SimilarChunk {
+  return {
+    chunk_text: text,
+    similarity,
+    file_path: `src/file-${index}.ts`,
+    chunk_index: index,
+    metadata: { startLine: 1, endLine: 10 },
+  };
+}
+
+function build(overrides: Partial<ContextBuildInput>) {
+  return buildAnswerContext({
+    chunks: [],
+    metadata: { languages: ["TypeScript"], totalFiles: 3 },
+    history: [],
+    budget: 10_000,
+    reservedTokens: 100,
+    tokenizer: wordTokenizer,
+    ...overrides,
+  });
+}
+
+describe("buildAnswerContext", () => {
+  it("keeps every section in rank order when the budget allows", () => {
+    const chunks = [chunk(0, 0.9), chunk(1, 0.8), chunk(2, 0.7)];
+    const result = build({ chunks });
+
+    expect(result.chunks).toEqual(chunks);
+    expect(result.report.droppedChunks).toEqual([]);
+    expect(result.context).toContain("### [1] src/file-0.ts:L1-L10");
+    expect(result.context).toContain("### [3] src/file-2.ts:L1-L10");
+  });
+
+  it("drops the lowest-scoring sections until the rest fit", () => {
+    const chunks = [chunk(0, 0.9), chunk(1, 0.2), chunk(2, 0.7), chunk(3, 0.5)];
+    // Room for two sections of about 110 tokens after the 5% safety margin
+    const result = build({ chunks, budget: 400 });
+
+    expect(result.chunks.map((kept) => kept.chunk_index)).toEqual([0, 2]);
+    expect(result.report.droppedChunks.map((dropped) => dropped.chunkIndex)).toEqual([1, 3]);
+    expect(result.report.droppedChunks[0]).toMatchObject({
+      filePath: "src/file-1.ts",
+      score: 0.2,
+    });
+    expect(result.report.used.total).toBeLessThanOrEqual(400);
+    // Kept sections are renumbered
+    expect(result.context).toContain("### [2] src/file-2.ts");
+    expect(result.context).not.toContain("src/file-1.ts");
+  });
+
+  it("ranks by re-rank score, then fused score, before similarity", () => {
+    const chunks = [
+      { ...chunk(0, 0.9), rerank_score: 0.1 },
+      { ...chunk(1, 0.1), score: 0.8 },
+    ];
+    const result = build({ chunks, budget: 250 });
+
+    expect(result.chunks.map((kept) => kept.chunk_index)).toEqual([1]);
+    expect(result.report.droppedChunks[0].chunkIndex).toBe(0);
+  });
+
+  it("cuts a single section that does not fit instead of dropping it", () => {
+    const result = build({ chunks: [chunk(0, 0.9, words(1000))], budget: 300 });
+
+    expect(result.chunks).toHaveLength(1);
+    expect(result.report.truncatedChunk).toEqual({ filePath: "src/file-0.ts", chunkIndex: 0 });
+    expect(result.report.used.chunks).toBeLessThan(1000);
+    expect(result.report.used.total).toBeLessThanOrEqual(300);
+  });
+
+  it("keeps the newest history messages that fit in the history share", () => {
+    const history = [
+      { role: "user" as const, content: words(300, "oldest") },
+      { role: "assistant" as const, content: words(50, "older") },
+      { role: "user" as const, content: words(50, "newest") },
+    ];
+    // History share: 20% of (1000 * 0.95 - 100) = 170 tokens
+    const result = build({ history, budget: 1000 });
+
+    expect(result.history).toEqual(history.slice(1));
+    expect(result.report.droppedHistoryMessages).toBe(1);
+    expect(result.report.used.history).toBe(2 * (50 + MESSAGE_OVERHEAD_TOKENS));
+  });
+
+  it("cuts the README to the metadata share", () => {
+    const result = build({
+      metadata: { languages: ["TypeScript"], totalFiles: 3, readme: words(1000, "readme") },
+      budget: 1000,
+    });
+
+    expect(result.report.readmeTruncated).toBe(true);
+    expect(result.context).toContain("## README Summary:");
+    expect(result.report.used.metadata).toBeLessThanOrEqual(Math.floor((950 - 100) * 0.08));
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Token-budgeted context assembly
+ * Fits the repository context and chat history into the model's prompt budget,
+ * counting with the model's tokenizer. Each section (file tree, metadata,
+ * history) is capped at a share of the budget; the retrieved sections get the
+ * rest, and the lowest-scoring ones are dropped first when they do not fit.
+ * What was left out is reported for debugging.
+ */
+
+import type { ChatModelMessage } from "../ai/chat-model-provider";
+import { MESSAGE_OVERHEAD_TOKENS } from "../ai/chat-model-provider";
+import type { Tokenizer } from "../ai/tokenizer";
+import type { SimilarChunk, StoredChunk } from "./vector-search";
+
+/**
+ * Caps for each section, as shares of the tokens left after the instructions
+ * and question; whatever a section does not use goes to the retrieved sections
+ */
+export interface ContextBudgetShares {
+  tree: number;
+  metadata: number;
+  history: number;
+}
+
+export const DEFAULT_CONTEXT_SHARES: ContextBudgetShares = {
+  tree: 0.15,
+  metadata: 0.08,
+  history: 0.2,
+};
+
+// Headroom for models whose tokenizer only approximates ours
+const SAFETY_MARGIN = 0.05;
+// README excerpt limit, however much budget is left
+const MAX_README_TOKENS = 400;
+
+/** Repository facts shown above the retrieved sections */
+export interface ContextMetadata {
+  fileTree?: string;
+  languages: string[];
+  framework?: string;
+  totalFiles: number;
+  readme?: string;
+}
+
+export interface ContextBuildInput {
+  /** Retrieved sections in rank order */
+  chunks: SimilarChunk[];
+  metadata: ContextMetadata;
+  /** Earlier messages, oldest first */
+  history: ChatModelMessage[];
+  /** Tokens the prompt may use in total */
+  budget: number;
+  /** Tokens already spent on the instructions and the question */
+  reservedTokens: number;
+  tokenizer: Tokenizer;
+  shares?: Partial<ContextBudgetShares>;
+}
+
+export interface DroppedChunk {
+  filePath: string | null;
+  chunkIndex: number;
+  score: number;
+  tokens: number;
+}
+
+/**
+ * Where the budget went and what did not fit
+ */
+export interface ContextReport {
+  tokenizer: string;
+  budget: number;
+  used: {
+    reserved: number;
+    tree: number;
+    metadata: number;
+    history: number;
+    chunks: number;
+    total: number;
+  };
+  /** Retrieved sections left out, lowest score first */
+  droppedChunks: DroppedChunk[];
+  /** The kept section whose text was cut to fit, if any */
+  truncatedChunk?: { filePath: string | null; chunkIndex: number };
+  droppedHistoryMessages: number;
+  /** Files of the tree that were collapsed or cut */
+  omittedTreeFiles: number;
+  readmeTruncated: boolean;
+}
+
+export interface BuiltContext {
+  /** The context block for the system prompt */
+  context: string;
+  /** Sections included, numbered [1]..[N] in this order */
+  chunks: SimilarChunk[];
+  /** History that fits, oldest first */
+  history: ChatModelMessage[];
+  report: ContextReport;
+}
+
+type TreeNode = Map<string, TreeNode | null>;
+
+/**
+ * Parse a tree rendered by the indexer (├── / └── connectors, four columns
+ * per level) back into file paths
+ */
+export function parseFileTree(fileTree: string): string[] {
+  const lines = fileTree.split("\n").filter((line) => line.trim());
+  const stack: string[] = [];
+  const paths: string[] = [];
+
+  lines.forEach((line, i) => {
+    const match = line.match(/^(.*?)(?:├── |└── )(.*)$/);
+    if (!match) {
+      return;
+    }
+    const depth = Math.floor(match[1].length / 4);
+    stack.length = depth;
+    stack.push(match[2]);
+
+    const next = lines[i + 1]?.match(/^(.*?)(?:├── |└── )/);
+    const nextDepth = next ? Math.floor(next[1].length / 4) : -1;
+    // Entries with children are directories
+    if (nextDepth <= depth) {
+      paths.push(stack.join("/"));
+    }
+  });
+
+  return paths;
+}
+
+function buildTree(paths: string[]): TreeNode {
+  const root: TreeNode = new Map();
+  for (const filePath of paths) {
+    const parts = filePath.split("/");
+    let node = root;
+    parts.forEach((part, i) => {
+      if (i === parts.length - 1) {
+        node.set(part, null);
+      } else {
+        let child = node.get(part);
+        if (!child) {
+          child = new Map();
+          node.set(part, child);
+        }
+        node = child;
+      }
+    });
+  }
+  return root;
+}
+
+function countFiles(node: TreeNode): number {
+  let count = 0;
+  for (const child of node.values()) {
+    count += child === null ? 1 : countFiles(child);
+  }
+  return count;
+}
+
+/**
+ * Render a tree, expanding only the directories `expand` accepts and listing
+ * only the files `showFile` accepts; the rest is summarized per directory
+ */
+function renderTree(
+  node: TreeNode,
+  expand: (dirPath: string) => boolean,
+  showFile: (filePath: string) => boolean,
+  prefix = "",
+  parentPath = ""
+): { text: string; omitted: number } {
+  let text = "";
+  let omitted = 0;
+  const lines: Array<{ label: string; child?: TreeNode; path: string }> = [];
+  let hiddenFiles = 0;
+
+  for (const [name, child] of node) {
+    const entryPath = parentPath ? `${parentPath}/${name}` : name;
+    if (child === null) {
+      if (showFile(entryPath)) {
+        lines.push({ label: name, path: entryPath });
+      } else {
+        hiddenFiles++;
+      }
+    } else if (expand(entryPath)) {
+      lines.push({ label: `${name}/`, child, path: entryPath });
+    } else {
+      const files = countFiles(child);
+      omitted += files;
+      lines.push({ label: `${name}/ (${files} files)`, path: entryPath });
+    }
+  }
+  if (hiddenFiles > 0) {
+    omitted += hiddenFiles;
+    lines.push({ label: `… ${hiddenFiles} more files`, path: "" });
+  }
+
+  lines.forEach((line, i) => {
+    const isLast = i === lines.length - 1;
+    text += `${prefix}${isLast ? "└── " : "├── "}${line.label}\n`;
+    if (line.child) {
+      const rendered = renderTree(
+        line.child,
+        expand,
+        showFile,
+        prefix + (isLast ? "    " : "│   "),
+        line.path
+      );
+      text += rendered.text;
+      omitted += rendered.omitted;
+    }
+  });
+
+  return { text, omitted };
+}
+
+/**
+ * Fit the file tree into maxTokens, keeping the parts around relevant files
+ * Tries, in order: the whole tree; the directories of relevant files with their
+ * other directories collapsed; only the relevant files and top-level entries;
+ * and finally cuts the text
+ */
+export function trimFileTree(
+  fileTree: string,
+  relevantPaths: string[],
+  maxTokens: number,
+  tokenizer: Tokenizer
+): { text: string; omittedFiles: number } {
+  if (tokenizer.count(fileTree) <= maxTokens) {
+    return { text: fileTree, omittedFiles: 0 };
+  }
+
+  const paths = parseFileTree(fileTree);
+  const root = buildTree(paths);
+  const relevant = new Set(relevantPaths);
+  const relevantDirs = new Set<string>();
+  const ancestors = new Set<string>();
+  for (const filePath of relevant) {
+    const parts = filePath.split("/");
+    relevantDirs.add(parts.slice(0, -1).join("/"));
+    for (let i = 1; i < parts.length; i++) {
+      ancestors.add(parts.slice(0, i).join("/"));
+    }
+  }
+  const parentOf = (filePath: string) => filePath.split("/").slice(0, -1).join("/");
+
+  const attempts = [
+    // Relevant directories in full, with their sibling directories collapsed
+    () =>
+      renderTree(
+        root,
+        (dir) => ancestors.has(dir),
+        (file) => relevantDirs.has(parentOf(file))
+      ),
+    // Only the relevant files and the top level
+    () =>
+      renderTree(
+        root,
+        (dir) => ancestors.has(dir),
+        (file) => relevant.has(file) || !file.includes("/")
+      ),
+  ];
+
+  let last = { text: fileTree, omitted: 0 };
+  for (const attempt of attempts) {
+    last = attempt();
+    if (tokenizer.count(last.text) <= maxTokens) {
+      return { text: last.text, omittedFiles: last.omitted };
+    }
+  }
+
+  // Still too large: keep whole lines up to the limit
+  const truncated = tokenizer.truncate(last.text, maxTokens);
+  const kept = truncated.slice(0, truncated.lastIndexOf("\n") + 1);
+  const cutFiles = parseFileTree(last.text).length - parseFileTree(kept).length;
+  return { text: kept, omittedFiles: last.omitted + Math.max(cutFiles, 0) };
+}
+
+/**
+ * Format a retrieved chunk's source as `path:L10-L42` when its lines are known,
+ * followed by the enclosing symbol, e.g. `(function handleRequest)`
+ */
+export function formatChunkHeader(chunk: StoredChunk): string {
+  const filePath = chunk.file_path || "Unknown file";
+  const startLine = chunk.metadata?.startLine;
+  const endLine = chunk.metadata?.endLine;
+  const symbolName = chunk.metadata?.symbolName;
+  const symbol = symbolName ? ` (${chunk.metadata?.symbolKind || "symbol"} ${symbolName})` : "";
+
+  if (!chunk.file_path || typeof startLine !== "number") {
+    return `${filePath}${symbol}`;
+  }
+  return typeof endLine === "number" && endLine !== startLine
+    ? `${filePath}:L${startLine}-L${endLine}${symbol}`
+    : `${filePath}:L${startLine}${symbol}`;
+}
+
+function formatChunk(chunk: SimilarChunk, number: number, text = chunk.chunk_text): string {
+  let section = `### [${number}] ${formatChunkHeader(chunk)}\n`;
+  section += `Similarity: ${(chunk.similarity * 100).toFixed(1)}%`;
+  if (chunk.rerank_score !== undefined) {
+    section += ` | Relevance: ${(chunk.rerank_score * 100).toFixed(1)}%`;
+  }
+  if (chunk.keyword_rank) {
+    section += ` | Keyword match: ${chunk.keyword_rank.toFixed(3)}`;
+  }
+  section += "\n```\n";
+  section += text;
+  section += "\n```\n\n";
+  return section;
+}
+
+/**
+ * Ranking score of a retrieved chunk (cross-encoder score when re-ranked,
+ * fused score in hybrid mode)
+ */
+export function chunkScore(chunk: SimilarChunk): number {
+  return chunk.rerank_score ?? chunk.score ?? chunk.similarity;
+}
+
+function formatMetadata(metadata: ContextMetadata, readme: string, readmeTruncated: boolean): string {
+  let section = "";
+  if (metadata.languages.length > 0) {
+    section += `## Languages: ${metadata.languages.join(", ")}\n`;
+  }
+  if (metadata.framework) {
+    section += `## Framework: ${metadata.framework}\n`;
+  }
+  section += `## Total Files: ${metadata.totalFiles}\n\n`;
+  if (readme) {
+    section += "## README Summary:\n";
+    section += readme + (readmeTruncated ? "..." : "") + "\n\n";
+  }
+  return section;
+}
+
+/**
+ * Assemble the context and history within the token budget
+ */
+export function buildAnswerContext(input: ContextBuildInput): BuiltContext {
+  const { tokenizer, metadata } = input;
+  const shares = { ...DEFAULT_CONTEXT_SHARES, ...input.shares };
+  const budget = Math.floor(input.budget * (1 - SAFETY_MARGIN));
+  const available = Math.max(budget - input.reservedTokens, 0);
+
+  // History: the newest messages that fit
+  const historyCap = Math.floor(available * shares.history);
+  const history: ChatModelMessage[] = [];
+  let historyTokens = 0;
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const tokens = tokenizer.count(input.history[i].content) + MESSAGE_OVERHEAD_TOKENS;
+    if (historyTokens + tokens > historyCap) {
+      break;
+    }
+    history.unshift(input.history[i]);
+    historyTokens += tokens;
+  }
+
+  // Metadata, with as much of the README as its share allows
+  const metadataCap = Math.floor(available * shares.metadata);
+  const baseMetadataTokens = tokenizer.count(formatMetadata(metadata, "", false));
+  const readmeSource = metadata.readme?.trim() || "";
+  const readme = tokenizer.truncate(
+    readmeSource,
+    Math.min(MAX_README_TOKENS, metadataCap - baseMetadataTokens - 8)
+  );
+  const readmeTruncated = readme.length < readmeSource.length;
+  const metadataSection = formatMetadata(metadata, readme, readmeTruncated);
+  const metadataTokens = tokenizer.count(metadataSection);
+
+  // File tree, trimmed around the files the retrieved sections come from
+  const treeCap = Math.floor(available * shares.tree);
+  let treeSection = "";
+  let omittedTreeFiles = 0;
+  if (metadata.fileTree) {
+    const relevantPaths = input.chunks
+      .map((chunk) => chunk.file_path)
+      .filter((filePath): filePath is string => Boolean(filePath));
+    const trimmed = trimFileTree(metadata.fileTree, relevantPaths, treeCap - 12, tokenizer);
+    omittedTreeFiles = trimmed.omittedFiles;
+    if (trimmed.text) {
+      treeSection = "## File Structure:\n```\n" + trimmed.text + "```\n\n";
+    }
+  }
+  const treeTokens = tokenizer.count(treeSection);
+
+  // Retrieved sections get the rest; drop the lowest-scoring until they fit
+  const header = "=== REPOSITORY CONTEXT ===\n\n";
+  const sectionsHeading = "## Relevant Code Sections:\n\n";
+  const chunkBudget =
+    available -
+    historyTokens -
+    metadataTokens -
+    treeTokens -
+    tokenizer.count(header + sectionsHeading);
+
+  const kept = input.chunks.map((chunk, i) => ({
+    chunk,
+    // Numbers are at most a few tokens apart; count with the original rank
+    tokens: tokenizer.count(formatChunk(chunk, i + 1)),
+  }));
+  const droppedChunks: DroppedChunk[] = [];
+  let chunkTokens = kept.reduce((sum, item) => sum + item.tokens, 0);
+  while (kept.length > 1 && chunkTokens > chunkBudget) {
+    let lowest = 0;
+    kept.forEach((item, i) => {
+      if (chunkScore(item.chunk) < chunkScore(kept[lowest].chunk)) {
+        lowest = i;
+      }
+    });
+    const [removed] = kept.splice(lowest, 1);
+    chunkTokens -= removed.tokens;
+    droppedChunks.push({
+      filePath: removed.chunk.file_path,
+      chunkIndex: removed.chunk.chunk_index,
+      score: chunkScore(removed.chunk),
+      tokens: removed.tokens,
+    });
+  }
+
+  // A single section larger than the budget is cut rather than dropped
+  let truncatedChunk: ContextReport["truncatedChunk"];
+  let chunkSections = kept.map((item, i) => formatChunk(item.chunk, i + 1));
+  if (kept.length === 1 && chunkTokens > chunkBudget) {
+    const { chunk } = kept[0];
+    const overhead = tokenizer.count(formatChunk(chunk, 1, ""));
+    chunkSections = [
+      formatChunk(chunk, 1, tokenizer.truncate(chunk.chunk_text, Math.max(chunkBudget - overhead, 0))),
+    ];
+    chunkTokens = tokenizer.count(chunkSections[0]);
+    truncatedChunk = { filePath: chunk.file_path, chunkIndex: chunk.chunk_index };
+  }
+
+  const context =
+    header + treeSection + metadataSection + sectionsHeading + chunkSections.join("");
+
+  const used = {
+    reserved: input.reservedTokens,
+    tree: treeTokens,
+    metadata: metadataTokens,
+    history: historyTokens,
+    chunks: chunkTokens,
+    total: 0,
+  };
+  used.total = input.reservedTokens + tokenizer.count(context) + historyTokens;
+
+  return {
+    context,
+    chunks: kept.map((item) => item.chunk),
+    history,
+    report: {
+      tokenizer: tokenizer.encoding,
+      budget: input.budget,
+      used,
+      droppedChunks,
+      truncatedChunk,
+      droppedHistoryMessages: input.history.length - history.length,
+      omittedTreeFiles,
+      readmeTruncated,
+    },
+  };
+}
+
+/**
+ * One-line summary of a context report for logs
+ */
+export function describeContextReport(report: ContextReport): string {
+  const parts = [
+    `${report.used.total}/${report.budget} tokens (${report.tokenizer})`,
+    `tree ${report.used.tree}, metadata ${report.used.metadata}, history ${report.used.history}, sections ${report.used.chunks}`,
+  ];
+  if (report.droppedChunks.length > 0) {
+    parts.push(
+      `dropped ${report.droppedChunks.length} sections (${report.droppedChunks
+        .map((chunk) => `${chunk.filePath}#${chunk.chunkIndex}`)
+        .join(", ")})`
+    );
+  }
+  if (report.truncatedChunk) {
+    parts.push(`cut ${report.truncatedChunk.filePath}#${report.truncatedChunk.chunkIndex}`);
+  }
+  if (report.droppedHistoryMessages > 0) {
+    parts.push(`dropped ${report.droppedHistoryMessages} history messages`);
+  }
+  if (report.omittedTreeFiles > 0) {
+    parts.push(`collapsed ${report.omittedTreeFiles} tree files`);
+  }
+  return parts.join("; ");
+}
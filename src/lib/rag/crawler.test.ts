@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCoverage,
+  CrawlBudget,
+  DEFAULT_CRAWL_BUDGET,
+  fetchPaths,
+  planCrawl,
+  SkippedFile,
+  updateCoverage,
+} from "./crawler";
+import { createPathRules } from "./ignore-rules";
+
+const BUDGET: CrawlBudget = { ...DEFAULT_CRAWL_BUDGET, maxFileBytes: 100 };
+
+describe("planCrawl", () => {
+  const paths = (files: Array<{ path: string }>) => files.map((file) => file.path);
+
+  it("ranks by importance, then depth and size, then path", () => {
+    const { selected, skipped } = planCrawl(
+      [
+        { path: "test/app.test.ts", size: 0 },
+        { path: "lib/util.ts", size: 0 },
+        { path: "lib/big.ts", size: 15 * 1024 },
+        { path: "lib/deep/util.ts", size: 0 },
+        { path: "docs/guide.md", size: 0 },
+        { path: "package.json", size: 0 },
+        { path: "lib/a.ts", size: 0 },
+        { path: "README.md", size: 0 },
+      ],
+      DEFAULT_CRAWL_BUDGET
+    );
+
+    expect(paths(selected)).toEqual([
+      "README.md",
+      "package.json",
+      "docs/guide.md",
+      "lib/a.ts",
+      "lib/util.ts",
+      "lib/deep/util.ts",
+      "lib/big.ts",
+      "test/app.test.ts",
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("records why each file outside the budget was skipped", () => {
+    const { selected, skipped } = planCrawl(
+      [
+        { path: "lib/b.ts", size: 10 },
+        { path: "huge.ts", size: 900 },
+        { path: "logo.png", size: 50 },
+        { path: "package.json", size: 700 },
+        { path: "README.md", size: 400 },
+        { path: "docs/a.md", size: 100 },
+      ],
+      { ...DEFAULT_CRAWL_BUDGET, maxFiles: 2, maxBytes: 1000, maxFileBytes: 800 }
+    );
+
+    // package.json does not fit next to README.md, but the smaller docs/a.md does
+    expect(paths(selected)).toEqual(["README.md", "docs/a.md"]);
+    expect(skipped).toEqual([
+      { path: "huge.ts", size: 900, reason: "too_large" },
+      { path: "logo.png", size: 50, reason: "unsupported" },
+      { path: "package.json", size: 700, reason: "byte_budget" },
+      { path: "lib/b.ts", size: 10, reason: "file_budget" },
+    ]);
+  });
+
+  it("lets include rules override the vendored, generated and type checks", () => {
+    const rules = createPathRules({
+      include: ["vendor/acme/", "*.generated.ts", "*.proto"],
+    });
+
+    const { selected, skipped } = planCrawl(
+      [
+        { path: "vendor/acme/lib.go", size: 10 },
+        { path: "vendor/other/lib.go", size: 10 },
+        { path: "src/api.generated.ts", size: 10 },
+        { path: "src/db.generated.js", size: 10 },
+        { path: "api/schema.proto", size: 10 },
+        { path: "api/big.proto", size: 500 },
+      ],
+      { ...DEFAULT_CRAWL_BUDGET, maxFileBytes: 100 },
+      rules
+    );
+
+    expect(paths(selected).sort()).toEqual([
+      "api/schema.proto",
+      "src/api.generated.ts",
+      "vendor/acme/lib.go",
+    ]);
+    // Included files still have to fit the budget
+    expect(skipped).toEqual([
+      { path: "vendor/other/lib.go", size: 10, reason: "vendored" },
+      { path: "src/db.generated.js", size: 10, reason: "generated" },
+      { path: "api/big.proto", size: 500, reason: "too_large" },
+    ]);
+  });
+});
+
+describe("buildCoverage", () => {
+  it("counts skips by reason and only lists the ones worth reporting", () => {
+    const skipped: SkippedFile[] = [
+      { path: "logo.png", size: 5, reason: "unsupported" },
+      { path: "dist/out.js", size: 10, reason: "vendored" },
+      { path: "dist/map.js", size: 10, reason: "vendored" },
+      { path: "src/big.ts", size: 500, reason: "too_large" },
+    ];
+
+    expect(buildCoverage(7, [{ size: 40 }, { size: 60 }], skipped, BUDGET, true)).toEqual({
+      totalFiles: 7,
+      indexedFiles: 2,
+      indexedBytes: 100,
+      treeTruncated: true,
+      budget: BUDGET,
+      skippedByReason: { unsupported: 1, vendored: 2, too_large: 1 },
+      skipped: skipped.slice(1),
+    });
+  });
+
+  it("caps the listed skips but still counts all of them", () => {
+    const skipped: SkippedFile[] = Array.from({ length: 600 }, (_, i) => ({
+      path: `src/file-${i}.ts`,
+      size: 1,
+      reason: "file_budget",
+    }));
+
+    const coverage = buildCoverage(600, [], skipped, BUDGET, false);
+
+    expect(coverage.skipped).toHaveLength(500);
+    expect(coverage.skippedByReason).toEqual({ file_budget: 600 });
+  });
+});
+
+describe("fetchPaths", () => {
+  it("skips excluded paths without fetching them and drops oversized files", async () => {
+    const requested: string[] = [];
+    const contents: Record<string, string | null> = {
+      "src/app.ts": "export {};",
+      "src/big.ts": "x".repeat(101),
+      "src/gone.ts": null,
+    };
+
+    const result = await fetchPaths(
+      ["src/app.ts", "src/big.ts", "src/gone.ts", "logo.png", "node_modules/a/index.js", "secret.ts"],
+      BUDGET,
+      createPathRules({ exclude: ["secret.ts"] }),
+      async (path) => {
+        requested.push(path);
+        return contents[path];
+      }
+    );
+
+    expect(requested.sort()).toEqual(["src/app.ts", "src/big.ts", "src/gone.ts"]);
+    expect(result.files).toEqual([{ path: "src/app.ts", content: "export {};", size: 10 }]);
+    expect(result.skipped).toEqual([
+      { path: "logo.png", size: 0, reason: "unsupported" },
+      { path: "node_modules/a/index.js", size: 0, reason: "vendored" },
+      { path: "secret.ts", size: 0, reason: "ignored" },
+      { path: "src/big.ts", size: 101, reason: "too_large" },
+      { path: "src/gone.ts", size: 0, reason: "fetch_failed" },
+    ]);
+  });
+
+  it("measures the size limit in bytes", async () => {
+    const { files, skipped } = await fetchPaths(["a.md"], BUDGET, undefined, async () =>
+      "é".repeat(60)
+    );
+
+    expect(files).toEqual([]);
+    expect(skipped).toEqual([{ path: "a.md", size: 120, reason: "too_large" }]);
+  });
+});
+
+describe("updateCoverage", () => {
+  const previousSkipped: SkippedFile[] = [
+    { path: "src/big.ts", size: 500, reason: "too_large" },
+    { path: "dist/out.js", size: 10, reason: "vendored" },
+    { path: "logo.png", size: 5, reason: "unsupported" },
+  ];
+  const previous = buildCoverage(
+    10,
+    [{ size: 40 }, { size: 60 }],
+    previousSkipped,
+    BUDGET,
+    false
+  );
+
+  it("replaces the outcome of changed paths and keeps the rest", () => {
+    const coverage = updateCoverage(
+      previous,
+      { added: ["src/huge.ts", "icon.png"], modified: ["src/big.ts"], removed: ["logo.png"] },
+      [{ size: 40 }, { size: 60 }, { size: 80 }],
+      [
+        { path: "src/huge.ts", size: 900, reason: "too_large" },
+        { path: "icon.png", size: 0, reason: "unsupported" },
+      ],
+      BUDGET
+    );
+
+    expect(coverage).toEqual({
+      totalFiles: 11,
+      indexedFiles: 3,
+      indexedBytes: 180,
+      treeTruncated: false,
+      budget: BUDGET,
+      // src/big.ts now fits; logo.png was removed and icon.png added
+      skippedByReason: { vendored: 1, too_large: 1, unsupported: 1 },
+      skipped: [
+        { path: "dist/out.js", size: 10, reason: "vendored" },
+        { path: "src/huge.ts", size: 900, reason: "too_large" },
+      ],
+    });
+  });
+
+  it("counts a changed unsupported file once", () => {
+    const coverage = updateCoverage(
+      previous,
+      { added: [], modified: ["diagram.svg"], removed: [] },
+      [{ size: 40 }, { size: 60 }],
+      [{ path: "diagram.svg", size: 0, reason: "unsupported" }],
+      BUDGET
+    );
+
+    expect(coverage.skippedByReason).toEqual(previous.skippedByReason);
+    expect(coverage.totalFiles).toBe(10);
+  });
+
+  it("starts a report for indexes without one", () => {
+    const coverage = updateCoverage(
+      undefined,
+      { added: ["src/big.ts"], modified: [], removed: [] },
+      [{ size: 40 }],
+      [{ path: "src/big.ts", size: 500, reason: "too_large" }],
+      BUDGET
+    );
+
+    expect(coverage).toMatchObject({
+      totalFiles: 2,
+      indexedFiles: 1,
+      skippedByReason: { too_large: 1 },
+    });
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Repository crawler planning
+ * Ranks candidate files from a GitHub tree and selects them within a
+ * configurable file/byte budget, recording why every other file was skipped
+ */
+
+import type { PathRules } from "./ignore-rules";
+
+export const SUPPORTED_EXTENSIONS = [
+  ".md", ".txt",
+  ".js", ".ts", ".tsx", ".jsx",
+  ".py", ".go", ".java",
+  ".rs", ".cpp", ".c", ".h",
+  ".json", ".yaml", ".yml",
+  ".html", ".css", ".scss",
+  ".sql", ".sh", ".bash",
+];
+
+// Directories whose contents are third-party or build output
+const SKIPPED_DIRECTORIES = [
+  "node_modules", "bower_components", "jspm_packages",
+  "vendor", "third_party", "third-party",
+  "dist", "build", "out", "target", "obj",
+  ".next", ".nuxt", ".svelte-kit", ".turbo", ".cache",
+  "coverage", "__pycache__", ".venv", "venv",
+  ".git", ".idea", ".vscode", "Pods", "DerivedData",
+];
+
+// File name patterns produced by tools rather than written by hand
+const GENERATED_PATTERNS = [
+  /(^|\/)package-lock\.json$/,
+  /(^|\/)pnpm-lock\.yaml$/,
+  /(^|\/)composer\.lock$/,
+  /\.generated\.\w+$/,
+  /\.pb\.go$/,
+  /_pb2(_grpc)?\.py$/,
+  /(^|\/)__generated__\//,
+];
+
+const MINIFIED_PATTERNS = [/\.min\.(js|css)$/, /[.-]bundle\.js$/, /\.chunk\.js$/];
+
+// Maximum skipped entries persisted with the coverage report
+const MAX_REPORTED_SKIPS = 500;
+
+export type SkipReason =
+  | "ignored"
+  | "unsupported"
+  | "vendored"
+  | "generated"
+  | "minified"
+  | "too_large"
+  | "file_budget"
+  | "byte_budget"
+  | "fetch_failed";
+
+export interface CrawlBudget {
+  /** Maximum number of files to fetch */
+  maxFiles: number;
+  /** Maximum total bytes to fetch */
+  maxBytes: number;
+  /** Files larger than this are never fetched */
+  maxFileBytes: number;
+  /** Maximum concurrent content requests */
+  concurrency: number;
+}
+
+export const DEFAULT_CRAWL_BUDGET: CrawlBudget = {
+  maxFiles: 400,
+  maxBytes: 4 * 1024 * 1024,
+  maxFileBytes: 200 * 1024,
+  concurrency: 8,
+};
+
+export interface CrawlCandidate {
+  path: string;
+  size: number;
+}
+
+export interface SkippedFile {
+  path: string;
+  size: number;
+  reason: SkipReason;
+}
+
+export interface CrawlPlan {
+  selected: CrawlCandidate[];
+  skipped: SkippedFile[];
+}
+
+export interface CrawlCoverage {
+  totalFiles: number;
+  indexedFiles: number;
+  indexedBytes: number;
+  /** True when GitHub truncated the recursive tree listing */
+  treeTruncated: boolean;
+  budget: CrawlBudget;
+  skippedByReason: Partial<Record<SkipReason, number>>;
+  /** Skipped files other than unsupported types, capped for storage */
+  skipped: SkippedFile[];
+}
+
+/**
+ * Resolve the crawl budget from defaults, CRAWL_* environment variables and overrides
+ * @param overrides - Explicit budget values (take precedence)
+ * @returns Complete crawl budget
+ */
+export function resolveCrawlBudget(overrides: Partial<CrawlBudget> = {}): CrawlBudget {
+  const fromEnv = (name: string): number | undefined => {
+    if (typeof process === "undefined" || !process.env?.[name]) {
+      return undefined;
+    }
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  return {
+    maxFiles: overrides.maxFiles ?? fromEnv("CRAWL_MAX_FILES") ?? DEFAULT_CRAWL_BUDGET.maxFiles,
+    maxBytes: overrides.maxBytes ?? fromEnv("CRAWL_MAX_BYTES") ?? DEFAULT_CRAWL_BUDGET.maxBytes,
+    maxFileBytes:
+      overrides.maxFileBytes ?? fromEnv("CRAWL_MAX_FILE_BYTES") ?? DEFAULT_CRAWL_BUDGET.maxFileBytes,
+    concurrency:
+      overrides.concurrency ?? fromEnv("CRAWL_CONCURRENCY") ?? DEFAULT_CRAWL_BUDGET.concurrency,
+  };
+}
+
+/**
+ * Check if file extension is supported
+ * @param path - File path
+ * @returns True if file extension is supported
+ */
+export function isSupportedFile(path: string): boolean {
+  return SUPPORTED_EXTENSIONS.some((ext) => path.toLowerCase().endsWith(ext));
+}
+
+/**
+ * Decide whether a path should be excluded before budgeting
+ * @param path - File path
+ * @returns Skip reason, or null if the file is a crawl candidate
+ */
+export function classifyPath(path: string): SkipReason | null {
+  const segments = path.split("/");
+  if (segments.slice(0, -1).some((segment) => SKIPPED_DIRECTORIES.includes(segment))) {
+    return "vendored";
+  }
+  if (MINIFIED_PATTERNS.some((pattern) => pattern.test(path))) {
+    return "minified";
+  }
+  if (GENERATED_PATTERNS.some((pattern) => pattern.test(path))) {
+    return "generated";
+  }
+  if (!isSupportedFile(path)) {
+    return "unsupported";
+  }
+  return null;
+}
+
+/**
+ * Calculate file importance score
+ */
+export function calculateImportance(filePath: string): number {
+  if (filePath.includes("README")) return 10;
+  if (filePath.endsWith(".md")) return 8;
+  if (filePath.includes("package.json")) return 9;
+  if (filePath.includes("config")) return 7;
+  if (filePath.includes("/api/")) return 8;
+  if (filePath.includes("/src/")) return 6;
+  if (filePath.includes("test")) return 3;
+  return 5;
+}
+
+/**
+ * Rank a candidate: importance dominates, shallower and smaller files win ties
+ * @param candidate - Candidate file
+ * @returns Priority score (higher is fetched first)
+ */
+export function scoreCandidate(candidate: CrawlCandidate): number {
+  const depth = candidate.path.split("/").length - 1;
+  const sizePenalty = Math.log2(1 + candidate.size / 1024);
+  return calculateImportance(candidate.path) * 10 - depth * 2 - sizePenalty;
+}
+
+/**
+ * Decide whether a path should be excluded, applying repository rules first
+ * Exclude rules always win; include rules override the built-in type and
+ * vendored/generated/minified checks
+ * @param path - File path
+ * @param rules - Optional repository path rules
+ * @returns Skip reason, or null if the file is a crawl candidate
+ */
+export function classifyPathWithRules(path: string, rules?: PathRules): SkipReason | null {
+  if (rules?.isExcluded(path)) {
+    return "ignored";
+  }
+  const reason = classifyPath(path);
+  if (reason && rules?.isIncluded(path)) {
+    return null;
+  }
+  return reason;
+}
+
+/**
+ * Select files to fetch within the budget
+ * @param candidates - Blob entries from the repository tree
+ * @param budget - Crawl budget
+ * @param rules - Optional repository include/exclude rules, applied before the budget
+ * @returns Selected files in priority order and the skipped remainder
+ */
+export function planCrawl(
+  candidates: CrawlCandidate[],
+  budget: CrawlBudget,
+  rules?: PathRules
+): CrawlPlan {
+  const selected: CrawlCandidate[] = [];
+  const skipped: SkippedFile[] = [];
+  const eligible: CrawlCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const reason = classifyPathWithRules(candidate.path, rules);
+    if (reason) {
+      skipped.push({ ...candidate, reason });
+    } else if (candidate.size > budget.maxFileBytes) {
+      skipped.push({ ...candidate, reason: "too_large" });
+    } else {
+      eligible.push(candidate);
+    }
+  }
+
+  const ranked = eligible
+    .map((candidate) => ({ candidate, score: scoreCandidate(candidate) }))
+    .sort((a, b) => b.score - a.score || a.candidate.path.localeCompare(b.candidate.path));
+
+  let totalBytes = 0;
+  for (const { candidate } of ranked) {
+    if (selected.length >= budget.maxFiles) {
+      skipped.push({ ...candidate, reason: "file_budget" });
+    } else if (totalBytes + candidate.size > budget.maxBytes) {
+      // Keep going: smaller, lower-ranked files may still fit
+      skipped.push({ ...candidate, reason: "byte_budget" });
+    } else {
+      selected.push(candidate);
+      totalBytes += candidate.size;
+    }
+  }
+
+  return { selected, skipped };
+}
+
+/**
+ * Summarize a crawl for persistence
+ * @param totalFiles - Number of blobs in the repository tree
+ * @param indexed - Files whose content was fetched
+ * @param skipped - Files that were not fetched
+ * @param budget - Budget the crawl ran with
+ * @param treeTruncated - Whether GitHub truncated the tree listing
+ * @returns Coverage report
+ */
+export function buildCoverage(
+  totalFiles: number,
+  indexed: Array<{ size: number }>,
+  skipped: SkippedFile[],
+  budget: CrawlBudget,
+  treeTruncated: boolean
+): CrawlCoverage {
+  const skippedByReason: Partial<Record<SkipReason, number>> = {};
+  for (const file of skipped) {
+    skippedByReason[file.reason] = (skippedByReason[file.reason] || 0) + 1;
+  }
+
+  return {
+    totalFiles,
+    indexedFiles: indexed.length,
+    indexedBytes: indexed.reduce((sum, file) => sum + file.size, 0),
+    treeTruncated,
+    budget,
+    skippedByReason,
+    skipped: skipped
+      .filter((file) => file.reason !== "unsupported")
+      .slice(0, MAX_REPORTED_SKIPS),
+  };
+}
+
+/**
+ * Carry a coverage report over an incremental sync
+ * Entries for changed paths are replaced by what the sync did with them; the
+ * rest keep the outcome of the last crawl
+ * @param previous - Report of the last crawl or sync (missing for older indexes)
+ * @param changes - Paths added, modified and removed since then
+ * @param indexed - Every file in the index after the sync
+ * @param skipped - Changed files the sync did not index
+ * @param budget - Budget the sync ran with
+ * @param rules - Path rules of the sync; tells which changed paths were
+ *   skipped as unsupported, since those are not listed in the report
+ * @returns Coverage report
+ */
+export function updateCoverage(
+  previous: CrawlCoverage | undefined,
+  changes: { added: string[]; modified: string[]; removed: string[] },
+  indexed: Array<{ size: number }>,
+  skipped: SkippedFile[],
+  budget: CrawlBudget,
+  rules?: PathRules
+): CrawlCoverage {
+  const skippedByReason: Partial<Record<SkipReason, number>> = { ...previous?.skippedByReason };
+  const count = (reason: SkipReason, delta: number) => {
+    const total = (skippedByReason[reason] || 0) + delta;
+    if (total > 0) {
+      skippedByReason[reason] = total;
+    } else {
+      delete skippedByReason[reason];
+    }
+  };
+
+  // Take back the last crawl's outcome for paths that existed then
+  const previousReasons = new Map(
+    (previous?.skipped || []).map((file) => [file.path, file.reason])
+  );
+  if (previous) {
+    for (const path of [...changes.modified, ...changes.removed]) {
+      const reason =
+        previousReasons.get(path) ??
+        (classifyPathWithRules(path, rules) === "unsupported" ? "unsupported" : null);
+      if (reason) {
+        count(reason, -1);
+      }
+    }
+  }
+  skipped.forEach((file) => count(file.reason, 1));
+
+  const changed = new Set([...changes.added, ...changes.modified, ...changes.removed]);
+  return {
+    totalFiles: previous
+      ? previous.totalFiles + changes.added.length - changes.removed.length
+      : indexed.length + skipped.length,
+    indexedFiles: indexed.length,
+    indexedBytes: indexed.reduce((sum, file) => sum + file.size, 0),
+    treeTruncated: previous?.treeTruncated ?? false,
+    budget,
+    skippedByReason,
+    skipped: [
+      ...(previous?.skipped || []).filter((file) => !changed.has(file.path)),
+      ...skipped.filter((file) => file.reason !== "unsupported"),
+    ].slice(0, MAX_REPORTED_SKIPS),
+  };
+}
+
+/**
+ * Fetch specific files, such as the ones changed by a commit
+ * Paths the crawler would exclude are not fetched. Their size is only known
+ * once fetched, so files over maxFileBytes are dropped afterwards.
+ * @param paths - File paths
+ * @param budget - Crawl budget (maxFileBytes and concurrency apply)
+ * @param rules - Optional repository include/exclude rules
+ * @param fetchContent - Reads one file; resolves null if it cannot be read
+ * @param onFileFetched - Optional callback after each file has been fetched
+ * @returns Fetched files in input order and the paths left out with their reason
+ *   (sizes of files that were not fetched are 0)
+ */
+export async function fetchPaths(
+  paths: string[],
+  budget: CrawlBudget,
+  rules: PathRules | undefined,
+  fetchContent: (path: string) => Promise<string | null>,
+  onFileFetched?: (fetched: number, total: number) => void
+): Promise<{
+  files: Array<{ path: string; content: string; size: number }>;
+  skipped: SkippedFile[];
+}> {
+  const skipped: SkippedFile[] = [];
+  const eligible: string[] = [];
+  for (const path of paths) {
+    const reason = classifyPathWithRules(path, rules);
+    if (reason) {
+      skipped.push({ path, size: 0, reason });
+    } else {
+      eligible.push(path);
+    }
+  }
+
+  let fetched = 0;
+  onFileFetched?.(0, eligible.length);
+  const contents = await mapWithConcurrency(eligible, budget.concurrency, async (path) => {
+    const content = await fetchContent(path);
+    onFileFetched?.(++fetched, eligible.length);
+    return content;
+  });
+
+  const files: Array<{ path: string; content: string; size: number }> = [];
+  eligible.forEach((path, i) => {
+    const content = contents[i];
+    if (content === null) {
+      skipped.push({ path, size: 0, reason: "fetch_failed" });
+      return;
+    }
+    const size = Buffer.byteLength(content, "utf8");
+    if (size > budget.maxFileBytes) {
+      skipped.push({ path, size, reason: "too_large" });
+    } else {
+      files.push({ path, content, size: content.length });
+    }
+  });
+
+  return { files, skipped };
+}
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order
+ * @param items - Items to process
+ * @param limit - Maximum concurrent calls
+ * @param fn - Async mapper
+ * @returns Promise resolving to mapped results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
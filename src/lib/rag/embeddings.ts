@@ -1,20 +1,161 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
 /**
- * Embeddings module for generating vector embeddings using Hugging Face
- * Model: sentence-transformers/all-MiniLM-L6-v2 (384 dimensions)
+ * Embeddings module for generating vector embeddings
+ * Providers: Hugging Face Inference (default: sentence-transformers/all-MiniLM-L6-v2,
+ * 384 dimensions), a local in-process transformers.js model, any
+ * OpenAI-compatible /embeddings endpoint, or a deterministic offline stub
  */
 
 import { HuggingFaceInferenceEmbeddings } from "@langchain/community/embeddings/hf";
+import { isLocalMode } from "../local-mode";
 
 const EMBEDDING_MODEL = "sentence-transformers/all-MiniLM-L6-v2";
 const EMBEDDING_DIMENSION = 384;
+const LOCAL_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+const OPENAI_EMBEDDING_BATCH_SIZE = 64;
+const STUB_EMBEDDING_MODEL = "stub-hashing";
+
+// Optional dependency, loaded only when the local provider is used
+const TRANSFORMERS_MODULE = "@huggingface/transformers";
+
+export const EMBEDDING_PROVIDERS = [
+  "huggingface",
+  "local",
+  "openai-compatible",
+  "stub",
+] as const;
+
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+/**
+ * Known output dimensions; other models are measured on first use
+ */
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  "sentence-transformers/all-MiniLM-L6-v2": 384,
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "BAAI/bge-small-en-v1.5": 384,
+  "Xenova/bge-small-en-v1.5": 384,
+  "BAAI/bge-base-en-v1.5": 768,
+  "Xenova/bge-base-en-v1.5": 768,
+  "nomic-embed-text": 768,
+  "mxbai-embed-large": 1024,
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  [STUB_EMBEDDING_MODEL]: EMBEDDING_DIMENSION,
+};
+
+export interface EmbeddingModelInfo {
+  provider: EmbeddingProviderName;
+  model: string;
+  /** Undefined until the first vector when the model is not known */
+  dimension?: number;
+}
+
+export interface EmbeddingProvider {
+  embedQuery(text: string): Promise<number[]>;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  getModelInfo(): EmbeddingModelInfo;
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model?: string;
+  /** Expected vector size; checked against every vector the model returns */
+  dimension?: number;
+  hfToken?: string;
+  /** e.g. http://localhost:11434/v1 for Ollama */
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+}
+
+/**
+ * The embedding model an index was built with
+ */
+export interface EmbeddingSelection {
+  provider?: EmbeddingProviderName;
+  model?: string;
+  dimension?: number;
+}
+
+export function isEmbeddingProvider(value: unknown): value is EmbeddingProviderName {
+  return EMBEDDING_PROVIDERS.includes(value as EmbeddingProviderName);
+}
+
+/**
+ * Read the server's default embedding model from environment variables
+ * EMBEDDING_PROVIDER selects the provider (default: huggingface, or stub in
+ * local mode)
+ */
+export function getEmbeddingConfigFromEnv(): EmbeddingConfig {
+  const provider =
+    process.env.EMBEDDING_PROVIDER?.trim() || (isLocalMode() ? "stub" : "huggingface");
+  if (!isEmbeddingProvider(provider)) {
+    throw new Error(
+      `Unknown EMBEDDING_PROVIDER "${provider}". Expected one of: ${EMBEDDING_PROVIDERS.join(", ")}`
+    );
+  }
+
+  const dimension = Number(process.env.EMBEDDING_DIMENSION);
+
+  return {
+    provider,
+    model: process.env.EMBEDDING_MODEL?.trim() || undefined,
+    dimension: dimension > 0 ? dimension : undefined,
+    hfToken: process.env.HF_TOKEN,
+    openaiBaseUrl:
+      process.env.EMBEDDING_BASE_URL?.trim() ||
+      process.env.OPENAI_COMPATIBLE_BASE_URL?.trim(),
+    openaiApiKey:
+      process.env.EMBEDDING_API_KEY?.trim() ||
+      process.env.OPENAI_COMPATIBLE_API_KEY?.trim(),
+  };
+}
+
+/**
+ * Apply a repository's recorded model to the server config
+ * The server's model and dimension only carry over when the provider is unchanged
+ */
+export function resolveEmbeddingConfig(
+  config: EmbeddingConfig,
+  selection: EmbeddingSelection = {}
+): EmbeddingConfig {
+  const provider = selection.provider || config.provider;
+  const sameProvider = provider === config.provider;
+  return {
+    ...config,
+    provider,
+    model: selection.model || (sameProvider ? config.model : undefined),
+    dimension:
+      selection.dimension || (sameProvider && !selection.model ? config.dimension : undefined),
+  };
+}
+
+/**
+ * Create the embedding provider for a configuration
+ * Every vector it returns is checked against the model's dimension
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case "huggingface":
+      return withDimensionCheck(createHuggingFaceEmbeddings(config), config.dimension);
+    case "local":
+      return withDimensionCheck(createLocalEmbeddings(config), config.dimension);
+    case "openai-compatible":
+      return withDimensionCheck(createOpenAICompatibleEmbeddings(config), config.dimension);
+    case "stub":
+      return withDimensionCheck(createStubEmbeddings(config), config.dimension);
+  }
+}
 
 /**
  * Initialize Hugging Face embeddings client
  * @param hfToken - Hugging Face API token
+ * @param model - Model name (default: sentence-transformers/all-MiniLM-L6-v2)
  * @returns HuggingFaceInferenceEmbeddings instance
  */
 export function getEmbeddings(
-  hfToken?: string
+  hfToken?: string,
+  model: string = EMBEDDING_MODEL
 ): HuggingFaceInferenceEmbeddings {
   // Get token from parameter or environment variable
   let token = hfToken;
@@ -30,12 +171,12 @@ export function getEmbeddings(
 
   return new HuggingFaceInferenceEmbeddings({
     apiKey: token,
-    model: EMBEDDING_MODEL,
+    model,
   });
 }
 
 /**
- * Generate embedding for a single query text
+ * Generate embedding for a single query text with the default Hugging Face model
  * @param text - Text to embed
  * @param hfToken - Optional Hugging Face API token
  * @returns Promise resolving to embedding vector (384 dimensions)
@@ -44,30 +185,11 @@ export async function embedQuery(
   text: string,
   hfToken?: string
 ): Promise<number[]> {
-  try {
-    const embeddings = getEmbeddings(hfToken);
-    const vector = await embeddings.embedQuery(text);
-
-    // Validate dimension
-    if (vector.length !== EMBEDDING_DIMENSION) {
-      throw new Error(
-        `Expected embedding dimension ${EMBEDDING_DIMENSION}, got ${vector.length}`
-      );
-    }
-
-    return vector;
-  } catch (error) {
-    console.error("Error generating query embedding:", error);
-    throw new Error(
-      `Failed to generate embedding: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
-  }
+  return createEmbeddingProvider({ provider: "huggingface", hfToken }).embedQuery(text);
 }
 
 /**
- * Generate embeddings for multiple documents
+ * Generate embeddings for multiple documents with the default Hugging Face model
  * @param texts - Array of texts to embed
  * @param hfToken - Optional Hugging Face API token
  * @returns Promise resolving to array of embedding vectors (384 dimensions each)
@@ -76,46 +198,240 @@ export async function embedDocuments(
   texts: string[],
   hfToken?: string
 ): Promise<number[][]> {
-  try {
-    if (texts.length === 0) {
-      return [];
-    }
+  return createEmbeddingProvider({ provider: "huggingface", hfToken }).embedDocuments(texts);
+}
+
+/**
+ * Get the default embedding dimension
+ * @returns Embedding dimension (384)
+ */
+export function getEmbeddingDimension(): number {
+  return EMBEDDING_DIMENSION;
+}
+
+/**
+ * Get the default embedding model name
+ * @returns Model name
+ */
+export function getEmbeddingModel(): string {
+  return EMBEDDING_MODEL;
+}
 
-    const embeddings = getEmbeddings(hfToken);
-    const vectors = await embeddings.embedDocuments(texts);
+/**
+ * Wrap a provider so every vector must have the model's dimension
+ * Unknown models take the dimension of the first vector they return
+ */
+function withDimensionCheck(
+  provider: EmbeddingProvider,
+  expectedDimension?: number
+): EmbeddingProvider {
+  const info = provider.getModelInfo();
+  let dimension = expectedDimension || info.dimension;
 
-    // Validate dimensions
+  const check = (vectors: number[][]) => {
     for (let i = 0; i < vectors.length; i++) {
-      if (vectors[i].length !== EMBEDDING_DIMENSION) {
+      dimension = dimension || vectors[i].length;
+      if (vectors[i].length !== dimension) {
         throw new Error(
-          `Expected embedding dimension ${EMBEDDING_DIMENSION} for document ${i}, got ${vectors[i].length}`
+          `Expected embedding dimension ${dimension} from ${info.model}, got ${vectors[i].length}`
         );
       }
     }
-
     return vectors;
-  } catch (error) {
-    console.error("Error generating document embeddings:", error);
-    throw new Error(
-      `Failed to generate document embeddings: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
-  }
+  };
+
+  return {
+    async embedQuery(text) {
+      try {
+        return check([await provider.embedQuery(text)])[0];
+      } catch (error) {
+        console.error("Error generating query embedding:", error);
+        throw new Error(
+          `Failed to generate embedding: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    },
+    async embedDocuments(texts) {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      try {
+        return check(await provider.embedDocuments(texts));
+      } catch (error) {
+        console.error("Error generating document embeddings:", error);
+        throw new Error(
+          `Failed to generate document embeddings: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    },
+    getModelInfo: () => ({ ...info, dimension }),
+  };
+}
+
+function createHuggingFaceEmbeddings(config: EmbeddingConfig): EmbeddingProvider {
+  const model = config.model || EMBEDDING_MODEL;
+  let client: HuggingFaceInferenceEmbeddings | null = null;
+
+  // Created on first use so a missing token only fails when embedding
+  const getClient = () => (client ??= getEmbeddings(config.hfToken, model));
+
+  return {
+    embedQuery: (text) => getClient().embedQuery(text),
+    embedDocuments: (texts) => getClient().embedDocuments(texts),
+    getModelInfo: () => ({
+      provider: "huggingface",
+      model,
+      dimension: KNOWN_DIMENSIONS[model],
+    }),
+  };
 }
 
 /**
- * Get the expected embedding dimension
- * @returns Embedding dimension (384)
+ * In-process ONNX model via transformers.js; no network once the model is cached
+ * Requires the optional @huggingface/transformers package
  */
-export function getEmbeddingDimension(): number {
-  return EMBEDDING_DIMENSION;
+function createLocalEmbeddings(config: EmbeddingConfig): EmbeddingProvider {
+  const model = config.model || LOCAL_EMBEDDING_MODEL;
+  let extractor: Promise<any> | null = null;
+
+  const loadExtractor = async () => {
+    let transformers: any;
+    try {
+      transformers = await import(/* webpackIgnore: true */ TRANSFORMERS_MODULE);
+    } catch {
+      throw new Error(
+        `Local embeddings require the optional ${TRANSFORMERS_MODULE} dependency, which is not installed (npm install without --omit=optional)`
+      );
+    }
+    return transformers.pipeline("feature-extraction", model);
+  };
+
+  // Loaded once per process; a failed load is retried on the next call
+  const getExtractor = () =>
+    (extractor ??= loadExtractor().catch((error) => {
+      extractor = null;
+      throw error;
+    }));
+
+  const embed = async (texts: string[]): Promise<number[][]> => {
+    const output = await (await getExtractor())(texts, {
+      pooling: "mean",
+      normalize: true,
+    });
+    return output.tolist();
+  };
+
+  return {
+    embedQuery: async (text) => (await embed([text]))[0],
+    embedDocuments: embed,
+    getModelInfo: () => ({
+      provider: "local",
+      model,
+      dimension: KNOWN_DIMENSIONS[model],
+    }),
+  };
+}
+
+function createOpenAICompatibleEmbeddings(config: EmbeddingConfig): EmbeddingProvider {
+  const model = config.model;
+  const baseUrl = config.openaiBaseUrl?.replace(/\/+$/, "");
+
+  const embed = async (texts: string[]): Promise<number[][]> => {
+    if (!baseUrl || !model) {
+      throw new Error(
+        "OpenAI-compatible embeddings not configured. Please set EMBEDDING_BASE_URL (or OPENAI_COMPATIBLE_BASE_URL) and EMBEDDING_MODEL environment variables."
+      );
+    }
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += OPENAI_EMBEDDING_BATCH_SIZE) {
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.openaiApiKey && {
+            Authorization: `Bearer ${config.openaiApiKey}`,
+          }),
+        },
+        body: JSON.stringify({
+          model,
+          input: texts.slice(i, i + OPENAI_EMBEDDING_BATCH_SIZE),
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new Error(
+          `Embedding server returned HTTP ${response.status}: ${body || response.statusText}`
+        );
+      }
+
+      const data = await response.json();
+      const batch = [...(data.data || [])]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding as number[]);
+      vectors.push(...batch);
+    }
+
+    return vectors;
+  };
+
+  return {
+    embedQuery: async (text) => (await embed([text]))[0],
+    embedDocuments: embed,
+    getModelInfo: () => ({
+      provider: "openai-compatible",
+      model: model || "unconfigured",
+      dimension: model ? KNOWN_DIMENSIONS[model] : undefined,
+    }),
+  };
 }
 
 /**
- * Get the embedding model name
- * @returns Model name
+ * Deterministic offline embeddings for development and tests
+ * Hashes words (and camelCase/snake_case parts) into a fixed-size normalized
+ * vector, so texts sharing vocabulary are similar; no model or network needed
  */
-export function getEmbeddingModel(): string {
-  return EMBEDDING_MODEL;
+function createStubEmbeddings(config: EmbeddingConfig): EmbeddingProvider {
+  const model = config.model || STUB_EMBEDDING_MODEL;
+  const dimension = config.dimension || EMBEDDING_DIMENSION;
+
+  const hash = (token: string) => {
+    // FNV-1a
+    let value = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+      value = Math.imul(value ^ token.charCodeAt(i), 0x01000193);
+    }
+    return value >>> 0;
+  };
+
+  const embed = (text: string): number[] => {
+    const vector = new Array<number>(dimension).fill(0);
+    const words = text.match(/[A-Za-z0-9_]+/g) || [];
+    for (const word of words) {
+      const parts = word
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .split(/[\s_]+/)
+        .filter(Boolean);
+      for (const token of new Set([word, ...parts].map((part) => part.toLowerCase()))) {
+        const bucket = hash(token);
+        vector[bucket % dimension] += bucket & 0x80000000 ? -1 : 1;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    // An empty text still needs a non-zero vector for cosine similarity
+    return norm > 0 ? vector.map((value) => value / norm) : vector.map((_, i) => (i === 0 ? 1 : 0));
+  };
+
+  return {
+    embedQuery: async (text) => embed(text),
+    embedDocuments: async (texts) => texts.map(embed),
+    getModelInfo: () => ({ provider: "stub", model, dimension }),
+  };
 }
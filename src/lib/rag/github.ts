@@ -1,19 +1,21 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /**
  * GitHub module for fetching repository contents
- * Limits to 50 files for performance and token management
+ * Selects files by priority within a crawl budget (see crawler.ts)
  */
 
-const MAX_FILES = 50;
-const SUPPORTED_EXTENSIONS = [
-  '.md', '.txt',
-  '.js', '.ts', '.tsx', '.jsx',
-  '.py', '.go', '.java',
-  '.rs', '.cpp', '.c', '.h',
-  '.json', '.yaml', '.yml',
-  '.html', '.css', '.scss',
-  '.sql', '.sh', '.bash'
-];
+import {
+  buildCoverage,
+  CrawlBudget,
+  CrawlCandidate,
+  CrawlCoverage,
+  fetchPaths,
+  mapWithConcurrency,
+  planCrawl,
+  resolveCrawlBudget,
+  SkippedFile,
+} from './crawler';
+import { createPathRules, IGNORE_FILE_NAME, PathRules } from './ignore-rules';
 
 export interface GitHubFile {
   path: string;
@@ -27,8 +29,125 @@ export interface RepositoryContent {
   description: string | null;
   language: string | null;
   defaultBranch: string;
+  /** Branch, tag or commit SHA that was indexed */
+  ref: string;
+  commitSha: string | null;
   readme: string | null;
   files: GitHubFile[];
+  coverage: CrawlCoverage;
+}
+
+/** Files fetched by path, and the paths that were not */
+export interface FetchedFiles {
+  files: GitHubFile[];
+  skipped: SkippedFile[];
+}
+
+export interface FetchGitHubRepoOptions {
+  /** Branch, tag or commit SHA to index (defaults to the default branch) */
+  ref?: string;
+  budget?: Partial<CrawlBudget>;
+  /** Globs forcing files in (e.g. `*.proto`) */
+  includePatterns?: string[];
+  /** Gitignore-style globs to leave out, applied after .repochatignore */
+  excludePatterns?: string[];
+  /** Called after each selected file has been fetched (or failed to fetch) */
+  onFileFetched?: (fetched: number, total: number) => void;
+}
+
+export interface RepositoryChanges {
+  baseSha: string;
+  headSha: string;
+  added: string[];
+  modified: string[];
+  removed: string[];
+  /** True when GitHub could not list every changed file and a full re-index is needed */
+  truncated: boolean;
+}
+
+// The compare API lists at most 300 changed files per comparison
+const MAX_COMPARE_FILES = 300;
+
+/**
+ * Error returned by the GitHub API, keeping the HTTP status so callers can
+ * tell a bad token (401) from a missing or inaccessible repository (404)
+ */
+export class GitHubApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GitHubApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Encode a ref for use in a URL path, keeping slashes in names like feature/foo
+ * @param ref - Branch, tag or commit SHA
+ * @returns URL-safe ref
+ */
+function encodeRef(ref: string): string {
+  return ref.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Build GitHub REST API request headers
+ * @param githubToken - Optional GitHub personal access token
+ * @returns Headers for api.github.com requests
+ */
+function buildHeaders(githubToken?: string): HeadersInit {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github.v3+json',
+  };
+
+  if (githubToken) {
+    headers['Authorization'] = `token ${githubToken}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Build request headers for raw.githubusercontent.com
+ * Private repository contents are only served with a token
+ * @param githubToken - Optional GitHub personal access token
+ * @returns Headers for raw content requests
+ */
+function buildRawHeaders(githubToken?: string): HeadersInit {
+  return githubToken ? { 'Authorization': `token ${githubToken}` } : {};
+}
+
+/**
+ * Translate a failed repository request into a GitHubApiError
+ * GitHub answers 404 rather than 403 for private repositories the caller cannot see
+ * @param response - Failed api.github.com response
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param githubToken - Token the request was made with, if any
+ * @returns GitHubApiError describing the failure
+ */
+function toRepositoryError(
+  response: Response,
+  owner: string,
+  repo: string,
+  githubToken?: string
+): GitHubApiError {
+  if (response.status === 401) {
+    return new GitHubApiError('GitHub token is invalid or expired. Update it in Settings.', 401);
+  }
+  if (response.status === 404) {
+    return new GitHubApiError(
+      githubToken
+        ? `Repository ${owner}/${repo} not found, or your GitHub token cannot access it`
+        : `Repository ${owner}/${repo} not found. If it is private, add a GitHub token in Settings.`,
+      404
+    );
+  }
+  if (response.status === 403) {
+    return new GitHubApiError('GitHub API rate limit exceeded. Consider providing a GitHub token.', 403);
+  }
+  return new GitHubApiError(`Failed to fetch repository info: ${response.statusText}`, response.status);
 }
 
 /**
@@ -36,19 +155,21 @@ export interface RepositoryContent {
  * @param owner - Repository owner
  * @param repo - Repository name
  * @param branch - Branch name (default: 'main')
+ * @param githubToken - Optional GitHub personal access token
  * @returns Promise resolving to README content or null
  */
 async function fetchReadme(
   owner: string,
   repo: string,
-  branch: string = 'main'
+  branch: string = 'main',
+  githubToken?: string
 ): Promise<string | null> {
   const readmeVariants = ['README.md', 'readme.md', 'Readme.md', 'README.txt'];
   
   for (const readmePath of readmeVariants) {
     try {
-      const readmeUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${readmePath}`;
-      const response = await fetch(readmeUrl);
+      const readmeUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${encodeRef(branch)}/${readmePath}`;
+      const response = await fetch(readmeUrl, { headers: buildRawHeaders(githubToken) });
       
       if (response.ok) {
         return await response.text();
@@ -67,17 +188,19 @@ async function fetchReadme(
  * @param repo - Repository name
  * @param path - File path
  * @param branch - Branch name
+ * @param githubToken - Optional GitHub personal access token
  * @returns Promise resolving to file content or null
  */
 async function fetchFileContent(
   owner: string,
   repo: string,
   path: string,
-  branch: string
+  branch: string,
+  githubToken?: string
 ): Promise<string | null> {
   try {
-    const fileUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}`;
-    const response = await fetch(fileUrl);
+    const fileUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${encodeRef(branch)}/${encodeRef(path)}`;
+    const response = await fetch(fileUrl, { headers: buildRawHeaders(githubToken) });
     
     if (!response.ok) {
       return null;
@@ -91,59 +214,50 @@ async function fetchFileContent(
   }
 }
 
-/**
- * Check if file extension is supported
- * @param path - File path
- * @returns True if file extension is supported
- */
-function isSupportedFile(path: string): boolean {
-  return SUPPORTED_EXTENSIONS.some(ext => path.toLowerCase().endsWith(ext));
-}
-
 /**
  * Fetch repository contents from GitHub
- * Includes README, metadata, and up to 50 code files
+ * Includes README, metadata, and the highest-priority code files within the crawl budget
  * @param owner - Repository owner
  * @param repo - Repository name
- * @param githubToken - Optional GitHub personal access token for higher rate limits
+ * @param githubToken - Optional GitHub personal access token (required for private repositories)
+ * @param options - Optional crawl budget overrides
  * @returns Promise resolving to RepositoryContent
  */
 export async function fetchGitHubRepo(
   owner: string,
   repo: string,
-  githubToken?: string
+  githubToken?: string,
+  options: FetchGitHubRepoOptions = {}
 ): Promise<RepositoryContent> {
   try {
-    const headers: HeadersInit = {
-      'Accept': 'application/vnd.github.v3+json',
-    };
-    
-    if (githubToken) {
-      headers['Authorization'] = `token ${githubToken}`;
-    }
+    const headers = buildHeaders(githubToken);
     
     // Fetch repository metadata
     const apiUrl = `https://api.github.com/repos/${owner}/${repo}`;
     const repoResponse = await fetch(apiUrl, { headers });
     
     if (!repoResponse.ok) {
-      if (repoResponse.status === 404) {
-        throw new Error(`Repository ${owner}/${repo} not found`);
-      }
-      if (repoResponse.status === 403) {
-        throw new Error('GitHub API rate limit exceeded. Consider providing a GitHub token.');
-      }
-      throw new Error(`Failed to fetch repository info: ${repoResponse.statusText}`);
+      throw toRepositoryError(repoResponse, owner, repo, githubToken);
     }
     
     const repoData: any = await repoResponse.json();
     const defaultBranch = repoData.default_branch || 'main';
+    const ref = options.ref || defaultBranch;
+    
+    // Resolve the commit being indexed so later syncs can diff against it
+    const commitSha = await resolveCommitSha(owner, repo, ref, githubToken);
+    if (!commitSha && options.ref) {
+      throw new Error(`Branch, tag or commit "${options.ref}" not found in ${owner}/${repo}`);
+    }
+    
+    // Pin every read to the resolved commit so the tree and contents agree
+    const contentRef = commitSha || ref;
     
     // Fetch README
-    const readme = await fetchReadme(owner, repo, defaultBranch);
+    const readme = await fetchReadme(owner, repo, contentRef, githubToken);
     
     // Fetch repository tree
-    const treeUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/${defaultBranch}?recursive=1`;
+    const treeUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeRef(contentRef)}?recursive=1`;
     const treeResponse = await fetch(treeUrl, { headers });
     
     if (!treeResponse.ok) {
@@ -152,30 +266,59 @@ export async function fetchGitHubRepo(
     
     const treeData: any = await treeResponse.json();
     
-    // Filter and limit files
-    const fileItems = treeData.tree
-      .filter((item: any) => 
-        item.type === 'blob' && isSupportedFile(item.path)
-      )
-      .slice(0, MAX_FILES);
+    const budget = resolveCrawlBudget(options.budget);
+    const blobs: CrawlCandidate[] = treeData.tree
+      .filter((item: any) => item.type === 'blob')
+      .map((item: any) => ({ path: item.path, size: item.size || 0 }));
     
-    // Fetch file contents
-    const files: GitHubFile[] = [];
-    for (const item of fileItems) {
-      const content = await fetchFileContent(owner, repo, item.path, defaultBranch);
-      if (content !== null) {
-        files.push({
-          path: item.path,
-          content,
-          size: content.length,
-        });
+    // Apply .repochatignore and repository include/exclude rules
+    const ignoreFile = blobs.some((item) => item.path === IGNORE_FILE_NAME)
+      ? await fetchIgnoreFile(owner, repo, contentRef, githubToken)
+      : null;
+    const rules = createPathRules({
+      ignoreFile,
+      include: options.includePatterns,
+      exclude: options.excludePatterns,
+    });
+    
+    // Rank files and select within budget
+    const plan = planCrawl(blobs, budget, rules);
+    
+    // Fetch file contents with bounded parallelism
+    const skipped: SkippedFile[] = [...plan.skipped];
+    let fetched = 0;
+    options.onFileFetched?.(0, plan.selected.length);
+    const contents = await mapWithConcurrency(
+      plan.selected,
+      budget.concurrency,
+      async (item) => {
+        const content = await fetchFileContent(owner, repo, item.path, contentRef, githubToken);
+        options.onFileFetched?.(++fetched, plan.selected.length);
+        return content;
       }
-      
-      // Add small delay to respect rate limits
-      if (files.length % 10 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+    );
+    
+    const files: GitHubFile[] = [];
+    plan.selected.forEach((item, i) => {
+      const content = contents[i];
+      if (content === null) {
+        skipped.push({ ...item, reason: 'fetch_failed' });
+        return;
       }
-    }
+      files.push({
+        path: item.path,
+        content,
+        size: content.length,
+      });
+    });
+    
+    const coverage = buildCoverage(
+      blobs.length,
+      files,
+      skipped,
+      budget,
+      Boolean(treeData.truncated)
+    );
     
     return {
       owner,
@@ -183,8 +326,11 @@ export async function fetchGitHubRepo(
       description: repoData.description || null,
       language: repoData.language || null,
       defaultBranch,
+      ref,
+      commitSha,
       readme,
       files,
+      coverage,
     };
   } catch (error) {
     console.error(`Error fetching GitHub repository ${owner}/${repo}:`, error);
@@ -192,6 +338,204 @@ export async function fetchGitHubRepo(
   }
 }
 
+/**
+ * Resolve a branch, tag or SHA to the commit SHA it points at
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Branch, tag or commit SHA
+ * @param githubToken - Optional GitHub personal access token
+ * @returns Promise resolving to the commit SHA, or null if it cannot be resolved
+ */
+export async function resolveCommitSha(
+  owner: string,
+  repo: string,
+  ref: string,
+  githubToken?: string
+): Promise<string | null> {
+  try {
+    const commitUrl = `https://api.github.com/repos/${owner}/${repo}/commits/${encodeRef(ref)}`;
+    const response = await fetch(commitUrl, { headers: buildHeaders(githubToken) });
+
+    if (!response.ok) {
+      console.log(`Could not resolve ${ref} for ${owner}/${repo}: ${response.statusText}`);
+      return null;
+    }
+
+    const commitData: any = await response.json();
+    return commitData.sha || null;
+  } catch (error) {
+    console.log(`Could not resolve ${ref} for ${owner}/${repo}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * List files changed between an indexed commit and the current head
+ * Uses the GitHub compare API; renamed files count as a removal plus an addition
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param baseSha - Previously indexed commit SHA
+ * @param headSha - Commit SHA to compare against
+ * @param githubToken - Optional GitHub personal access token
+ * @returns Promise resolving to RepositoryChanges
+ */
+export async function compareCommits(
+  owner: string,
+  repo: string,
+  baseSha: string,
+  headSha: string,
+  githubToken?: string
+): Promise<RepositoryChanges> {
+  const changes: RepositoryChanges = {
+    baseSha,
+    headSha,
+    added: [],
+    modified: [],
+    removed: [],
+    truncated: false,
+  };
+
+  if (baseSha === headSha) {
+    return changes;
+  }
+
+  const compareUrl = `https://api.github.com/repos/${owner}/${repo}/compare/${baseSha}...${headSha}`;
+  const response = await fetch(compareUrl, { headers: buildHeaders(githubToken) });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      // The indexed commit no longer exists upstream (e.g. after a force push)
+      return { ...changes, truncated: true };
+    }
+    if (response.status === 403) {
+      throw new Error('GitHub API rate limit exceeded. Consider providing a GitHub token.');
+    }
+    throw new Error(`Failed to compare commits: ${response.statusText}`);
+  }
+
+  const compareData: any = await response.json();
+  const files: any[] = compareData.files || [];
+
+  for (const file of files) {
+    switch (file.status) {
+      case 'added':
+      case 'copied':
+        changes.added.push(file.filename);
+        break;
+      case 'removed':
+        changes.removed.push(file.filename);
+        break;
+      case 'renamed':
+        changes.removed.push(file.previous_filename);
+        changes.added.push(file.filename);
+        break;
+      default:
+        changes.modified.push(file.filename);
+    }
+  }
+
+  // A behind/diverged head or a capped file list cannot be applied incrementally
+  changes.truncated =
+    compareData.status === 'behind' ||
+    compareData.status === 'diverged' ||
+    files.length >= MAX_COMPARE_FILES;
+
+  return changes;
+}
+
+/**
+ * Fetch the .repochatignore file committed at the repository root
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Branch, tag or commit SHA
+ * @param githubToken - Optional GitHub personal access token
+ * @returns Promise resolving to the file content, or null if absent
+ */
+export async function fetchIgnoreFile(
+  owner: string,
+  repo: string,
+  ref: string,
+  githubToken?: string
+): Promise<string | null> {
+  return fetchFileContent(owner, repo, IGNORE_FILE_NAME, ref, githubToken);
+}
+
+/**
+ * Fetch the contents of specific files at a commit
+ * Paths the crawler would exclude, files over the size limit and files that
+ * cannot be fetched are skipped
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param paths - File paths to fetch
+ * @param ref - Branch, tag or commit SHA
+ * @param rules - Optional repository include/exclude rules
+ * @param githubToken - Optional GitHub personal access token
+ * @param onFileFetched - Optional callback after each file has been fetched
+ * @param budget - Optional crawl budget overrides (maxFileBytes and concurrency apply)
+ * @returns Promise resolving to fetched files and the skipped paths
+ */
+export async function fetchGitHubFiles(
+  owner: string,
+  repo: string,
+  paths: string[],
+  ref: string,
+  rules?: PathRules,
+  githubToken?: string,
+  onFileFetched?: (fetched: number, total: number) => void,
+  budget?: Partial<CrawlBudget>
+): Promise<FetchedFiles> {
+  return fetchPaths(
+    paths,
+    resolveCrawlBudget(budget),
+    rules,
+    (path) => fetchFileContent(owner, repo, path, ref, githubToken),
+    onFileFetched
+  );
+}
+
+/**
+ * Check that a personal access token is accepted by GitHub
+ * @param githubToken - GitHub personal access token
+ * @returns Promise resolving to the GitHub login the token belongs to
+ * @throws GitHubApiError if the token is rejected
+ */
+export async function verifyGitHubToken(githubToken: string): Promise<string> {
+  const response = await fetch('https://api.github.com/user', {
+    headers: buildHeaders(githubToken),
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new GitHubApiError('GitHub token is invalid or expired', 401);
+    }
+    throw new GitHubApiError(`Failed to verify GitHub token: ${response.statusText}`, response.status);
+  }
+
+  const userData: any = await response.json();
+  return userData.login;
+}
+
+/**
+ * Check that a repository is visible with the given credentials
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param githubToken - Optional GitHub personal access token
+ * @throws GitHubApiError if the repository cannot be read
+ */
+export async function checkRepositoryAccess(
+  owner: string,
+  repo: string,
+  githubToken?: string
+): Promise<void> {
+  const response = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
+    headers: buildHeaders(githubToken),
+  });
+
+  if (!response.ok) {
+    throw toRepositoryError(response, owner, repo, githubToken);
+  }
+}
+
 /**
  * Format repository content into a single text string
  * @param content - RepositoryContent object
@@ -201,7 +545,8 @@ export function formatRepositoryContent(content: RepositoryContent): string {
   let text = `Repository: ${content.owner}/${content.repo}\n`;
   text += `Description: ${content.description || 'No description'}\n`;
   text += `Language: ${content.language || 'Unknown'}\n`;
-  text += `Default Branch: ${content.defaultBranch}\n\n`;
+  text += `Default Branch: ${content.defaultBranch}\n`;
+  text += `Ref: ${content.ref}\n\n`;
   
   if (content.readme) {
     text += `README:\n${content.readme}\n\n`;
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { classifyPathWithRules } from "./crawler";
+import { createPathRules, validatePatternList } from "./ignore-rules";
+
+function excluded(patterns: string[], paths: string[]): string[] {
+  const rules = createPathRules({ exclude: patterns });
+  return paths.filter((path) => rules.isExcluded(path));
+}
+
+describe("createPathRules", () => {
+  it("matches an unanchored pattern at any depth", () => {
+    expect(
+      excluded(["*.snap"], ["a.snap", "src/__snapshots__/b.snap", "src/b.snap.ts"])
+    ).toEqual(["a.snap", "src/__snapshots__/b.snap"]);
+  });
+
+  it("anchors a pattern with a leading or inner slash to the root", () => {
+    const paths = ["build/out.js", "src/build/out.js", "docs/api/index.md", "src/docs/api/index.md"];
+
+    expect(excluded(["/build"], paths)).toEqual(["build/out.js"]);
+    expect(excluded(["docs/api"], paths)).toEqual(["docs/api/index.md"]);
+  });
+
+  it("does not let * or ? cross a directory", () => {
+    expect(excluded(["/src/*.ts"], ["src/a.ts", "src/lib/b.ts"])).toEqual(["src/a.ts"]);
+    expect(excluded(["/src/?.ts"], ["src/a.ts", "src/ab.ts", "src/a/b.ts"])).toEqual([
+      "src/a.ts",
+    ]);
+  });
+
+  it("matches zero or more directories with **", () => {
+    const paths = ["test/a.ts", "src/test/a.ts", "src/deep/test/a.ts", "src/testing/a.ts"];
+
+    expect(excluded(["src/**/test"], paths)).toEqual(["src/test/a.ts", "src/deep/test/a.ts"]);
+    expect(excluded(["src/**"], paths)).toEqual(paths.slice(1));
+  });
+
+  it("supports character classes", () => {
+    expect(excluded(["file[0-9].txt"], ["file1.txt", "fileA.txt"])).toEqual(["file1.txt"]);
+    expect(excluded(["file[!0-9].txt"], ["file1.txt", "fileA.txt"])).toEqual(["fileA.txt"]);
+  });
+
+  it("only matches directory rules against directories", () => {
+    expect(excluded(["fixtures/"], ["fixtures/a.json", "src/fixtures/b.json", "fixtures"])).toEqual([
+      "fixtures/a.json",
+      "src/fixtures/b.json",
+    ]);
+  });
+
+  it("re-includes a path with a negated pattern", () => {
+    expect(
+      excluded(["dist/", "!dist/types.d.ts"], ["dist/index.js", "dist/types.d.ts"])
+    ).toEqual(["dist/index.js"]);
+  });
+
+  it("lets the last matching pattern win", () => {
+    const paths = ["logs/keep.log", "logs/drop.log"];
+
+    expect(excluded(["*.log", "!logs/keep.log"], paths)).toEqual(["logs/drop.log"]);
+    expect(excluded(["!logs/keep.log", "*.log"], paths)).toEqual(paths);
+  });
+
+  it("applies the repository's exclude list after the ignore file", () => {
+    const rules = createPathRules({
+      ignoreFile: "# generated\n*.gen.ts\n\n!api.gen.ts\n",
+      exclude: ["api.gen.ts"],
+    });
+
+    expect(rules.isExcluded("src/client.gen.ts")).toBe(true);
+    expect(rules.isExcluded("src/api.gen.ts")).toBe(true);
+    expect(rules.isExcluded("src/client.ts")).toBe(false);
+  });
+
+  it("excludes nothing without rules", () => {
+    const rules = createPathRules();
+
+    expect(rules.isExcluded("node_modules/a.js")).toBe(false);
+    expect(rules.isIncluded("schema.proto")).toBe(false);
+  });
+});
+
+describe("include patterns", () => {
+  const rules = createPathRules({
+    include: ["*.proto", "vendor/acme/"],
+    exclude: ["fixtures/"],
+  });
+
+  it("override the unsupported, vendored and generated checks", () => {
+    expect(classifyPathWithRules("api/schema.proto")).toBe("unsupported");
+    expect(classifyPathWithRules("api/schema.proto", rules)).toBeNull();
+    expect(classifyPathWithRules("vendor/acme/lib.go")).toBe("vendored");
+    expect(classifyPathWithRules("vendor/acme/lib.go", rules)).toBeNull();
+    expect(classifyPathWithRules("vendor/other/lib.go", rules)).toBe("vendored");
+  });
+
+  it("do not bring back a path the exclude rules drop", () => {
+    expect(rules.isIncluded("fixtures/schema.proto")).toBe(true);
+    expect(classifyPathWithRules("fixtures/schema.proto", rules)).toBe("ignored");
+  });
+});
+
+describe("validatePatternList", () => {
+  it("accepts a list of non-empty patterns", () => {
+    expect(validatePatternList(["*.proto", "fixtures/"])).toBeNull();
+  });
+
+  it("rejects anything else", () => {
+    expect(validatePatternList("*.proto")).toBe("must be an array of glob patterns");
+    expect(validatePatternList(["*.proto", " "])).toBe("must only contain non-empty strings");
+    expect(validatePatternList(Array(201).fill("*.ts"))).toBe("must contain at most 200 patterns");
+    expect(validatePatternList(["x".repeat(501)])).toBe("patterns must be at most 500 characters");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Gitignore-style path rules for repository indexing
+ * Combines a committed .repochatignore file with per-repository
+ * include/exclude glob lists
+ */
+
+export const IGNORE_FILE_NAME = ".repochatignore";
+
+interface CompiledRule {
+  regex: RegExp;
+  negate: boolean;
+}
+
+export interface PathRules {
+  /** True when the exclude rules (last match wins, `!` re-includes) drop the path */
+  isExcluded(path: string): boolean;
+  /** True when an include pattern forces the path in despite type/vendored checks */
+  isIncluded(path: string): boolean;
+}
+
+export interface PathRuleSources {
+  ignoreFile?: string | null;
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Convert a glob body to a regular expression source
+ * Supports `*`, `**`, `?` and `[...]` character classes
+ */
+function globToRegexSource(glob: string): string {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        if (glob[i + 2] === "/") {
+          // "**/" matches zero or more directories
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if ("\\^$.|+(){}".includes(char)) {
+      source += `\\${char}`;
+    } else {
+      source += char;
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile a single gitignore-style pattern
+ * @param pattern - Raw pattern line
+ * @returns Compiled rule, or null for blank lines and comments
+ */
+function compilePattern(pattern: string): CompiledRule | null {
+  let glob = pattern.trim();
+  if (!glob || glob.startsWith("#")) {
+    return null;
+  }
+
+  const negate = glob.startsWith("!");
+  if (negate) {
+    glob = glob.slice(1);
+  }
+
+  const directoryOnly = glob.endsWith("/");
+  glob = glob.replace(/\/+$/, "");
+
+  // A slash anywhere but the end anchors the pattern to the repository root
+  const anchored = glob.includes("/");
+  glob = glob.replace(/^\/+/, "");
+  if (!glob) {
+    return null;
+  }
+
+  const prefix = anchored ? "^" : "(?:^|/)";
+  const suffix = directoryOnly ? "/" : "(?:$|/)";
+
+  return {
+    regex: new RegExp(`${prefix}${globToRegexSource(glob)}${suffix}`),
+    negate,
+  };
+}
+
+function compilePatterns(patterns: string[]): CompiledRule[] {
+  return patterns
+    .map(compilePattern)
+    .filter((rule): rule is CompiledRule => rule !== null);
+}
+
+function matchesLast(rules: CompiledRule[], path: string): boolean {
+  let matched = false;
+  for (const rule of rules) {
+    if (rule.regex.test(path)) {
+      matched = !rule.negate;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Split an ignore file into pattern lines
+ * @param content - .repochatignore file content
+ * @returns Pattern lines (comments and blanks are dropped at compile time)
+ */
+export function parseIgnoreFile(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+/**
+ * Validate a user-supplied pattern list
+ * @param value - Untrusted input
+ * @returns Error message, or null if valid
+ */
+export function validatePatternList(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return "must be an array of glob patterns";
+  }
+  if (value.length > 200) {
+    return "must contain at most 200 patterns";
+  }
+  for (const pattern of value) {
+    if (typeof pattern !== "string" || !pattern.trim()) {
+      return "must only contain non-empty strings";
+    }
+    if (pattern.length > 500) {
+      return "patterns must be at most 500 characters";
+    }
+  }
+  return null;
+}
+
+/**
+ * Build path rules from an ignore file and per-repository glob lists
+ * Repository exclude patterns are applied after the ignore file, so they win ties
+ * @param sources - Ignore file content and include/exclude lists
+ * @returns PathRules
+ */
+export function createPathRules(sources: PathRuleSources = {}): PathRules {
+  const excludeRules = compilePatterns([
+    ...(sources.ignoreFile ? parseIgnoreFile(sources.ignoreFile) : []),
+    ...(sources.exclude || []),
+  ]);
+  const includeRules = compilePatterns(sources.include || []);
+
+  return {
+    isExcluded: (path) => matchesLast(excludeRules, path),
+    isIncluded: (path) => matchesLast(includeRules, path),
+  };
+}
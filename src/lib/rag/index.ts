@@ -5,14 +5,20 @@
  * instead of KV store embeddings.
  * 
  * Modules:
- * - embeddings.ts: Hugging Face embeddings generation (384 dimensions)
- * - github.ts: GitHub repository fetching (limit 50 files)
+ * - embeddings.ts: Embedding providers (Hugging Face, local transformers.js, OpenAI-compatible)
+ * - github.ts: GitHub repository fetching
+ * - crawler.ts: File ranking and crawl budget planning
+ * - chunker.ts: Declaration- and heading-aware chunking
+ * - citations.ts: Source citations and GitHub links for answers
  * - vector-search.ts: Supabase pgvector similarity search
  * - query.ts: Main RAG query pipeline orchestration
  */
 
 export * from './embeddings.js';
 export * from './github.js';
+export * from './crawler.js';
+export * from './chunker.js';
+export * from './citations.js';
 export * from './vector-search.js';
 export * from './query.js';
 export * from './text-generation.js';
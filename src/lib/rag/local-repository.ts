@@ -0,0 +1,598 @@
+/**
+ * Local repository reader
+ * Reads owner/repo from LOCAL_REPOS_DIR/owner/repo instead of the GitHub API,
+ * with the same functions and results as github.ts. A git repository there
+ * (working copy or bare) is read at its commits; a plain directory is read
+ * from disk. Missing repositories are cloned from LOCAL_GIT_BASE_URL
+ * (default https://github.com) on first use.
+ *
+ * The functions taking a LocalRepository read any directory or clone and back
+ * the git, archive and local path repository sources (repository-source.ts).
+ */
+
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, stat } from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import {
+  buildCoverage,
+  CrawlBudget,
+  CrawlCandidate,
+  fetchPaths,
+  mapWithConcurrency,
+  planCrawl,
+  resolveCrawlBudget,
+  SkippedFile,
+} from './crawler';
+import {
+  FetchedFiles,
+  FetchGitHubRepoOptions,
+  GitHubApiError,
+  GitHubFile,
+  RepositoryChanges,
+  RepositoryContent,
+} from './github';
+import { createPathRules, IGNORE_FILE_NAME, PathRules } from './ignore-rules';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_REPOS_DIR = '.local/repos';
+const DEFAULT_GIT_BASE_URL = 'https://github.com';
+// Owner and repository names as GitHub allows them; also keeps paths inside the root
+const NAME_PATTERN = /^(?!\.{1,2}$)[\w.-]+$/;
+// Directories never read from plain (non-git) checkouts
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * A git repository or plain directory on disk
+ * fingerprint, when set, identifies a plain directory's contents instead of
+ * hashing its file list (e.g. the checksum of the archive it was extracted from)
+ */
+export type LocalRepository =
+  | { kind: 'git'; dir: string; bare: boolean }
+  | { kind: 'directory'; dir: string; fingerprint?: string };
+
+/**
+ * How to talk to a remote given by a user rather than the server's configuration
+ */
+export interface RemoteOptions {
+  /**
+   * Pin the host to addresses checked beforehand, as curl's host:port:address;
+   * also limits git to plain http(s) without redirects
+   */
+  resolve?: string;
+  /** Clone only the latest commit of each branch */
+  shallow?: boolean;
+  /** Stop git after this long */
+  timeoutMs?: number;
+}
+
+/**
+ * Run git and return its stdout
+ * @param args - git arguments
+ * @param cwd - Repository directory, if any
+ * @param timeoutMs - Stop git after this long (default: no limit)
+ */
+async function git(args: string[], cwd?: string, timeoutMs?: number): Promise<string> {
+  const { stdout } = await execFileAsync(
+    'git',
+    cwd ? ['-C', cwd, ...args] : args,
+    // Never wait for credentials on a terminal nobody is watching
+    {
+      maxBuffer: GIT_MAX_BUFFER,
+      encoding: 'utf8',
+      timeout: timeoutMs,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    }
+  );
+  return stdout;
+}
+
+/**
+ * git -c settings for a remote: plain http(s) only, no redirects (they could
+ * lead anywhere) and the pinned addresses, if any
+ */
+function getRemoteConfig(remote: RemoteOptions): string[] {
+  if (!remote.resolve) {
+    return [];
+  }
+  return [
+    '-c', 'protocol.allow=never',
+    '-c', 'protocol.http.allow=always',
+    '-c', 'protocol.https.allow=always',
+    '-c', 'http.followRedirects=false',
+    '-c', `http.curloptResolve=${remote.resolve}`,
+  ];
+}
+
+async function isDirectory(dir: string): Promise<boolean> {
+  return stat(dir).then((stats) => stats.isDirectory(), () => false);
+}
+
+/**
+ * Directory for owner/repo under LOCAL_REPOS_DIR
+ */
+function getRepositoryDir(owner: string, repo: string): string {
+  if (!NAME_PATTERN.test(owner) || !NAME_PATTERN.test(repo)) {
+    throw new GitHubApiError(`Invalid repository name ${owner}/${repo}`, 404);
+  }
+  const root = path.resolve(process.env.LOCAL_REPOS_DIR?.trim() || DEFAULT_REPOS_DIR);
+  return path.join(root, owner, repo);
+}
+
+/**
+ * Find (or clone) the repository for owner/repo
+ */
+async function openRepository(owner: string, repo: string): Promise<LocalRepository> {
+  const dir = getRepositoryDir(owner, repo);
+
+  if (!(await isDirectory(dir))) {
+    const baseUrl = (process.env.LOCAL_GIT_BASE_URL?.trim() || DEFAULT_GIT_BASE_URL).replace(/\/+$/, '');
+    const url = `${baseUrl}/${owner}/${repo}.git`;
+    try {
+      return await cloneRepository(url, dir);
+    } catch (error) {
+      console.warn(`[RAG] Could not clone ${url}: ${error instanceof Error ? error.message : error}`);
+      throw new GitHubApiError(
+        `Repository ${owner}/${repo} was not found in the local repositories directory and could not be cloned`,
+        404
+      );
+    }
+  }
+
+  return openLocalRepository(dir);
+}
+
+/**
+ * Open a directory and tell git repositories from plain directories
+ * @throws Error if the directory does not exist
+ */
+export async function openLocalRepository(dir: string): Promise<LocalRepository> {
+  if (!(await isDirectory(dir))) {
+    throw new Error(`${dir} is not a directory`);
+  }
+
+  try {
+    if ((await git(['rev-parse', '--is-bare-repository'], dir)).trim() === 'true') {
+      return { kind: 'git', dir, bare: true };
+    }
+    // Only the repository's own .git counts, not one in a parent directory
+    const topLevel = (await git(['rev-parse', '--show-toplevel'], dir)).trim();
+    if (path.resolve(topLevel) === path.resolve(dir)) {
+      return { kind: 'git', dir, bare: false };
+    }
+  } catch {
+    // Not a git repository
+  }
+  return { kind: 'directory', dir };
+}
+
+/**
+ * Bare-clone a git URL into dir
+ * A shallow clone still has every branch and tag, each at its latest commit;
+ * later fetches add history from there on, so syncs can diff against it.
+ */
+export async function cloneRepository(
+  url: string,
+  dir: string,
+  remote: RemoteOptions = {}
+): Promise<LocalRepository> {
+  console.log(`[RAG] Cloning ${url} into ${dir}`);
+  await mkdir(path.dirname(dir), { recursive: true });
+  const depth = remote.shallow ? ['--depth', '1', '--no-single-branch'] : [];
+  await git(
+    [...getRemoteConfig(remote), 'clone', '--quiet', '--bare', ...depth, url, dir],
+    undefined,
+    remote.timeoutMs
+  );
+  return { kind: 'git', dir, bare: true };
+}
+
+/**
+ * Check that a git URL can be read without cloning it
+ */
+export async function checkRemoteRepository(url: string, remote: RemoteOptions = {}): Promise<void> {
+  await git([...getRemoteConfig(remote), 'ls-remote', '--quiet', url, 'HEAD'], undefined, remote.timeoutMs);
+}
+
+/**
+ * Bring a clone made by this reader up to date with its origin
+ * Working copies are left alone; they are read at whatever their owner committed.
+ * A full commit SHA that no branch or tag reaches is fetched by itself.
+ * @param ref - Branch, tag or commit SHA about to be read
+ */
+export async function refreshClone(
+  repository: LocalRepository,
+  remote: RemoteOptions = {},
+  ref?: string
+): Promise<void> {
+  if (repository.kind !== 'git' || !repository.bare) {
+    return;
+  }
+  const config = getRemoteConfig(remote);
+  try {
+    await git(
+      [...config, 'fetch', '--quiet', '--prune', 'origin', '+refs/heads/*:refs/heads/*', '+refs/tags/*:refs/tags/*'],
+      repository.dir,
+      remote.timeoutMs
+    );
+    if (ref && /^[0-9a-f]{40}$/i.test(ref) && !(await resolveGitCommit(repository, ref))) {
+      const depth = remote.shallow ? ['--depth', '1'] : [];
+      await git([...config, 'fetch', '--quiet', ...depth, 'origin', ref], repository.dir, remote.timeoutMs);
+    }
+  } catch (error) {
+    // Offline: keep using what was fetched before
+    console.log(`[RAG] Could not fetch ${repository.dir}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Bytes a git repository's objects take up on disk
+ */
+export async function getRepositorySize(repository: LocalRepository): Promise<number> {
+  const output = await git(['count-objects', '-v'], repository.dir);
+  // Loose objects ("size") and packs ("size-pack"), in KiB
+  const kib = [...output.matchAll(/^size(?:-pack)?: (\d+)$/gm)].reduce(
+    (sum, match) => sum + Number(match[1]),
+    0
+  );
+  return kib * 1024;
+}
+
+async function getDefaultBranch(repository: LocalRepository): Promise<string> {
+  if (repository.kind !== 'git') {
+    return 'main';
+  }
+  const branch = await git(['symbolic-ref', '--quiet', '--short', 'HEAD'], repository.dir).catch(() => '');
+  return branch.trim() || 'HEAD';
+}
+
+async function resolveGitCommit(repository: LocalRepository, ref: string): Promise<string | null> {
+  try {
+    return (await git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], repository.dir)).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List every file of a plain directory with its size, relative to the root
+ */
+async function listDirectoryFiles(root: string): Promise<CrawlCandidate[]> {
+  const files: CrawlCandidate[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+          await walk(fullPath);
+        }
+      } else if (entry.isFile()) {
+        const { size } = await stat(fullPath);
+        files.push({ path: path.relative(root, fullPath).split(path.sep).join('/'), size });
+      }
+    }
+  };
+  await walk(root);
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Fingerprint a plain directory so unchanged directories can be recognized
+ * (it stands in for a commit SHA, but cannot be diffed)
+ */
+async function fingerprintDirectory(repository: LocalRepository & { kind: 'directory' }): Promise<string> {
+  if (repository.fingerprint) {
+    return repository.fingerprint;
+  }
+  const root = repository.dir;
+  const hash = createHash('sha1');
+  for (const file of await listDirectoryFiles(root)) {
+    const { mtimeMs } = await stat(path.join(root, file.path));
+    hash.update(`${file.path}\0${file.size}\0${mtimeMs}\n`);
+  }
+  return `dir-${hash.digest('hex')}`;
+}
+
+/**
+ * List the blobs of a commit
+ */
+async function listCommitFiles(repository: LocalRepository, commitSha: string): Promise<CrawlCandidate[]> {
+  const output = await git(['ls-tree', '-r', '-l', '-z', commitSha], repository.dir);
+  return output
+    .split('\0')
+    .filter(Boolean)
+    .map((line) => {
+      const [meta, filePath] = line.split('\t');
+      const [, type, , size] = meta.split(/\s+/);
+      return { type, path: filePath, size: Number(size) || 0 };
+    })
+    .filter((item) => item.type === 'blob')
+    .map(({ path: filePath, size }) => ({ path: filePath, size }));
+}
+
+/**
+ * Read a file at a commit (git) or from disk (plain directory)
+ * @returns File content, or null if it does not exist
+ */
+async function readRepositoryFile(
+  repository: LocalRepository,
+  filePath: string,
+  commitSha: string | null
+): Promise<string | null> {
+  try {
+    if (repository.kind === 'git') {
+      return await git(['show', `${commitSha || 'HEAD'}:${filePath}`], repository.dir);
+    }
+    const fullPath = path.resolve(repository.dir, filePath);
+    if (!fullPath.startsWith(repository.dir + path.sep)) {
+      return null;
+    }
+    return await readFile(fullPath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+async function readReadme(repository: LocalRepository, candidates: CrawlCandidate[], commitSha: string | null): Promise<string | null> {
+  const readme = candidates.find((item) => /^readme(\.[\w]+)?$/i.test(item.path));
+  return readme ? readRepositoryFile(repository, readme.path, commitSha) : null;
+}
+
+/**
+ * Read the contents of a git repository or directory
+ * @param repository - Repository opened with openLocalRepository or cloneRepository
+ * @param owner - Owner reported in the result
+ * @param repo - Name reported in the result
+ * @param options - Optional ref, crawl budget and path rules
+ * @returns Promise resolving to RepositoryContent
+ */
+export async function readLocalRepository(
+  repository: LocalRepository,
+  owner: string,
+  repo: string,
+  options: FetchGitHubRepoOptions = {}
+): Promise<RepositoryContent> {
+  const defaultBranch = await getDefaultBranch(repository);
+  const ref = options.ref || defaultBranch;
+
+  let commitSha: string | null;
+  let blobs: CrawlCandidate[];
+  if (repository.kind === 'git') {
+    commitSha = await resolveGitCommit(repository, ref);
+    if (!commitSha) {
+      throw new Error(`Branch, tag or commit "${ref}" not found in ${owner}/${repo}`);
+    }
+    blobs = await listCommitFiles(repository, commitSha);
+  } else {
+    if (options.ref) {
+      throw new Error(`${owner}/${repo} is not a git repository, so ref "${options.ref}" cannot be read`);
+    }
+    commitSha = await fingerprintDirectory(repository);
+    blobs = await listDirectoryFiles(repository.dir);
+  }
+  const contentSha = repository.kind === 'git' ? commitSha : null;
+
+  const readme = await readReadme(repository, blobs, contentSha);
+  const budget = resolveCrawlBudget(options.budget);
+  const ignoreFile = blobs.some((item) => item.path === IGNORE_FILE_NAME)
+    ? await readRepositoryFile(repository, IGNORE_FILE_NAME, contentSha)
+    : null;
+  const rules = createPathRules({
+    ignoreFile,
+    include: options.includePatterns,
+    exclude: options.excludePatterns,
+  });
+
+  const plan = planCrawl(blobs, budget, rules);
+  const skipped: SkippedFile[] = [...plan.skipped];
+  let fetched = 0;
+  options.onFileFetched?.(0, plan.selected.length);
+  const contents = await mapWithConcurrency(plan.selected, budget.concurrency, async (item) => {
+    const content = await readRepositoryFile(repository, item.path, contentSha);
+    options.onFileFetched?.(++fetched, plan.selected.length);
+    return content;
+  });
+
+  const files: GitHubFile[] = [];
+  plan.selected.forEach((item, i) => {
+    const content = contents[i];
+    if (content === null) {
+      skipped.push({ ...item, reason: 'fetch_failed' });
+      return;
+    }
+    files.push({ path: item.path, content, size: content.length });
+  });
+
+  return {
+    owner,
+    repo,
+    description: null,
+    language: null,
+    defaultBranch,
+    ref,
+    commitSha,
+    readme,
+    files,
+    coverage: buildCoverage(blobs.length, files, skipped, budget, false),
+  };
+}
+
+/**
+ * Resolve a ref to a commit SHA (plain directories: their fingerprint)
+ */
+export async function resolveLocalCommit(repository: LocalRepository, ref: string): Promise<string | null> {
+  return repository.kind === 'git'
+    ? resolveGitCommit(repository, ref)
+    : fingerprintDirectory(repository);
+}
+
+/**
+ * List files changed between two commits with git diff
+ * Plain directories and unknown or non-ancestor base commits report truncated,
+ * which makes the caller re-index everything
+ */
+export async function compareLocalCommits(
+  repository: LocalRepository,
+  baseSha: string,
+  headSha: string
+): Promise<RepositoryChanges> {
+  const changes: RepositoryChanges = {
+    baseSha,
+    headSha,
+    added: [],
+    modified: [],
+    removed: [],
+    truncated: false,
+  };
+
+  if (baseSha === headSha) {
+    return changes;
+  }
+
+  if (repository.kind !== 'git') {
+    return { ...changes, truncated: true };
+  }
+
+  try {
+    await git(['merge-base', '--is-ancestor', baseSha, headSha], repository.dir);
+  } catch {
+    // Unknown base (history rewritten) or head is not ahead of it
+    return { ...changes, truncated: true };
+  }
+
+  const output = await git(['diff', '--name-status', '--no-renames', '-z', baseSha, headSha], repository.dir);
+  const fields = output.split('\0').filter(Boolean);
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const [status, filePath] = [fields[i], fields[i + 1]];
+    if (status.startsWith('A')) {
+      changes.added.push(filePath);
+    } else if (status.startsWith('D')) {
+      changes.removed.push(filePath);
+    } else {
+      changes.modified.push(filePath);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Read the .repochatignore file at the repository root
+ */
+export async function readLocalIgnoreFile(repository: LocalRepository, ref: string): Promise<string | null> {
+  return readRepositoryFile(repository, IGNORE_FILE_NAME, repository.kind === 'git' ? ref : null);
+}
+
+/**
+ * Read specific files at a commit
+ * Paths the crawler would exclude, files over the size limit and files that
+ * cannot be read are skipped
+ */
+export async function readLocalFiles(
+  repository: LocalRepository,
+  paths: string[],
+  ref: string,
+  rules?: PathRules,
+  onFileFetched?: (fetched: number, total: number) => void,
+  budget?: Partial<CrawlBudget>
+): Promise<FetchedFiles> {
+  const contentSha = repository.kind === 'git' ? ref : null;
+  return fetchPaths(
+    paths,
+    resolveCrawlBudget(budget),
+    rules,
+    (filePath) => readRepositoryFile(repository, filePath, contentSha),
+    onFileFetched
+  );
+}
+
+/**
+ * Read a local repository's contents (local counterpart of fetchGitHubRepo)
+ * @param owner - Repository owner (directory under LOCAL_REPOS_DIR)
+ * @param repo - Repository name
+ * @param _githubToken - Unused; accepted for compatibility with fetchGitHubRepo
+ * @param options - Optional ref, crawl budget and path rules
+ * @returns Promise resolving to RepositoryContent
+ */
+export async function fetchGitHubRepo(
+  owner: string,
+  repo: string,
+  _githubToken?: string,
+  options: FetchGitHubRepoOptions = {}
+): Promise<RepositoryContent> {
+  const repository = await openRepository(owner, repo);
+  await refreshClone(repository);
+  return readLocalRepository(repository, owner, repo, options);
+}
+
+/**
+ * Resolve a ref to a commit SHA (plain directories: a content fingerprint)
+ */
+export async function resolveCommitSha(
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<string | null> {
+  try {
+    const repository = await openRepository(owner, repo);
+    await refreshClone(repository);
+    return await resolveLocalCommit(repository, ref);
+  } catch (error) {
+    console.log(`Could not resolve ${ref} for ${owner}/${repo}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * List files changed between two commits (see compareLocalCommits)
+ */
+export async function compareCommits(
+  owner: string,
+  repo: string,
+  baseSha: string,
+  headSha: string
+): Promise<RepositoryChanges> {
+  return compareLocalCommits(await openRepository(owner, repo), baseSha, headSha);
+}
+
+/**
+ * Read the .repochatignore file at the repository root
+ */
+export async function fetchIgnoreFile(
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<string | null> {
+  return readLocalIgnoreFile(await openRepository(owner, repo), ref);
+}
+
+/**
+ * Read specific files at a commit (see readLocalFiles)
+ */
+export async function fetchGitHubFiles(
+  owner: string,
+  repo: string,
+  paths: string[],
+  ref: string,
+  rules?: PathRules,
+  _githubToken?: string,
+  onFileFetched?: (fetched: number, total: number) => void,
+  budget?: Partial<CrawlBudget>
+): Promise<FetchedFiles> {
+  return readLocalFiles(await openRepository(owner, repo), paths, ref, rules, onFileFetched, budget);
+}
+
+/**
+ * Check that the repository exists locally or can be cloned
+ * @throws GitHubApiError (404) if it cannot be read
+ */
+export async function checkRepositoryAccess(
+  owner: string,
+  repo: string
+): Promise<void> {
+  await openRepository(owner, repo);
+}
@@ -0,0 +1,127 @@
+/**
+ * Structured indexing progress
+ * The pipeline reports phase and counts; the tracker adds timing and an ETA
+ * and throttles how often progress is persisted
+ */
+
+export type IndexPhase =
+  | "fetching"
+  | "chunking"
+  | "embedding"
+  | "storing"
+  | "finalizing";
+
+/**
+ * What the pipeline reports at each step
+ */
+export interface IndexProgressUpdate {
+  phase: IndexPhase;
+  message: string;
+  filesFetched?: number;
+  filesTotal?: number;
+  chunksEmbedded?: number;
+  chunksTotal?: number;
+}
+
+/**
+ * Progress as persisted on the repository and sent to clients
+ */
+export interface IndexProgress extends IndexProgressUpdate {
+  /** Overall completion from 0 to 1, weighted by phase */
+  fraction: number;
+  /** Estimated seconds left in the current phase, once a rate is known */
+  etaSeconds?: number;
+  startedAt: string;
+  phaseStartedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Share of the overall work before each phase starts and within it
+ * Embedding dominates indexing time
+ */
+const PHASE_WEIGHTS: Record<IndexPhase, { start: number; span: number }> = {
+  fetching: { start: 0, span: 0.25 },
+  chunking: { start: 0.25, span: 0.05 },
+  embedding: { start: 0.3, span: 0.6 },
+  storing: { start: 0.9, span: 0.08 },
+  finalizing: { start: 0.98, span: 0.02 },
+};
+
+export interface ProgressTrackerOptions {
+  /** Minimum time between reports within a phase (default: 1000ms) */
+  minIntervalMs?: number;
+}
+
+export interface ProgressTracker {
+  update(update: IndexProgressUpdate): void;
+  current(): IndexProgress | null;
+}
+
+/**
+ * Track progress and report it when the phase changes or at most once per interval
+ * @param report - Receives each progress snapshot (e.g. to persist it)
+ */
+export function createProgressTracker(
+  report: (progress: IndexProgress) => void,
+  options: ProgressTrackerOptions = {}
+): ProgressTracker {
+  const { minIntervalMs = 1000 } = options;
+  const startedAt = new Date();
+  let phaseStartedAt = startedAt;
+  let latest: IndexProgress | null = null;
+  let lastReportedAt = 0;
+
+  return {
+    update(update) {
+      const now = new Date();
+      const phaseChanged = latest?.phase !== update.phase;
+      if (phaseChanged) {
+        phaseStartedAt = now;
+      }
+
+      const { done, total } = phaseCounts(update);
+      const weight = PHASE_WEIGHTS[update.phase];
+      const phaseFraction = total ? Math.min(done / total, 1) : 0;
+
+      latest = {
+        ...update,
+        fraction: weight.start + weight.span * phaseFraction,
+        etaSeconds: estimateRemainingSeconds(done, total, now.getTime() - phaseStartedAt.getTime()),
+        startedAt: startedAt.toISOString(),
+        phaseStartedAt: phaseStartedAt.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+
+      const finishedPhase = total !== undefined && done >= total;
+      if (phaseChanged || finishedPhase || now.getTime() - lastReportedAt >= minIntervalMs) {
+        lastReportedAt = now.getTime();
+        report(latest);
+      }
+    },
+    current() {
+      return latest;
+    },
+  };
+}
+
+function phaseCounts(update: IndexProgressUpdate): { done: number; total?: number } {
+  if (update.phase === "fetching") {
+    return { done: update.filesFetched || 0, total: update.filesTotal };
+  }
+  if (update.phase === "embedding") {
+    return { done: update.chunksEmbedded || 0, total: update.chunksTotal };
+  }
+  return { done: 0 };
+}
+
+function estimateRemainingSeconds(
+  done: number,
+  total: number | undefined,
+  elapsedMs: number
+): number | undefined {
+  if (!total || done <= 0 || done >= total || elapsedMs <= 0) {
+    return undefined;
+  }
+  return Math.ceil(((total - done) * elapsedMs) / done / 1000);
+}
@@ -0,0 +1,195 @@
+/**
+ * Conversational query rewriting
+ * Condenses a follow-up question and the recent chat history into a standalone
+ * search query ("and how is that tested?" -> "tests for the chunkSource
+ * function"), optionally split into sub-queries for questions that touch
+ * several parts of the code. Retrieval searches with these; the answer prompt
+ * still uses the user's own words.
+ */
+
+import type { ChatModelProvider } from "../ai/chat-model-provider";
+
+export interface QueryRewriteOptions {
+  /** Rewrite questions before retrieval (QUERY_REWRITE=off disables it) */
+  enabled: boolean;
+  /** Extra search queries the question may be split into; 0 disables expansion */
+  maxSubQueries: number;
+  /** Previous messages the rewrite sees */
+  historyMessages: number;
+}
+
+/**
+ * What retrieval searched for, stored with the answer (messages.rewritten_query)
+ */
+export interface RewrittenQuery {
+  /** Standalone version of the question */
+  query: string;
+  /** Additional queries whose results were merged with the main one */
+  subQueries: string[];
+}
+
+export const DEFAULT_QUERY_REWRITE: QueryRewriteOptions = {
+  enabled: true,
+  maxSubQueries: 3,
+  historyMessages: 6,
+};
+
+// Long answers in the history only need their gist
+const MAX_HISTORY_MESSAGE_TOKENS = 300;
+const MAX_REWRITE_TOKENS = 256;
+
+/**
+ * Resolve rewrite options from defaults, QUERY_REWRITE* environment variables and overrides
+ * @param overrides - Explicit options (take precedence)
+ * @returns Complete rewrite options
+ */
+export function resolveQueryRewriteOptions(
+  overrides: Partial<QueryRewriteOptions> = {}
+): QueryRewriteOptions {
+  const env = typeof process !== "undefined" ? process.env : undefined;
+  const enabledFromEnv = env?.QUERY_REWRITE?.trim().toLowerCase();
+  const subQueriesFromEnv = Number(env?.QUERY_REWRITE_MAX_SUBQUERIES);
+
+  return {
+    enabled:
+      overrides.enabled ??
+      (enabledFromEnv
+        ? !["off", "false", "0"].includes(enabledFromEnv)
+        : DEFAULT_QUERY_REWRITE.enabled),
+    maxSubQueries:
+      overrides.maxSubQueries ??
+      (env?.QUERY_REWRITE_MAX_SUBQUERIES &&
+      Number.isInteger(subQueriesFromEnv) &&
+      subQueriesFromEnv >= 0
+        ? subQueriesFromEnv
+        : DEFAULT_QUERY_REWRITE.maxSubQueries),
+    historyMessages:
+      overrides.historyMessages ?? DEFAULT_QUERY_REWRITE.historyMessages,
+  };
+}
+
+function buildRewritePrompt(maxSubQueries: number): string {
+  const expansion =
+    maxSubQueries > 0
+      ? `If answering needs code from clearly separate places (e.g. "how are users created and how are they deleted?"), also give up to ${maxSubQueries} short sub-queries, one per place. Otherwise leave "subQueries" empty.`
+      : `Always leave "subQueries" empty.`;
+
+  return `You turn the latest question in a conversation about a code repository into a search query for the repository's code.
+
+Rewrite the question so it can be understood without the conversation: replace pronouns and references such as "it", "that function" or "the second one" with the names they refer to, and keep identifiers, file names and error messages exactly as written. If the question already stands on its own, return it unchanged. Do not answer the question.
+
+${expansion}
+
+Reply with JSON only, in this shape:
+{"query": "standalone question", "subQueries": ["sub-query", "..."]}`;
+}
+
+/**
+ * Read the model's reply, tolerating code fences and text around the JSON
+ * @returns The parsed rewrite, or null if the reply is unusable
+ */
+function parseRewrite(reply: string, maxSubQueries: number): RewrittenQuery | null {
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const { query, subQueries } = (parsed || {}) as Record<string, unknown>;
+  if (typeof query !== "string" || !query.trim()) {
+    return null;
+  }
+
+  const normalizedQuery = query.trim();
+  const seen = new Set([normalizedQuery.toLowerCase()]);
+  const uniqueSubQueries: string[] = [];
+  for (const subQuery of Array.isArray(subQueries) ? subQueries : []) {
+    const text = typeof subQuery === "string" ? subQuery.trim() : "";
+    if (text && !seen.has(text.toLowerCase())) {
+      seen.add(text.toLowerCase());
+      uniqueSubQueries.push(text);
+    }
+  }
+
+  return {
+    query: normalizedQuery,
+    subQueries: uniqueSubQueries.slice(0, maxSubQueries),
+  };
+}
+
+/**
+ * Rewrite a question into standalone search queries with the chat model
+ * Falls back to the question itself when rewriting is disabled, there is
+ * nothing to rewrite, or the model's reply cannot be used.
+ * @param chatModel - Model to rewrite with (the one answering the question)
+ * @param question - Latest user question
+ * @param chatHistory - Earlier messages, oldest first
+ * @param options - Rewrite options (see resolveQueryRewriteOptions)
+ * @returns Queries to retrieve with
+ */
+export async function rewriteQuery(
+  chatModel: ChatModelProvider,
+  question: string,
+  chatHistory: Array<{ role: "user" | "assistant"; content: string }>,
+  options: QueryRewriteOptions
+): Promise<RewrittenQuery> {
+  const original: RewrittenQuery = { query: question.trim(), subQueries: [] };
+
+  // The stored history may already end with the question being asked
+  const history = [...chatHistory];
+  const last = history[history.length - 1];
+  if (last?.role === "user" && last.content.trim() === question.trim()) {
+    history.pop();
+  }
+
+  // The offline stub model only echoes its context, so there is nothing to gain
+  if (
+    !options.enabled ||
+    (history.length === 0 && options.maxSubQueries === 0) ||
+    chatModel.getModelInfo().provider === "stub"
+  ) {
+    return original;
+  }
+
+  const tokenizer = chatModel.getTokenizer();
+  const conversation = history
+    .slice(-options.historyMessages)
+    .map(
+      (message) =>
+        `${message.role === "user" ? "User" : "Assistant"}: ${tokenizer.truncate(
+          message.content,
+          MAX_HISTORY_MESSAGE_TOKENS
+        )}`
+    )
+    .join("\n\n");
+
+  const prompt = conversation
+    ? `Conversation so far:\n${conversation}\n\nLatest question: ${question}`
+    : `Latest question: ${question}`;
+
+  try {
+    const reply = await chatModel.generate({
+      system: buildRewritePrompt(options.maxSubQueries),
+      messages: [{ role: "user", content: prompt }],
+      maxTokens: MAX_REWRITE_TOKENS,
+      temperature: 0,
+    });
+
+    const rewritten = parseRewrite(reply, options.maxSubQueries);
+    if (!rewritten) {
+      console.warn("[RAG] Query rewrite returned no usable JSON; searching with the question");
+      return original;
+    }
+    return rewritten;
+  } catch (error) {
+    console.warn("[RAG] Query rewrite failed; searching with the question:", error);
+    return original;
+  }
+}
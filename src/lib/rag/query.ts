@@ -1,11 +1,63 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 import { SupabaseClient } from "@supabase/supabase-js";
-import { GeminiClient } from "../ai/gemini-client";
+import {
+  ChatModelConfig,
+  ChatModelProvider,
+  ChatModelSelection,
+  createChatModelProvider,
+  MESSAGE_OVERHEAD_TOKENS,
+  resolveChatModelConfig,
+} from "../ai/chat-model-provider";
+import {
+  AgentOptions,
+  buildAgentInstructions,
+  resolveAgentOptions,
+  runAgent,
+} from "./agent";
+import { AgentToolCall, createAgentToolbox } from "./agent-tools";
+import {
+  calculateImportance,
+  CrawlBudget,
+  CrawlCoverage,
+  resolveCrawlBudget,
+  updateCoverage,
+} from "./crawler";
+import { createPathRules, IGNORE_FILE_NAME } from "./ignore-rules";
+import { buildCitations, Citation, selectCitedSources } from "./citations";
+import {
+  ChunkExpansionOptions,
+  expandChunks,
+  resolveChunkExpansionOptions,
+} from "./chunk-expansion";
+import { chunkSource, ChunkSymbol } from "./chunker";
+import {
+  buildAnswerContext,
+  ContextReport,
+  describeContextReport,
+} from "./context-builder";
 import * as embeddingsModule from "./embeddings";
+import type {
+  EmbeddingConfig,
+  EmbeddingModelInfo,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+  EmbeddingSelection,
+} from "./embeddings";
 import * as githubModule from "./github";
+import type { IndexProgressUpdate } from "./progress";
+import {
+  QueryRewriteOptions,
+  resolveQueryRewriteOptions,
+  rewriteQuery,
+  RewrittenQuery,
+} from "./query-rewriter";
+import { getRepositoryReader, RepositorySourceName } from "./repository-reader";
+import { createReranker, RerankConfig, rerankChunks } from "./reranker";
+import { createGitHubSource, RepositorySource } from "./repository-source";
 import * as vectorSearchModule from "./vector-search";
 import { processAssistantResponse } from "../../utils/markdown";
+import { toJson } from "../db/models";
+import type { Database, TablesUpdate } from "../supabase/database.types";
 
 // ENHANCED: Increased token limits and chunk parameters
 const MAX_CONTEXT_TOKENS = 16000; // Increased from 8000
@@ -13,20 +65,76 @@ const MAX_RESPONSE_TOKENS = 2048; // Increased from 1024
 const CHUNK_SIZE = 2000; // Increased from 1000
 const CHUNK_OVERLAP = 400; // Increased from 200
 const TOP_K_CHUNKS = 10; // Increased from 3
+const EMBED_BATCH_SIZE = 64; // Chunks embedded per progress update
+const AGENT_OVERVIEW_TOKENS = 4000; // Tree, metadata and history before any tool runs
 
 export interface RAGConfig {
   supabaseUrl: string;
   supabaseKey: string;
   hfToken?: string;
   geminiApiKey?: string;
+  /** Server model configuration (defaults to Gemini with geminiApiKey) */
+  chatModel?: ChatModelConfig;
+  /** Server embedding model for new indexes (defaults to Hugging Face with hfToken) */
+  embedding?: EmbeddingConfig;
   githubToken?: string;
+  /** Where repository contents are read from (defaults to REPOSITORY_SOURCE) */
+  repositorySource?: RepositorySourceName;
+  crawlBudget?: Partial<CrawlBudget>;
+  /** Weights for combining vector and keyword rankings */
+  hybridSearch?: Partial<vectorSearchModule.HybridSearchOptions>;
+  /** Condensing follow-up questions into standalone search queries */
+  queryRewrite?: Partial<QueryRewriteOptions>;
+  /** Cross-encoder re-ranking of search candidates (off when not set) */
+  rerank?: RerankConfig | null;
+  /** Adding neighbouring chunks, or whole small files, to search hits */
+  chunkExpansion?: Partial<ChunkExpansionOptions>;
+  /** Step limit of the agent answer mode */
+  agent?: Partial<AgentOptions>;
 }
 
 export interface EmbedRepositoryOptions {
   repoId: string;
   owner: string;
   repo: string;
-  onProgress?: (message: string) => void;
+  /** Branch, tag or commit SHA (defaults to the default branch) */
+  ref?: string;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+  /** Where the contents are read from; defaults to owner/repo on GitHub */
+  source?: RepositorySource;
+  /** Model the existing index was built with; defaults to the server's */
+  embeddingModel?: EmbeddingSelection;
+  /** Receives a log message and, for pipeline steps, structured progress */
+  onProgress?: (message: string, progress?: IndexProgressUpdate) => void;
+  /**
+   * Checked between pipeline phases; resolving true stops indexing with an
+   * IndexingCancelledError before anything is written to the index
+   */
+  shouldCancel?: () => Promise<boolean>;
+}
+
+export interface SyncRepositoryOptions extends EmbedRepositoryOptions {
+  indexedCommitSha?: string | null;
+}
+
+export interface SyncRepositoryResult {
+  mode: "full" | "incremental" | "unchanged";
+  commitSha: string | null;
+  added: number;
+  modified: number;
+  removed: number;
+}
+
+/**
+ * Thrown when indexing stops because cancellation was requested
+ * The existing index is left untouched
+ */
+export class IndexingCancelledError extends Error {
+  constructor(repoId: string) {
+    super(`Indexing of ${repoId} was cancelled`);
+    this.name = "IndexingCancelledError";
+  }
 }
 
 export interface QueryRepositoryOptions {
@@ -34,15 +142,94 @@ export interface QueryRepositoryOptions {
   question: string;
   chatHistory?: Array<{ role: "user" | "assistant"; content: string }>;
   maxChunks?: number;
+  /** "hybrid" (default) adds keyword matching to vector similarity */
+  searchMode?: "hybrid" | "semantic";
+  /** The repository's provider/model, overriding the server config */
+  chatModel?: ChatModelSelection;
+  /** "agent" lets the model search and read the repository with tools before answering */
+  mode?: AnswerMode;
+  /** Where agent mode reads files from; without it files are rebuilt from the index */
+  source?: RepositorySource;
+}
+
+export const ANSWER_MODES = ["retrieval", "agent"] as const;
+
+export type AnswerMode = (typeof ANSWER_MODES)[number];
+
+export function isAnswerMode(value: unknown): value is AnswerMode {
+  return ANSWER_MODES.includes(value as AnswerMode);
+}
+
+export interface RepositoryAnswer {
+  answer: string;
+  /** Sources the answer cites, numbered like the context sections */
+  citations: Citation[];
+  /** How the prompt budget was spent and what was left out (retrieval mode) */
+  contextReport?: ContextReport;
+  /** Queries retrieval searched with (retrieval mode) */
+  rewrittenQuery?: RewrittenQuery;
+  /** Tools called before answering (agent mode) */
+  toolCalls?: AgentToolCall[];
+}
+
+/**
+ * Events emitted by streamRepositoryAnswer
+ */
+export type RepositoryAnswerEvent =
+  | { type: "status"; message: string }
+  | { type: "token"; delta: string }
+  | {
+      type: "done";
+      content: string;
+      citations: Citation[];
+      contextReport?: ContextReport;
+      rewrittenQuery?: RewrittenQuery;
+      toolCalls?: AgentToolCall[];
+    };
+
+interface AnswerPrompt {
+  system: string;
+  messages: Array<{ role: "user" | "assistant"; content: string }>;
+  sectionCount: number;
+  citations: Citation[];
+  contextReport: ContextReport;
+  rewrittenQuery: RewrittenQuery;
 }
 
 // ENHANCED: Repository metadata structure
 interface RepositoryMetadata {
+  sourceType?: string;
+  owner?: string;
+  repo?: string;
+  ref?: string;
   readme?: string;
   fileTree: string;
   languages: string[];
   framework?: string;
   totalFiles: number;
+  commitSha?: string;
+  coverage?: CrawlCoverage;
+  /** Embedding model the index was built with */
+  embedding?: EmbeddingSelection;
+  /** Index generation to make active along with this metadata */
+  indexVersion?: number;
+}
+
+interface ChunkLocation {
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+interface RepositoryChunk {
+  text: string;
+  filePath: string;
+  fileType: string;
+  importance: number;
+  location?: ChunkLocation;
+  symbol?: ChunkSymbol;
+  symbols?: ChunkSymbol[];
 }
 
 export function createRAGClient(config: RAGConfig) {
@@ -50,37 +237,349 @@ export function createRAGClient(config: RAGConfig) {
     config.supabaseUrl,
     config.supabaseKey
   );
+  const repositoryReader = getRepositoryReader(config.repositorySource);
+
+  const getSource = (options: EmbedRepositoryOptions): RepositorySource =>
+    options.source ||
+    createGitHubSource(options.owner, options.repo, {
+      githubToken: config.githubToken,
+      reader: repositoryReader,
+    });
+
+  const chatModelConfig: ChatModelConfig = config.chatModel || {
+    provider: "gemini",
+    model: "gemini-2.5-flash",
+    geminiApiKey: config.geminiApiKey,
+    hfToken: config.hfToken,
+  };
+  const chatModels = new Map<string, ChatModelProvider>();
 
-  const geminiClient = config.geminiApiKey
-    ? new GeminiClient({
-        apiKey: config.geminiApiKey,
-        model: "gemini-2.5-flash",
+  const embeddingConfig: EmbeddingConfig = config.embedding || {
+    provider: "huggingface",
+    hfToken: config.hfToken,
+  };
+  const embedders = new Map<string, EmbeddingProvider>();
+  const queryRewriteOptions = resolveQueryRewriteOptions(config.queryRewrite);
+  const reranker = config.rerank ? createReranker(config.rerank) : null;
+  const chunkExpansionOptions = resolveChunkExpansionOptions(config.chunkExpansion);
+  const agentOptions = resolveAgentOptions(config.agent);
+
+  /**
+   * Get the chat model for a repository's selection, created on first use
+   */
+  function getChatModel(selection?: ChatModelSelection): ChatModelProvider {
+    const resolved = resolveChatModelConfig(chatModelConfig, selection);
+    const key = `${resolved.provider}:${resolved.model || ""}`;
+
+    let provider = chatModels.get(key);
+    if (!provider) {
+      provider = createChatModelProvider(resolved);
+      chatModels.set(key, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Get the embedding model for an index, created on first use
+   * Queries and incremental syncs must use the model the index was built with
+   */
+  function getEmbedder(selection?: EmbeddingSelection): EmbeddingProvider {
+    const resolved = embeddingsModule.resolveEmbeddingConfig(
+      embeddingConfig,
+      selection
+    );
+    const key = `${resolved.provider}:${resolved.model || ""}:${resolved.dimension || ""}`;
+
+    let embedder = embedders.get(key);
+    if (!embedder) {
+      embedder = embeddingsModule.createEmbeddingProvider(resolved);
+      embedders.set(key, embedder);
+    }
+    return embedder;
+  }
+
+  /**
+   * Keep the candidates the cross-encoder rates most relevant, diversified with MMR
+   * Falls back to the search ranking if the re-ranker fails
+   */
+  async function rerankCandidates(
+    candidates: vectorSearchModule.SimilarChunk[],
+    query: string,
+    limit: number
+  ): Promise<vectorSearchModule.SimilarChunk[]> {
+    if (!reranker || !config.rerank || candidates.length === 0) {
+      return candidates.slice(0, limit);
+    }
+
+    try {
+      const { model } = reranker.getModelInfo();
+      const startTime = Date.now();
+      const reranked = await rerankChunks(
+        reranker,
+        query,
+        candidates,
+        limit,
+        config.rerank.mmrLambda
+      );
+      console.log(
+        `[RAG] Re-ranked ${candidates.length} candidates with ${model} in ${Date.now() - startTime}ms`
+      );
+      return reranked;
+    } catch (error) {
+      console.warn("[RAG] Re-ranking failed; using the search ranking:", error);
+      return candidates.slice(0, limit);
+    }
+  }
+
+  /**
+   * Retrieve relevant sections and build the prompt shared by
+   * queryRepository and streamRepositoryAnswer
+   */
+  async function prepareAnswerPrompt(
+    options: QueryRepositoryOptions,
+    chatModel: ChatModelProvider
+  ): Promise<AnswerPrompt> {
+    const {
+      repoId,
+      question,
+      chatHistory = [],
+      maxChunks = TOP_K_CHUNKS,
+      searchMode = "hybrid",
+    } = options;
+
+    // ENHANCED: Retrieve repository metadata
+    const metadata = await getRepositoryMetadata(supabaseClient, repoId);
+
+    // Resolve references to earlier messages so follow-ups search for the right thing
+    const rewrittenQuery = await rewriteQuery(
+      chatModel,
+      question,
+      chatHistory,
+      queryRewriteOptions
+    );
+    const searchQueries = [rewrittenQuery.query, ...rewrittenQuery.subQueries];
+    if (searchQueries.length > 1 || rewrittenQuery.query !== question.trim()) {
+      console.log(`[RAG] Searching ${repoId} for: ${searchQueries.join(" | ")}`);
+    }
+
+    // Re-ranking over-fetches candidates and keeps the best maxChunks of them
+    const fetchCount = config.rerank
+      ? Math.max(config.rerank.candidateCount, maxChunks)
+      : maxChunks;
+
+    // Embed each query with the model the repository was indexed with
+    const embedder = getEmbedder(metadata.embedding);
+    const resultLists = await Promise.all(
+      searchQueries.map(async (searchQuery) => {
+        const queryVector = await embedder.embedQuery(searchQuery);
+
+        // Search for relevant chunks by meaning and, in hybrid mode, by exact terms
+        return searchMode === "hybrid"
+          ? await vectorSearchModule.hybridSearchChunks(
+              supabaseClient,
+              repoId,
+              queryVector,
+              searchQuery,
+              fetchCount,
+              config.hybridSearch
+            )
+          : await vectorSearchModule.searchSimilarChunks(
+              supabaseClient,
+              repoId,
+              queryVector,
+              fetchCount,
+              0.0
+            );
       })
-    : null;
+    );
+
+    // Chunks found by several queries rank first; the context builder drops the rest as needed
+    const candidates = vectorSearchModule.removeDuplicateChunks(
+      resultLists.length === 1
+        ? resultLists[0]
+        : vectorSearchModule.mergeSearchResults(
+            resultLists,
+            config.hybridSearch?.rrfK
+          )
+    );
+    const rankedChunks = reranker
+      ? await rerankCandidates(candidates.slice(0, fetchCount), rewrittenQuery.query, maxChunks)
+      : candidates;
+
+    if (rankedChunks.length === 0) {
+      throw new Error("No relevant sections found for the query");
+    }
+
+    // Complete cut-off functions with the chunks around each hit
+    const similarChunks = await expandChunks(
+      supabaseClient,
+      repoId,
+      rankedChunks,
+      chunkExpansionOptions
+    );
+
+    // Fit the context and history into the model's prompt budget
+    const tokenizer = chatModel.getTokenizer();
+    const { contextWindow } = chatModel.getModelInfo();
+    const instructions = buildEnhancedSystemPrompt(metadata, "");
+    const built = buildAnswerContext({
+      chunks: similarChunks,
+      metadata,
+      history: chatHistory.slice(-10),
+      budget: Math.min(MAX_CONTEXT_TOKENS, contextWindow - MAX_RESPONSE_TOKENS),
+      reservedTokens:
+        tokenizer.count(instructions) +
+        tokenizer.count(question) +
+        MESSAGE_OVERHEAD_TOKENS,
+      tokenizer,
+    });
+    console.log(`[RAG] Context for ${repoId}: ${describeContextReport(built.report)}`);
+
+    // ENHANCED: Build comprehensive system prompt
+    const systemPrompt = buildEnhancedSystemPrompt(metadata, built.context);
+
+    // Build conversation messages
+    const messages: Array<{ role: "user" | "assistant"; content: string }> = [
+      ...built.history,
+      { role: "user", content: question },
+    ];
+
+    return {
+      system: systemPrompt,
+      messages,
+      sectionCount: built.chunks.length,
+      citations: buildCitations(built.chunks, metadata),
+      contextReport: built.report,
+      rewrittenQuery,
+    };
+  }
+
+  /**
+   * Answer with repository tools (agent mode), for queryRepository and
+   * streamRepositoryAnswer
+   * The prompt starts with an overview of the repository; code reaches it
+   * through tool calls, numbered for citations in the order it was shown.
+   */
+  async function* answerWithTools(
+    options: QueryRepositoryOptions,
+    chatModel: ChatModelProvider
+  ): AsyncGenerator<RepositoryAnswerEvent> {
+    const { repoId, question, chatHistory = [] } = options;
+    const metadata = await getRepositoryMetadata(supabaseClient, repoId);
+
+    // The stored history may already end with the question being asked
+    const history = [...chatHistory];
+    const last = history[history.length - 1];
+    if (last?.role === "user" && last.content.trim() === question.trim()) {
+      history.pop();
+    }
+
+    const tokenizer = chatModel.getTokenizer();
+    const { contextWindow } = chatModel.getModelInfo();
+    const agentInstructions = buildAgentInstructions(agentOptions);
+    const overview = buildAnswerContext({
+      chunks: [],
+      metadata,
+      history: history.slice(-10),
+      budget: AGENT_OVERVIEW_TOKENS,
+      reservedTokens:
+        tokenizer.count(buildEnhancedSystemPrompt(metadata, "")) +
+        tokenizer.count(agentInstructions) +
+        tokenizer.count(question) +
+        MESSAGE_OVERHEAD_TOKENS,
+      tokenizer,
+    });
+
+    const toolbox = createAgentToolbox({
+      client: supabaseClient,
+      repoId,
+      embedder: getEmbedder(metadata.embedding),
+      tokenizer,
+      fileTree: metadata.fileTree || "",
+      ref: metadata.commitSha || metadata.ref || "HEAD",
+      source: options.source,
+      hybridSearch: config.hybridSearch,
+    });
+
+    for await (const event of runAgent({
+      chatModel,
+      system: `${buildEnhancedSystemPrompt(metadata, overview.context)}\n\n${agentInstructions}`,
+      question,
+      history: overview.history,
+      toolbox,
+      options: agentOptions,
+      maxPromptTokens: Math.min(MAX_CONTEXT_TOKENS, contextWindow - MAX_RESPONSE_TOKENS),
+      maxResponseTokens: MAX_RESPONSE_TOKENS,
+    })) {
+      if (event.type !== "done") {
+        yield event;
+        continue;
+      }
+
+      console.log(
+        `[RAG] Agent answered for ${repoId} after ${event.toolCalls.length} tool calls, showing ${toolbox.sources.length} sections`
+      );
+      const content = processAssistantResponse(event.content);
+      yield {
+        type: "done",
+        content,
+        citations: selectCitedSources(content, buildCitations(toolbox.sources, metadata)),
+        toolCalls: event.toolCalls,
+      };
+    }
+  }
 
   return {
     supabaseClient,
-    geminiClient,
+    getChatModel,
+    getEmbedder,
 
     /**
      * ENHANCED: Embed repository with metadata extraction
      */
     async embedRepository(options: EmbedRepositoryOptions): Promise<void> {
-      const { repoId, owner, repo, onProgress } = options;
+      const {
+        repoId,
+        owner,
+        repo,
+        ref,
+        includePatterns,
+        excludePatterns,
+        embeddingModel,
+        onProgress,
+        shouldCancel,
+      } = options;
+      const checkCancelled = () => throwIfCancelled(repoId, shouldCancel);
 
       try {
-        onProgress?.(`Starting analysis for ${owner}/${repo}`);
+        const embedder = getEmbedder(embeddingModel);
 
-        // Fetch GitHub repository contents
-        onProgress?.("Fetching repository contents from GitHub...");
-        const repoContent = await githubModule.fetchGitHubRepo(
-          owner,
-          repo,
-          config.githubToken
+        onProgress?.(
+          `Starting analysis for ${owner}/${repo}${ref ? `@${ref}` : ""}`
         );
 
+        // Fetch GitHub repository contents
+        await checkCancelled();
+        onProgress?.("Fetching repository contents...", {
+          phase: "fetching",
+          message: "Fetching repository contents",
+        });
+        const repoContent = await getSource(options).fetchRepository({
+          ref,
+          budget: config.crawlBudget,
+          includePatterns,
+          excludePatterns,
+          onFileFetched: (filesFetched, filesTotal) =>
+            onProgress?.(`Fetched ${filesFetched}/${filesTotal} files`, {
+              phase: "fetching",
+              message: "Fetching files",
+              filesFetched,
+              filesTotal,
+            }),
+        });
+
         onProgress?.(
-          `Fetched ${repoContent.files.length} files from repository`
+          `Fetched ${repoContent.files.length} of ${repoContent.coverage.totalFiles} files from repository`
         );
 
         // ENHANCED: Extract repository metadata
@@ -90,80 +589,104 @@ export function createRAGClient(config: RAGConfig) {
           languages: extractLanguages(repoContent.files),
           framework: detectFramework(repoContent.files),
           totalFiles: repoContent.files.length,
+          commitSha: repoContent.commitSha || undefined,
+          coverage: repoContent.coverage,
         };
 
-        onProgress?.("Analyzing repository structure...");
+        await checkCancelled();
+        onProgress?.("Analyzing repository structure...", {
+          phase: "chunking",
+          message: "Splitting files into sections",
+          filesFetched: repoContent.files.length,
+          filesTotal: repoContent.files.length,
+        });
 
         // ENHANCED: Chunk with file boundary preservation
-        const chunks: Array<{
-          text: string;
-          filePath: string;
-          fileType: string;
-          importance: number;
-        }> = [];
-
-        // Process README first (high importance)
+        const chunks: RepositoryChunk[] = [];
+
+        // Process README first (high importance), under its own path
+        const readmeFile = repoContent.files.find((file) => isRootReadme(file.path));
         if (repoContent.readme) {
           const readmeChunks = await chunkWithMetadata(
             repoContent.readme,
-            "README.md",
+            readmeFile?.path || "README.md",
             "documentation",
             10
           );
           chunks.push(...readmeChunks);
         }
 
-        // Process other files
-        for (const file of repoContent.files) {
-          const importance = calculateImportance(file.path);
-          const fileType = detectFileType(file.path);
-          const fileChunks = await chunkWithMetadata(
-            file.content,
-            file.path,
-            fileType,
-            importance
-          );
-          chunks.push(...fileChunks);
-        }
+        // Process other files; the root README is already chunked above
+        chunks.push(
+          ...(await chunkFiles(
+            repoContent.readme
+              ? repoContent.files.filter((file) => file !== readmeFile)
+              : repoContent.files
+          ))
+        );
 
         onProgress?.(`Created ${chunks.length} sections with metadata`);
 
         // Generate embeddings
+        await checkCancelled();
         onProgress?.("Analyzing repository...");
-        const chunkTexts = chunks.map((chunk) => chunk.text);
-        const vectors = await embeddingsModule.embedDocuments(
-          chunkTexts,
-          config.hfToken
+        const vectors = await embedInBatches(
+          embedder,
+          chunks.map((chunk) => chunk.text),
+          onProgress,
+          checkCancelled
         );
+        metadata.embedding = toEmbeddingSelection(embedder.getModelInfo());
 
-        // Store embeddings with metadata
-        onProgress?.("Storing analysis in database...");
-        await vectorSearchModule.deleteRepositoryEmbeddings(
+        await checkCancelled();
+
+        // Store embeddings with metadata as a new index generation; queries
+        // keep reading the current one until it is switched over below
+        onProgress?.("Storing analysis in database...", {
+          phase: "storing",
+          message: "Saving the index",
+          chunksEmbedded: vectors.length,
+          chunksTotal: chunks.length,
+        });
+        const indexVersion = await vectorSearchModule.getNextIndexVersion(
           supabaseClient,
           repoId
         );
 
-        // ENHANCED: Store with file metadata
-        await vectorSearchModule.storeEmbeddingsWithMetadata(
-          supabaseClient,
-          repoId,
-          chunks.map((chunk, i) => ({
-            text: chunk.text,
-            embedding: vectors[i],
-            chunkIndex: i,
-            filePath: chunk.filePath,
-            metadata: {
-              fileType: chunk.fileType,
-              importance: chunk.importance,
-            },
-          }))
-        );
+        try {
+          // ENHANCED: Store with file metadata
+          await vectorSearchModule.storeEmbeddingsWithMetadata(
+            supabaseClient,
+            repoId,
+            toEmbeddingRecords(chunks, vectors, 0),
+            indexVersion
+          );
 
-        // ENHANCED: Store repository metadata
-        await storeRepositoryMetadata(supabaseClient, repoId, metadata);
+          // Last chance to stop: the new generation goes live from here on
+          await checkCancelled();
+
+          // ENHANCED: Store repository metadata and activate the new generation
+          onProgress?.("Saving repository metadata...", {
+            phase: "finalizing",
+            message: "Saving repository metadata",
+          });
+          await storeRepositoryMetadata(supabaseClient, repoId, {
+            ...metadata,
+            indexVersion,
+          });
+        } catch (error) {
+          await discardIndexGeneration(supabaseClient, repoId, indexVersion);
+          throw error;
+        }
+
+        await collectOldGenerations(supabaseClient, repoId, indexVersion);
 
         onProgress?.(`Successfully analyzed repository ${repoId}`);
       } catch (error) {
+        if (error instanceof IndexingCancelledError) {
+          onProgress?.("Analysis cancelled");
+          throw error;
+        }
         const errorMessage =
           error instanceof Error ? error.message : "Unknown error";
         onProgress?.(`Error analyzing repository: ${errorMessage}`);
@@ -172,76 +695,258 @@ export function createRAGClient(config: RAGConfig) {
     },
 
     /**
-     * ENHANCED: Query with rich context and better prompting
+     * Bring an indexed repository up to date with its upstream ref
+     * Only files changed since the indexed commit are re-chunked and re-embedded;
+     * falls back to a full embed when there is no usable base commit
      */
-    async queryRepository(options: QueryRepositoryOptions): Promise<string> {
+    async syncRepository(
+      options: SyncRepositoryOptions
+    ): Promise<SyncRepositoryResult> {
       const {
         repoId,
-        question,
-        chatHistory = [],
-        maxChunks = TOP_K_CHUNKS,
+        owner,
+        repo,
+        ref,
+        indexedCommitSha,
+        includePatterns,
+        excludePatterns,
+        embeddingModel,
+        onProgress,
+        shouldCancel,
       } = options;
+      const checkCancelled = () => throwIfCancelled(repoId, shouldCancel);
 
       try {
-        // Generate query embedding
-        const questionVector = await embeddingsModule.embedQuery(
-          question,
-          config.hfToken
+        const source = getSource(options);
+        onProgress?.(`Checking ${owner}/${repo} for upstream changes`);
+        const headSha = await source.resolveCommitSha(ref || "HEAD");
+
+        if (!headSha) {
+          throw new Error(
+            `Could not resolve the latest commit for ${owner}/${repo}${ref ? `@${ref}` : ""}`
+          );
+        }
+
+        if (headSha === indexedCommitSha) {
+          onProgress?.("Repository is already up to date");
+          return {
+            mode: "unchanged",
+            commitSha: headSha,
+            added: 0,
+            modified: 0,
+            removed: 0,
+          };
+        }
+
+        const changes = indexedCommitSha
+          ? await source.compareCommits(indexedCommitSha, headSha)
+          : null;
+
+        // A changed ignore file can affect paths that were not modified
+        const ignoreFileChanged = changes
+          ? [...changes.added, ...changes.modified, ...changes.removed].includes(
+              IGNORE_FILE_NAME
+            )
+          : false;
+
+        if (!changes || changes.truncated || ignoreFileChanged) {
+          onProgress?.("Changes cannot be applied incrementally, re-analyzing");
+          await this.embedRepository(options);
+          return {
+            mode: "full",
+            commitSha: headSha,
+            added: 0,
+            modified: 0,
+            removed: 0,
+          };
+        }
+
+        onProgress?.(
+          `Found ${changes.added.length} added, ${changes.modified.length} modified and ${changes.removed.length} removed files`
         );
 
-        // ENHANCED: Retrieve repository metadata
-        const metadata = await getRepositoryMetadata(supabaseClient, repoId);
+        // Fetch and chunk the files that exist at the new commit
+        await checkCancelled();
+        const rules = createPathRules({
+          ignoreFile: await source.fetchIgnoreFile(headSha),
+          include: includePatterns,
+          exclude: excludePatterns,
+        });
+        const budget = resolveCrawlBudget(config.crawlBudget);
+        const { files, skipped } = await source.fetchFiles(
+          [...changes.added, ...changes.modified],
+          headSha,
+          rules,
+          (filesFetched, filesTotal) =>
+            onProgress?.(`Fetched ${filesFetched}/${filesTotal} changed files`, {
+              phase: "fetching",
+              message: "Fetching changed files",
+              filesFetched,
+              filesTotal,
+            }),
+          budget
+        );
 
-        // Search for similar chunks
-        const similarChunks = await vectorSearchModule.searchSimilarChunks(
-          supabaseClient,
-          repoId,
-          questionVector,
-          maxChunks,
-          0.0
+        await checkCancelled();
+        onProgress?.("Analyzing changed files...", {
+          phase: "chunking",
+          message: "Splitting changed files into sections",
+          filesFetched: files.length,
+          filesTotal: files.length,
+        });
+        const chunks = await chunkFiles(files);
+
+        onProgress?.(`Updating ${chunks.length} sections...`);
+        const embedder = getEmbedder(embeddingModel);
+        const vectors = await embedInBatches(
+          embedder,
+          chunks.map((chunk) => chunk.text),
+          onProgress,
+          checkCancelled
         );
 
-        if (similarChunks.length === 0) {
-          throw new Error("No relevant sections found for the query");
-        }
+        await checkCancelled();
+        onProgress?.("Storing updated sections...", {
+          phase: "storing",
+          message: "Saving the index",
+          chunksEmbedded: vectors.length,
+          chunksTotal: chunks.length,
+        });
+
+        // Build a new generation: the current one minus every touched path,
+        // plus the new chunks. Queries keep reading the current one meanwhile
+        const activeVersion = await vectorSearchModule.getActiveIndexVersion(
+          supabaseClient,
+          repoId
+        );
+        const indexVersion = await vectorSearchModule.getNextIndexVersion(
+          supabaseClient,
+          repoId
+        );
 
-        // ENHANCED: Build rich context
-        const context = buildRichContext(similarChunks, metadata);
+        try {
+          await vectorSearchModule.copyIndexGeneration(
+            supabaseClient,
+            repoId,
+            activeVersion,
+            indexVersion,
+            [...changes.added, ...changes.modified, ...changes.removed]
+          );
 
-        // ENHANCED: Build comprehensive system prompt
-        const systemPrompt = buildEnhancedSystemPrompt(metadata, context);
+          const nextChunkIndex =
+            (await vectorSearchModule.getMaxChunkIndex(
+              supabaseClient,
+              repoId,
+              indexVersion
+            )) + 1;
+          await vectorSearchModule.storeEmbeddingsWithMetadata(
+            supabaseClient,
+            repoId,
+            toEmbeddingRecords(chunks, vectors, nextChunkIndex),
+            indexVersion
+          );
 
-        // Build conversation messages
-        const messages: Array<{ role: "user" | "model"; content: string }> = [];
+          // Last chance to stop: the new generation goes live from here on
+          await checkCancelled();
 
-        for (const msg of chatHistory.slice(-10)) {
-          messages.push({
-            role: msg.role === "assistant" ? "model" : "user",
-            content: msg.content,
+          // Rebuild structure metadata from what is now indexed
+          onProgress?.("Saving repository metadata...", {
+            phase: "finalizing",
+            message: "Saving repository metadata",
+          });
+          const indexedFiles = await vectorSearchModule.getIndexedFiles(
+            supabaseClient,
+            repoId,
+            indexVersion
+          );
+          const indexedPaths = indexedFiles.map((file) => file.path);
+          const readme = files.find((file) => isRootReadme(file.path));
+          const { coverage } = await getRepositoryMetadata(supabaseClient, repoId);
+
+          await storeRepositoryMetadata(supabaseClient, repoId, {
+            // A removed (or renamed) README clears the stored one
+            readme: readme
+              ? readme.content
+              : changes.removed.some(isRootReadme)
+                ? null
+                : undefined,
+            fileTree: buildFileTree(indexedPaths),
+            languages: extractLanguages(indexedFiles),
+            framework: detectFramework(indexedFiles),
+            totalFiles: indexedPaths.length,
+            commitSha: headSha,
+            coverage: updateCoverage(coverage, changes, indexedFiles, skipped, budget, rules),
+            embedding: toEmbeddingSelection(embedder.getModelInfo()),
+            indexVersion,
           });
+        } catch (error) {
+          await discardIndexGeneration(supabaseClient, repoId, indexVersion);
+          throw error;
         }
 
-        messages.push({
-          role: "user",
-          content: question,
-        });
+        await collectOldGenerations(supabaseClient, repoId, indexVersion);
 
-        // Query Gemini
-        if (!geminiClient) {
-          throw new Error(
-            "Gemini API key not configured. Please set GOOGLE_AI_API_KEY environment variable."
-          );
+        onProgress?.(`Successfully synced repository ${repoId}`);
+        return {
+          mode: "incremental",
+          commitSha: headSha,
+          added: changes.added.length,
+          modified: changes.modified.length,
+          removed: changes.removed.length,
+        };
+      } catch (error) {
+        if (error instanceof IndexingCancelledError) {
+          onProgress?.("Sync cancelled");
+          throw error;
         }
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        onProgress?.(`Error syncing repository: ${errorMessage}`);
+        throw error;
+      }
+    },
 
-        const response = await geminiClient.generateContent({
-          system: systemPrompt,
-          messages,
+    /**
+     * ENHANCED: Query with rich context and better prompting
+     */
+    async queryRepository(
+      options: QueryRepositoryOptions
+    ): Promise<RepositoryAnswer> {
+      const { repoId } = options;
+
+      try {
+        const chatModel = getChatModel(options.chatModel);
+
+        if (options.mode === "agent") {
+          for await (const event of answerWithTools(options, chatModel)) {
+            if (event.type === "done") {
+              return {
+                answer: event.content,
+                citations: event.citations,
+                toolCalls: event.toolCalls,
+              };
+            }
+          }
+          throw new Error("The answer ended without a result");
+        }
+
+        const prompt = await prepareAnswerPrompt(options, chatModel);
+
+        const response = await chatModel.generate({
+          system: prompt.system,
+          messages: prompt.messages,
           maxTokens: MAX_RESPONSE_TOKENS,
           temperature: 0.7,
         });
 
         // Clean and process the markdown response
-        return processAssistantResponse(response);
+        const answer = processAssistantResponse(response);
+        return {
+          answer,
+          citations: selectCitedSources(answer, prompt.citations),
+          contextReport: prompt.contextReport,
+          rewrittenQuery: prompt.rewrittenQuery,
+        };
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : "Unknown error";
@@ -250,6 +955,59 @@ export function createRAGClient(config: RAGConfig) {
       }
     },
 
+    /**
+     * Stream an answer as retrieval status updates and incremental tokens
+     * The final "done" event carries the cleaned markdown and citations for persistence
+     */
+    async *streamRepositoryAnswer(
+      options: QueryRepositoryOptions
+    ): AsyncGenerator<RepositoryAnswerEvent> {
+      const { repoId } = options;
+
+      try {
+        const chatModel = getChatModel(options.chatModel);
+
+        if (options.mode === "agent") {
+          yield { type: "status", message: "Exploring the repository..." };
+          yield* answerWithTools(options, chatModel);
+          return;
+        }
+
+        yield { type: "status", message: "Searching the repository..." };
+        const prompt = await prepareAnswerPrompt(options, chatModel);
+
+        yield {
+          type: "status",
+          message: `Found ${prompt.sectionCount} relevant sections. Writing answer...`,
+        };
+
+        let response = "";
+        for await (const delta of chatModel.stream({
+          system: prompt.system,
+          messages: prompt.messages,
+          maxTokens: MAX_RESPONSE_TOKENS,
+          temperature: 0.7,
+        })) {
+          response += delta;
+          yield { type: "token", delta };
+        }
+
+        const content = processAssistantResponse(response);
+        yield {
+          type: "done",
+          content,
+          citations: selectCitedSources(content, prompt.citations),
+          contextReport: prompt.contextReport,
+          rewrittenQuery: prompt.rewrittenQuery,
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error(`Error streaming answer for repository ${repoId}:`, error);
+        throw new Error(`Failed to query repository: ${errorMessage}`);
+      }
+    },
+
     async getEmbeddingCount(repoId: string): Promise<number> {
       return await vectorSearchModule.getEmbeddingCount(supabaseClient, repoId);
     },
@@ -356,20 +1114,6 @@ function detectFramework(files: any[]): string | undefined {
   return undefined;
 }
 
-/**
- * Calculate file importance score
- */
-function calculateImportance(filePath: string): number {
-  if (filePath.includes("README")) return 10;
-  if (filePath.endsWith(".md")) return 8;
-  if (filePath.includes("package.json")) return 9;
-  if (filePath.includes("config")) return 7;
-  if (filePath.includes("/api/")) return 8;
-  if (filePath.includes("/src/")) return 6;
-  if (filePath.includes("test")) return 3;
-  return 5;
-}
-
 /**
  * Detect file type
  */
@@ -384,74 +1128,139 @@ function detectFileType(filePath: string): string {
 
 /**
  * Chunk text with metadata
+ * Code and Markdown are split along declarations and headings (see chunker.ts);
+ * each chunk records its line range, character offsets and enclosing symbol
  */
 async function chunkWithMetadata(
   content: string,
   filePath: string,
   fileType: string,
   importance: number
-): Promise<
-  Array<{
-    text: string;
-    filePath: string;
-    fileType: string;
-    importance: number;
-  }>
-> {
-  const splitter = new RecursiveCharacterTextSplitter({
+): Promise<RepositoryChunk[]> {
+  const sourceChunks = await chunkSource(content, filePath, {
     chunkSize: CHUNK_SIZE,
     chunkOverlap: CHUNK_OVERLAP,
   });
 
-  const docs = await splitter.createDocuments([content]);
+  return sourceChunks.map((chunk) => {
+    const symbol = chunk.symbol ? ` (${chunk.symbol.kind} ${chunk.symbol.name})` : "";
 
-  return docs.map((doc) => ({
-    text: `File: ${filePath}\n\n${doc.pageContent}`,
-    filePath,
-    fileType,
-    importance,
-  }));
+    return {
+      text: `File: ${filePath}:L${chunk.startLine}-L${chunk.endLine}${symbol}\n\n${chunk.text}`,
+      filePath,
+      fileType,
+      importance,
+      location: {
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+      },
+      symbol: chunk.symbol,
+      symbols: chunk.symbols,
+    };
+  });
 }
 
 /**
- * Build rich context from chunks
+ * Chunk repository files with per-file type and importance metadata
  */
-function buildRichContext(chunks: any[], metadata: RepositoryMetadata): string {
-  let context = "=== REPOSITORY CONTEXT ===\n\n";
-
-  // Add file tree
-  if (metadata.fileTree) {
-    context += "## File Structure:\n```\n";
-    context += metadata.fileTree;
-    context += "```\n\n";
+async function chunkFiles(
+  files: githubModule.GitHubFile[]
+): Promise<RepositoryChunk[]> {
+  const chunks: RepositoryChunk[] = [];
+
+  for (const file of files) {
+    const importance = calculateImportance(file.path);
+    const fileType = detectFileType(file.path);
+    const fileChunks = await chunkWithMetadata(
+      file.content,
+      file.path,
+      fileType,
+      importance
+    );
+    chunks.push(...fileChunks);
   }
 
-  // Add languages and framework
-  if (metadata.languages.length > 0) {
-    context += `## Languages: ${metadata.languages.join(", ")}\n`;
-  }
-  if (metadata.framework) {
-    context += `## Framework: ${metadata.framework}\n`;
+  return chunks;
+}
+
+/**
+ * Throw an IndexingCancelledError if cancellation has been requested
+ */
+async function throwIfCancelled(
+  repoId: string,
+  shouldCancel?: () => Promise<boolean>
+): Promise<void> {
+  if (shouldCancel && (await shouldCancel())) {
+    throw new IndexingCancelledError(repoId);
   }
-  context += `## Total Files: ${metadata.totalFiles}\n\n`;
+}
+
+/**
+ * Embed chunk texts in batches, reporting progress (and checking for
+ * cancellation) after each batch
+ */
+async function embedInBatches(
+  embedder: EmbeddingProvider,
+  texts: string[],
+  onProgress?: EmbedRepositoryOptions["onProgress"],
+  checkCancelled?: () => Promise<void>
+): Promise<number[][]> {
+  const vectors: number[][] = [];
+  const report = () =>
+    onProgress?.(`Embedded ${vectors.length}/${texts.length} sections`, {
+      phase: "embedding",
+      message: "Embedding sections",
+      chunksEmbedded: vectors.length,
+      chunksTotal: texts.length,
+    });
 
-  // Add README summary if available
-  if (metadata.readme) {
-    context += "## README Summary:\n";
-    context += metadata.readme.substring(0, 500) + "...\n\n";
+  report();
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    if (i > 0) {
+      await checkCancelled?.();
+    }
+    vectors.push(
+      ...(await embedder.embedDocuments(texts.slice(i, i + EMBED_BATCH_SIZE)))
+    );
+    report();
   }
 
-  // Add relevant sections
-  context += "## Relevant Code Sections:\n\n";
-  chunks.forEach((chunk, i) => {
-    context += `### [${i + 1}] ${chunk.file_path || "Unknown file"}\n`;
-    context += `Similarity: ${(chunk.similarity * 100).toFixed(1)}%\n`;
-    context += "```\n";
-    context += chunk.chunk_text || chunk.text;
-    context += "\n```\n\n";
-  });
+  return vectors;
+}
 
-  return context;
+/**
+ * Pair chunks with their vectors, numbering chunk indexes from startIndex
+ */
+function toEmbeddingRecords(
+  chunks: RepositoryChunk[],
+  vectors: number[][],
+  startIndex: number
+): vectorSearchModule.EmbeddingWithMetadata[] {
+  return chunks.map((chunk, i) => ({
+    text: chunk.text,
+    embedding: vectors[i],
+    chunkIndex: startIndex + i,
+    filePath: chunk.filePath,
+    metadata: {
+      fileType: chunk.fileType,
+      importance: chunk.importance,
+      ...chunk.location,
+      ...(chunk.symbol && {
+        symbolName: chunk.symbol.name,
+        symbolKind: chunk.symbol.kind,
+      }),
+      ...(chunk.symbols && { symbols: chunk.symbols }),
+    },
+  }));
+}
+
+/**
+ * Check whether a path is a top-level README
+ */
+function isRootReadme(filePath: string): boolean {
+  return /^readme\.(md|txt)$/i.test(filePath);
 }
 
 /**
@@ -479,8 +1288,8 @@ ${context}
 1. **Be Detailed**: Provide comprehensive explanations with examples
 2. **Use Code**: Include code snippets when relevant
 3. **Visualize**: Use tree structures, diagrams, or ASCII art when helpful
-4. **Reference Files**: Always mention specific files when discussing code
-5. **Be Specific**: Give exact line numbers or function names when possible
+4. **Reference Files**: Always mention specific files when discussing code, and cite the numbered section you relied on as [n] (e.g. [2]) right after the statement
+5. **Be Specific**: Give exact line numbers or function names when possible, using the \`path:L10-L42\` ranges in the section headers
 6. **Explain Thoroughly**: Don't assume user knowledge - explain concepts
 7. **Suggest Improvements**: Point out optimization opportunities
 8. **Consider Context**: Use the full repository context to provide holistic answers
@@ -526,22 +1335,82 @@ Now, answer the user's question using all available context and following these
  * Store repository metadata in database
  */
 async function storeRepositoryMetadata(
-  client: SupabaseClient,
+  client: SupabaseClient<Database>,
   repoId: string,
-  metadata: RepositoryMetadata
+  // readme: null clears the stored README, undefined keeps it
+  metadata: Omit<RepositoryMetadata, "readme"> & { readme?: string | null }
 ): Promise<void> {
+  const updateData: TablesUpdate<"repositories"> = {
+    file_tree: metadata.fileTree,
+    languages: metadata.languages,
+    framework: metadata.framework,
+  };
+
+  if (metadata.readme !== undefined) {
+    updateData.readme = metadata.readme;
+  }
+
+  if (metadata.commitSha !== undefined) {
+    updateData.indexed_commit_sha = metadata.commitSha;
+  }
+
+  if (metadata.coverage !== undefined) {
+    updateData.coverage = toJson(metadata.coverage);
+  }
+
+  if (metadata.embedding !== undefined) {
+    updateData.embedding_provider = metadata.embedding.provider;
+    updateData.embedding_model = metadata.embedding.model;
+    updateData.embedding_dimension = metadata.embedding.dimension;
+  }
+
+  // Switched in the same update as the model, so queries always embed with
+  // the model of the generation they search
+  if (metadata.indexVersion !== undefined) {
+    updateData.active_index_version = metadata.indexVersion;
+  }
+
   const { error } = await client
     .from("repositories")
-    .update({
-      readme: metadata.readme,
-      file_tree: metadata.fileTree,
-      languages: metadata.languages,
-      framework: metadata.framework,
-    } as any)
+    .update(updateData)
     .eq("id", repoId);
 
   if (error) {
     console.error("Error storing repository metadata:", error);
+    if (metadata.indexVersion !== undefined) {
+      throw new Error(`Failed to activate the new index: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Remove a generation that never went live; failures are only logged since
+ * inactive rows are not searched and the next successful run removes them
+ */
+async function discardIndexGeneration(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  indexVersion: number
+): Promise<void> {
+  try {
+    await vectorSearchModule.deleteIndexGeneration(client, repoId, indexVersion);
+  } catch (error) {
+    console.error(`Error discarding index v${indexVersion} of ${repoId}:`, error);
+  }
+}
+
+/**
+ * Remove the generations replaced by the active one; failures are only logged
+ */
+async function collectOldGenerations(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  activeVersion: number
+): Promise<void> {
+  try {
+    await vectorSearchModule.deleteInactiveGenerations(client, repoId, activeVersion);
+  } catch (error) {
+    console.error(`Error removing old index generations of ${repoId}:`, error);
   }
 }
 
@@ -549,12 +1418,14 @@ async function storeRepositoryMetadata(
  * Get repository metadata from database
  */
 async function getRepositoryMetadata(
-  client: SupabaseClient,
+  client: SupabaseClient<Database>,
   repoId: string
 ): Promise<RepositoryMetadata> {
   const { data, error } = await client
     .from("repositories")
-    .select("readme, file_tree, languages, framework, chunk_count")
+    .select(
+      "source_type, owner, name, ref, indexed_commit_sha, readme, file_tree, languages, framework, chunk_count, coverage, embedding_provider, embedding_model, embedding_dimension"
+    )
     .eq("id", repoId)
     .single();
 
@@ -567,35 +1438,31 @@ async function getRepositoryMetadata(
   }
 
   return {
-    readme: data.readme,
-    fileTree: data.file_tree,
+    sourceType: data.source_type,
+    owner: data.owner,
+    repo: data.name,
+    ref: data.ref || undefined,
+    commitSha: data.indexed_commit_sha || undefined,
+    readme: data.readme || undefined,
+    fileTree: data.file_tree || "",
     languages: data.languages || [],
-    framework: data.framework,
+    framework: data.framework || undefined,
     totalFiles: data.chunk_count || 0,
+    coverage: (data.coverage as unknown as CrawlCoverage | null) || undefined,
+    embedding: data.embedding_provider
+      ? {
+          provider: data.embedding_provider as EmbeddingProviderName,
+          model: data.embedding_model || undefined,
+          dimension: data.embedding_dimension || undefined,
+        }
+      : undefined,
   };
 }
 
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
-export function truncateContext(
-  chunks: string[],
-  maxTokens: number = MAX_CONTEXT_TOKENS
-): string[] {
-  const result: string[] = [];
-  let totalTokens = 0;
-
-  for (const chunk of chunks) {
-    const chunkTokens = estimateTokens(chunk);
-
-    if (totalTokens + chunkTokens > maxTokens) {
-      break;
-    }
-
-    result.push(chunk);
-    totalTokens += chunkTokens;
-  }
-
-  return result;
+function toEmbeddingSelection(info: EmbeddingModelInfo): EmbeddingSelection {
+  return {
+    provider: info.provider,
+    model: info.model,
+    dimension: info.dimension,
+  };
 }
@@ -0,0 +1,47 @@
+/**
+ * Where repository contents are read from
+ * REPOSITORY_SOURCE=github (the default) uses the GitHub API; REPOSITORY_SOURCE=local
+ * reads local directories and git clones (local-repository.ts) and is the
+ * default in local mode.
+ */
+
+import { isLocalMode } from "../local-mode";
+import * as githubModule from "./github";
+import * as localRepositoryModule from "./local-repository";
+
+export const REPOSITORY_SOURCES = ["github", "local"] as const;
+
+export type RepositorySourceName = (typeof REPOSITORY_SOURCES)[number];
+
+/** The github.ts functions the indexing pipeline and API routes use */
+export type RepositoryReader = Pick<
+  typeof githubModule,
+  | "fetchGitHubRepo"
+  | "resolveCommitSha"
+  | "compareCommits"
+  | "fetchIgnoreFile"
+  | "fetchGitHubFiles"
+  | "checkRepositoryAccess"
+>;
+
+/**
+ * Read REPOSITORY_SOURCE from the environment
+ */
+export function getRepositorySourceFromEnv(): RepositorySourceName {
+  const value = process.env.REPOSITORY_SOURCE?.trim().toLowerCase();
+  if (!value) {
+    return isLocalMode() ? "local" : "github";
+  }
+  if (!REPOSITORY_SOURCES.includes(value as RepositorySourceName)) {
+    throw new Error(
+      `Unknown REPOSITORY_SOURCE "${value}"; expected one of: ${REPOSITORY_SOURCES.join(", ")}`
+    );
+  }
+  return value as RepositorySourceName;
+}
+
+export function getRepositoryReader(
+  source: RepositorySourceName = getRepositorySourceFromEnv()
+): RepositoryReader {
+  return source === "local" ? localRepositoryModule : githubModule;
+}
@@ -0,0 +1,558 @@
+/**
+ * Repository sources
+ * A RepositorySource reads one repository's contents, whatever it is stored in:
+ * - github:  the GitHub API (or the local reader, see repository-reader.ts)
+ * - git:     a bare clone of any http(s) git URL, cached under REPOSITORY_CACHE_DIR
+ * - archive: an uploaded .zip or .tar.gz, extracted under REPOSITORY_CACHE_DIR
+ * - local:   a directory on the server, allowed by LOCAL_SOURCE_ROOTS
+ * Every source returns the same RepositoryContent, so indexing does not care
+ * where the files came from.
+ */
+
+import { createHash } from "crypto";
+import { lookup } from "dns/promises";
+import { realpath, rm } from "fs/promises";
+import { BlockList, isIPv4 } from "net";
+import os from "os";
+import path from "path";
+import { isLocalMode } from "../local-mode";
+import { extractArchive, getArchiveFormat, getArchiveRoot } from "./archive";
+import type { CrawlBudget } from "./crawler";
+import {
+  FetchedFiles,
+  FetchGitHubRepoOptions,
+  GitHubApiError,
+  RepositoryChanges,
+  RepositoryContent,
+} from "./github";
+import type { PathRules } from "./ignore-rules";
+import {
+  checkRemoteRepository,
+  cloneRepository,
+  compareLocalCommits,
+  getRepositorySize,
+  LocalRepository,
+  openLocalRepository,
+  readLocalFiles,
+  readLocalIgnoreFile,
+  readLocalRepository,
+  refreshClone,
+  RemoteOptions,
+  resolveLocalCommit,
+} from "./local-repository";
+import { getRepositoryReader, RepositoryReader } from "./repository-reader";
+
+const DEFAULT_MAX_CLONE_BYTES = 500 * 1024 * 1024;
+const GIT_REMOTE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Loopback, private, link-local (cloud metadata), shared and reserved ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export const REPOSITORY_SOURCE_TYPES = ["github", "git", "archive", "local"] as const;
+
+export type RepositorySourceType = (typeof REPOSITORY_SOURCE_TYPES)[number];
+
+/**
+ * Reads the contents of one repository
+ */
+export interface RepositorySource {
+  type: RepositorySourceType;
+  /** Owner and name the contents are reported under */
+  owner: string;
+  repo: string;
+  fetchRepository(options?: FetchGitHubRepoOptions): Promise<RepositoryContent>;
+  /** Commit SHA (or content checksum) of a ref, or null if it cannot be resolved */
+  resolveCommitSha(ref: string): Promise<string | null>;
+  compareCommits(baseSha: string, headSha: string): Promise<RepositoryChanges>;
+  fetchIgnoreFile(ref: string): Promise<string | null>;
+  /** Read specific files; excluded, oversized and unreadable ones are reported as skipped */
+  fetchFiles(
+    paths: string[],
+    ref: string,
+    rules?: PathRules,
+    onFileFetched?: (fetched: number, total: number) => void,
+    budget?: Partial<CrawlBudget>
+  ): Promise<FetchedFiles>;
+  /**
+   * Check that the repository can be read
+   * @throws GitHubApiError or RepositorySourceError with an HTTP status
+   */
+  checkAccess(): Promise<void>;
+}
+
+/** The repository fields a source is created from */
+export interface RepositorySourceDescriptor {
+  sourceType?: RepositorySourceType;
+  owner: string;
+  name: string;
+  /** GitHub URL, clone URL, server path or uploaded file name */
+  url: string;
+}
+
+/** An uploaded archive and its checksum */
+export interface RepositoryArchive {
+  fileName: string;
+  sha256: string;
+  content: Buffer;
+}
+
+export interface RepositorySourceOptions {
+  githubToken?: string;
+  /** Reader for GitHub repositories (defaults to REPOSITORY_SOURCE) */
+  reader?: RepositoryReader;
+  /** Loads the upload of an archive repository */
+  loadArchive?: () => Promise<RepositoryArchive | null>;
+}
+
+/**
+ * A repository location that cannot be used, with the HTTP status to report
+ */
+export class RepositorySourceError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "RepositorySourceError";
+    this.status = status;
+  }
+}
+
+/**
+ * HTTP status to report for an access check failure
+ * @returns 400, 401, 403 or 404 for a repository that cannot be read; null for
+ *          transient errors (rate limits, network) the background job reports
+ */
+export function getAccessErrorStatus(error: unknown): number | null {
+  if (error instanceof GitHubApiError || error instanceof RepositorySourceError) {
+    return [400, 401, 403, 404].includes(error.status) ? error.status : null;
+  }
+  return null;
+}
+
+/**
+ * Directory where clones and extracted archives are kept
+ * (REPOSITORY_CACHE_DIR, default <tmp>/repochat)
+ */
+function getCacheDir(...segments: string[]): string {
+  const root = path.resolve(
+    process.env.REPOSITORY_CACHE_DIR?.trim() || path.join(os.tmpdir(), "repochat")
+  );
+  return path.join(root, ...segments);
+}
+
+function hashKey(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 32);
+}
+
+/**
+ * Validate a git clone URL and derive an owner and name from it
+ * Only http(s) URLs are accepted so users cannot make the server read its own
+ * files (file://) or run transports that need credentials on the server.
+ * @returns owner/name (e.g. gitlab.com/group/project -> group/project), or null if invalid
+ */
+export function parseGitUrl(url: string): { owner: string; name: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (!["http:", "https:"].includes(parsed.protocol) || parsed.username || parsed.password) {
+    return null;
+  }
+
+  const segments = parsed.pathname
+    .replace(/\.git\/?$/, "")
+    .split("/")
+    .filter(Boolean);
+  if (segments.length === 0) {
+    return null;
+  }
+  const name = segments[segments.length - 1];
+  const owner = segments.length > 1 ? segments[segments.length - 2] : parsed.hostname;
+  return { owner, name };
+}
+
+/**
+ * Check that a branch, tag or commit SHA is safe to pass to git and the GitHub API
+ * Follows git check-ref-format: no leading "-" (it would read as an option),
+ * no "..", no trailing ".", no empty components, and no component starting
+ * with "." or ending with ".lock".
+ */
+export function isValidRef(ref: string): boolean {
+  return (
+    /^[\w./-]+$/.test(ref) &&
+    !ref.startsWith("-") &&
+    !ref.includes("..") &&
+    !ref.endsWith(".") &&
+    ref
+      .split("/")
+      .every((part) => part !== "" && !part.startsWith(".") && !part.endsWith(".lock"))
+  );
+}
+
+/**
+ * Check that an address is on the public internet
+ * IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped || isIPv4(address)) {
+    return !NON_PUBLIC_ADDRESSES.check(mapped || address, "ipv4");
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, "ipv6");
+}
+
+/**
+ * Hosts git URLs may point at (GIT_ALLOWED_HOSTS, comma-separated)
+ * @returns The allowed hosts, or null if any host with public addresses is allowed
+ */
+function getAllowedGitHosts(): string[] | null {
+  const value = process.env.GIT_ALLOWED_HOSTS?.trim();
+  if (!value) {
+    return null;
+  }
+  return value
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Largest git clone kept in bytes (GIT_CLONE_MAX_BYTES, default 500 MB)
+ */
+function getMaxCloneBytes(): number {
+  const value = Number(process.env.GIT_CLONE_MAX_BYTES);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_CLONE_BYTES;
+}
+
+/**
+ * Resolve a git URL's host and decide whether the server may connect to it
+ * Hosts listed in GIT_ALLOWED_HOSTS are allowed; without the list, every
+ * address of the host must be public, so a URL cannot reach the server's
+ * own network (localhost, private ranges, cloud metadata at 169.254.169.254).
+ * git is pinned to the checked addresses so a second lookup cannot differ.
+ * @throws RepositorySourceError (403) if the host is not allowed
+ */
+export async function resolveGitRemote(url: string): Promise<RemoteOptions> {
+  const parsed = new URL(url);
+  const host = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const port = parsed.port || (parsed.protocol === "http:" ? "80" : "443");
+
+  const allowedHosts = getAllowedGitHosts();
+  if (allowedHosts && !allowedHosts.includes(host)) {
+    throw new RepositorySourceError("Repository host is not allowed", 403);
+  }
+
+  let addresses: string[];
+  try {
+    addresses = (await lookup(host, { all: true, verbatim: true })).map(
+      (entry) => entry.address
+    );
+  } catch {
+    throw new RepositorySourceError("Cannot read repository: its host was not found", 404);
+  }
+  if (!allowedHosts && !addresses.every(isPublicAddress)) {
+    throw new RepositorySourceError("Repository host is not allowed", 403);
+  }
+
+  const pinned = addresses
+    .map((address) => (isIPv4(address) ? address : `[${address}]`))
+    .join(",");
+  return {
+    resolve: `${parsed.hostname}:${port}:${pinned}`,
+    shallow: true,
+    timeoutMs: GIT_REMOTE_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Directories local path repositories may be read from
+ * LOCAL_SOURCE_ROOTS lists them (separated like PATH); without it any path is
+ * allowed in local mode and none otherwise.
+ * @returns The allowed roots, or null if every path is allowed
+ */
+function getLocalSourceRoots(): string[] | null {
+  const value = process.env.LOCAL_SOURCE_ROOTS?.trim();
+  if (!value) {
+    return isLocalMode() ? null : [];
+  }
+  return value
+    .split(path.delimiter)
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map((root) => path.resolve(root));
+}
+
+/**
+ * Resolve a server path for a local path repository
+ * @returns The real absolute path
+ * @throws RepositorySourceError (403) if the path is outside LOCAL_SOURCE_ROOTS,
+ *         (404) if it does not exist
+ */
+export async function resolveLocalSourcePath(input: string): Promise<string> {
+  if (!path.isAbsolute(input)) {
+    throw new RepositorySourceError("Local paths must be absolute", 400);
+  }
+
+  const roots = getLocalSourceRoots();
+  if (roots !== null && roots.length === 0) {
+    throw new RepositorySourceError(
+      "Indexing server paths is disabled; set LOCAL_SOURCE_ROOTS to allow it",
+      403
+    );
+  }
+
+  let resolved: string;
+  try {
+    resolved = await realpath(input);
+  } catch {
+    throw new RepositorySourceError(`${input} does not exist on the server`, 404);
+  }
+
+  if (roots !== null) {
+    const realRoots = await Promise.all(
+      roots.map((root) => realpath(root).catch(() => root))
+    );
+    const allowed = realRoots.some(
+      (root) => resolved === root || resolved.startsWith(root + path.sep)
+    );
+    if (!allowed) {
+      throw new RepositorySourceError(`${input} is outside the allowed directories`, 403);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Wrap the GitHub (or REPOSITORY_SOURCE) reader for one repository
+ */
+export function createGitHubSource(
+  owner: string,
+  repo: string,
+  options: RepositorySourceOptions = {}
+): RepositorySource {
+  const reader = options.reader || getRepositoryReader();
+  const { githubToken } = options;
+
+  return {
+    type: "github",
+    owner,
+    repo,
+    fetchRepository: (fetchOptions) =>
+      reader.fetchGitHubRepo(owner, repo, githubToken, fetchOptions),
+    resolveCommitSha: (ref) => reader.resolveCommitSha(owner, repo, ref, githubToken),
+    compareCommits: (baseSha, headSha) =>
+      reader.compareCommits(owner, repo, baseSha, headSha, githubToken),
+    fetchIgnoreFile: (ref) => reader.fetchIgnoreFile(owner, repo, ref, githubToken),
+    fetchFiles: (paths, ref, rules, onFileFetched, budget) =>
+      reader.fetchGitHubFiles(owner, repo, paths, ref, rules, githubToken, onFileFetched, budget),
+    checkAccess: () => reader.checkRepositoryAccess(owner, repo, githubToken),
+  };
+}
+
+/**
+ * Build a source that reads a repository on disk
+ * @param open - Opens the repository; called once per operation
+ * @param refresh - Fetches new commits (and the ref about to be read) before
+ *   refs are resolved
+ */
+function createDiskSource(
+  type: RepositorySourceType,
+  owner: string,
+  repo: string,
+  open: () => Promise<LocalRepository>,
+  refresh?: (repository: LocalRepository, ref?: string) => Promise<void>
+): RepositorySource {
+  const openFresh = async (ref?: string) => {
+    const repository = await open();
+    await refresh?.(repository, ref);
+    return repository;
+  };
+
+  return {
+    type,
+    owner,
+    repo,
+    fetchRepository: async (fetchOptions) =>
+      readLocalRepository(await openFresh(fetchOptions?.ref), owner, repo, fetchOptions),
+    resolveCommitSha: async (ref) => {
+      try {
+        return await resolveLocalCommit(await openFresh(ref), ref);
+      } catch (error) {
+        console.log(`[RAG] Could not resolve ${ref} for ${owner}/${repo}: ${error}`);
+        return null;
+      }
+    },
+    compareCommits: async (baseSha, headSha) =>
+      compareLocalCommits(await open(), baseSha, headSha),
+    fetchIgnoreFile: async (ref) => readLocalIgnoreFile(await open(), ref),
+    fetchFiles: async (paths, ref, rules, onFileFetched, budget) =>
+      readLocalFiles(await open(), paths, ref, rules, onFileFetched, budget),
+    checkAccess: async () => {
+      await open();
+    },
+  };
+}
+
+/**
+ * Clone (once) and read any http(s) git repository
+ * Only hosts resolveGitRemote allows are contacted. The clone is shallow and
+ * dropped once it grows past GIT_CLONE_MAX_BYTES. git's own output is only
+ * logged: it can describe the server's network.
+ */
+function createGitSource(owner: string, repo: string, url: string): RepositorySource {
+  const dir = getCacheDir("git", hashKey(url));
+  let opened: Promise<LocalRepository> | null = null;
+
+  const checkSize = async (repository: LocalRepository) => {
+    const maxBytes = getMaxCloneBytes();
+    if ((await getRepositorySize(repository)) > maxBytes) {
+      opened = null;
+      await rm(dir, { recursive: true, force: true });
+      throw new RepositorySourceError(
+        `Repository is larger than ${Math.floor(maxBytes / 1024 / 1024)} MB`,
+        413
+      );
+    }
+  };
+
+  const open = () => {
+    opened ||= openLocalRepository(dir)
+      .catch(async () => {
+        const remote = await resolveGitRemote(url);
+        const repository = await cloneRepository(url, dir, remote).catch(async (error) => {
+          console.warn(`[RAG] Could not clone ${url}: ${error instanceof Error ? error.message : error}`);
+          await rm(dir, { recursive: true, force: true });
+          throw new RepositorySourceError("Cannot read repository", 404);
+        });
+        await checkSize(repository);
+        return repository;
+      })
+      .catch((error) => {
+        opened = null;
+        throw error;
+      });
+    return opened;
+  };
+
+  const refresh = async (repository: LocalRepository, ref?: string) => {
+    let remote: RemoteOptions;
+    try {
+      remote = await resolveGitRemote(url);
+    } catch (error) {
+      // Like being offline: keep using what was fetched before
+      console.log(`[RAG] Not fetching ${url}: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    await refreshClone(repository, remote, ref);
+    await checkSize(repository);
+  };
+
+  return {
+    ...createDiskSource("git", owner, repo, open, refresh),
+    // Cloning can take a while; asking the remote for HEAD is enough
+    checkAccess: async () => {
+      const remote = await resolveGitRemote(url);
+      try {
+        await checkRemoteRepository(url, remote);
+      } catch (error) {
+        console.warn(`[RAG] Could not read ${url}: ${error instanceof Error ? error.message : error}`);
+        throw new RepositorySourceError("Cannot read repository", 404);
+      }
+    },
+  };
+}
+
+/**
+ * Read an uploaded archive, extracting it on first use
+ * The archive's checksum stands in for a commit SHA, so a new upload is
+ * always indexed in full
+ */
+function createArchiveSource(
+  owner: string,
+  repo: string,
+  loadArchive: RepositorySourceOptions["loadArchive"]
+): RepositorySource {
+  let opened: Promise<LocalRepository> | null = null;
+
+  const open = () => {
+    opened ||= (async (): Promise<LocalRepository> => {
+      const archive = await loadArchive?.();
+      if (!archive) {
+        throw new RepositorySourceError(`The uploaded archive for ${owner}/${repo} was not found`, 404);
+      }
+      const format = getArchiveFormat(archive.fileName);
+      if (!format) {
+        throw new RepositorySourceError(`${archive.fileName} is not a .zip or .tar.gz archive`, 400);
+      }
+      const dir = getCacheDir("archives", archive.sha256);
+      await extractArchive(archive.content, format, dir);
+      return {
+        kind: "directory",
+        dir: await getArchiveRoot(dir),
+        fingerprint: `archive-${archive.sha256}`,
+      };
+    })().catch((error) => {
+      opened = null;
+      throw error;
+    });
+    return opened;
+  };
+
+  return createDiskSource("archive", owner, repo, open);
+}
+
+/**
+ * Read a directory or git checkout on the server
+ */
+function createLocalPathSource(owner: string, repo: string, url: string): RepositorySource {
+  const open = async () => openLocalRepository(await resolveLocalSourcePath(url));
+  return createDiskSource("local", owner, repo, open);
+}
+
+/**
+ * Create the source a repository's contents are read from
+ * @param repository - Source type, owner, name and URL (a Repository works)
+ * @param options - GitHub token and reader, and the archive loader for uploads
+ */
+export function createRepositorySource(
+  repository: RepositorySourceDescriptor,
+  options: RepositorySourceOptions = {}
+): RepositorySource {
+  const { owner, name, url } = repository;
+  switch (repository.sourceType || "github") {
+    case "git":
+      return createGitSource(owner, name, url);
+    case "archive":
+      return createArchiveSource(owner, name, options.loadArchive);
+    case "local":
+      return createLocalPathSource(owner, name, url);
+    default:
+      return createGitHubSource(owner, name, options);
+  }
+}
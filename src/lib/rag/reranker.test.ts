@@ -0,0 +1,51 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getRerankConfigFromEnv } from "./reranker";
+
+let workDir: string;
+
+beforeEach(async () => {
+  // An app directory without node_modules: @huggingface/transformers is not installed
+  workDir = await mkdtemp(path.join(tmpdir(), "reranker-test-"));
+  vi.spyOn(process, "cwd").mockReturnValue(workDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await rm(workDir, { recursive: true, force: true });
+});
+
+describe("getRerankConfigFromEnv", () => {
+  it("is off unless RERANK is set", () => {
+    vi.stubEnv("RERANK", "");
+    expect(getRerankConfigFromEnv()).toBeNull();
+
+    vi.stubEnv("RERANK", "off");
+    expect(getRerankConfigFromEnv()).toBeNull();
+  });
+
+  it("fails when the local provider's package is not installed", () => {
+    vi.stubEnv("RERANK", "on");
+    vi.stubEnv("RERANK_PROVIDER", "");
+
+    expect(() => getRerankConfigFromEnv()).toThrow(
+      "RERANK_PROVIDER=local requires the optional @huggingface/transformers dependency"
+    );
+  });
+
+  it("does not need the package for the Hugging Face provider", () => {
+    vi.stubEnv("RERANK", "on");
+    vi.stubEnv("RERANK_PROVIDER", "huggingface");
+    vi.stubEnv("RERANK_CANDIDATES", "");
+    vi.stubEnv("RERANK_MMR_LAMBDA", "");
+
+    expect(getRerankConfigFromEnv()).toMatchObject({
+      provider: "huggingface",
+      candidateCount: 50,
+      mmrLambda: 0.7,
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Cross-encoder re-ranking of retrieved chunks
+ * Vector and keyword search over-fetch candidates; a cross-encoder then reads
+ * each (question, chunk) pair together and scores how well the chunk answers
+ * the question. The best chunks are picked with maximal marginal relevance
+ * (MMR), so near-duplicate chunks of one file do not crowd out other files.
+ * Providers: a local in-process transformers.js model (default) or Hugging
+ * Face Inference.
+ */
+
+import { createRequire } from "module";
+import path from "path";
+import type { SimilarChunk } from "./vector-search";
+
+const LOCAL_RERANK_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+const HF_RERANK_MODEL = "cross-encoder/ms-marco-MiniLM-L-6-v2";
+const HF_INFERENCE_URL = "https://router.huggingface.co/hf-inference/models";
+const LOCAL_BATCH_SIZE = 16;
+// The usual cross-encoders read at most 512 tokens per pair
+const MAX_PASSAGE_CHARS = 2000;
+
+// Optional dependency, loaded only when the local provider is used
+const TRANSFORMERS_MODULE = "@huggingface/transformers";
+
+export const RERANK_PROVIDERS = ["local", "huggingface"] as const;
+
+export type RerankProviderName = (typeof RERANK_PROVIDERS)[number];
+
+export interface RerankConfig {
+  provider: RerankProviderName;
+  model?: string;
+  hfToken?: string;
+  /** Chunks fetched per search query before re-ranking */
+  candidateCount: number;
+  /** MMR trade-off: 1 ranks by relevance only, lower values favour variety */
+  mmrLambda: number;
+}
+
+export interface Reranker {
+  /** Relevance of each passage to the query, between 0 and 1 */
+  score(query: string, passages: string[]): Promise<number[]>;
+  getModelInfo(): { provider: RerankProviderName; model: string };
+}
+
+export const DEFAULT_RERANK_CANDIDATES = 50;
+export const DEFAULT_MMR_LAMBDA = 0.7;
+
+export function isRerankProvider(value: unknown): value is RerankProviderName {
+  return RERANK_PROVIDERS.includes(value as RerankProviderName);
+}
+
+/**
+ * Read the re-ranking configuration from environment variables
+ * RERANK=on enables it; RERANK_PROVIDER selects the provider (default: local)
+ * Throws when the local provider's package is not installed, instead of every
+ * query falling back to the search ranking
+ * @returns The configuration, or null when re-ranking is off
+ */
+export function getRerankConfigFromEnv(): RerankConfig | null {
+  const enabled = process.env.RERANK?.trim().toLowerCase();
+  if (!enabled || ["off", "false", "0"].includes(enabled)) {
+    return null;
+  }
+
+  const provider = process.env.RERANK_PROVIDER?.trim() || "local";
+  if (!isRerankProvider(provider)) {
+    throw new Error(
+      `Unknown RERANK_PROVIDER "${provider}". Expected one of: ${RERANK_PROVIDERS.join(", ")}`
+    );
+  }
+
+  if (provider === "local" && !isTransformersInstalled()) {
+    throw new Error(
+      `RERANK_PROVIDER=local requires the optional ${TRANSFORMERS_MODULE} dependency, which is not installed. Install it, or set RERANK_PROVIDER=huggingface or RERANK=off`
+    );
+  }
+
+  const candidateCount = Number(process.env.RERANK_CANDIDATES);
+  const mmrLambda = Number(process.env.RERANK_MMR_LAMBDA);
+
+  return {
+    provider,
+    model: process.env.RERANK_MODEL?.trim() || undefined,
+    hfToken: process.env.HF_TOKEN,
+    candidateCount:
+      Number.isInteger(candidateCount) && candidateCount > 0
+        ? candidateCount
+        : DEFAULT_RERANK_CANDIDATES,
+    mmrLambda:
+      process.env.RERANK_MMR_LAMBDA && mmrLambda >= 0 && mmrLambda <= 1
+        ? mmrLambda
+        : DEFAULT_MMR_LAMBDA,
+  };
+}
+
+/**
+ * Whether the local provider's package can be loaded from the app's directory
+ */
+function isTransformersInstalled(): boolean {
+  try {
+    createRequire(path.join(process.cwd(), "package.json")).resolve(TRANSFORMERS_MODULE);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create the cross-encoder for a configuration
+ */
+export function createReranker(config: RerankConfig): Reranker {
+  switch (config.provider) {
+    case "local":
+      return createLocalReranker(config);
+    case "huggingface":
+      return createHuggingFaceReranker(config);
+  }
+}
+
+/**
+ * In-process ONNX cross-encoder via transformers.js; no network once the model is cached
+ * Requires the optional @huggingface/transformers package
+ */
+function createLocalReranker(config: RerankConfig): Reranker {
+  const model = config.model || LOCAL_RERANK_MODEL;
+  let loaded: Promise<{ tokenizer: any; classifier: any }> | null = null;
+
+  const load = async () => {
+    let transformers: any;
+    try {
+      transformers = await import(/* webpackIgnore: true */ TRANSFORMERS_MODULE);
+    } catch {
+      throw new Error(
+        `Local re-ranking requires the ${TRANSFORMERS_MODULE} package. Run: npm install ${TRANSFORMERS_MODULE}`
+      );
+    }
+    const [tokenizer, classifier] = await Promise.all([
+      transformers.AutoTokenizer.from_pretrained(model),
+      transformers.AutoModelForSequenceClassification.from_pretrained(model),
+    ]);
+    return { tokenizer, classifier };
+  };
+
+  // Loaded once per process; a failed load is retried on the next call
+  const getModel = () =>
+    (loaded ??= load().catch((error) => {
+      loaded = null;
+      throw error;
+    }));
+
+  return {
+    async score(query, passages) {
+      const { tokenizer, classifier } = await getModel();
+      const scores: number[] = [];
+
+      for (let i = 0; i < passages.length; i += LOCAL_BATCH_SIZE) {
+        const batch = passages.slice(i, i + LOCAL_BATCH_SIZE);
+        const inputs = tokenizer(new Array(batch.length).fill(query), {
+          text_pair: batch,
+          padding: true,
+          truncation: true,
+        });
+        const { logits } = await classifier(inputs);
+        // One relevance logit per pair
+        scores.push(...logits.sigmoid().tolist().map((row: number[]) => row[0]));
+      }
+
+      return scores;
+    },
+    getModelInfo: () => ({ provider: "local", model }),
+  };
+}
+
+function createHuggingFaceReranker(config: RerankConfig): Reranker {
+  const model = config.model || HF_RERANK_MODEL;
+
+  return {
+    async score(query, passages) {
+      if (!config.hfToken) {
+        throw new Error("HF_TOKEN environment variable is required for Hugging Face re-ranking");
+      }
+
+      const response = await fetch(`${HF_INFERENCE_URL}/${model}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.hfToken}`,
+        },
+        body: JSON.stringify({
+          inputs: passages.map((passage) => ({
+            text: query,
+            text_pair: passage.slice(0, MAX_PASSAGE_CHARS),
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new Error(
+          `Hugging Face re-ranking returned HTTP ${response.status}: ${body || response.statusText}`
+        );
+      }
+
+      // Single-label cross-encoders return one (sigmoid) score per pair,
+      // either as [{ label, score }] or as [[{ label, score }]]
+      const data = await response.json();
+      if (!Array.isArray(data) || data.length !== passages.length) {
+        throw new Error("Hugging Face re-ranking returned an unexpected response");
+      }
+      return data.map((item: any) => {
+        const result = Array.isArray(item) ? item[0] : item;
+        return typeof result?.score === "number" ? result.score : 0;
+      });
+    },
+    getModelInfo: () => ({ provider: "huggingface", model }),
+  };
+}
+
+function tokenSet(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z0-9_]+/g) || []).filter((word) => word.length > 2));
+}
+
+/**
+ * How much two chunks repeat each other, between 0 and 1
+ * Chunks of the same file count as similar, more so when their lines overlap;
+ * otherwise the overlap of their words is used.
+ */
+function redundancy(
+  a: SimilarChunk,
+  b: SimilarChunk,
+  tokens: Map<SimilarChunk, Set<string>>
+): number {
+  let sameFile = 0;
+  if (a.file_path && a.file_path === b.file_path) {
+    sameFile = 0.5;
+    const [aStart, aEnd] = [a.metadata?.startLine, a.metadata?.endLine];
+    const [bStart, bEnd] = [b.metadata?.startLine, b.metadata?.endLine];
+    if ([aStart, aEnd, bStart, bEnd].every((line) => typeof line === "number")) {
+      const overlap = Math.min(aEnd, bEnd) - Math.max(aStart, bStart) + 1;
+      const shorter = Math.min(aEnd - aStart, bEnd - bStart) + 1;
+      sameFile += overlap > 0 ? 0.5 * Math.min(1, overlap / shorter) : 0;
+    }
+  }
+
+  const aTokens = tokens.get(a)!;
+  const bTokens = tokens.get(b)!;
+  let shared = 0;
+  aTokens.forEach((token) => {
+    if (bTokens.has(token)) shared++;
+  });
+  const union = aTokens.size + bTokens.size - shared;
+  return Math.max(sameFile, union > 0 ? shared / union : 0);
+}
+
+/**
+ * Pick chunks by maximal marginal relevance
+ * Each pick maximizes lambda * relevance - (1 - lambda) * redundancy with the
+ * chunks already picked.
+ * @param chunks - Candidates with rerank_score set
+ * @param limit - Number of chunks to keep
+ * @param lambda - Relevance weight between 0 and 1
+ * @returns Picked chunks in pick order
+ */
+export function selectDiverseChunks(
+  chunks: SimilarChunk[],
+  limit: number,
+  lambda: number
+): SimilarChunk[] {
+  const tokens = new Map(chunks.map((chunk) => [chunk, tokenSet(chunk.chunk_text)]));
+  const remaining = [...chunks];
+  const selected: SimilarChunk[] = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((chunk, index) => {
+      const maxRedundancy = selected.reduce(
+        (max, picked) => Math.max(max, redundancy(chunk, picked, tokens)),
+        0
+      );
+      const value = lambda * (chunk.rerank_score ?? 0) - (1 - lambda) * maxRedundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
+}
+
+/**
+ * Score candidates with the cross-encoder and keep a relevant, varied subset
+ * @param reranker - Cross-encoder
+ * @param query - Search query the candidates were retrieved for
+ * @param chunks - Candidates from vector/keyword search
+ * @param limit - Number of chunks to keep
+ * @param mmrLambda - MMR relevance weight (see selectDiverseChunks)
+ * @returns Kept chunks with rerank_score set, in pick order
+ */
+export async function rerankChunks(
+  reranker: Reranker,
+  query: string,
+  chunks: SimilarChunk[],
+  limit: number,
+  mmrLambda: number = DEFAULT_MMR_LAMBDA
+): Promise<SimilarChunk[]> {
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  const scores = await reranker.score(
+    query,
+    chunks.map((chunk) => chunk.chunk_text)
+  );
+  const scored = chunks
+    .map((chunk, index) => ({ ...chunk, rerank_score: scores[index] }))
+    .sort((a, b) => b.rerank_score - a.rerank_score);
+
+  return selectDiverseChunks(scored, limit, mmrLambda);
+}
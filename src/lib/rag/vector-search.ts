@@ -2,11 +2,14 @@
 /**
  * Vector search module for Supabase pgvector similarity search
  * Uses match_embeddings function for efficient vector similarity queries
+ * Rows belong to index generations (index_version); only the repository's
+ * active generation is searched, so a new one can be built alongside it
  */
 
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
-
-const EMBEDDING_DIMENSION = 384;
+import type { Database, Json } from "../supabase/database.types";
+import { isLocalMode } from "../local-mode";
+import { createLocalClient } from "../supabase/local/client";
 
 export interface EmbeddingRecord {
   id: string;
@@ -25,8 +28,40 @@ export interface SimilarChunk {
   file_path: string | null;
   chunk_index: number;
   metadata: Record<string, any> | null;
+  /** Full-text relevance (hybrid search only) */
+  keyword_rank?: number;
+  /** Fused ranking score (hybrid search or merged queries) */
+  score?: number;
+  /** Cross-encoder relevance between 0 and 1 (re-ranking only) */
+  rerank_score?: number;
 }
 
+/**
+ * A chunk as stored, without search scores
+ */
+export type StoredChunk = Pick<
+  SimilarChunk,
+  "chunk_text" | "file_path" | "chunk_index" | "metadata"
+>;
+
+export interface HybridSearchOptions {
+  /** Weight of the vector similarity ranking in the fused score */
+  semanticWeight: number;
+  /** Weight of the keyword ranking in the fused score */
+  keywordWeight: number;
+  /** Reciprocal rank fusion constant; larger values flatten rank differences */
+  rrfK: number;
+  /** Candidates taken from each ranking before fusion */
+  candidateCount: number;
+}
+
+export const DEFAULT_HYBRID_SEARCH: HybridSearchOptions = {
+  semanticWeight: 1.0,
+  keywordWeight: 1.0,
+  rrfK: 60,
+  candidateCount: 50,
+};
+
 export interface EmbeddingWithMetadata {
   text: string;
   embedding: number[];
@@ -35,12 +70,22 @@ export interface EmbeddingWithMetadata {
   metadata: {
     fileType: string;
     importance: number;
+    /** 1-based line range of the chunk within its file */
+    startLine?: number;
+    endLine?: number;
+    /** Character offsets of the chunk within its file (end exclusive) */
+    startOffset?: number;
+    endOffset?: number;
+    /** Declaration or Markdown heading the chunk belongs to */
+    symbolName?: string;
+    symbolKind?: string;
     [key: string]: any;
   };
 }
 
 /**
  * Create Supabase client for vector operations
+ * In local mode this is the embedded database and the URL and key are ignored
  * @param supabaseUrl - Supabase project URL
  * @param supabaseKey - Supabase service role key (for server-side operations)
  * @returns Supabase client instance
@@ -48,8 +93,11 @@ export interface EmbeddingWithMetadata {
 export function createSupabaseVectorClient(
   supabaseUrl: string,
   supabaseKey: string
-): SupabaseClient {
-  return createClient(supabaseUrl, supabaseKey);
+): SupabaseClient<Database> {
+  if (isLocalMode()) {
+    return createLocalClient();
+  }
+  return createClient<Database>(supabaseUrl, supabaseKey);
 }
 
 /**
@@ -57,37 +105,34 @@ export function createSupabaseVectorClient(
  * @param client - Supabase client
  * @param repoId - Repository ID
  * @param chunks - Array of chunk texts
- * @param embeddings - Array of embedding vectors (384 dimensions)
+ * @param embeddings - Array of embedding vectors (all of the model's dimension)
+ * @param indexVersion - Index generation to write (default: the active one)
  * @returns Promise resolving to array of inserted record IDs
  */
 export async function storeEmbeddings(
-  client: SupabaseClient,
+  client: SupabaseClient<Database>,
   repoId: string,
   chunks: string[],
-  embeddings: number[][]
+  embeddings: number[][],
+  indexVersion?: number
 ): Promise<string[]> {
   try {
     if (chunks.length !== embeddings.length) {
       throw new Error("Chunks and embeddings arrays must have the same length");
     }
 
-    // Validate embedding dimensions
-    for (let i = 0; i < embeddings.length; i++) {
-      if (embeddings[i].length !== EMBEDDING_DIMENSION) {
-        throw new Error(
-          `Embedding ${i} has dimension ${embeddings[i].length}, expected ${EMBEDDING_DIMENSION}`
-        );
-      }
-    }
+    assertSameDimension(embeddings);
+    const version = await resolveIndexVersion(client, repoId, indexVersion);
 
     // Prepare records for insertion
     const records = chunks.map((chunkText, index) => ({
       repository_id: repoId,
       text: chunkText,
       chunk_index: index,
-      embedding: embeddings[index],
+      embedding: toVectorLiteral(embeddings[index]),
       file_path: null,
       metadata: null,
+      index_version: version,
     }));
 
     // Insert embeddings in batches to avoid payload size limits
@@ -122,32 +167,36 @@ export async function storeEmbeddings(
   }
 }
 
+/**
+ * Store embeddings with file paths and chunk metadata
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param embeddings - Chunks with their vectors and metadata
+ * @param indexVersion - Index generation to write (default: the active one)
+ * @returns Promise resolving to array of inserted record IDs
+ */
 export async function storeEmbeddingsWithMetadata(
-  client: SupabaseClient,
+  client: SupabaseClient<Database>,
   repoId: string,
-  embeddings: EmbeddingWithMetadata[]
+  embeddings: EmbeddingWithMetadata[],
+  indexVersion?: number
 ): Promise<string[]> {
   try {
-    // Validate embedding dimensions
-    for (let i = 0; i < embeddings.length; i++) {
-      if (embeddings[i].embedding.length !== EMBEDDING_DIMENSION) {
-        throw new Error(
-          `Embedding ${i} has dimension ${embeddings[i].embedding.length}, expected ${EMBEDDING_DIMENSION}`
-        );
-      }
-    }
+    assertSameDimension(embeddings.map((item) => item.embedding));
+    const version = await resolveIndexVersion(client, repoId, indexVersion);
 
     // Prepare records with metadata
     const records = embeddings.map((item) => ({
       repository_id: repoId,
       text: item.text,
       chunk_index: item.chunkIndex,
-      embedding: item.embedding,
+      embedding: toVectorLiteral(item.embedding),
       file_path: item.filePath,
       metadata: item.metadata,
+      index_version: version,
     }));
 
-    console.log(`[Vector] Storing ${records.length} embeddings with metadata for repo ${repoId}`);
+    console.log(`[Vector] Storing ${records.length} embeddings with metadata for repo ${repoId} (index v${version})`);
 
     // Insert in batches
     const batchSize = 100;
@@ -185,13 +234,13 @@ export async function storeEmbeddingsWithMetadata(
 }
 
 /**
- * Delete all embeddings for a repository
+ * Delete all embeddings for a repository, across every index generation
  * @param client - Supabase client
  * @param repoId - Repository ID
  * @returns Promise resolving when deletion is complete
  */
 export async function deleteRepositoryEmbeddings(
-  client: SupabaseClient,
+  client: SupabaseClient<Database>,
   repoId: string
 ): Promise<void> {
   try {
@@ -209,34 +258,326 @@ export async function deleteRepositoryEmbeddings(
   }
 }
 
+/**
+ * Get the highest chunk index stored for a repository
+ * New chunks appended during a sync start after this index
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param indexVersion - Index generation (default: the active one)
+ * @returns Promise resolving to the highest chunk index, or -1 if none
+ */
+export async function getMaxChunkIndex(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  indexVersion?: number
+): Promise<number> {
+  try {
+    const version = await resolveIndexVersion(client, repoId, indexVersion);
+    const { data, error } = await client
+      .from("embeddings")
+      .select("chunk_index")
+      .eq("repository_id", repoId)
+      .eq("index_version", version)
+      .order("chunk_index", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get max chunk index: ${error.message}`);
+    }
+
+    return data?.chunk_index ?? -1;
+  } catch (error) {
+    console.error("Error getting max chunk index:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get the distinct files indexed for a repository with their sizes
+ * A file's size is where its last chunk ends (0 when its chunks were indexed
+ * without offsets), so trailing whitespace is not counted
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param indexVersion - Index generation (default: the active one)
+ * @returns Promise resolving to files sorted by path
+ */
+export async function getIndexedFiles(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  indexVersion?: number
+): Promise<Array<{ path: string; size: number }>> {
+  try {
+    const version = await resolveIndexVersion(client, repoId, indexVersion);
+    const sizes = new Map<string, number>();
+    const pageSize = 1000;
+
+    // Page through rows since PostgREST caps each response
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await client
+        .from("embeddings")
+        .select("file_path, metadata")
+        .eq("repository_id", repoId)
+        .eq("index_version", version)
+        .order("chunk_index", { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to get indexed files: ${error.message}`);
+      }
+
+      (data || []).forEach((item) => {
+        if (!item.file_path) return;
+        const endOffset = toChunkMetadata(item.metadata)?.endOffset;
+        sizes.set(
+          item.file_path,
+          Math.max(sizes.get(item.file_path) ?? 0, typeof endOffset === "number" ? endOffset : 0)
+        );
+      });
+
+      if (!data || data.length < pageSize) break;
+    }
+
+    return Array.from(sizes, ([path, size]) => ({ path, size })).sort((a, b) =>
+      a.path.localeCompare(b.path)
+    );
+  } catch (error) {
+    console.error("Error getting indexed files:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get a file's chunks within a chunk index range, in file order
+ * Reads the active generation through the get_file_chunks function
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param filePath - File path
+ * @param range - Inclusive chunk index bounds; missing bounds are open
+ * @param limit - Maximum number of chunks (default: all)
+ * @returns Promise resolving to the chunks, or [] if the function is missing
+ */
+export async function getFileChunks(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  filePath: string,
+  range: { start?: number; end?: number } = {},
+  limit?: number
+): Promise<StoredChunk[]> {
+  const { data, error } = await client.rpc("get_file_chunks", {
+    match_repository_id: repoId,
+    match_file_path: filePath,
+    start_index: range.start,
+    end_index: range.end,
+    match_count: limit,
+  });
+
+  if (error) {
+    // Expansion is optional; searches still work before the migration is applied
+    console.warn("get_file_chunks function not available:", error.message);
+    return [];
+  }
+
+  return (data || []).map((item) => ({
+    chunk_text: item.text,
+    file_path: item.file_path || null,
+    chunk_index: item.chunk_index || 0,
+    metadata: toChunkMetadata(item.metadata),
+  }));
+}
+
+/**
+ * Find the chunks that declare a symbol (function, class, heading, ...)
+ * Reads the active generation through the find_symbol_chunks function
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param symbolName - Symbol name, matched without regard to case
+ * @param limit - Maximum number of chunks (default: 10)
+ * @returns Promise resolving to the declaring chunks in file order
+ */
+export async function findSymbolChunks(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  symbolName: string,
+  limit: number = 10
+): Promise<StoredChunk[]> {
+  const { data, error } = await client.rpc("find_symbol_chunks", {
+    match_repository_id: repoId,
+    symbol_name: symbolName,
+    match_count: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to find symbol: ${error.message}`);
+  }
+
+  return (data || []).map((item) => ({
+    chunk_text: item.text,
+    file_path: item.file_path || null,
+    chunk_index: item.chunk_index || 0,
+    metadata: toChunkMetadata(item.metadata),
+  }));
+}
+
+/**
+ * Get the index generation searches currently read for a repository
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @returns Promise resolving to the active index version
+ */
+export async function getActiveIndexVersion(
+  client: SupabaseClient<Database>,
+  repoId: string
+): Promise<number> {
+  const { data, error } = await client
+    .from("repositories")
+    .select("active_index_version")
+    .eq("id", repoId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get active index version: ${error.message}`);
+  }
+
+  return data?.active_index_version ?? 1;
+}
+
+/**
+ * Pick the version for a new index generation
+ * Skips past any generation left behind by an interrupted run
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @returns Promise resolving to an unused index version
+ */
+export async function getNextIndexVersion(
+  client: SupabaseClient<Database>,
+  repoId: string
+): Promise<number> {
+  const active = await getActiveIndexVersion(client, repoId);
+  const { data, error } = await client
+    .from("embeddings")
+    .select("index_version")
+    .eq("repository_id", repoId)
+    .order("index_version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get next index version: ${error.message}`);
+  }
+
+  return Math.max(active, data?.index_version ?? 0) + 1;
+}
+
+/**
+ * Copy one index generation into another, leaving out some files
+ * Used by incremental syncs to carry over the chunks of unchanged files
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param fromVersion - Generation to copy from
+ * @param toVersion - Generation to copy into
+ * @param excludeFilePaths - Files whose chunks are not copied
+ * @returns Promise resolving to the number of copied chunks
+ */
+export async function copyIndexGeneration(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  fromVersion: number,
+  toVersion: number,
+  excludeFilePaths: string[]
+): Promise<number> {
+  const { data, error } = await client.rpc("copy_index_generation", {
+    copy_repository_id: repoId,
+    from_version: fromVersion,
+    to_version: toVersion,
+    exclude_file_paths: excludeFilePaths,
+  });
+
+  if (error) {
+    throw new Error(`Failed to copy index generation: ${error.message}`);
+  }
+
+  return (data as number) || 0;
+}
+
+/**
+ * Delete one index generation (e.g. one whose build failed)
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param indexVersion - Generation to delete
+ */
+export async function deleteIndexGeneration(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  indexVersion: number
+): Promise<void> {
+  const { error } = await client
+    .from("embeddings")
+    .delete()
+    .eq("repository_id", repoId)
+    .eq("index_version", indexVersion);
+
+  if (error) {
+    throw new Error(`Failed to delete index generation: ${error.message}`);
+  }
+}
+
+/**
+ * Delete every generation except the active one
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param activeVersion - Generation to keep
+ */
+export async function deleteInactiveGenerations(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  activeVersion: number
+): Promise<void> {
+  const { error } = await client
+    .from("embeddings")
+    .delete()
+    .eq("repository_id", repoId)
+    .neq("index_version", activeVersion);
+
+  if (error) {
+    throw new Error(`Failed to delete old index generations: ${error.message}`);
+  }
+}
+
+/**
+ * Use the given index version, or look up the active one
+ */
+async function resolveIndexVersion(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  indexVersion?: number
+): Promise<number> {
+  return indexVersion ?? (await getActiveIndexVersion(client, repoId));
+}
+
 /**
  * Search for similar chunks using pgvector match_embeddings function
  * @param client - Supabase client
  * @param repoId - Repository ID
- * @param queryEmbedding - Query embedding vector (384 dimensions)
+ * @param queryEmbedding - Query embedding vector (same model as the index)
  * @param limit - Maximum number of results (default: 3)
  * @param threshold - Minimum similarity threshold (default: 0.0)
  * @returns Promise resolving to array of similar chunks
  */
 export async function searchSimilarChunks(
-  client: SupabaseClient,
+  client: SupabaseClient<Database>,
   repoId: string,
   queryEmbedding: number[],
   limit: number = 10,
   threshold: number = 0.0
 ): Promise<SimilarChunk[]> {
   try {
-    // Validate embedding dimension
-    if (queryEmbedding.length !== EMBEDDING_DIMENSION) {
-      throw new Error(
-        `Query embedding has dimension ${queryEmbedding.length}, expected ${EMBEDDING_DIMENSION}`
-      );
-    }
+    assertSameDimension([queryEmbedding]);
 
     // Use match_embeddings function for vector similarity search
     // This function should be created in the database with pgvector
     const { data, error } = await client.rpc("match_embeddings", {
-      query_embedding: queryEmbedding,
+      query_embedding: toVectorLiteral(queryEmbedding),
       match_repository_id: repoId,
       match_threshold: threshold,
       match_count: limit,
@@ -275,6 +616,116 @@ export async function searchSimilarChunks(
   }
 }
 
+/**
+ * Search chunks by vector similarity and keywords, fused with reciprocal rank fusion
+ * Exact identifiers in the question (e.g. a function name) match even when the
+ * embedding alone would miss them
+ * @param client - Supabase client
+ * @param repoId - Repository ID
+ * @param queryEmbedding - Query embedding vector (same model as the index)
+ * @param queryText - Raw question text for the keyword ranking
+ * @param limit - Maximum number of results (default: 10)
+ * @param options - Ranking weights (defaults to DEFAULT_HYBRID_SEARCH)
+ * @returns Promise resolving to chunks ordered by fused score
+ */
+export async function hybridSearchChunks(
+  client: SupabaseClient<Database>,
+  repoId: string,
+  queryEmbedding: number[],
+  queryText: string,
+  limit: number = 10,
+  options: Partial<HybridSearchOptions> = {}
+): Promise<SimilarChunk[]> {
+  try {
+    assertSameDimension([queryEmbedding]);
+
+    const weights = { ...DEFAULT_HYBRID_SEARCH, ...options };
+
+    const { data, error } = await client.rpc("hybrid_match_embeddings", {
+      query_embedding: toVectorLiteral(queryEmbedding),
+      query_text: queryText,
+      match_repository_id: repoId,
+      match_count: limit,
+      semantic_weight: weights.semanticWeight,
+      keyword_weight: weights.keywordWeight,
+      rrf_k: weights.rrfK,
+      candidate_count: Math.max(weights.candidateCount, limit),
+    });
+
+    if (error) {
+      // Fall back to vector-only search if the migration has not been applied
+      console.warn(
+        "hybrid_match_embeddings function not available, using vector search:",
+        error.message
+      );
+      return await searchSimilarChunks(client, repoId, queryEmbedding, limit, 0.0);
+    }
+
+    return (data || []).map((item) => ({
+      chunk_text: item.text,
+      similarity: item.similarity || 0,
+      file_path: item.file_path || null,
+      chunk_index: item.chunk_index || 0,
+      metadata: toChunkMetadata(item.metadata),
+      keyword_rank: item.keyword_rank || 0,
+      score: item.score || 0,
+    }));
+  } catch (error) {
+    console.error("Error in hybrid search:", error);
+    throw error;
+  }
+}
+
+/**
+ * Merge the results of several searches with reciprocal rank fusion
+ * A chunk found by more than one query ranks above one found by a single query
+ * @param resultLists - Results of each query, best first
+ * @param rrfK - Rank constant; larger values flatten the rank differences
+ * @returns Distinct chunks ordered by fused score (stored in score)
+ */
+export function mergeSearchResults(
+  resultLists: SimilarChunk[][],
+  rrfK: number = DEFAULT_HYBRID_SEARCH.rrfK
+): SimilarChunk[] {
+  const merged = new Map<string, SimilarChunk>();
+
+  for (const results of resultLists) {
+    results.forEach((chunk, rank) => {
+      const key = `${chunk.file_path ?? ""}:${chunk.chunk_index}`;
+      const existing = merged.get(key);
+      const score = (existing?.score ?? 0) + 1 / (rrfK + rank + 1);
+      merged.set(key, {
+        ...(existing && existing.similarity >= chunk.similarity ? existing : chunk),
+        score,
+      });
+    });
+  }
+
+  return Array.from(merged.values()).sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
+
+/**
+ * Drop chunks that repeat an earlier chunk of the same file and lines
+ * Indexes built before the root README was skipped in the file pass hold it twice
+ * @param chunks - Chunks in rank order
+ * @returns The first chunk of each location, in the same order
+ */
+export function removeDuplicateChunks<T extends StoredChunk>(chunks: T[]): T[] {
+  const seen = new Set<string>();
+  return chunks.filter((chunk) => {
+    const { startLine, endLine } = chunk.metadata || {};
+    const key =
+      typeof startLine === "number" && typeof endLine === "number"
+        ? `${chunk.file_path}:L${startLine}-L${endLine}`
+        : `${chunk.file_path}\n${chunk.chunk_text}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
 /**
  * Fallback vector search using direct SQL query
  * Used when match_embeddings function is not available
@@ -286,7 +737,7 @@ export async function searchSimilarChunks(
  * @returns Promise resolving to array of similar chunks
  */
 async function searchSimilarChunksFallback(
-  client: SupabaseClient,
+  client: SupabaseClient<Database>,
   repoId: string,
   queryEmbedding: number[],
   limit: number,
@@ -294,11 +745,12 @@ async function searchSimilarChunksFallback(
 ): Promise<SimilarChunk[]> {
   try {
     // Use cosine distance operator (<=>) for pgvector
-    // This requires the embedding column to be of type vector(384)
+    const version = await resolveIndexVersion(client, repoId);
     const { data, error } = await client
       .from("embeddings")
-      .select("text, chunk_index, embedding")
+      .select("text, chunk_index, file_path, metadata, embedding")
       .eq("repository_id", repoId)
+      .eq("index_version", version)
       .limit(limit * 2); // Get more results to filter by threshold
 
     if (error) {
@@ -338,6 +790,42 @@ async function searchSimilarChunksFallback(
   }
 }
 
+/**
+ * Write a vector in pgvector's text form, which is how vector columns and
+ * arguments are typed
+ */
+function toVectorLiteral(vector: number[]): string {
+  return JSON.stringify(vector);
+}
+
+/**
+ * Read a chunk's metadata column; anything but an object counts as none
+ */
+function toChunkMetadata(metadata: Json): SimilarChunk["metadata"] {
+  return metadata && typeof metadata === "object" && !Array.isArray(metadata)
+    ? metadata
+    : null;
+}
+
+/**
+ * Check that vectors are non-empty and share one dimension
+ * The expected dimension itself is enforced by the embedding provider
+ * @param vectors - Embedding vectors
+ */
+function assertSameDimension(vectors: number[][]): void {
+  const dimension = vectors[0]?.length;
+  for (let i = 0; i < vectors.length; i++) {
+    if (vectors[i].length === 0) {
+      throw new Error(`Embedding ${i} is empty`);
+    }
+    if (vectors[i].length !== dimension) {
+      throw new Error(
+        `Embedding ${i} has dimension ${vectors[i].length}, expected ${dimension}`
+      );
+    }
+  }
+}
+
 /**
  * Calculate cosine similarity between two vectors
  * @param a - First vector
@@ -373,17 +861,21 @@ function cosineSimilarity(a: number[], b: number[]): number {
  * Get embedding count for a repository
  * @param client - Supabase client
  * @param repoId - Repository ID
+ * @param indexVersion - Index generation (default: the active one)
  * @returns Promise resolving to count of embeddings
  */
 export async function getEmbeddingCount(
-  client: SupabaseClient,
-  repoId: string
+  client: SupabaseClient<Database>,
+  repoId: string,
+  indexVersion?: number
 ): Promise<number> {
   try {
+    const version = await resolveIndexVersion(client, repoId, indexVersion);
     const { count, error } = await client
       .from("embeddings")
       .select("*", { count: "exact", head: true })
-      .eq("repository_id", repoId);
+      .eq("repository_id", repoId)
+      .eq("index_version", version);
 
     if (error) {
       throw new Error(`Failed to get embedding count: ${error.message}`);
@@ -400,15 +892,17 @@ export async function getEmbeddingCount(
  * ENHANCED: Get files by importance for repository
  */
 export async function getFilesByImportance(
-  client: SupabaseClient,
+  client: SupabaseClient<Database>,
   repoId: string,
   limit: number = 10
 ): Promise<Array<{ filePath: string; importance: number; chunkCount: number }>> {
   try {
+    const version = await resolveIndexVersion(client, repoId);
     const { data, error } = await client
       .from("embeddings")
       .select("file_path, metadata")
-      .eq("repository_id", repoId);
+      .eq("repository_id", repoId)
+      .eq("index_version", version);
 
     if (error || !data) {
       return [];
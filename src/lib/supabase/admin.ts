@@ -6,16 +6,26 @@
  * - System-level operations
  * 
  * NEVER use this in client-side code or expose service role key
+ *
+ * In local mode this is the embedded database client instead (see local/client.ts)
  */
-import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+import { createClient as createSupabaseClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { createLocalClient } from './local/client';
+import { isLocalMode } from '@/lib/local-mode';
 
-let adminClient: ReturnType<typeof createSupabaseClient> | null = null;
+let adminClient: SupabaseClient<Database> | null = null;
 
 export function createClient() {
   if (adminClient) {
     return adminClient;
   }
 
+  if (isLocalMode()) {
+    adminClient = createLocalClient();
+    return adminClient;
+  }
+
   const url = process.env.SUPABASE_URL!;
   const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
   
@@ -23,7 +33,7 @@ export function createClient() {
     throw new Error('Missing Supabase environment variables: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
   }
   
-  adminClient = createSupabaseClient(url, serviceRoleKey, {
+  adminClient = createSupabaseClient<Database>(url, serviceRoleKey, {
     auth: {
       autoRefreshToken: false,
       persistSession: false,
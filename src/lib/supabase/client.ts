@@ -1,10 +1,17 @@
 /**
  * Browser client for Supabase
  * Use this in client components and browser-side code
+ * In local mode only auth is available, backed by /api/auth/local
  */
 import { createBrowserClient } from '@supabase/ssr';
+import { createLocalBrowserClient } from './local/browser';
+import { isLocalMode } from '@/lib/local-mode';
 
 export function createClient() {
+  if (isLocalMode()) {
+    return createLocalBrowserClient();
+  }
+
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const publicAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
   
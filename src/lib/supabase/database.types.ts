@@ -0,0 +1,602 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      chats: {
+        Row: {
+          created_at: string
+          id: string
+          repository_id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          repository_id: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          repository_id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chats_repository_id_fkey"
+            columns: ["repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      embeddings: {
+        Row: {
+          chunk_index: number
+          created_at: string
+          embedding: string
+          file_path: string | null
+          id: string
+          index_version: number
+          metadata: Json | null
+          repository_id: string
+          search_vector: unknown | null
+          text: string
+        }
+        Insert: {
+          chunk_index: number
+          created_at?: string
+          embedding: string
+          file_path?: string | null
+          id?: string
+          index_version?: number
+          metadata?: Json | null
+          repository_id: string
+          search_vector?: unknown | null
+          text: string
+        }
+        Update: {
+          chunk_index?: number
+          created_at?: string
+          embedding?: string
+          file_path?: string | null
+          id?: string
+          index_version?: number
+          metadata?: Json | null
+          repository_id?: string
+          search_vector?: unknown | null
+          text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "embeddings_repository_id_fkey"
+            columns: ["repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      github_credentials: {
+        Row: {
+          created_at: string
+          encrypted_token: string
+          github_login: string | null
+          token_last4: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          encrypted_token: string
+          github_login?: string | null
+          token_last4: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          encrypted_token?: string
+          github_login?: string | null
+          token_last4?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      index_jobs: {
+        Row: {
+          attempts: number
+          cancel_requested_at: string | null
+          created_at: string
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          kind: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          repository_id: string
+          run_after: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          cancel_requested_at?: string | null
+          created_at?: string
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          kind: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          repository_id: string
+          run_after?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          cancel_requested_at?: string | null
+          created_at?: string
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          kind?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          repository_id?: string
+          run_after?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "index_jobs_repository_id_fkey"
+            columns: ["repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          chat_id: string
+          citations: Json | null
+          content: string
+          created_at: string
+          id: string
+          rewritten_query: Json | null
+          role: string
+          tool_calls: Json | null
+        }
+        Insert: {
+          chat_id: string
+          citations?: Json | null
+          content: string
+          created_at?: string
+          id: string
+          rewritten_query?: Json | null
+          role: string
+          tool_calls?: Json | null
+        }
+        Update: {
+          chat_id?: string
+          citations?: Json | null
+          content?: string
+          created_at?: string
+          id?: string
+          rewritten_query?: Json | null
+          role?: string
+          tool_calls?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      repositories: {
+        Row: {
+          active_index_version: number
+          chunk_count: number | null
+          coverage: Json | null
+          created_at: string
+          embedding_dimension: number | null
+          embedding_model: string | null
+          embedding_provider: string | null
+          error: string | null
+          exclude_patterns: string[]
+          file_tree: string | null
+          framework: string | null
+          id: string
+          include_patterns: string[]
+          indexed_commit_sha: string | null
+          languages: string[] | null
+          llm_model: string | null
+          llm_provider: string | null
+          name: string
+          owner: string
+          progress: Json | null
+          readme: string | null
+          ref: string | null
+          source_type: string
+          status: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          active_index_version?: number
+          chunk_count?: number | null
+          coverage?: Json | null
+          created_at?: string
+          embedding_dimension?: number | null
+          embedding_model?: string | null
+          embedding_provider?: string | null
+          error?: string | null
+          exclude_patterns?: string[]
+          file_tree?: string | null
+          framework?: string | null
+          id: string
+          include_patterns?: string[]
+          indexed_commit_sha?: string | null
+          languages?: string[] | null
+          llm_model?: string | null
+          llm_provider?: string | null
+          name: string
+          owner: string
+          progress?: Json | null
+          readme?: string | null
+          ref?: string | null
+          source_type?: string
+          status?: string
+          updated_at?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          active_index_version?: number
+          chunk_count?: number | null
+          coverage?: Json | null
+          created_at?: string
+          embedding_dimension?: number | null
+          embedding_model?: string | null
+          embedding_provider?: string | null
+          error?: string | null
+          exclude_patterns?: string[]
+          file_tree?: string | null
+          framework?: string | null
+          id?: string
+          include_patterns?: string[]
+          indexed_commit_sha?: string | null
+          languages?: string[] | null
+          llm_model?: string | null
+          llm_provider?: string | null
+          name?: string
+          owner?: string
+          progress?: Json | null
+          readme?: string | null
+          ref?: string | null
+          source_type?: string
+          status?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      repository_archives: {
+        Row: {
+          content_base64: string | null
+          created_at: string
+          file_name: string
+          repository_id: string
+          sha256: string
+          size_bytes: number
+          storage_path: string | null
+        }
+        Insert: {
+          content_base64?: string | null
+          created_at?: string
+          file_name: string
+          repository_id: string
+          sha256: string
+          size_bytes: number
+          storage_path?: string | null
+        }
+        Update: {
+          content_base64?: string | null
+          created_at?: string
+          file_name?: string
+          repository_id?: string
+          sha256?: string
+          size_bytes?: number
+          storage_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "repository_archives_repository_id_fkey"
+            columns: ["repository_id"]
+            isOneToOne: true
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      claim_index_job: {
+        Args: { worker_id: string }
+        Returns: {
+          attempts: number
+          cancel_requested_at: string | null
+          created_at: string
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          kind: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          repository_id: string
+          run_after: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "index_jobs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      code_search_text: { Args: { input: string }; Returns: string }
+      copy_index_generation: {
+        Args: {
+          copy_repository_id: string
+          exclude_file_paths?: string[]
+          from_version: number
+          to_version: number
+        }
+        Returns: number
+      }
+      find_symbol_chunks: {
+        Args: {
+          match_count?: number
+          match_repository_id: string
+          symbol_name: string
+        }
+        Returns: {
+          chunk_index: number
+          file_path: string
+          id: string
+          metadata: Json
+          repository_id: string
+          text: string
+        }[]
+      }
+      get_file_chunks: {
+        Args: {
+          end_index?: number
+          match_count?: number
+          match_file_path: string
+          match_repository_id: string
+          start_index?: number
+        }
+        Returns: {
+          chunk_index: number
+          file_path: string
+          id: string
+          metadata: Json
+          repository_id: string
+          text: string
+        }[]
+      }
+      get_latest_index_jobs: {
+        Args: { repository_ids: string[] }
+        Returns: {
+          attempts: number
+          cancel_requested_at: string | null
+          created_at: string
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          kind: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          repository_id: string
+          run_after: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "index_jobs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      hybrid_match_embeddings: {
+        Args: {
+          candidate_count?: number
+          keyword_weight?: number
+          match_count?: number
+          match_repository_id: string
+          query_embedding: string
+          query_text: string
+          rrf_k?: number
+          semantic_weight?: number
+        }
+        Returns: {
+          chunk_index: number
+          file_path: string
+          id: string
+          keyword_rank: number
+          metadata: Json
+          repository_id: string
+          score: number
+          similarity: number
+          text: string
+        }[]
+      }
+      match_embeddings: {
+        Args: {
+          match_count?: number
+          match_repository_id: string
+          match_threshold?: number
+          query_embedding: string
+        }
+        Returns: {
+          chunk_index: number
+          file_path: string
+          id: string
+          metadata: Json
+          repository_id: string
+          similarity: number
+          text: string
+        }[]
+      }
+      recover_stale_index_jobs: {
+        Args: { timeout_seconds?: number }
+        Returns: number
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
@@ -0,0 +1,186 @@
+/**
+ * Local accounts for local mode
+ * Users live in the embedded database's auth.users (scrypt password hashes);
+ * sessions are random opaque tokens in auth.sessions, sent as a cookie or a
+ * Bearer token like Supabase access tokens.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { getLocalDatabase } from "./database";
+
+export const LOCAL_SESSION_COOKIE = "repochat-local-session";
+export const LOCAL_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+/** The subset of Supabase's User object the app reads */
+export interface LocalUser {
+  id: string;
+  email?: string;
+  user_metadata: Record<string, unknown>;
+  app_metadata: Record<string, unknown>;
+  aud: string;
+  created_at: string;
+}
+
+export interface LocalSession {
+  access_token: string;
+  token_type: "bearer";
+  expires_in: number;
+  expires_at: number;
+  user: LocalUser;
+}
+
+/** Auth failure in the shape of Supabase's AuthError */
+export class LocalAuthError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "LocalAuthError";
+  }
+}
+
+interface UserRow {
+  id: string;
+  email: string | null;
+  encrypted_password: string | null;
+  raw_user_meta_data: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+function toLocalUser(row: UserRow): LocalUser {
+  return {
+    id: row.id,
+    email: row.email || undefined,
+    user_metadata: row.raw_user_meta_data || {},
+    app_metadata: { provider: "email" },
+    aud: "authenticated",
+    created_at: row.created_at.toISOString(),
+  };
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Create an account (emails are already confirmed; there is no mail server)
+ */
+export async function createLocalUser(
+  email: string,
+  password: string,
+  metadata: Record<string, unknown> = {}
+): Promise<LocalUser> {
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!normalizedEmail || !password) {
+    throw new LocalAuthError("Email and password are required");
+  }
+  if (password.length < 6) {
+    throw new LocalAuthError("Password should be at least 6 characters.", 422);
+  }
+
+  const db = await getLocalDatabase();
+  const { rows } = await db.query<UserRow>(
+    `INSERT INTO auth.users (email, encrypted_password, raw_user_meta_data)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (email) DO NOTHING
+     RETURNING id, email, encrypted_password, raw_user_meta_data, created_at`,
+    [normalizedEmail, await hashPassword(password), JSON.stringify(metadata)]
+  );
+  if (rows.length === 0) {
+    // Supabase's wording, which the sign-up form recognizes
+    throw new LocalAuthError("A user with this email address has already been registered", 422);
+  }
+
+  return toLocalUser(rows[0]);
+}
+
+/**
+ * Check a password and open a session
+ */
+export async function signInLocalUser(
+  email: string,
+  password: string
+): Promise<LocalSession> {
+  const db = await getLocalDatabase();
+  const { rows } = await db.query<UserRow>(
+    `SELECT id, email, encrypted_password, raw_user_meta_data, created_at
+     FROM auth.users WHERE email = $1`,
+    [email.trim().toLowerCase()]
+  );
+
+  const user = rows[0];
+  if (
+    !user?.encrypted_password ||
+    !(await verifyPassword(password, user.encrypted_password))
+  ) {
+    throw new LocalAuthError("Invalid login credentials");
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = Math.floor(Date.now() / 1000) + LOCAL_SESSION_TTL_SECONDS;
+  await db.query(
+    "INSERT INTO auth.sessions (id, user_id, expires_at) VALUES ($1, $2, to_timestamp($3))",
+    [token, user.id, expiresAt]
+  );
+
+  return {
+    access_token: token,
+    token_type: "bearer",
+    expires_in: LOCAL_SESSION_TTL_SECONDS,
+    expires_at: expiresAt,
+    user: toLocalUser(user),
+  };
+}
+
+/**
+ * Resolve a session token to its session, or null when unknown or expired
+ */
+export async function getLocalSession(token: string): Promise<LocalSession | null> {
+  const db = await getLocalDatabase();
+  const { rows } = await db.query<UserRow & { expires_at: Date }>(
+    `SELECT u.id, u.email, u.encrypted_password, u.raw_user_meta_data, u.created_at,
+            s.expires_at
+     FROM auth.sessions s
+     JOIN auth.users u ON u.id = s.user_id
+     WHERE s.id = $1 AND s.expires_at > NOW()`,
+    [token]
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const expiresAt = Math.floor(rows[0].expires_at.getTime() / 1000);
+  return {
+    access_token: token,
+    token_type: "bearer",
+    expires_in: Math.max(0, expiresAt - Math.floor(Date.now() / 1000)),
+    expires_at: expiresAt,
+    user: toLocalUser(rows[0]),
+  };
+}
+
+/**
+ * End a session (and drop any expired ones while at it)
+ */
+export async function revokeLocalSession(token: string): Promise<void> {
+  const db = await getLocalDatabase();
+  await db.query("DELETE FROM auth.sessions WHERE id = $1 OR expires_at <= NOW()", [token]);
+}
@@ -0,0 +1,66 @@
+/**
+ * Browser auth client for local mode
+ * Implements the supabase.auth calls the pages make against /api/auth/local,
+ * which keeps the session in an HTTP-only cookie.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+const SESSION_ENDPOINT = "/api/auth/local";
+
+async function request(method: string, body?: unknown) {
+  try {
+    const response = await fetch(SESSION_ENDPOINT, {
+      method,
+      credentials: "same-origin",
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return {
+        data: null,
+        error: { message: data.error || "Authentication failed", status: response.status },
+      };
+    }
+    return { data, error: null };
+  } catch (error) {
+    return {
+      data: null,
+      error: { message: error instanceof Error ? error.message : String(error), status: 0 },
+    };
+  }
+}
+
+export function createLocalBrowserClient(): SupabaseClient {
+  const client = {
+    auth: {
+      async getSession() {
+        const { data, error } = await request("GET");
+        return { data: { session: data?.session ?? null }, error };
+      },
+      async signInWithPassword(credentials: { email: string; password: string }) {
+        const { data, error } = await request("POST", credentials);
+        return {
+          data: { user: data?.session?.user ?? null, session: data?.session ?? null },
+          error,
+        };
+      },
+      async signInWithOAuth() {
+        return {
+          data: { provider: null, url: null },
+          error: {
+            message: "Social sign-in is not available in local mode; use email and password",
+            status: 400,
+          },
+        };
+      },
+      async signOut() {
+        const { error } = await request("DELETE");
+        return { error };
+      },
+    },
+  };
+
+  return client as unknown as SupabaseClient;
+}
@@ -0,0 +1,79 @@
+/**
+ * Supabase client stand-in for local mode
+ * Table queries and RPCs run against the embedded database; auth covers what
+ * the server uses (getUser and admin.createUser) with local accounts.
+ * Returned as a SupabaseClient so the db modules and RAG pipeline run unchanged.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../database.types";
+import { createLocalUser, getLocalSession, LocalAuthError } from "./auth";
+import { getLocalDatabase } from "./database";
+import { callLocalFunction, LocalQueryBuilder } from "./query-builder";
+
+export interface LocalClientOptions {
+  /** Session token used when auth.getUser() is called without one (the cookie) */
+  getSessionToken?: () => string | undefined;
+}
+
+function toAuthError(error: unknown) {
+  return {
+    name: "AuthApiError",
+    message: error instanceof Error ? error.message : String(error),
+    status: error instanceof LocalAuthError ? error.status : 500,
+  };
+}
+
+export function createLocalClient(
+  options: LocalClientOptions = {}
+): SupabaseClient<Database> {
+  const client = {
+    from: (table: string) => new LocalQueryBuilder(getLocalDatabase, table),
+    rpc: (name: string, args?: Record<string, unknown>) =>
+      callLocalFunction(getLocalDatabase, name, args),
+    auth: {
+      async getUser(token?: string) {
+        const accessToken = token ?? options.getSessionToken?.();
+        if (!accessToken) {
+          return {
+            data: { user: null },
+            error: toAuthError(new LocalAuthError("Auth session missing!", 401)),
+          };
+        }
+
+        try {
+          const session = await getLocalSession(accessToken);
+          if (!session) {
+            return {
+              data: { user: null },
+              error: toAuthError(new LocalAuthError("Invalid or expired session", 401)),
+            };
+          }
+          return { data: { user: session.user }, error: null };
+        } catch (error) {
+          return { data: { user: null }, error: toAuthError(error) };
+        }
+      },
+      admin: {
+        async createUser(attributes: {
+          email: string;
+          password: string;
+          user_metadata?: Record<string, unknown>;
+        }) {
+          try {
+            const user = await createLocalUser(
+              attributes.email,
+              attributes.password,
+              attributes.user_metadata
+            );
+            return { data: { user }, error: null };
+          } catch (error) {
+            return { data: { user: null }, error: toAuthError(error) };
+          }
+        },
+      },
+    },
+  };
+
+  return client as unknown as SupabaseClient<Database>;
+}
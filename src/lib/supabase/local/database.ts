@@ -0,0 +1,74 @@
+/**
+ * Embedded Postgres for local mode
+ * PGlite (Postgres compiled to WebAssembly) with pgvector, stored under
+ * LOCAL_DATA_DIR and migrated with the same SQL files as Supabase on first use
+ */
+
+import { mkdir } from "fs/promises";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { uuid_ossp } from "@electric-sql/pglite/contrib/uuid_ossp";
+import { vector } from "@electric-sql/pglite-pgvector";
+import { migrateDatabase } from "@/supabase/migrator";
+
+const DEFAULT_DATA_DIR = ".local/db";
+
+// Password and session storage for local accounts (Supabase Auth's job otherwise)
+const LOCAL_AUTH_SQL = `
+ALTER TABLE auth.users
+    ADD COLUMN IF NOT EXISTS encrypted_password TEXT,
+    ADD COLUMN IF NOT EXISTS raw_user_meta_data JSONB;
+
+CREATE TABLE IF NOT EXISTS auth.sessions (
+    id TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth.sessions(user_id);`;
+
+// Kept on globalThis so dev-server module reloads reuse the open database
+const globalForLocalDatabase = globalThis as typeof globalThis & {
+  localDatabase?: Promise<PGlite>;
+};
+
+/**
+ * The process-wide embedded database, opened and migrated on first call
+ */
+export function getLocalDatabase(): Promise<PGlite> {
+  if (!globalForLocalDatabase.localDatabase) {
+    globalForLocalDatabase.localDatabase = openLocalDatabase().catch((error) => {
+      globalForLocalDatabase.localDatabase = undefined;
+      throw error;
+    });
+  }
+  return globalForLocalDatabase.localDatabase;
+}
+
+async function openLocalDatabase(): Promise<PGlite> {
+  const configured = process.env.LOCAL_DATA_DIR?.trim() || DEFAULT_DATA_DIR;
+  // memory:// keeps everything in memory, e.g. for throwaway runs
+  const dataDir = configured.startsWith("memory://")
+    ? configured
+    : path.resolve(configured);
+  if (!configured.startsWith("memory://")) {
+    await mkdir(dataDir, { recursive: true });
+  }
+
+  console.log(`[DB] Opening local database at ${dataDir}`);
+  const db = await PGlite.create(dataDir, { extensions: { vector, uuid_ossp } });
+
+  await migrateDatabase(
+    {
+      query: (sql, params) => db.query(sql, params),
+      exec: async (sql) => {
+        await db.exec(sql);
+      },
+    },
+    { dryRun: false }
+  );
+  await db.exec(LOCAL_AUTH_SQL);
+
+  return db;
+}
@@ -0,0 +1,546 @@
+/**
+ * PostgREST-style query builder over the embedded database
+ * Implements the slice of the supabase-js builder API the app uses (select,
+ * insert, upsert, update, delete, eq/neq/in/is filters, order, limit, range,
+ * single, maybeSingle and rpc), resolving to the same { data, error, count }
+ * results so callers cannot tell the difference.
+ */
+
+import type { PGlite } from "@electric-sql/pglite";
+
+export interface LocalPostgrestError {
+  message: string;
+  /** SQLSTATE, or a PostgREST code such as PGRST116 */
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+export interface LocalPostgrestResponse<T = unknown> {
+  data: T | null;
+  error: LocalPostgrestError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+type Action = "select" | "insert" | "upsert" | "update" | "delete";
+type ResultMode = "many" | "single" | "maybeSingle";
+type FilterOperator = "eq" | "neq" | "in" | "is";
+type Row = Record<string, unknown>;
+
+interface Filter {
+  column: string;
+  operator: FilterOperator;
+  value: unknown;
+}
+
+interface TableInfo {
+  /** Column name to udt_name (e.g. "vector", "jsonb", "_text") */
+  columnTypes: Map<string, string>;
+  primaryKey: string[];
+}
+
+interface FunctionInfo {
+  /** Input parameter name to udt_name */
+  parameterTypes: Map<string, string>;
+  returnsRows: boolean;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const NO_ROWS_MESSAGE = "JSON object requested, multiple (or no) rows returned";
+
+// Schema lookups are cached per database; migrations only run at startup
+const tableInfoCache = new WeakMap<PGlite, Map<string, Promise<TableInfo>>>();
+const functionInfoCache = new WeakMap<PGlite, Map<string, Promise<FunctionInfo>>>();
+
+class LocalQueryError extends Error {
+  constructor(message: string, public code = "PGRST100") {
+    super(message);
+    this.name = "LocalQueryError";
+  }
+}
+
+function quoteIdentifier(name: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new LocalQueryError(`Unsupported identifier: ${name}`);
+  }
+  return `"${name}"`;
+}
+
+/**
+ * Turn a select string ("*", "id, name") into a SQL column list
+ */
+function toColumnList(columns: string): string {
+  return columns
+    .split(",")
+    .map((column) => column.trim())
+    .filter(Boolean)
+    .map((column) => (column === "*" ? "*" : quoteIdentifier(column)))
+    .join(", ") || "*";
+}
+
+/**
+ * Encode a value the way PostgREST would accept it for a column type
+ */
+function encodeValue(value: unknown, udtName: string | undefined): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (udtName === "vector" && Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  if (udtName === "json" || udtName === "jsonb") {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Match PostgREST's JSON output: timestamps as ISO strings
+ */
+function decodeRow(row: Row): Row {
+  const decoded: Row = {};
+  for (const [key, value] of Object.entries(row)) {
+    decoded[key] = value instanceof Date ? value.toISOString() : value;
+  }
+  return decoded;
+}
+
+function toPostgrestError(error: unknown): LocalPostgrestError {
+  const source = error as {
+    message?: string;
+    code?: string;
+    detail?: string;
+    hint?: string;
+  };
+  return {
+    message: source?.message || String(error),
+    code: source?.code || "PGRST000",
+    details: source?.detail || null,
+    hint: source?.hint || null,
+  };
+}
+
+function success<T>(data: T, count: number | null = null, status = 200): LocalPostgrestResponse<T> {
+  return { data, error: null, count, status, statusText: "OK" };
+}
+
+function failure<T>(error: unknown, status = 400): LocalPostgrestResponse<T> {
+  return {
+    data: null,
+    error: toPostgrestError(error),
+    count: null,
+    status,
+    statusText: "Bad Request",
+  };
+}
+
+async function getTableInfo(db: PGlite, table: string): Promise<TableInfo> {
+  let cache = tableInfoCache.get(db);
+  if (!cache) {
+    cache = new Map();
+    tableInfoCache.set(db, cache);
+  }
+
+  let info = cache.get(table);
+  if (!info) {
+    info = (async () => {
+      const columns = await db.query<{ column_name: string; udt_name: string }>(
+        `SELECT column_name, udt_name FROM information_schema.columns
+         WHERE table_schema = 'public' AND table_name = $1`,
+        [table]
+      );
+      if (columns.rows.length === 0) {
+        throw new LocalQueryError(`Relation "public.${table}" does not exist`, "42P01");
+      }
+
+      const primaryKey = await db.query<{ column_name: string }>(
+        `SELECT a.attname AS column_name
+         FROM pg_index i
+         JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+         WHERE i.indrelid = ('public.' || quote_ident($1))::regclass AND i.indisprimary`,
+        [table]
+      );
+
+      return {
+        columnTypes: new Map(columns.rows.map((row) => [row.column_name, row.udt_name])),
+        primaryKey: primaryKey.rows.map((row) => row.column_name),
+      };
+    })();
+    info.catch(() => cache!.delete(table));
+    cache.set(table, info);
+  }
+  return info;
+}
+
+async function getFunctionInfo(db: PGlite, name: string): Promise<FunctionInfo> {
+  let cache = functionInfoCache.get(db);
+  if (!cache) {
+    cache = new Map();
+    functionInfoCache.set(db, cache);
+  }
+
+  let info = cache.get(name);
+  if (!info) {
+    info = (async () => {
+      const routine = await db.query<{ returns_set: boolean; return_kind: string }>(
+        `SELECT p.proretset AS returns_set, t.typtype AS return_kind
+         FROM pg_proc p
+         JOIN pg_namespace n ON n.oid = p.pronamespace
+         JOIN pg_type t ON t.oid = p.prorettype
+         WHERE n.nspname = 'public' AND p.proname = $1`,
+        [name]
+      );
+      if (routine.rows.length === 0) {
+        throw new LocalQueryError(`Could not find the function public.${name}`, "PGRST202");
+      }
+
+      const parameters = await db.query<{ parameter_name: string; udt_name: string }>(
+        `SELECT p.parameter_name, p.udt_name
+         FROM information_schema.parameters p
+         JOIN information_schema.routines r ON r.specific_name = p.specific_name
+         WHERE r.routine_schema = 'public' AND r.routine_name = $1
+           AND p.parameter_mode = 'IN'`,
+        [name]
+      );
+
+      const { returns_set, return_kind } = routine.rows[0];
+      return {
+        parameterTypes: new Map(
+          parameters.rows.map((row) => [row.parameter_name, row.udt_name])
+        ),
+        // Sets and composite/record results come back as rows, like PostgREST
+        returnsRows: returns_set || return_kind === "c" || return_kind === "p",
+      };
+    })();
+    info.catch(() => cache!.delete(name));
+    cache.set(name, info);
+  }
+  return info;
+}
+
+/**
+ * Thenable builder for one table operation
+ */
+export class LocalQueryBuilder<T = unknown> implements PromiseLike<LocalPostgrestResponse<T>> {
+  private action: Action = "select";
+  private columns = "*";
+  /** Columns to return from a mutation; null returns nothing */
+  private returning: string | null = null;
+  private values: Row[] = [];
+  private onConflict?: string;
+  private ignoreDuplicates = false;
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private limitCount?: number;
+  private offsetCount?: number;
+  private countExact = false;
+  private head = false;
+  private resultMode: ResultMode = "many";
+
+  constructor(
+    private readonly getDatabase: () => Promise<PGlite>,
+    private readonly table: string
+  ) {}
+
+  select(
+    columns = "*",
+    options: { count?: "exact" | "planned" | "estimated"; head?: boolean } = {}
+  ): this {
+    if (this.action === "select") {
+      this.columns = columns;
+    } else {
+      this.returning = columns;
+    }
+    this.countExact = Boolean(options.count);
+    this.head = Boolean(options.head);
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(
+    values: Row | Row[],
+    options: { onConflict?: string; ignoreDuplicates?: boolean } = {}
+  ): this {
+    this.action = "upsert";
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict;
+    this.ignoreDuplicates = Boolean(options.ignoreDuplicates);
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = "update";
+    this.values = [values];
+    return this;
+  }
+
+  delete(): this {
+    this.action = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push({ column, operator: "eq", value });
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push({ column, operator: "neq", value });
+    return this;
+  }
+
+  in(column: string, values: readonly unknown[]): this {
+    this.filters.push({ column, operator: "in", value: [...values] });
+    return this;
+  }
+
+  is(column: string, value: boolean | null): this {
+    this.filters.push({ column, operator: "is", value });
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.offsetCount = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  single(): this {
+    this.resultMode = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.resultMode = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = LocalPostgrestResponse<T>, TResult2 = never>(
+    onfulfilled?: ((value: LocalPostgrestResponse<T>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private async execute(): Promise<LocalPostgrestResponse<T>> {
+    try {
+      const db = await this.getDatabase();
+      const info = await getTableInfo(db, this.table);
+      const params: unknown[] = [];
+      const where = this.buildWhere(info, params);
+
+      if (this.action === "select") {
+        return await this.runSelect(db, where, params);
+      }
+
+      const sql = this.buildMutation(info, where, params);
+      const result = await db.query<Row>(sql, params);
+      if (this.returning === null) {
+        return success(null as T, null, this.action === "insert" ? 201 : 204);
+      }
+      return this.shape(result.rows.map(decodeRow), null);
+    } catch (error) {
+      return failure(error);
+    }
+  }
+
+  private async runSelect(
+    db: PGlite,
+    where: string,
+    params: unknown[]
+  ): Promise<LocalPostgrestResponse<T>> {
+    const from = `FROM public.${quoteIdentifier(this.table)}${where}`;
+
+    let count: number | null = null;
+    if (this.countExact) {
+      const counted = await db.query<{ count: number }>(
+        `SELECT count(*)::int AS count ${from}`,
+        params
+      );
+      count = counted.rows[0].count;
+    }
+    if (this.head) {
+      return success(null as T, count);
+    }
+
+    let sql = `SELECT ${toColumnList(this.columns)} ${from}`;
+    if (this.orders.length > 0) {
+      sql += ` ORDER BY ${this.orders
+        .map((order) => `${quoteIdentifier(order.column)} ${order.ascending ? "ASC" : "DESC"}`)
+        .join(", ")}`;
+    }
+    if (this.limitCount !== undefined) {
+      sql += ` LIMIT ${Math.max(0, Math.floor(this.limitCount))}`;
+    }
+    if (this.offsetCount !== undefined) {
+      sql += ` OFFSET ${Math.max(0, Math.floor(this.offsetCount))}`;
+    }
+
+    const result = await db.query<Row>(sql, params);
+    return this.shape(result.rows.map(decodeRow), count);
+  }
+
+  private buildWhere(info: TableInfo, params: unknown[]): string {
+    if (this.filters.length === 0) {
+      return "";
+    }
+
+    const conditions = this.filters.map(({ column, operator, value }) => {
+      const identifier = quoteIdentifier(column);
+      const udtName = info.columnTypes.get(column);
+      switch (operator) {
+        case "eq":
+          params.push(encodeValue(value, udtName));
+          return `${identifier} = $${params.length}`;
+        case "neq":
+          params.push(encodeValue(value, udtName));
+          return `${identifier} <> $${params.length}`;
+        case "in":
+          params.push(value);
+          return `${identifier} = ANY($${params.length})`;
+        case "is":
+          return `${identifier} IS ${value === null ? "NULL" : value ? "TRUE" : "FALSE"}`;
+      }
+    });
+    return ` WHERE ${conditions.join(" AND ")}`;
+  }
+
+  private buildMutation(info: TableInfo, where: string, params: unknown[]): string {
+    const table = `public.${quoteIdentifier(this.table)}`;
+    const returning =
+      this.returning === null ? "" : ` RETURNING ${toColumnList(this.returning)}`;
+
+    if (this.action === "delete") {
+      return `DELETE FROM ${table}${where}${returning}`;
+    }
+
+    if (this.action === "update") {
+      // WHERE placeholders were numbered first, so SET continues after them
+      const assignments = Object.entries(this.values[0])
+        .filter(([, value]) => value !== undefined)
+        .map(([column, value]) => {
+          params.push(encodeValue(value, info.columnTypes.get(column)));
+          return `${quoteIdentifier(column)} = $${params.length}`;
+        });
+      if (assignments.length === 0) {
+        throw new LocalQueryError("Update requires at least one column");
+      }
+      return `UPDATE ${table} SET ${assignments.join(", ")}${where}${returning}`;
+    }
+
+    const columns = [
+      ...new Set(this.values.flatMap((row) => Object.keys(row))),
+    ];
+    if (columns.length === 0) {
+      throw new LocalQueryError("Insert requires at least one column");
+    }
+    const rows = this.values.map((row) => {
+      const placeholders = columns.map((column) => {
+        if (row[column] === undefined) {
+          return "DEFAULT";
+        }
+        params.push(encodeValue(row[column], info.columnTypes.get(column)));
+        return `$${params.length}`;
+      });
+      return `(${placeholders.join(", ")})`;
+    });
+
+    let sql = `INSERT INTO ${table} (${columns.map(quoteIdentifier).join(", ")}) VALUES ${rows.join(", ")}`;
+    if (this.action === "upsert") {
+      const conflictColumns = this.onConflict
+        ? this.onConflict.split(",").map((column) => column.trim())
+        : info.primaryKey;
+      const updates = columns.filter((column) => !conflictColumns.includes(column));
+      sql += ` ON CONFLICT (${conflictColumns.map(quoteIdentifier).join(", ")})`;
+      sql +=
+        this.ignoreDuplicates || updates.length === 0
+          ? " DO NOTHING"
+          : ` DO UPDATE SET ${updates
+              .map((column) => `${quoteIdentifier(column)} = EXCLUDED.${quoteIdentifier(column)}`)
+              .join(", ")}`;
+    }
+    return sql + returning;
+  }
+
+  /**
+   * Apply single()/maybeSingle() to the returned rows
+   */
+  private shape(rows: Row[], count: number | null): LocalPostgrestResponse<T> {
+    if (this.resultMode === "many") {
+      return success(rows as T, count);
+    }
+    if (rows.length === 1) {
+      return success(rows[0] as T, count);
+    }
+    if (rows.length === 0 && this.resultMode === "maybeSingle") {
+      return success(null as T, count);
+    }
+    return failure(
+      {
+        message: NO_ROWS_MESSAGE,
+        code: "PGRST116",
+        detail: `The result contains ${rows.length} rows`,
+      },
+      406
+    );
+  }
+}
+
+/**
+ * Call a public function like supabase.rpc(): set-returning and composite
+ * functions resolve to rows, scalar functions to the value
+ */
+export async function callLocalFunction<T = unknown>(
+  getDatabase: () => Promise<PGlite>,
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<LocalPostgrestResponse<T>> {
+  try {
+    const db = await getDatabase();
+    const info = await getFunctionInfo(db, name);
+
+    const params: unknown[] = [];
+    const namedArgs = Object.entries(args)
+      .filter(([, value]) => value !== undefined)
+      .map(([argName, value]) => {
+        const udtName = info.parameterTypes.get(argName);
+        if (!udtName) {
+          throw new LocalQueryError(
+            `Could not find the function public.${name} with parameter ${argName}`,
+            "PGRST202"
+          );
+        }
+        params.push(encodeValue(value, udtName));
+        return `${quoteIdentifier(argName)} => $${params.length}::${quoteIdentifier(udtName)}`;
+      });
+
+    const call = `public.${quoteIdentifier(name)}(${namedArgs.join(", ")})`;
+    if (info.returnsRows) {
+      const result = await db.query<Row>(`SELECT * FROM ${call}`, params);
+      return success(result.rows.map(decodeRow) as T);
+    }
+
+    const result = await db.query<{ result: unknown }>(`SELECT ${call} AS result`, params);
+    const value = result.rows[0]?.result;
+    return success((value instanceof Date ? value.toISOString() : value) as T);
+  } catch (error) {
+    return failure(error);
+  }
+}
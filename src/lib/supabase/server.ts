@@ -1,13 +1,23 @@
 /**
  * Server-side client for Supabase (SSR-compliant)
  * Use this in Next.js API routes, Server Components, and server-side code
+ * In local mode the session comes from the local session cookie instead
  */
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import { LOCAL_SESSION_COOKIE } from './local/auth';
+import { createLocalClient } from './local/client';
+import { isLocalMode } from '@/lib/local-mode';
 
 
 export async function createClient() {
   const cookieStore = await cookies();
+  if (isLocalMode()) {
+    return createLocalClient({
+      getSessionToken: () => cookieStore.get(LOCAL_SESSION_COOKIE)?.value,
+    });
+  }
+
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const publicAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
   
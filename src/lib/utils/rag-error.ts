@@ -0,0 +1,74 @@
+import {
+  ChatModelProviderName,
+  getChatModelConfigFromEnv,
+} from "@/lib/ai/chat-model-provider";
+
+// How each chat model provider is named in messages, and the setting holding its key
+const PROVIDER_SETTINGS: Record<ChatModelProviderName, { label: string; setting: string }> = {
+  gemini: { label: "Gemini", setting: "GOOGLE_AI_API_KEY" },
+  anthropic: { label: "Anthropic", setting: "ANTHROPIC_API_KEY" },
+  huggingface: { label: "Hugging Face", setting: "HF_TOKEN" },
+  "openai-compatible": { label: "OpenAI-compatible", setting: "OPENAI_COMPATIBLE_API_KEY" },
+  stub: { label: "The stub model", setting: "LLM_PROVIDER" },
+};
+
+/**
+ * The configured chat model provider: the repository's choice, else the server's
+ */
+function resolveProvider(provider?: ChatModelProviderName): ChatModelProviderName | undefined {
+  if (provider) {
+    return provider;
+  }
+  try {
+    return getChatModelConfigFromEnv().provider;
+  } catch {
+    // An unknown LLM_PROVIDER is reported by the error itself
+    return undefined;
+  }
+}
+
+/**
+ * Turn a RAG pipeline error into the assistant reply shown to the user
+ *
+ * Rules:
+ * - Keep errors that already name a provider or setting; they say what to fix
+ * - Map API key / authentication failures to a configuration hint for the configured provider
+ * - Map missing configuration and quota errors to actionable messages
+ * - Fall back to the original error message
+ * @param error - Error thrown while answering
+ * @param provider - The repository's chat model provider (defaults to the server's)
+ */
+export function formatRagErrorResponse(
+  error: unknown,
+  provider?: ChatModelProviderName
+): string {
+  let errorMessage =
+    (error instanceof Error && error.message) || "Unknown error occurred";
+
+  const namesSetting =
+    /Gemini|Anthropic|Hugging Face|OpenAI-compatible|HF_TOKEN|_API_KEY|LLM_PROVIDER|EMBEDDING_PROVIDER/.test(
+      errorMessage
+    );
+  const resolved = resolveProvider(provider);
+  const settings = resolved ? PROVIDER_SETTINGS[resolved] : undefined;
+  // Embedding failures look the same, so both settings are named when the provider is unknown
+  const keyHint = settings
+    ? `the ${settings.setting} environment variable (or the embedding provider's key)`
+    : "the API keys of the configured chat model (LLM_PROVIDER) and embedding model (EMBEDDING_PROVIDER)";
+  const label = settings?.label || "The model provider";
+
+  if (namesSetting) {
+    // Already names the setting to fix
+  } else if (
+    errorMessage.includes("API key") ||
+    errorMessage.includes("authentication")
+  ) {
+    errorMessage = `${label} rejected the API key. Please check ${keyHint}.`;
+  } else if (errorMessage.includes("not configured")) {
+    errorMessage = `${label} is not configured. Please set ${keyHint}.`;
+  } else if (errorMessage.includes("quota")) {
+    errorMessage = `${label} quota exceeded. Please check your usage limits or upgrade your plan.`;
+  }
+
+  return `I encountered an error while analyzing your question: ${errorMessage}. Please try again or contact support if the issue persists.`;
+}
@@ -0,0 +1,11 @@
+-- Migration: 002_add_indexed_commit_sha.sql
+-- Description: Record the commit each repository was indexed at so it can be synced incrementally
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- Commit SHA of the upstream tree the current embeddings were built from.
+-- NULL means the repository has never been fully indexed and the next sync
+-- performs a full re-index.
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS indexed_commit_sha TEXT;
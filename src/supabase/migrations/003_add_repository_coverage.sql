@@ -0,0 +1,12 @@
+-- Migration: 003_add_repository_coverage.sql
+-- Description: Persist the crawl coverage report produced when a repository is indexed
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- Shape (see src/lib/rag/crawler.ts CrawlCoverage):
+--   { totalFiles, indexedFiles, indexedBytes, treeTruncated, budget,
+--     skippedByReason: { reason: count }, skipped: [{ path, size, reason }] }
+-- The skipped list excludes unsupported file types and is capped at 500 entries.
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS coverage JSONB;
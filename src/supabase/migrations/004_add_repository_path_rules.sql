@@ -0,0 +1,13 @@
+-- Migration: 004_add_repository_path_rules.sql
+-- Description: Per-repository include/exclude globs applied when crawling files
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- include_patterns: globs that force files in (e.g. '*.proto', '*.tf'), even when
+--                   their extension is not indexed by default
+-- exclude_patterns: gitignore-style globs (e.g. 'fixtures/', '*.snap'), applied
+--                   after the repository's committed .repochatignore file
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS include_patterns TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS exclude_patterns TEXT[] NOT NULL DEFAULT '{}';
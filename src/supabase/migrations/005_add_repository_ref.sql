@@ -0,0 +1,17 @@
+-- Migration: 005_add_repository_ref.sql
+-- Description: Index a chosen branch, tag or commit; allow several refs of one repository
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- Branch, tag or commit SHA to index. NULL tracks the default branch.
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS ref TEXT;
+
+-- Each ref of a repository is a separate indexed entry, so uniqueness now
+-- includes the ref (NULL and the default branch share one slot per user)
+ALTER TABLE repositories
+    DROP CONSTRAINT IF EXISTS unique_user_repo;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_user_repo_ref
+    ON repositories (user_id, owner, name, COALESCE(ref, ''));
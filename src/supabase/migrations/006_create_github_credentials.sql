@@ -0,0 +1,26 @@
+-- Migration: 006_create_github_credentials.sql
+-- Description: Per-user GitHub personal access tokens for indexing private repositories
+
+-- ============================================================================
+-- GITHUB CREDENTIALS TABLE
+-- ============================================================================
+-- One token per user. The token is encrypted by the application
+-- (AES-256-GCM, see src/lib/crypto/secrets.ts) before it is stored; only the
+-- last four characters are kept in clear text for display.
+CREATE TABLE IF NOT EXISTS github_credentials (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    encrypted_token TEXT NOT NULL,
+    token_last4 TEXT NOT NULL,
+    github_login TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- RLS is enabled without policies: only the service role (server-side API
+-- routes) can read or write tokens, never the browser client.
+ALTER TABLE github_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_github_credentials_updated_at
+    BEFORE UPDATE ON github_credentials
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Migration: 007_add_message_citations.sql
+-- Description: Persist the sources an assistant answer cites alongside the message
+
+-- ============================================================================
+-- MESSAGES TABLE
+-- ============================================================================
+-- Shape (see src/lib/rag/citations.ts Citation):
+--   [{ index, filePath, chunkIndex, url, startLine?, endLine?, similarity? }]
+-- NULL for user messages and for answers produced before this migration.
+ALTER TABLE messages
+    ADD COLUMN IF NOT EXISTS citations JSONB;
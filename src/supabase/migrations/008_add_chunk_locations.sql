@@ -0,0 +1,57 @@
+-- Migration: 008_add_chunk_locations.sql
+-- Description: Return each chunk's file path and location metadata from match_embeddings
+
+-- ============================================================================
+-- EMBEDDINGS TABLE
+-- ============================================================================
+-- The application already writes file_path and metadata; make sure the
+-- columns exist. metadata shape (see src/lib/rag/vector-search.ts):
+--   { fileType, importance, startLine, endLine, startOffset, endOffset }
+-- Lines are 1-based; offsets are character positions within the file
+-- (endOffset exclusive). Chunks indexed before this migration have no location.
+ALTER TABLE embeddings
+    ADD COLUMN IF NOT EXISTS file_path TEXT,
+    ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+-- ============================================================================
+-- VECTOR SIMILARITY FUNCTION
+-- ============================================================================
+-- The return type changes, so the function must be dropped first
+DROP FUNCTION IF EXISTS match_embeddings(vector(384), TEXT, FLOAT, INT);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector(384),
+    match_repository_id TEXT,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 3
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.id,
+        e.repository_id,
+        e.text,
+        e.chunk_index,
+        e.file_path,
+        e.metadata,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM embeddings e
+    WHERE e.repository_id = match_repository_id
+        AND 1 - (e.embedding <=> query_embedding) > match_threshold
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_embeddings(vector(384), TEXT, FLOAT, INT) TO authenticated;
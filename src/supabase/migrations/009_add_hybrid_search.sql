@@ -0,0 +1,121 @@
+-- Migration: 009_add_hybrid_search.sql
+-- Description: Full-text search over chunks and hybrid (keyword + vector) retrieval
+
+-- ============================================================================
+-- SEARCH TEXT NORMALIZATION
+-- ============================================================================
+-- Makes identifiers searchable both whole and by their parts:
+-- "dbRepos.updateRepositoryStatus(" -> "dbRepos updateRepositoryStatus db Repos update Repository Status"
+-- Used for both the stored document vector and the query so they tokenize alike.
+CREATE OR REPLACE FUNCTION code_search_text(input TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+    SELECT regexp_replace(coalesce(input, ''), '[^[:alnum:]]+', ' ', 'g')
+        || ' '
+        || regexp_replace(
+            regexp_replace(coalesce(input, ''), '([[:lower:][:digit:]])([[:upper:]])', '\1 \2', 'g'),
+            '[^[:alnum:]]+', ' ', 'g'
+        );
+$$;
+
+-- ============================================================================
+-- EMBEDDINGS TABLE
+-- ============================================================================
+-- Keyword index over the chunk text (which starts with the file path, line
+-- range and symbol name) plus the file path itself.
+ALTER TABLE embeddings
+    ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('english'::regconfig, code_search_text(coalesce(file_path, '') || ' ' || text))
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_search_vector
+    ON embeddings USING gin (search_vector);
+
+-- ============================================================================
+-- HYBRID SIMILARITY FUNCTION
+-- ============================================================================
+-- Ranks chunks by vector similarity and by keyword relevance (ts_rank_cd over
+-- an OR of the query terms), then fuses the two rankings with weighted
+-- reciprocal rank fusion: score = w_s / (k + rank_s) + w_k / (k + rank_k).
+-- A chunk missing from one ranking contributes nothing for it.
+CREATE OR REPLACE FUNCTION hybrid_match_embeddings(
+    query_embedding vector(384),
+    query_text TEXT,
+    match_repository_id TEXT,
+    match_count INT DEFAULT 10,
+    semantic_weight FLOAT DEFAULT 1.0,
+    keyword_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 60,
+    candidate_count INT DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH search_query AS (
+        SELECT to_tsquery(
+            'english'::regconfig,
+            nullif(
+                array_to_string(
+                    regexp_split_to_array(trim(code_search_text(query_text)), '\s+'),
+                    ' | '
+                ),
+                ''
+            )
+        ) AS tsq
+    ),
+    semantic AS (
+        SELECT
+            e.id,
+            ROW_NUMBER() OVER (ORDER BY e.embedding <=> query_embedding) AS rank_ix
+        FROM embeddings e
+        WHERE e.repository_id = match_repository_id
+        ORDER BY e.embedding <=> query_embedding
+        LIMIT candidate_count
+    ),
+    keyword AS (
+        SELECT
+            e.id,
+            ts_rank_cd(e.search_vector, q.tsq) AS keyword_rank,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(e.search_vector, q.tsq) DESC) AS rank_ix
+        FROM embeddings e, search_query q
+        WHERE e.repository_id = match_repository_id
+            AND e.search_vector @@ q.tsq
+        ORDER BY keyword_rank DESC
+        LIMIT candidate_count
+    )
+    SELECT
+        e.id,
+        e.repository_id,
+        e.text,
+        e.chunk_index,
+        e.file_path,
+        e.metadata,
+        1 - (e.embedding <=> query_embedding) AS similarity,
+        coalesce(k.keyword_rank, 0)::FLOAT AS keyword_rank,
+        (
+            coalesce(semantic_weight / (rrf_k + s.rank_ix), 0)
+            + coalesce(keyword_weight / (rrf_k + k.rank_ix), 0)
+        )::FLOAT AS score
+    FROM semantic s
+    FULL OUTER JOIN keyword k ON k.id = s.id
+    JOIN embeddings e ON e.id = coalesce(s.id, k.id)
+    ORDER BY score DESC
+    LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION hybrid_match_embeddings(vector(384), TEXT, TEXT, INT, FLOAT, FLOAT, INT, INT) TO authenticated;
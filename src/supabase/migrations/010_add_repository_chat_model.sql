@@ -0,0 +1,20 @@
+-- Migration: 010_add_repository_chat_model.sql
+-- Description: Per-repository choice of chat model provider and model
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- llm_provider: 'gemini', 'anthropic', 'huggingface' or 'openai-compatible';
+--               NULL uses the server's LLM_PROVIDER
+-- llm_model:    model name for that provider; NULL uses the provider default
+--               (or LLM_MODEL when the provider matches the server's)
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS llm_provider TEXT,
+    ADD COLUMN IF NOT EXISTS llm_model TEXT;
+
+ALTER TABLE repositories
+    DROP CONSTRAINT IF EXISTS repositories_llm_provider_check;
+
+ALTER TABLE repositories
+    ADD CONSTRAINT repositories_llm_provider_check
+    CHECK (llm_provider IS NULL OR llm_provider IN ('gemini', 'anthropic', 'huggingface', 'openai-compatible'));
@@ -0,0 +1,166 @@
+-- Migration: 011_add_embedding_models.sql
+-- Description: Per-repository embedding model and dimension; dimension-agnostic vector storage
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- The embedding model the repository's index was built with. Queries and
+-- incremental syncs embed with the same model, so changing the server default
+-- (EMBEDDING_PROVIDER / EMBEDDING_MODEL) only affects new or re-analyzed indexes.
+-- embedding_provider: 'huggingface', 'local' or 'openai-compatible'
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS embedding_provider TEXT,
+    ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+    ADD COLUMN IF NOT EXISTS embedding_dimension INTEGER;
+
+-- Everything indexed so far used the Hugging Face all-MiniLM-L6-v2 model
+UPDATE repositories
+SET embedding_provider = 'huggingface',
+    embedding_model = 'sentence-transformers/all-MiniLM-L6-v2',
+    embedding_dimension = 384
+WHERE embedding_provider IS NULL
+    AND EXISTS (SELECT 1 FROM embeddings e WHERE e.repository_id = repositories.id);
+
+-- ============================================================================
+-- EMBEDDINGS TABLE
+-- ============================================================================
+-- An unconstrained vector column holds any model's dimension. HNSW indexes need
+-- a fixed dimension, so the global index is dropped: searches are always scoped
+-- to one repository and use idx_embeddings_repository_id instead.
+DROP INDEX IF EXISTS idx_embeddings_vector;
+
+ALTER TABLE embeddings
+    ALTER COLUMN embedding TYPE vector;
+
+-- ============================================================================
+-- VECTOR SIMILARITY FUNCTION
+-- ============================================================================
+-- Accepts a query vector of any dimension; rows of another dimension (an index
+-- mid-way through a model change) are skipped instead of raising an error
+DROP FUNCTION IF EXISTS match_embeddings(vector(384), TEXT, FLOAT, INT);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector,
+    match_repository_id TEXT,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 3
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.id,
+        e.repository_id,
+        e.text,
+        e.chunk_index,
+        e.file_path,
+        e.metadata,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM embeddings e
+    WHERE e.repository_id = match_repository_id
+        AND vector_dims(e.embedding) = vector_dims(query_embedding)
+        AND 1 - (e.embedding <=> query_embedding) > match_threshold
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_embeddings(vector, TEXT, FLOAT, INT) TO authenticated;
+
+-- ============================================================================
+-- HYBRID SIMILARITY FUNCTION
+-- ============================================================================
+-- Same ranking as migration 009, for query vectors of any dimension
+DROP FUNCTION IF EXISTS hybrid_match_embeddings(vector(384), TEXT, TEXT, INT, FLOAT, FLOAT, INT, INT);
+
+CREATE OR REPLACE FUNCTION hybrid_match_embeddings(
+    query_embedding vector,
+    query_text TEXT,
+    match_repository_id TEXT,
+    match_count INT DEFAULT 10,
+    semantic_weight FLOAT DEFAULT 1.0,
+    keyword_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 60,
+    candidate_count INT DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH search_query AS (
+        SELECT to_tsquery(
+            'english'::regconfig,
+            nullif(
+                array_to_string(
+                    regexp_split_to_array(trim(code_search_text(query_text)), '\s+'),
+                    ' | '
+                ),
+                ''
+            )
+        ) AS tsq
+    ),
+    candidates AS (
+        SELECT e.*
+        FROM embeddings e
+        WHERE e.repository_id = match_repository_id
+            AND vector_dims(e.embedding) = vector_dims(query_embedding)
+    ),
+    semantic AS (
+        SELECT
+            c.id,
+            ROW_NUMBER() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+        FROM candidates c
+        ORDER BY c.embedding <=> query_embedding
+        LIMIT candidate_count
+    ),
+    keyword AS (
+        SELECT
+            c.id,
+            ts_rank_cd(c.search_vector, q.tsq) AS keyword_rank,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(c.search_vector, q.tsq) DESC) AS rank_ix
+        FROM candidates c, search_query q
+        WHERE c.search_vector @@ q.tsq
+        ORDER BY keyword_rank DESC
+        LIMIT candidate_count
+    )
+    SELECT
+        c.id,
+        c.repository_id,
+        c.text,
+        c.chunk_index,
+        c.file_path,
+        c.metadata,
+        1 - (c.embedding <=> query_embedding) AS similarity,
+        coalesce(k.keyword_rank, 0)::FLOAT AS keyword_rank,
+        (
+            coalesce(semantic_weight / (rrf_k + s.rank_ix), 0)
+            + coalesce(keyword_weight / (rrf_k + k.rank_ix), 0)
+        )::FLOAT AS score
+    FROM semantic s
+    FULL OUTER JOIN keyword k ON k.id = s.id
+    JOIN candidates c ON c.id = coalesce(s.id, k.id)
+    ORDER BY score DESC
+    LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION hybrid_match_embeddings(vector, TEXT, TEXT, INT, FLOAT, FLOAT, INT, INT) TO authenticated;
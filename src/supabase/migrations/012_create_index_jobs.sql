@@ -0,0 +1,124 @@
+-- Migration: 012_create_index_jobs.sql
+-- Description: Durable queue for repository indexing, processed by the index worker
+
+-- ============================================================================
+-- INDEX JOBS TABLE
+-- ============================================================================
+-- One row per analysis ('embed': full index) or sync ('sync': incremental
+-- update) request. API routes only insert rows; the worker
+-- (POST /api/cron/index-jobs) claims, runs and finishes them.
+--
+-- status:       'queued' -> 'running' -> 'succeeded' | 'failed'
+--               (a failed attempt with attempts left goes back to 'queued')
+-- run_after:    earliest time the job may be claimed (retry backoff)
+-- heartbeat_at: refreshed while a worker runs the job; a running job whose
+--               heartbeat is older than the timeout is treated as lost
+CREATE TABLE IF NOT EXISTS index_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    repository_id TEXT NOT NULL REFERENCES repositories(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('embed', 'sync')),
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_by TEXT,
+    locked_at TIMESTAMPTZ,
+    heartbeat_at TIMESTAMPTZ,
+    last_error TEXT,
+    finished_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Claim order for the worker
+CREATE INDEX IF NOT EXISTS idx_index_jobs_queue
+    ON index_jobs (run_after, created_at)
+    WHERE status = 'queued';
+
+-- Latest job per repository for dashboards
+CREATE INDEX IF NOT EXISTS idx_index_jobs_repository_id
+    ON index_jobs (repository_id, created_at DESC);
+
+-- At most one pending or running job per repository
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_index_job
+    ON index_jobs (repository_id)
+    WHERE status IN ('queued', 'running');
+
+ALTER TABLE index_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can see the jobs of their own repositories; only the service role writes
+CREATE POLICY "Users can view their own index jobs"
+    ON index_jobs FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_index_jobs_updated_at
+    BEFORE UPDATE ON index_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- CLAIM FUNCTION
+-- ============================================================================
+-- Atomically claims the oldest runnable job. FOR UPDATE SKIP LOCKED lets
+-- several workers poll concurrently without claiming the same row.
+CREATE OR REPLACE FUNCTION claim_index_job(worker_id TEXT)
+RETURNS SETOF index_jobs
+LANGUAGE sql
+AS $$
+    UPDATE index_jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_by = worker_id,
+        locked_at = NOW(),
+        heartbeat_at = NOW(),
+        last_error = NULL
+    WHERE id = (
+        SELECT id
+        FROM index_jobs
+        WHERE status = 'queued'
+            AND run_after <= NOW()
+        ORDER BY run_after, created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$;
+
+-- ============================================================================
+-- STALE JOB RECOVERY
+-- ============================================================================
+-- Running jobs whose worker stopped sending heartbeats (crash, deploy,
+-- serverless timeout) are re-queued with backoff, or failed once they are out
+-- of attempts; the repository is marked as errored in that case.
+CREATE OR REPLACE FUNCTION recover_stale_index_jobs(timeout_seconds INT DEFAULT 300)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    recovered INTEGER;
+BEGIN
+    WITH stale AS (
+        UPDATE index_jobs
+        SET status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+            run_after = NOW() + make_interval(secs => 30 * power(2, attempts - 1)),
+            finished_at = CASE WHEN attempts < max_attempts THEN NULL ELSE NOW() END,
+            locked_by = NULL,
+            last_error = 'Indexing stopped responding (worker timed out)'
+        WHERE status = 'running'
+            AND heartbeat_at < NOW() - make_interval(secs => timeout_seconds)
+        RETURNING repository_id, status, last_error
+    ),
+    failed_repositories AS (
+        UPDATE repositories r
+        SET status = 'error',
+            error = stale.last_error
+        FROM stale
+        WHERE r.id = stale.repository_id
+            AND stale.status = 'failed'
+    )
+    SELECT COUNT(*) INTO recovered FROM stale;
+
+    RETURN recovered;
+END;
+$$;
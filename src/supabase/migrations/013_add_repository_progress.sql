@@ -0,0 +1,12 @@
+-- Migration: 013_add_repository_progress.sql
+-- Description: Live indexing progress for the dashboard
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- progress: latest snapshot reported by the index worker while the repository
+--           is processing (phase, files fetched/total, chunks embedded/total,
+--           overall fraction and ETA); cleared once indexing finishes.
+--           Streamed to clients by GET /api/repositories/[id]/progress
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS progress JSONB;
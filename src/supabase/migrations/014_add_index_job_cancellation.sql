@@ -0,0 +1,18 @@
+-- Migration: 014_add_index_job_cancellation.sql
+-- Description: Cancellation of queued and running indexing jobs
+
+-- ============================================================================
+-- INDEX JOBS TABLE
+-- ============================================================================
+-- status 'cancelled': stopped at the user's request (POST /api/repositories/[id]/cancel)
+-- cancel_requested_at: set on a running job; the worker checks it between
+--                      pipeline phases and stops before writing to the index
+ALTER TABLE index_jobs
+    ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMPTZ;
+
+ALTER TABLE index_jobs
+    DROP CONSTRAINT IF EXISTS index_jobs_status_check;
+
+ALTER TABLE index_jobs
+    ADD CONSTRAINT index_jobs_status_check
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled'));
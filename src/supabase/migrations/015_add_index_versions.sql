@@ -0,0 +1,192 @@
+-- Migration: 015_add_index_versions.sql
+-- Description: Versioned index generations so queries never see a half-built index
+
+-- ============================================================================
+-- INDEX GENERATIONS
+-- ============================================================================
+-- Every (re-)index writes its rows under a new index_version. The repository's
+-- active_index_version is switched to it only after all rows are stored, then
+-- the older generations are deleted. Searches only read the active generation,
+-- so a re-index in progress, or one that fails midway, is never visible.
+-- Existing rows become generation 1, which is every repository's initial
+-- active version.
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS active_index_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE embeddings
+    ADD COLUMN IF NOT EXISTS index_version INTEGER NOT NULL DEFAULT 1;
+
+-- Chunk indexes are unique within a generation; two generations coexist while
+-- a new one is written
+ALTER TABLE embeddings
+    DROP CONSTRAINT IF EXISTS unique_repo_chunk;
+
+ALTER TABLE embeddings
+    ADD CONSTRAINT unique_repo_chunk UNIQUE (repository_id, index_version, chunk_index);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_repository_version
+    ON embeddings (repository_id, index_version);
+
+-- ============================================================================
+-- GENERATION COPY FUNCTION
+-- ============================================================================
+-- Incremental syncs start the new generation from the active one minus the
+-- files they touch, then add the re-embedded chunks on top. Copies vectors in
+-- the database instead of round-tripping them through the worker.
+CREATE OR REPLACE FUNCTION copy_index_generation(
+    copy_repository_id TEXT,
+    from_version INT,
+    to_version INT,
+    exclude_file_paths TEXT[] DEFAULT '{}'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    copied INTEGER;
+BEGIN
+    INSERT INTO embeddings (repository_id, text, embedding, chunk_index, file_path, metadata, index_version)
+    SELECT e.repository_id, e.text, e.embedding, e.chunk_index, e.file_path, e.metadata, to_version
+    FROM embeddings e
+    WHERE e.repository_id = copy_repository_id
+        AND e.index_version = from_version
+        AND (e.file_path IS NULL OR NOT (e.file_path = ANY(exclude_file_paths)));
+
+    GET DIAGNOSTICS copied = ROW_COUNT;
+    RETURN copied;
+END;
+$$;
+
+-- ============================================================================
+-- VECTOR SIMILARITY FUNCTION
+-- ============================================================================
+-- Same as migration 011, restricted to the repository's active generation
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector,
+    match_repository_id TEXT,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 3
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        e.id,
+        e.repository_id,
+        e.text,
+        e.chunk_index,
+        e.file_path,
+        e.metadata,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM embeddings e
+    WHERE e.repository_id = match_repository_id
+        AND e.index_version = (
+            SELECT r.active_index_version FROM repositories r WHERE r.id = match_repository_id
+        )
+        AND vector_dims(e.embedding) = vector_dims(query_embedding)
+        AND 1 - (e.embedding <=> query_embedding) > match_threshold
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_embeddings(vector, TEXT, FLOAT, INT) TO authenticated;
+
+-- ============================================================================
+-- HYBRID SIMILARITY FUNCTION
+-- ============================================================================
+-- Same as migration 011, restricted to the repository's active generation
+CREATE OR REPLACE FUNCTION hybrid_match_embeddings(
+    query_embedding vector,
+    query_text TEXT,
+    match_repository_id TEXT,
+    match_count INT DEFAULT 10,
+    semantic_weight FLOAT DEFAULT 1.0,
+    keyword_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 60,
+    candidate_count INT DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH search_query AS (
+        SELECT to_tsquery(
+            'english'::regconfig,
+            nullif(
+                array_to_string(
+                    regexp_split_to_array(trim(code_search_text(query_text)), '\s+'),
+                    ' | '
+                ),
+                ''
+            )
+        ) AS tsq
+    ),
+    candidates AS (
+        SELECT e.*
+        FROM embeddings e
+        WHERE e.repository_id = match_repository_id
+            AND e.index_version = (
+                SELECT r.active_index_version FROM repositories r WHERE r.id = match_repository_id
+            )
+            AND vector_dims(e.embedding) = vector_dims(query_embedding)
+    ),
+    semantic AS (
+        SELECT
+            c.id,
+            ROW_NUMBER() OVER (ORDER BY c.embedding <=> query_embedding) AS rank_ix
+        FROM candidates c
+        ORDER BY c.embedding <=> query_embedding
+        LIMIT candidate_count
+    ),
+    keyword AS (
+        SELECT
+            c.id,
+            ts_rank_cd(c.search_vector, q.tsq) AS keyword_rank,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(c.search_vector, q.tsq) DESC) AS rank_ix
+        FROM candidates c, search_query q
+        WHERE c.search_vector @@ q.tsq
+        ORDER BY keyword_rank DESC
+        LIMIT candidate_count
+    )
+    SELECT
+        c.id,
+        c.repository_id,
+        c.text,
+        c.chunk_index,
+        c.file_path,
+        c.metadata,
+        1 - (c.embedding <=> query_embedding) AS similarity,
+        coalesce(k.keyword_rank, 0)::FLOAT AS keyword_rank,
+        (
+            coalesce(semantic_weight / (rrf_k + s.rank_ix), 0)
+            + coalesce(keyword_weight / (rrf_k + k.rank_ix), 0)
+        )::FLOAT AS score
+    FROM semantic s
+    FULL OUTER JOIN keyword k ON k.id = s.id
+    JOIN candidates c ON c.id = coalesce(s.id, k.id)
+    ORDER BY score DESC
+    LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION hybrid_match_embeddings(vector, TEXT, TEXT, INT, FLOAT, FLOAT, INT, INT) TO authenticated;
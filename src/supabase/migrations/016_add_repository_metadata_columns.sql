@@ -0,0 +1,21 @@
+-- Migration: 016_add_repository_metadata_columns.sql
+-- Description: Repository structure metadata written by indexing but missing from earlier migrations
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- Written by storeRepositoryMetadata (src/lib/rag/query.ts) after each index
+-- and included in every answer's context. Databases set up by hand may
+-- already have them, hence IF NOT EXISTS.
+-- readme:    README contents at the indexed commit
+-- file_tree: indented tree of the indexed file paths
+-- languages: languages detected from file extensions, e.g. {TypeScript,Python}
+-- framework: detected framework, e.g. 'Next.js'
+--
+-- embeddings.file_path / embeddings.metadata and the match_embeddings columns
+-- that return them were added in 008_add_chunk_locations.sql.
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS readme TEXT,
+    ADD COLUMN IF NOT EXISTS file_tree TEXT,
+    ADD COLUMN IF NOT EXISTS languages TEXT[],
+    ADD COLUMN IF NOT EXISTS framework TEXT;
@@ -0,0 +1,14 @@
+-- Migration: 017_add_stub_chat_model.sql
+-- Description: Allow the offline stub chat model (local mode) as a repository's provider
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- llm_provider: 'gemini', 'anthropic', 'huggingface', 'openai-compatible' or 'stub';
+--               NULL uses the server's LLM_PROVIDER
+ALTER TABLE repositories
+    DROP CONSTRAINT IF EXISTS repositories_llm_provider_check;
+
+ALTER TABLE repositories
+    ADD CONSTRAINT repositories_llm_provider_check
+    CHECK (llm_provider IS NULL OR llm_provider IN ('gemini', 'anthropic', 'huggingface', 'openai-compatible', 'stub'));
@@ -0,0 +1,53 @@
+-- Migration: 018_add_repository_sources.sql
+-- Description: Repositories read from git URLs, uploaded archives and server-local paths
+
+-- ============================================================================
+-- REPOSITORIES TABLE
+-- ============================================================================
+-- source_type: where the contents are read from
+--   'github'  - the GitHub API (url is the github.com URL)
+--   'git'     - a clone of any http(s) git URL (url is the clone URL)
+--   'archive' - an uploaded .zip or .tar.gz (url is the uploaded file name;
+--               the file is stored in repository_archives)
+--   'local'   - a directory on the server (url is its absolute path)
+ALTER TABLE repositories
+    ADD COLUMN IF NOT EXISTS source_type TEXT NOT NULL DEFAULT 'github';
+
+ALTER TABLE repositories
+    DROP CONSTRAINT IF EXISTS repositories_source_type_check;
+
+ALTER TABLE repositories
+    ADD CONSTRAINT repositories_source_type_check
+    CHECK (source_type IN ('github', 'git', 'archive', 'local'));
+
+-- Owner and name are only meaningful on GitHub; other sources derive them from
+-- the URL, path or file name, so those are unique per URL instead. Uploads are
+-- never deduplicated.
+DROP INDEX IF EXISTS unique_user_repo_ref;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_user_repo_ref
+    ON repositories (user_id, owner, name, COALESCE(ref, ''))
+    WHERE source_type = 'github';
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_user_repo_url_ref
+    ON repositories (user_id, source_type, url, COALESCE(ref, ''))
+    WHERE source_type IN ('git', 'local');
+
+-- ============================================================================
+-- REPOSITORY ARCHIVES TABLE
+-- ============================================================================
+-- The uploaded archive of an 'archive' repository, base64-encoded so it can be
+-- read through the REST API. sha256 identifies the upload and stands in for
+-- the commit SHA of the indexed contents.
+CREATE TABLE IF NOT EXISTS repository_archives (
+    repository_id TEXT PRIMARY KEY REFERENCES repositories(id) ON DELETE CASCADE,
+    file_name TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL,
+    sha256 TEXT NOT NULL,
+    content_base64 TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- RLS is enabled without policies: archives are only read and written by the
+-- service role (upload route and index worker).
+ALTER TABLE repository_archives ENABLE ROW LEVEL SECURITY;
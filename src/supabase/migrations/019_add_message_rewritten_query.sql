@@ -0,0 +1,12 @@
+-- Migration: 019_add_message_rewritten_query.sql
+-- Description: Persist the search queries an assistant answer was retrieved with
+
+-- ============================================================================
+-- MESSAGES TABLE
+-- ============================================================================
+-- Shape (see src/lib/rag/query-rewriter.ts RewrittenQuery):
+--   { query, subQueries: [] }
+-- query is the question rewritten to stand on its own using the chat history.
+-- NULL for user messages and for answers produced before this migration.
+ALTER TABLE messages
+    ADD COLUMN IF NOT EXISTS rewritten_query JSONB;
@@ -0,0 +1,55 @@
+-- Migration: 020_add_file_chunks_function.sql
+-- Description: Fetch a file's chunks by index range, for expanding search hits
+
+-- ============================================================================
+-- FILE CHUNK INDEX
+-- ============================================================================
+-- A file's chunks have consecutive chunk indexes within a generation
+CREATE INDEX IF NOT EXISTS idx_embeddings_file_chunks
+    ON embeddings (repository_id, index_version, file_path, chunk_index);
+
+-- ============================================================================
+-- FILE CHUNKS FUNCTION
+-- ============================================================================
+-- Returns the chunks of one file in the repository's active generation whose
+-- chunk_index lies in [start_index, end_index], in file order. NULL bounds are
+-- open; match_count caps the rows (NULL for all). Used to add the neighbours
+-- of a search hit, or a whole small file, to the answer context.
+CREATE OR REPLACE FUNCTION get_file_chunks(
+    match_repository_id TEXT,
+    match_file_path TEXT,
+    start_index INT DEFAULT NULL,
+    end_index INT DEFAULT NULL,
+    match_count INT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        e.id,
+        e.repository_id,
+        e.text,
+        e.chunk_index,
+        e.file_path,
+        e.metadata
+    FROM embeddings e
+    WHERE e.repository_id = match_repository_id
+        AND e.index_version = (
+            SELECT r.active_index_version FROM repositories r WHERE r.id = match_repository_id
+        )
+        AND e.file_path = match_file_path
+        AND (start_index IS NULL OR e.chunk_index >= start_index)
+        AND (end_index IS NULL OR e.chunk_index <= end_index)
+    ORDER BY e.chunk_index
+    LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_file_chunks(TEXT, TEXT, INT, INT, INT) TO authenticated;
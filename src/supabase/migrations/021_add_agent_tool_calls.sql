@@ -0,0 +1,56 @@
+-- Migration: 021_add_agent_tool_calls.sql
+-- Description: Record the tool calls of multi-step answers and look up symbols
+
+-- ============================================================================
+-- MESSAGES TABLE
+-- ============================================================================
+-- Shape (see src/lib/rag/agent-tools.ts AgentToolCall):
+--   [{ name, arguments, summary, error?, sources? }]
+-- NULL for user messages and for answers produced with a single retrieval pass.
+ALTER TABLE messages
+    ADD COLUMN IF NOT EXISTS tool_calls JSONB;
+
+-- ============================================================================
+-- SYMBOL LOOKUP FUNCTION
+-- ============================================================================
+-- Returns the chunks of the repository's active generation that declare a
+-- symbol: the chunk's primary symbol (metadata.symbolName), matched without
+-- regard to case, or one of the small declarations merged into it
+-- (metadata.symbols).
+CREATE OR REPLACE FUNCTION find_symbol_chunks(
+    match_repository_id TEXT,
+    symbol_name TEXT,
+    match_count INT DEFAULT 10
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        e.id,
+        e.repository_id,
+        e.text,
+        e.chunk_index,
+        e.file_path,
+        e.metadata
+    FROM embeddings e
+    WHERE e.repository_id = match_repository_id
+        AND e.index_version = (
+            SELECT r.active_index_version FROM repositories r WHERE r.id = match_repository_id
+        )
+        AND (
+            lower(e.metadata->>'symbolName') = lower(symbol_name)
+            OR e.metadata->'symbols' @> jsonb_build_array(jsonb_build_object('name', symbol_name))
+        )
+    ORDER BY e.file_path, e.chunk_index
+    LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_symbol_chunks(TEXT, TEXT, INT) TO authenticated;
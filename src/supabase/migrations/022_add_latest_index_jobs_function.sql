@@ -0,0 +1,19 @@
+-- Migration: 022_add_latest_index_jobs_function.sql
+-- Description: Fetch only the latest indexing job of each repository
+
+-- ============================================================================
+-- LATEST INDEX JOBS FUNCTION
+-- ============================================================================
+-- Returns the most recent job of each given repository. Dashboards load this
+-- on every refresh, so the finished jobs before it are never read; the
+-- (repository_id, created_at DESC) index serves the DISTINCT ON scan.
+CREATE OR REPLACE FUNCTION get_latest_index_jobs(repository_ids TEXT[])
+RETURNS SETOF index_jobs
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT DISTINCT ON (repository_id) *
+    FROM index_jobs
+    WHERE repository_id = ANY(repository_ids)
+    ORDER BY repository_id, created_at DESC;
+$$;
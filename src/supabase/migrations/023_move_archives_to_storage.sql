@@ -0,0 +1,30 @@
+-- Migration: 023_move_archives_to_storage.sql
+-- Description: Keep uploaded archives in Storage instead of table rows
+
+-- ============================================================================
+-- REPOSITORY ARCHIVES TABLE
+-- ============================================================================
+-- storage_path: the archive's object in the repository-archives bucket (in
+--               local mode, its file under LOCAL_ARCHIVES_DIR). Rows only
+--               point at the upload now; content_base64 is kept for archives
+--               uploaded before this migration and is NULL for new ones.
+ALTER TABLE repository_archives
+    ADD COLUMN IF NOT EXISTS storage_path TEXT;
+
+ALTER TABLE repository_archives
+    ALTER COLUMN content_base64 DROP NOT NULL;
+
+-- ============================================================================
+-- STORAGE BUCKET
+-- ============================================================================
+-- Private bucket, only used by the service role (upload route and index
+-- worker). Skipped where there is no Storage, such as the local database.
+DO $$
+BEGIN
+    IF to_regclass('storage.buckets') IS NOT NULL THEN
+        INSERT INTO storage.buckets (id, name, public)
+        VALUES ('repository-archives', 'repository-archives', false)
+        ON CONFLICT (id) DO NOTHING;
+    END IF;
+END
+$$;
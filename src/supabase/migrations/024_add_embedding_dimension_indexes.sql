@@ -0,0 +1,183 @@
+-- Migration: 024_add_embedding_dimension_indexes.sql
+-- Description: Per-dimension HNSW indexes for the dimension-agnostic embedding column
+
+-- ============================================================================
+-- EMBEDDINGS TABLE
+-- ============================================================================
+-- Migration 011 dropped idx_embeddings_vector because HNSW needs a fixed
+-- dimension, which left every similarity search a sequential scan over the
+-- repository's rows. Each known model dimension (see KNOWN_DIMENSIONS in
+-- src/lib/rag/embeddings.ts) gets a partial expression index instead; the
+-- search functions below cast to the same expression so the planner can use
+-- it. Other dimensions still work, without an index.
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_384
+    ON embeddings USING hnsw ((embedding::vector(384)) vector_cosine_ops)
+    WHERE vector_dims(embedding) = 384;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_768
+    ON embeddings USING hnsw ((embedding::vector(768)) vector_cosine_ops)
+    WHERE vector_dims(embedding) = 768;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_1024
+    ON embeddings USING hnsw ((embedding::vector(1024)) vector_cosine_ops)
+    WHERE vector_dims(embedding) = 1024;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_1536
+    ON embeddings USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+    WHERE vector_dims(embedding) = 1536;
+
+-- ============================================================================
+-- VECTOR SIMILARITY FUNCTION
+-- ============================================================================
+-- Same as migration 015. The query is built for the query vector's dimension,
+-- as a literal, so it matches the partial index's predicate and expression.
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector,
+    match_repository_id TEXT,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INT DEFAULT 3
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB,
+    similarity FLOAT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+    RETURN QUERY EXECUTE format(
+        $query$
+        SELECT
+            e.id,
+            e.repository_id,
+            e.text,
+            e.chunk_index,
+            e.file_path,
+            e.metadata,
+            (1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)))::FLOAT AS similarity
+        FROM embeddings e
+        WHERE e.repository_id = $2
+            AND e.index_version = (
+                SELECT r.active_index_version FROM repositories r WHERE r.id = $2
+            )
+            AND vector_dims(e.embedding) = %1$s
+            AND 1 - (e.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $3
+        ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+        LIMIT $4
+        $query$,
+        vector_dims(query_embedding)
+    )
+    USING query_embedding, match_repository_id, match_threshold, match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_embeddings(vector, TEXT, FLOAT, INT) TO authenticated;
+
+-- ============================================================================
+-- HYBRID SIMILARITY FUNCTION
+-- ============================================================================
+-- Same ranking as migration 015, with the semantic candidates read through the
+-- dimension's index as in match_embeddings
+CREATE OR REPLACE FUNCTION hybrid_match_embeddings(
+    query_embedding vector,
+    query_text TEXT,
+    match_repository_id TEXT,
+    match_count INT DEFAULT 10,
+    semantic_weight FLOAT DEFAULT 1.0,
+    keyword_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 60,
+    candidate_count INT DEFAULT 50
+)
+RETURNS TABLE (
+    id UUID,
+    repository_id TEXT,
+    text TEXT,
+    chunk_index INTEGER,
+    file_path TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+    RETURN QUERY EXECUTE format(
+        $query$
+        WITH search_query AS (
+            SELECT to_tsquery(
+                'english'::regconfig,
+                nullif(
+                    array_to_string(
+                        regexp_split_to_array(trim(code_search_text($2)), '\s+'),
+                        ' | '
+                    ),
+                    ''
+                )
+            ) AS tsq
+        ),
+        candidates AS (
+            SELECT e.*
+            FROM embeddings e
+            WHERE e.repository_id = $3
+                AND e.index_version = (
+                    SELECT r.active_index_version FROM repositories r WHERE r.id = $3
+                )
+                AND vector_dims(e.embedding) = %1$s
+        ),
+        semantic AS (
+            SELECT
+                e.id,
+                ROW_NUMBER() OVER (ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS rank_ix
+            FROM embeddings e
+            WHERE e.repository_id = $3
+                AND e.index_version = (
+                    SELECT r.active_index_version FROM repositories r WHERE r.id = $3
+                )
+                AND vector_dims(e.embedding) = %1$s
+            ORDER BY e.embedding::vector(%1$s) <=> $1::vector(%1$s)
+            LIMIT $8
+        ),
+        keyword AS (
+            SELECT
+                c.id,
+                ts_rank_cd(c.search_vector, q.tsq) AS keyword_rank,
+                ROW_NUMBER() OVER (ORDER BY ts_rank_cd(c.search_vector, q.tsq) DESC) AS rank_ix
+            FROM candidates c, search_query q
+            WHERE c.search_vector @@ q.tsq
+            ORDER BY keyword_rank DESC
+            LIMIT $8
+        )
+        SELECT
+            c.id,
+            c.repository_id,
+            c.text,
+            c.chunk_index,
+            c.file_path,
+            c.metadata,
+            (1 - (c.embedding::vector(%1$s) <=> $1::vector(%1$s)))::FLOAT AS similarity,
+            coalesce(k.keyword_rank, 0)::FLOAT AS keyword_rank,
+            (
+                coalesce($5 / ($7 + s.rank_ix), 0)
+                + coalesce($6 / ($7 + k.rank_ix), 0)
+            )::FLOAT AS score
+        FROM semantic s
+        FULL OUTER JOIN keyword k ON k.id = s.id
+        JOIN candidates c ON c.id = coalesce(s.id, k.id)
+        ORDER BY score DESC
+        LIMIT $4
+        $query$,
+        vector_dims(query_embedding)
+    )
+    USING query_embedding, query_text, match_repository_id, match_count,
+        semantic_weight, keyword_weight, rrf_k, candidate_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION hybrid_match_embeddings(vector, TEXT, TEXT, INT, FLOAT, FLOAT, INT, INT) TO authenticated;
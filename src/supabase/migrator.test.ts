@@ -0,0 +1,165 @@
+import { createHash } from "crypto";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MigrationDatabase, migrateDatabase } from "./migrator";
+
+const MIGRATIONS_DIR = path.join(process.cwd(), "src", "supabase", "migrations");
+
+interface AppliedRecord {
+  version: string;
+  name: string;
+  checksum: string;
+}
+
+/**
+ * Just enough of Postgres for the migrator: schema_migrations rows and the
+ * scripts it executes
+ */
+function createFakeDatabase(initial: AppliedRecord[] = []) {
+  const records = new Map(initial.map((record) => [record.version, record]));
+  let hasTable = initial.length > 0;
+  const executed: string[] = [];
+
+  const db: MigrationDatabase = {
+    async query(sql, params = []) {
+      if (sql.includes("to_regclass('auth.users')")) {
+        return { rows: [{ exists: true }] };
+      }
+      if (sql.includes("to_regclass('schema_migrations')")) {
+        return { rows: [{ exists: hasTable }] };
+      }
+      if (sql.startsWith("SELECT version, name, checksum FROM schema_migrations")) {
+        return { rows: [...records.values()] };
+      }
+      if (sql.startsWith("INSERT INTO schema_migrations")) {
+        if (!hasTable) {
+          throw new Error('relation "schema_migrations" does not exist');
+        }
+        const [version, name, checksum] = params as string[];
+        if (records.has(version) && !sql.includes("ON CONFLICT")) {
+          throw new Error(`duplicate key ${version}`);
+        }
+        if (!records.has(version)) {
+          records.set(version, { version, name, checksum });
+        }
+        return { rows: [] };
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    },
+    async exec(sql) {
+      if (sql.includes("CREATE TABLE IF NOT EXISTS schema_migrations")) {
+        hasTable = true;
+      }
+      executed.push(sql);
+    },
+  };
+
+  return { db, records, executed };
+}
+
+async function readMigrationFiles(): Promise<Array<AppliedRecord & { sql: string }>> {
+  const files = (await readdir(MIGRATIONS_DIR))
+    .filter((file) => /^\d+_[\w-]+\.sql$/.test(file))
+    .sort();
+  return Promise.all(
+    files.map(async (file) => {
+      const sql = await readFile(path.join(MIGRATIONS_DIR, file), "utf8");
+      return {
+        version: file.split("_")[0],
+        name: file,
+        sql,
+        checksum: createHash("sha256").update(sql).digest("hex"),
+      };
+    })
+  );
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("migrateDatabase", () => {
+  it("applies every migration in order and records its checksum", async () => {
+    const files = await readMigrationFiles();
+    const { db, records, executed } = createFakeDatabase();
+
+    const applied = await migrateDatabase(db, { dryRun: false });
+
+    expect(applied).toEqual(files.map((file) => file.name));
+    expect([...records.values()]).toEqual(
+      files.map(({ version, name, checksum }) => ({ version, name, checksum }))
+    );
+    const scripts = executed.filter((sql) => files.some((file) => file.sql === sql));
+    expect(scripts).toEqual(files.map((file) => file.sql));
+  });
+
+  it("has nothing to apply on a second run", async () => {
+    const { db, executed } = createFakeDatabase();
+    await migrateDatabase(db, { dryRun: false });
+    const executedBefore = executed.length;
+
+    expect(await migrateDatabase(db, { dryRun: false })).toEqual([]);
+    // Only the CREATE TABLE IF NOT EXISTS for schema_migrations
+    expect(executed.length).toBe(executedBefore + 1);
+  });
+
+  it("warns about an applied migration whose file changed, without re-running it", async () => {
+    const files = await readMigrationFiles();
+    const tampered = files.map(({ version, name, checksum }, i) => ({
+      version,
+      name,
+      checksum: i === 0 ? "0".repeat(64) : checksum,
+    }));
+    const { db, executed } = createFakeDatabase(tampered);
+
+    expect(await migrateDatabase(db, { dryRun: false })).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith(
+      `[Migrate] ${files[0].name} changed after it was applied; edits to applied migrations are not re-run`
+    );
+    expect(executed).not.toContain(files[0].sql);
+  });
+
+  it("lists pending migrations in a dry run without changing anything", async () => {
+    const files = await readMigrationFiles();
+    const { db, records, executed } = createFakeDatabase(files.slice(0, 2));
+
+    const pending = await migrateDatabase(db, { dryRun: true });
+
+    expect(pending).toEqual(files.slice(2).map((file) => file.name));
+    expect(records.size).toBe(2);
+    expect(executed).toEqual([]);
+  });
+
+  it("records migrations up to the baseline as applied without running them", async () => {
+    const files = await readMigrationFiles();
+    const baseline = files[2].version;
+    const { db, records, executed } = createFakeDatabase();
+
+    const applied = await migrateDatabase(db, { dryRun: false, baseline });
+
+    expect(applied).toEqual(files.slice(3).map((file) => file.name));
+    expect(records.get(baseline)?.checksum).toBe(files[2].checksum);
+    files.slice(0, 3).forEach((file) => expect(executed).not.toContain(file.sql));
+  });
+
+  it("reports the baseline in a dry run without recording it", async () => {
+    const files = await readMigrationFiles();
+    const baseline = files[2].version;
+    const { db, records, executed } = createFakeDatabase();
+
+    const pending = await migrateDatabase(db, { dryRun: true, baseline });
+
+    expect(pending).toEqual(files.slice(3).map((file) => file.name));
+    expect(console.log).toHaveBeenCalledWith(
+      `[Migrate] Would record 3 migration(s) up to ${baseline} as applied`
+    );
+    expect(records.size).toBe(0);
+    expect(executed).toEqual([]);
+  });
+});
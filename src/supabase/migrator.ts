@@ -0,0 +1,228 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/**
+ * Migration core shared by the CLI runner (migrate.ts) and the embedded
+ * local-mode database
+ * Applies pending SQL files from ./migrations in numeric order, recording each
+ * in schema_migrations. Works against anything that can run SQL, so it does
+ * not depend on a particular Postgres driver.
+ */
+
+import { createHash } from "crypto";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+
+// Resolved from the project root so it also works from bundled server code
+const MIGRATIONS_DIR = path.join(process.cwd(), "src", "supabase", "migrations");
+const MIGRATION_FILE_PATTERN = /^(\d+)_[\w-]+\.sql$/;
+
+const SCHEMA_MIGRATIONS_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);`;
+
+// Stand-ins for what Supabase provides, for local Postgres only
+const SUPABASE_SHIMS_SQL = `
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE TABLE IF NOT EXISTS auth.users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    email TEXT UNIQUE,
+    encrypted_password TEXT,
+    raw_user_meta_data JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION auth.uid()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::UUID;
+$$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+        CREATE ROLE authenticated NOLOGIN;
+    END IF;
+END
+$$;`;
+
+/**
+ * The SQL a migration run needs: parameterized queries and multi-statement
+ * scripts
+ */
+export interface MigrationDatabase {
+  query(sql: string, params?: unknown[]): Promise<{ rows: any[] }>;
+  exec(sql: string): Promise<void>;
+}
+
+export interface MigrateOptions {
+  dryRun: boolean;
+  /** Record migrations up to this version as applied without running them */
+  baseline?: string;
+}
+
+interface Migration {
+  version: string;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+/**
+ * Read migration files, sorted by version
+ */
+async function loadMigrations(): Promise<Migration[]> {
+  const files = (await readdir(MIGRATIONS_DIR))
+    .filter((file) => MIGRATION_FILE_PATTERN.test(file))
+    .sort();
+
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const sql = await readFile(path.join(MIGRATIONS_DIR, file), "utf8");
+    migrations.push({
+      version: file.match(MIGRATION_FILE_PATTERN)![1],
+      name: file,
+      sql,
+      checksum: createHash("sha256").update(sql).digest("hex"),
+    });
+  }
+
+  const versions = new Set<string>();
+  for (const migration of migrations) {
+    if (versions.has(migration.version)) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+    versions.add(migration.version);
+  }
+
+  return migrations;
+}
+
+/**
+ * Create the auth schema and role the migrations expect when they are missing
+ */
+async function ensureSupabaseShims(db: MigrationDatabase): Promise<void> {
+  const { rows } = await db.query(
+    "SELECT to_regclass('auth.users') IS NOT NULL AS exists"
+  );
+  if (rows[0].exists) {
+    return;
+  }
+
+  console.log("[Migrate] No auth schema found; creating local Supabase stand-ins");
+  await db.exec(SUPABASE_SHIMS_SQL);
+}
+
+async function getAppliedMigrations(
+  db: MigrationDatabase
+): Promise<Map<string, { name: string; checksum: string }>> {
+  const { rows: tables } = await db.query(
+    "SELECT to_regclass('schema_migrations') IS NOT NULL AS exists"
+  );
+  if (!tables[0].exists) {
+    return new Map();
+  }
+
+  const { rows } = await db.query(
+    "SELECT version, name, checksum FROM schema_migrations ORDER BY version"
+  );
+  return new Map(
+    rows.map((row) => [row.version, { name: row.name, checksum: row.checksum }])
+  );
+}
+
+/**
+ * Apply one migration and record it, in a single transaction
+ */
+async function applyMigration(db: MigrationDatabase, migration: Migration): Promise<void> {
+  await db.exec("BEGIN");
+  try {
+    await db.exec(migration.sql);
+    await db.query(
+      "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+      [migration.version, migration.name, migration.checksum]
+    );
+    await db.exec("COMMIT");
+  } catch (error) {
+    await db.exec("ROLLBACK");
+    throw new Error(
+      `Migration ${migration.name} failed: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Apply every pending migration
+ * Callers are responsible for keeping concurrent runs apart.
+ * @returns Names of the migrations applied (or pending, in a dry run)
+ */
+export async function migrateDatabase(
+  db: MigrationDatabase,
+  options: MigrateOptions
+): Promise<string[]> {
+  const migrations = await loadMigrations();
+
+  if (!options.dryRun) {
+    await db.exec(SCHEMA_MIGRATIONS_SQL);
+  }
+
+  const baselined = options.baseline
+    ? migrations.filter((migration) => migration.version <= options.baseline!)
+    : [];
+  if (options.baseline && options.dryRun) {
+    console.log(`[Migrate] Would record ${baselined.length} migration(s) up to ${options.baseline} as applied`);
+  } else if (options.baseline) {
+    for (const migration of baselined) {
+      await db.query(
+        `INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)
+         ON CONFLICT (version) DO NOTHING`,
+        [migration.version, migration.name, migration.checksum]
+      );
+    }
+    console.log(`[Migrate] Recorded ${baselined.length} migration(s) up to ${options.baseline} as applied`);
+  }
+
+  const applied = await getAppliedMigrations(db);
+  if (options.dryRun) {
+    // Nothing was recorded; report the pending list as if the baseline had been
+    for (const migration of baselined) {
+      if (!applied.has(migration.version)) {
+        applied.set(migration.version, { name: migration.name, checksum: migration.checksum });
+      }
+    }
+  }
+  for (const migration of migrations) {
+    const record = applied.get(migration.version);
+    if (record && record.checksum !== migration.checksum) {
+      console.warn(
+        `[Migrate] ${migration.name} changed after it was applied; edits to applied migrations are not re-run`
+      );
+    }
+  }
+
+  const pending = migrations.filter((migration) => !applied.has(migration.version));
+  if (pending.length === 0) {
+    console.log("[Migrate] Database is up to date");
+    return [];
+  }
+
+  if (options.dryRun) {
+    pending.forEach((migration) => console.log(`[Migrate] Pending: ${migration.name}`));
+    return pending.map((migration) => migration.name);
+  }
+
+  await ensureSupabaseShims(db);
+
+  for (const migration of pending) {
+    console.log(`[Migrate] Applying ${migration.name}`);
+    await applyMigration(db, migration);
+  }
+
+  console.log(`[Migrate] Applied ${pending.length} migration(s)`);
+  return pending.map((migration) => migration.name);
+}
@@ -1,36 +1,37 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // API client for Next.js API routes
 // All routes are now served from /api/* endpoints
+import type * as models from '@/lib/db/models';
+import type { CrawlCoverage } from '@/lib/rag/crawler';
+import type { Citation } from '@/lib/rag/citations';
+import type { ChatModelProviderName } from '@/lib/ai/chat-model-provider';
+import type { IndexProgress } from '@/lib/rag/progress';
+import type { RewrittenQuery } from '@/lib/rag/query-rewriter';
+import type { AnswerMode } from '@/lib/rag/query';
+import type { AgentToolCall } from '@/lib/rag/agent-tools';
+
 const BASE_URL = '/api';
 
-export interface Repository {
-  id: string;
-  userId: string;
-  url: string;
-  owner: string;
-  name: string;
-  status: 'processing' | 'ready' | 'error';
-  error?: string;
-  chunkCount?: number;
-  createdAt: string;
-  updatedAt: string;
-}
+// Response types are the server's domain models (src/lib/db/models.ts), so
+// they change together with the database layer
+export type { AgentToolCall, AnswerMode, IndexProgress, RewrittenQuery };
+export type RepositoryCoverage = CrawlCoverage;
+export type IndexJob = models.IndexJob;
+export type ChatModelProvider = ChatModelProviderName;
 
-export interface Chat {
-  id: string;
-  repoId: string;
-  userId: string;
-  title: string;
-  createdAt: string;
-  updatedAt: string;
-}
+export type Repository = models.Repository & {
+  /** Latest indexing job (analysis or sync) */
+  indexJob?: IndexJob;
+};
+
+export type Chat = models.Chat;
+export type MessageCitation = Citation;
+export type Message = models.Message;
 
-export interface Message {
-  id: string;
-  chatId: string;
-  role: 'user' | 'assistant';
-  content: string;
-  createdAt: string;
+export interface GitHubTokenStatus {
+  tokenLast4: string;
+  githubLogin?: string;
+  updatedAt: string;
 }
 
 async function fetchApi(
@@ -39,8 +40,9 @@ async function fetchApi(
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   _token?: string // Token parameter kept for backward compatibility but not used (auth via cookies)
 ) {
+  // Multipart bodies get their Content-Type (with boundary) from the browser
   const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
+    ...(!(options.body instanceof FormData) && { 'Content-Type': 'application/json' }),
     ...(options.headers as Record<string, string>),
   };
   
@@ -108,10 +110,33 @@ export async function signup(email: string, password: string, name: string) {
 
 // Repository API
 // Token parameter is optional - authentication is handled via cookies to avoid 431 errors
-export async function createRepository(url: string, token?: string): Promise<{ repository: Repository }> {
+// `ref` selects a branch, tag or commit; URLs like github.com/owner/repo/tree/<ref> also work.
+// Non-GitHub http(s) URLs are cloned with git
+export async function createRepository(url: string, token?: string, ref?: string): Promise<{ repository: Repository }> {
+  return fetchApi('/repositories', {
+    method: 'POST',
+    body: JSON.stringify({ url, ...(ref && { ref }) }),
+  }, token);
+}
+
+// Index a directory (or git checkout) on the server by absolute path
+export async function createRepositoryFromPath(path: string, token?: string, ref?: string): Promise<{ repository: Repository }> {
   return fetchApi('/repositories', {
     method: 'POST',
-    body: JSON.stringify({ url }),
+    body: JSON.stringify({ path, ...(ref && { ref }) }),
+  }, token);
+}
+
+// Index an uploaded .zip or .tar.gz; the name defaults to the file name
+export async function uploadRepository(file: File, token?: string, name?: string): Promise<{ repository: Repository }> {
+  const body = new FormData();
+  body.append('file', file);
+  if (name) {
+    body.append('name', name);
+  }
+  return fetchApi('/repositories/upload', {
+    method: 'POST',
+    body,
   }, token);
 }
 
@@ -133,6 +158,70 @@ export async function deleteRepository(repoId: string, token?: string): Promise<
   }, token);
 }
 
+export async function updateRepositoryPathRules(
+  repoId: string,
+  rules: { includePatterns?: string[]; excludePatterns?: string[] },
+  token?: string
+): Promise<{ repository: Repository }> {
+  return fetchApi(`/repositories/${encodeURIComponent(repoId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(rules),
+  }, token);
+}
+
+// null resets the provider or model to the server default
+export async function updateRepositoryChatModel(
+  repoId: string,
+  selection: { llmProvider?: ChatModelProvider | null; llmModel?: string | null },
+  token?: string
+): Promise<{ repository: Repository }> {
+  return fetchApi(`/repositories/${encodeURIComponent(repoId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(selection),
+  }, token);
+}
+
+// Stops a queued analysis immediately; a running one stops at its next checkpoint
+export async function cancelRepositoryIndexing(repoId: string, token?: string): Promise<{ repository: Repository }> {
+  return fetchApi(`/repositories/${encodeURIComponent(repoId)}/cancel`, {
+    method: 'POST',
+  }, token);
+}
+
+// Re-analyzes the whole repository; chats and messages are kept
+export async function reindexRepository(repoId: string, token?: string): Promise<{ repository: Repository }> {
+  return fetchApi(`/repositories/${encodeURIComponent(repoId)}/reindex`, {
+    method: 'POST',
+  }, token);
+}
+
+export async function syncRepository(repoId: string, token?: string): Promise<{ repository: Repository }> {
+  return fetchApi(`/repositories/${encodeURIComponent(repoId)}/sync`, {
+    method: 'POST',
+  }, token);
+}
+
+// Settings API
+// The token itself is never returned; only the last four characters and the GitHub login
+export async function getGitHubTokenStatus(token?: string): Promise<{ githubToken: GitHubTokenStatus | null }> {
+  return fetchApi('/settings/github-token', {
+    method: 'GET',
+  }, token);
+}
+
+export async function saveGitHubToken(githubToken: string, token?: string): Promise<{ githubToken: GitHubTokenStatus }> {
+  return fetchApi('/settings/github-token', {
+    method: 'PUT',
+    body: JSON.stringify({ token: githubToken }),
+  }, token);
+}
+
+export async function deleteGitHubToken(token?: string): Promise<{ message: string }> {
+  return fetchApi('/settings/github-token', {
+    method: 'DELETE',
+  }, token);
+}
+
 // Chat API
 export async function createChat(repoId: string, title: string, token?: string): Promise<{ chat: Chat }> {
   return fetchApi('/chats', {
@@ -151,11 +240,12 @@ export async function getChats(repoId: string, token?: string): Promise<{ chats:
 export async function sendMessage(
   chatId: string, 
   content: string, 
-  token?: string
+  token?: string,
+  mode?: AnswerMode
 ): Promise<{ userMessage: Message; assistantMessage: Message }> {
   return fetchApi('/messages', {
     method: 'POST',
-    body: JSON.stringify({ chatId, content }),
+    body: JSON.stringify({ chatId, content, mode }),
   }, token);
 }
 
@@ -163,4 +253,143 @@ export async function getMessages(chatId: string, token?: string): Promise<{ mes
   return fetchApi(`/messages/${chatId}`, {
     method: 'GET',
   }, token);
-}
\ No newline at end of file
+}
+
+export interface StreamMessageHandlers {
+  onUserMessage?: (message: Message) => void;
+  onStatus?: (status: string) => void;
+  onToken?: (delta: string) => void;
+}
+
+export interface StreamMessageResult {
+  userMessage: Message;
+  assistantMessage: Message;
+  updatedChat?: Chat;
+}
+
+export interface RepositoryProgressHandlers {
+  onProgress?: (update: { status: Repository['status']; progress?: IndexProgress; indexJob?: IndexJob }) => void;
+  /** Called once indexing has finished (ready or error) */
+  onDone?: (repository: Repository) => void;
+}
+
+// Repository Progress API
+// Subscribes to Server-Sent Events from /repositories/:id/progress; returns an unsubscribe function
+export function subscribeToRepositoryProgress(
+  repoId: string,
+  handlers: RepositoryProgressHandlers
+): () => void {
+  // EventSource sends cookies for same-origin requests and reconnects on its own
+  const source = new EventSource(`${BASE_URL}/repositories/${encodeURIComponent(repoId)}/progress`);
+
+  source.addEventListener('progress', (event) => {
+    handlers.onProgress?.(JSON.parse((event as MessageEvent).data));
+  });
+
+  source.addEventListener('done', (event) => {
+    source.close();
+    handlers.onDone?.(JSON.parse((event as MessageEvent).data).repository);
+  });
+
+  source.addEventListener('error', (event) => {
+    // Server-sent errors carry data; connection errors are retried by EventSource
+    if (event instanceof MessageEvent && event.data) {
+      console.error(`API Progress Error for ${repoId}:`, JSON.parse(event.data).error);
+      source.close();
+    }
+  });
+
+  return () => source.close();
+}
+
+// Streaming Message API
+// Reads Server-Sent Events from /messages/stream and resolves with the persisted messages
+export async function streamMessage(
+  chatId: string,
+  content: string,
+  handlers: StreamMessageHandlers = {},
+  /** "agent" lets the model explore the repository with tools before answering */
+  mode?: AnswerMode
+): Promise<StreamMessageResult> {
+  // Authentication is handled via cookies
+  const response = await fetch(`${BASE_URL}/messages/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chatId, content, mode }),
+    credentials: 'include',
+  });
+
+  if (response.status === 431) {
+    throw new Error('Request headers are too large. Please try clearing your browser cookies or signing out and signing back in.');
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (!response.ok || !contentType?.includes('text/event-stream') || !response.body) {
+    let message = `Request failed with status ${response.status}`;
+    if (contentType?.includes('application/json')) {
+      const data = await response.json();
+      message = data.error || message;
+    }
+    console.error(`API Stream Error ${response.status}: ${message}`);
+    throw new Error(message);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: StreamMessageResult | null = null;
+
+  const handleEvent = (rawEvent: string) => {
+    let event = 'message';
+    let data = '';
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data += line.slice(5).trim();
+      }
+    }
+    if (!data) return;
+
+    const payload = JSON.parse(data);
+    switch (event) {
+      case 'user':
+        handlers.onUserMessage?.(payload.userMessage);
+        break;
+      case 'status':
+        handlers.onStatus?.(payload.message);
+        break;
+      case 'token':
+        handlers.onToken?.(payload.delta);
+        break;
+      case 'done':
+        result = payload;
+        break;
+      case 'error':
+        throw new Error(payload.error || 'Streaming failed');
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      handleEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    handleEvent(buffer);
+  }
+
+  if (!result) {
+    throw new Error('Stream ended before the response was saved');
+  }
+
+  return result;
+}